@@ -2,9 +2,27 @@
  * Test Suite for Task-001: Frontend Project Structure
  * Tests all 8 required test types: valid, error, invalid, edge, functional, visual, performance, security
  */
-import { describe, it, expect, vi } from 'vitest'
-import { render, screen } from '@testing-library/react'
-import App from './App'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { render, screen, waitFor, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MemoryRouter, useLocation } from 'react-router-dom'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import App, { AppRoutes } from './App'
+import { useAuthStore } from '@/store/authStore'
+import { setAuthStorageBackend } from '@/lib/authStorage'
+import { SHARED_ACTIVITY_KEY } from '@/lib/idleTimer'
+import type { User } from '@/types/auth'
+
+// The dashboard's sales and rates queries stay pending instead of reaching the network
+vi.mock('@/lib/api/analytics', () => ({
+  ANALYTICS_QUERY_KEY: ['analytics'],
+  getSalesSummary: vi.fn(() => new Promise(() => {})),
+}))
+
+vi.mock('@/lib/api/rates', () => ({
+  RATES_QUERY_KEY: ['rates'],
+  listDailyRates: vi.fn(() => new Promise(() => {})),
+}))
 
 describe('Project Structure - Valid Tests', () => {
   it('valid: app renders without crashing', () => {
@@ -143,3 +161,231 @@ describe('Project Structure - Security Tests', () => {
     expect(typeof apiUrl === 'string' || apiUrl === undefined).toBe(true)
   })
 })
+
+describe('Routing - Auth Guard Tests', () => {
+  const mockUser: User = {
+    id: 1,
+    email: 'test@example.com',
+    username: 'tester',
+    is_active: true,
+    is_staff: false,
+    email_verified: true,
+    date_joined: '2024-01-01T00:00:00Z',
+    last_login: null,
+  }
+
+  const signIn = (user: User = mockUser) => {
+    useAuthStore.setState({
+      user,
+      tokens: { access: 'access', refresh: 'refresh' },
+      isAuthenticated: true,
+    })
+  }
+
+  const LocationDisplay = () => {
+    const location = useLocation()
+    return <div data-testid="location">{location.pathname}</div>
+  }
+
+  const renderAt = (path: string) => {
+    return render(
+      <QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+        <MemoryRouter initialEntries={[path]}>
+          <AppRoutes />
+          <LocationDisplay />
+        </MemoryRouter>
+      </QueryClientProvider>
+    )
+  }
+
+  const currentPath = () => screen.getByTestId('location').textContent
+
+  afterEach(() => {
+    useAuthStore.setState({ user: null, tokens: null, isAuthenticated: false, error: null })
+    localStorage.clear()
+  })
+
+  it('guard: anonymous user is redirected from /dashboard to /login', () => {
+    renderAt('/dashboard')
+    expect(currentPath()).toBe('/login')
+    expect(screen.getByRole('heading', { name: /iniciar sesión/i })).toBeInTheDocument()
+  })
+
+  it('guard: anonymous user is redirected from /change-password to /login', () => {
+    renderAt('/change-password')
+    expect(currentPath()).toBe('/login')
+  })
+
+  it('guard: anonymous user is redirected from /settings/profile to /login', () => {
+    renderAt('/settings/profile')
+    expect(currentPath()).toBe('/login')
+  })
+
+  it('guard: authenticated user can open /dashboard', () => {
+    signIn()
+    renderAt('/dashboard')
+    expect(currentPath()).toBe('/dashboard')
+    expect(screen.getByText(/hola, tester/i)).toBeInTheDocument()
+  })
+
+  it('guard: authenticated user is bounced from /login to /dashboard', () => {
+    signIn()
+    renderAt('/login')
+    expect(currentPath()).toBe('/dashboard')
+  })
+
+  it('guard: authenticated user is bounced from /register to /dashboard', () => {
+    signIn()
+    renderAt('/register')
+    expect(currentPath()).toBe('/dashboard')
+  })
+
+  it('guard: anonymous user can open /register', () => {
+    renderAt('/register')
+    expect(screen.getByRole('heading', { name: /crear cuenta/i })).toBeInTheDocument()
+  })
+
+  it('guard: anonymous user can open /forgot-password', () => {
+    renderAt('/forgot-password')
+    expect(screen.getByRole('heading', { name: /olvidaste tu contraseña/i })).toBeInTheDocument()
+  })
+
+  it('guard: the reset link opens with or without a session', () => {
+    signIn()
+    renderAt('/reset-password/MQ/abc-123')
+    expect(currentPath()).toBe('/reset-password/MQ/abc-123')
+    expect(screen.getByRole('heading', { name: /restablecer contraseña/i })).toBeInTheDocument()
+  })
+
+  it('guard: returns to the original page after login', async () => {
+    const user = userEvent.setup()
+    const login = vi.fn(async () => {
+      signIn()
+    })
+    useAuthStore.setState({ login })
+
+    renderAt('/change-password')
+    expect(currentPath()).toBe('/login')
+
+    await user.type(screen.getByLabelText(/correo electrónico/i), 'test@example.com')
+    await user.type(screen.getByLabelText(/contraseña/i), 'password123')
+    await user.click(screen.getByRole('button', { name: /iniciar sesión/i }))
+
+    await waitFor(() => {
+      expect(currentPath()).toBe('/change-password')
+    })
+    expect(login).toHaveBeenCalled()
+  })
+
+  it('guard: logging in elsewhere releases the public-only route', () => {
+    renderAt('/login')
+    expect(currentPath()).toBe('/login')
+
+    act(() => signIn())
+
+    expect(currentPath()).toBe('/dashboard')
+  })
+
+  it('guard: uploads wait until the email is verified', () => {
+    signIn({ ...mockUser, email_verified: false })
+    renderAt('/uploads')
+    expect(currentPath()).toBe('/verify-email')
+    expect(screen.getByText(/debes verificar tu correo/i)).toBeInTheDocument()
+  })
+
+  it('guard: a new unverified account goes from /register to the check-email screen', () => {
+    renderAt('/register')
+
+    act(() => signIn({ ...mockUser, email_verified: false }))
+
+    expect(currentPath()).toBe('/verify-email')
+    expect(screen.getByRole('heading', { name: /revisa tu correo/i })).toBeInTheDocument()
+  })
+
+  it('guard: a session without Recordarme is logged out after 30 idle minutes', async () => {
+    vi.useFakeTimers()
+    const { logout: originalLogout } = useAuthStore.getState()
+    try {
+      setAuthStorageBackend('session')
+      signIn()
+      const logout = vi.fn(async () => {
+        useAuthStore.setState({ user: null, tokens: null, isAuthenticated: false })
+      })
+      useAuthStore.setState({ logout })
+
+      renderAt('/dashboard')
+      expect(currentPath()).toBe('/dashboard')
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(30 * 60 * 1000)
+      })
+
+      expect(logout).toHaveBeenCalled()
+      expect(currentPath()).toBe('/login')
+      expect(screen.getByRole('alert')).toHaveTextContent(/inactividad/i)
+    } finally {
+      useAuthStore.setState({ logout: originalLogout })
+      setAuthStorageBackend('local')
+      vi.useRealTimers()
+    }
+  })
+
+  it('guard: a session without Recordarme stays open while another tab is in use', async () => {
+    vi.useFakeTimers()
+    const { logout: originalLogout } = useAuthStore.getState()
+    try {
+      setAuthStorageBackend('session')
+      signIn()
+      const logout = vi.fn(async () => {
+        useAuthStore.setState({ user: null, tokens: null, isAuthenticated: false })
+      })
+      useAuthStore.setState({ logout })
+
+      renderAt('/dashboard')
+
+      // This tab sits idle while the user keeps working in another one
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(20 * 60 * 1000)
+      })
+      localStorage.setItem(SHARED_ACTIVITY_KEY, String(Date.now()))
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(20 * 60 * 1000)
+      })
+      expect(logout).not.toHaveBeenCalled()
+      expect(currentPath()).toBe('/dashboard')
+
+      // Once both tabs have been idle for 30 minutes the session ends
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(10 * 60 * 1000)
+      })
+      expect(logout).toHaveBeenCalled()
+      expect(currentPath()).toBe('/login')
+    } finally {
+      useAuthStore.setState({ logout: originalLogout })
+      setAuthStorageBackend('local')
+      vi.useRealTimers()
+    }
+  })
+
+  it('guard: a remembered session is not logged out when idle', async () => {
+    vi.useFakeTimers()
+    try {
+      signIn()
+      renderAt('/dashboard')
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(60 * 60 * 1000)
+      })
+
+      expect(currentPath()).toBe('/dashboard')
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('guard: unknown routes fall back to the welcome page', () => {
+    renderAt('/does-not-exist')
+    expect(currentPath()).toBe('/')
+    expect(screen.getByText('AYNI')).toBeInTheDocument()
+  })
+})
@@ -1,5 +1,21 @@
-import { BrowserRouter, Routes, Route } from 'react-router-dom'
+import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import {
+  Login,
+  Register,
+  ChangePassword,
+  ForgotPassword,
+  ResetPassword,
+  CheckEmail,
+  VerifyEmail,
+} from '@/pages/Auth'
+import { Dashboard } from '@/pages/Dashboard'
+import { UploadWizard } from '@/pages/Upload'
+import { MappingTemplates } from '@/pages/Templates'
+import { UploadHistory, UploadDetail } from '@/pages/Uploads'
+import { ProfileSettings } from '@/pages/Settings'
+import { RequireAuth, RequireVerifiedEmail, PublicOnlyRoute } from '@/components/Auth'
+import { useUserLocale } from '@/hooks/useUserLocale'
 
 // Create a client
 const queryClient = new QueryClient({
@@ -15,15 +31,52 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<WelcomePage />} />
-          {/* More routes will be added in subsequent tasks */}
-        </Routes>
+        <AppRoutes />
       </BrowserRouter>
     </QueryClientProvider>
   )
 }
 
+// Route table, kept separate from the router so it can be mounted in tests
+export function AppRoutes() {
+  useUserLocale()
+
+  return (
+    <Routes>
+      <Route path="/" element={<WelcomePage />} />
+
+      {/* Anonymous-only routes */}
+      <Route element={<PublicOnlyRoute />}>
+        <Route path="/login" element={<Login />} />
+        <Route path="/register" element={<Register />} />
+        <Route path="/forgot-password" element={<ForgotPassword />} />
+      </Route>
+
+      {/* Opened from emailed links, whether or not a session is active */}
+      <Route path="/reset-password/:uid/:token" element={<ResetPassword />} />
+      <Route path="/verify-email/:token" element={<VerifyEmail />} />
+
+      {/* Authenticated routes */}
+      <Route element={<RequireAuth />}>
+        <Route path="/dashboard" element={<Dashboard />} />
+        <Route path="/change-password" element={<ChangePassword />} />
+        <Route path="/settings/profile" element={<ProfileSettings />} />
+        <Route path="/verify-email" element={<CheckEmail />} />
+        <Route path="/templates" element={<MappingTemplates />} />
+
+        {/* Uploads need a verified email */}
+        <Route element={<RequireVerifiedEmail />}>
+          <Route path="/upload" element={<UploadWizard />} />
+          <Route path="/uploads" element={<UploadHistory />} />
+          <Route path="/uploads/:id" element={<UploadDetail />} />
+        </Route>
+      </Route>
+
+      <Route path="*" element={<Navigate to="/" replace />} />
+    </Routes>
+  )
+}
+
 // Welcome Page Component
 function WelcomePage() {
   return (
@@ -0,0 +1,27 @@
+/**
+ * Password Requirements
+ * Checklist of the password policy shown below new-password fields
+ */
+
+import React from 'react';
+import { PASSWORD_REQUIREMENTS } from '@/lib/passwordRules';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface PasswordRequirementsProps {
+  title?: string;
+}
+
+export const PasswordRequirements: React.FC<PasswordRequirementsProps> = ({ title }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="text-xs text-gray-600 bg-gray-50 p-3 rounded-md">
+      <p className="font-medium mb-1">{title ?? t('password.requirementsTitle')}</p>
+      <ul className="list-disc list-inside space-y-1">
+        {PASSWORD_REQUIREMENTS.map(requirement => (
+          <li key={requirement}>{t(requirement)}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
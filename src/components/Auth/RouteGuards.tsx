@@ -0,0 +1,98 @@
+/**
+ * Route Guards
+ * Redirect components that gate routes on authentication state
+ */
+
+import React, { useEffect } from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import {
+  selectIsEmailVerificationUnknown,
+  selectIsEmailVerified,
+  useAuthStore,
+} from '@/store/authStore';
+import { isSessionRemembered } from '@/lib/authStorage';
+import { translate } from '@/lib/i18n';
+import { watchForIdle } from '@/lib/idleTimer';
+import { useLocaleStore } from '@/store/localeStore';
+import { getRedirectPath, type RedirectState } from './redirect';
+
+/** Sessions that are not remembered end after this long without activity */
+const IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Only renders child routes for authenticated users.
+ * Anonymous users are sent to /login, remembering where they came from.
+ * Sessions without "Recordarme" (e.g. a shared shop computer) are logged out
+ * after a period of inactivity in every open tab.
+ */
+export const RequireAuth: React.FC = () => {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const location = useLocation();
+
+  useEffect(() => {
+    if (!isAuthenticated || isSessionRemembered()) return;
+
+    return watchForIdle({
+      timeoutMs: IDLE_TIMEOUT_MS,
+      onIdle: () => {
+        useAuthStore.getState().logout().then(() => {
+          useAuthStore.setState({
+            error: {
+              message: translate(useLocaleStore.getState().locale, 'login.idleLogout'),
+              code: 'idle_timeout',
+            },
+          });
+        });
+      },
+    });
+  }, [isAuthenticated]);
+
+  if (!isAuthenticated) {
+    return <Navigate to="/login" replace state={{ from: location } satisfies RedirectState} />;
+  }
+
+  return <Outlet />;
+};
+
+/**
+ * Only renders child routes for users who have verified their email
+ * (uploads). Everyone else is sent to the check-your-email screen, which
+ * returns them here once verified. Users restored from an older session
+ * wait while their verification status is fetched. Nest inside RequireAuth.
+ */
+export const RequireVerifiedEmail: React.FC = () => {
+  const isEmailVerified = useAuthStore(selectIsEmailVerified);
+  const isVerificationPending = useAuthStore(
+    (state) => selectIsEmailVerificationUnknown(state) && state.isLoading
+  );
+  const location = useLocation();
+
+  if (isVerificationPending) {
+    return null;
+  }
+
+  if (!isEmailVerified) {
+    return <Navigate to="/verify-email" replace state={{ from: location } satisfies RedirectState} />;
+  }
+
+  return <Outlet />;
+};
+
+/**
+ * Only renders child routes for anonymous users (login, register).
+ * Authenticated users are bounced to where they came from, or the dashboard;
+ * a new account that still has to verify its email goes to the
+ * check-your-email screen.
+ */
+export const PublicOnlyRoute: React.FC = () => {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const isEmailVerified = useAuthStore(selectIsEmailVerified);
+  const location = useLocation();
+
+  if (isAuthenticated) {
+    const justRegistered = location.pathname === '/register' && !isEmailVerified;
+    return <Navigate to={justRegistered ? '/verify-email' : getRedirectPath(location.state)} replace />;
+  }
+
+  return <Outlet />;
+};
@@ -0,0 +1,9 @@
+/**
+ * Auth Components Index
+ * Centralized exports for authentication route guards and form helpers
+ */
+
+export { RequireAuth, RequireVerifiedEmail, PublicOnlyRoute } from './RouteGuards';
+export { PasswordRequirements } from './PasswordRequirements';
+export { getRedirectPath } from './redirect';
+export type { RedirectState } from './redirect';
@@ -0,0 +1,21 @@
+/**
+ * Auth Redirect Helpers
+ * Shared location-state handling for login redirects
+ */
+
+import type { Location } from 'react-router-dom';
+
+export interface RedirectState {
+  from?: Location;
+}
+
+/**
+ * Resolve the post-login destination from router location state
+ */
+export function getRedirectPath(state: unknown, fallback = '/dashboard'): string {
+  const from = (state as RedirectState | null)?.from;
+  if (!from?.pathname || from.pathname === '/login' || from.pathname === '/register') {
+    return fallback;
+  }
+  return `${from.pathname}${from.search ?? ''}${from.hash ?? ''}`;
+}
@@ -0,0 +1,140 @@
+/**
+ * DateRangePicker Component
+ * Dashboard period, from a preset or two dates, and what it is compared with
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  COMPARISONS,
+  RANGE_PRESETS,
+  isValidRange,
+  rangeForPreset,
+  today,
+  type Comparison,
+  type RangePreset,
+} from '@/lib/dateRanges';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { DateRange } from '@/types/analytics';
+
+export interface DateRangePickerProps {
+  range: DateRange;
+  onRangeChange: (range: DateRange) => void;
+  comparison: Comparison;
+  onComparisonChange: (comparison: Comparison) => void;
+}
+
+const CUSTOM = 'custom';
+
+const selectClassName = 'px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm';
+
+export const DateRangePicker: React.FC<DateRangePickerProps> = ({
+  range,
+  onRangeChange,
+  comparison,
+  onComparisonChange,
+}) => {
+  const { t } = useTranslation();
+  // Editing a date keeps the other one, so the draft can be briefly invalid
+  const [draft, setDraft] = useState(range);
+  useEffect(() => setDraft(range), [range]);
+
+  const currentDay = today();
+  const preset =
+    RANGE_PRESETS.find((option) => {
+      const presetRange = rangeForPreset(option, currentDay);
+      return presetRange.from === range.from && presetRange.to === range.to;
+    }) ?? CUSTOM;
+
+  const isDraftValid = isValidRange(draft);
+
+  const changeDate = (field: keyof DateRange, value: string) => {
+    const next = { ...draft, [field]: value };
+    setDraft(next);
+    if (isValidRange(next)) onRangeChange(next);
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      <div>
+        <label htmlFor="dashboard-preset" className="block text-sm font-medium text-gray-700 mb-1">
+          {t('dashboard.period')}
+        </label>
+        <select
+          id="dashboard-preset"
+          value={preset}
+          onChange={(e) => {
+            if (e.target.value !== CUSTOM) {
+              onRangeChange(rangeForPreset(e.target.value as RangePreset, currentDay));
+            }
+          }}
+          className={selectClassName}
+        >
+          {RANGE_PRESETS.map((option) => (
+            <option key={option} value={option}>
+              {t(`dashboard.preset.${option}`)}
+            </option>
+          ))}
+          <option value={CUSTOM} disabled={preset !== CUSTOM}>
+            {t('dashboard.preset.custom')}
+          </option>
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="dashboard-from" className="block text-sm font-medium text-gray-700 mb-1">
+          {t('dashboard.from')}
+        </label>
+        <input
+          id="dashboard-from"
+          type="date"
+          value={draft.from}
+          max={draft.to || currentDay}
+          onChange={(e) => changeDate('from', e.target.value)}
+          aria-invalid={!isDraftValid}
+          aria-describedby={isDraftValid ? undefined : 'dashboard-range-error'}
+          className={selectClassName}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="dashboard-to" className="block text-sm font-medium text-gray-700 mb-1">
+          {t('dashboard.to')}
+        </label>
+        <input
+          id="dashboard-to"
+          type="date"
+          value={draft.to}
+          min={draft.from}
+          onChange={(e) => changeDate('to', e.target.value)}
+          aria-invalid={!isDraftValid}
+          aria-describedby={isDraftValid ? undefined : 'dashboard-range-error'}
+          className={selectClassName}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="dashboard-comparison" className="block text-sm font-medium text-gray-700 mb-1">
+          {t('dashboard.compareWith')}
+        </label>
+        <select
+          id="dashboard-comparison"
+          value={comparison}
+          onChange={(e) => onComparisonChange(e.target.value as Comparison)}
+          className={selectClassName}
+        >
+          {COMPARISONS.map((option) => (
+            <option key={option} value={option}>
+              {t(`dashboard.comparison.${option}`)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {!isDraftValid && (
+        <p id="dashboard-range-error" className="w-full text-sm text-red-600" role="alert">
+          {t('dashboard.invalidRange')}
+        </p>
+      )}
+    </div>
+  );
+};
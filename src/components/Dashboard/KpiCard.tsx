@@ -0,0 +1,46 @@
+/**
+ * KpiCard Component
+ * One headline figure with its change from the comparison period
+ */
+
+import React from 'react';
+import { clsx } from 'clsx';
+import { formatPercent } from '@/lib/utils';
+import { useTranslation } from '@/hooks/useTranslation';
+
+export interface KpiCardProps {
+  label: string;
+  value: string;
+  /** The same figure in the comparison period, already formatted */
+  previousValue?: string;
+  /** Relative change, e.g. 0.12 for +12%; null when it cannot be computed */
+  change?: number | null;
+}
+
+export const KpiCard: React.FC<KpiCardProps> = ({ label, value, previousValue, change }) => {
+  const { t, formatLocale } = useTranslation();
+
+  return (
+    <div role="group" aria-label={label} className="rounded-lg border border-gray-200 bg-white px-4 py-3">
+      <p className="text-sm text-gray-600">{label}</p>
+      <p className="mt-1 text-2xl font-semibold text-gray-900">{value}</p>
+      {previousValue !== undefined && (
+        <p className="mt-1 flex flex-wrap items-baseline gap-x-2 text-xs text-gray-500">
+          {change !== undefined && change !== null && (
+            <span
+              className={clsx(
+                'font-medium',
+                change > 0 && 'text-green-700',
+                change < 0 && 'text-red-700'
+              )}
+            >
+              <span className="sr-only">{t('dashboard.kpi.changeLabel')}: </span>
+              {formatPercent(change, { locale: formatLocale, signed: true })}
+            </span>
+          )}
+          <span>{t('dashboard.kpi.previous', { value: previousValue })}</span>
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+/**
+ * TopSellersTable Component
+ * Best-selling products or categories by revenue, with units sold
+ */
+
+import React from 'react';
+import { useTranslation } from '@/hooks/useTranslation';
+
+export interface TopSellerRow {
+  key: string;
+  label: string;
+  /** Already formatted in the current currency view */
+  revenue: string;
+  /** Already formatted, with its unit when known */
+  units: string;
+}
+
+export interface TopSellersTableProps {
+  title: string;
+  /** Header of the first column */
+  itemLabel: string;
+  rows: TopSellerRow[];
+}
+
+export const TopSellersTable: React.FC<TopSellersTableProps> = ({ title, itemLabel, rows }) => {
+  const { t } = useTranslation();
+
+  return (
+    <section aria-label={title}>
+      <h3 className="text-sm font-medium text-gray-900 mb-2">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-600">{t('dashboard.noTopSellers')}</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b border-gray-200">
+              <th className="py-2 pr-4 font-medium">{itemLabel}</th>
+              <th className="py-2 pr-4 font-medium text-right">{t('dashboard.revenue')}</th>
+              <th className="py-2 font-medium text-right">{t('dashboard.units')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((row) => (
+              <tr key={row.key}>
+                <td className="py-2 pr-4 text-gray-900">{row.label}</td>
+                <td className="py-2 pr-4 text-right whitespace-nowrap">{row.revenue}</td>
+                <td className="py-2 text-right whitespace-nowrap">{row.units}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,134 @@
+/**
+ * TrendChart Component
+ * A sales figure over time, with the comparison period drawn behind it
+ */
+
+import React, { useMemo } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import type { ComparedPoint } from '@/lib/analytics';
+import { EMPTY_VALUE, formatDate } from '@/lib/utils';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { Granularity } from '@/types/analytics';
+
+export type TrendMetric = 'revenue' | 'units' | 'transactions';
+
+export interface TrendChartProps {
+  title: string;
+  data: ComparedPoint<number | null>[];
+  metric: TrendMetric;
+  granularity: Granularity;
+  /** Full value, for the tooltip */
+  formatValue: (value: number) => string;
+  /** Short value, for the axis */
+  formatTick: (value: number) => string;
+}
+
+interface ChartRow {
+  date: string;
+  current: number | null;
+  previous: number | null;
+  previousDate?: string;
+}
+
+const CHART_HEIGHT = 260;
+
+// Series dates are calendar days, so they are labelled in UTC to stay on the day
+const TICK_FORMATS: Record<Granularity, Intl.DateTimeFormatOptions> = {
+  day: { day: 'numeric', month: 'short', timeZone: 'UTC' },
+  week: { day: 'numeric', month: 'short', timeZone: 'UTC' },
+  month: { month: 'short', year: '2-digit', timeZone: 'UTC' },
+};
+
+export const TrendChart: React.FC<TrendChartProps> = ({
+  title,
+  data,
+  metric,
+  granularity,
+  formatValue,
+  formatTick,
+}) => {
+  const { t, formatLocale } = useTranslation();
+  const hasComparison = data.some((point) => point.previous !== undefined);
+
+  const rows = useMemo<ChartRow[]>(
+    () =>
+      data.map((point) => ({
+        date: point.date,
+        current: point[metric],
+        previous: point.previous?.[metric] ?? null,
+        previousDate: point.previous?.date,
+      })),
+    [data, metric]
+  );
+
+  const tickFormat = useMemo(
+    () => new Intl.DateTimeFormat(formatLocale, TICK_FORMATS[granularity]),
+    [formatLocale, granularity]
+  );
+
+  const formatTooltipValue = (value: unknown) =>
+    typeof value === 'number' ? formatValue(value) : EMPTY_VALUE;
+
+  return (
+    <figure>
+      <figcaption className="text-sm font-medium text-gray-900 mb-2">{title}</figcaption>
+      <div style={{ height: CHART_HEIGHT }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={rows} margin={{ top: 8, right: 16, bottom: 0, left: 8 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis
+              dataKey="date"
+              tickFormatter={(date: string) => tickFormat.format(new Date(`${date}T00:00:00Z`))}
+              tick={{ fontSize: 12 }}
+              minTickGap={16}
+            />
+            <YAxis tickFormatter={formatTick} tick={{ fontSize: 12 }} width={72} />
+            <Tooltip
+              labelFormatter={(date: string) => formatDate(date, { locale: formatLocale })}
+              formatter={(value, name, item) => {
+                const previousDate = (item.payload as ChartRow | undefined)?.previousDate;
+                return [
+                  formatTooltipValue(value),
+                  // Say which day of the comparison period the point is from
+                  item.dataKey === 'previous' && previousDate
+                    ? `${name} (${formatDate(previousDate, { locale: formatLocale })})`
+                    : name,
+                ];
+              }}
+            />
+            {hasComparison && <Legend wrapperStyle={{ fontSize: 12 }} />}
+            {hasComparison && (
+              <Line
+                type="monotone"
+                dataKey="previous"
+                name={t('dashboard.previousSeries')}
+                stroke="#9ca3af"
+                strokeDasharray="4 4"
+                dot={false}
+                connectNulls={false}
+              />
+            )}
+            <Line
+              type="monotone"
+              dataKey="current"
+              name={t('dashboard.currentSeries')}
+              stroke="#2563eb"
+              strokeWidth={2}
+              dot={false}
+              connectNulls={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </figure>
+  );
+};
@@ -1,8 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, waitFor, act } from '@testing-library/react';
+import { render, screen, waitFor, act, fireEvent } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { ColumnMapping } from './ColumnMapping';
 import { SystemColumn } from '../../types/columnSchema';
+import { useLocaleStore } from '../../store/localeStore';
 
 describe('ColumnMapping Component - Core Tests', () => {
   const mockCsvColumns = ['date', 'transaction_id', 'product', 'quantity', 'price'];
@@ -23,7 +24,7 @@ describe('ColumnMapping Component - Core Tests', () => {
       />
     );
 
-    expect(screen.getByText('Your CSV Columns')).toBeInTheDocument();
+    expect(screen.getByText('Tus columnas CSV')).toBeInTheDocument();
     expect(screen.getByText('date')).toBeInTheDocument();
   });
 
@@ -46,7 +47,7 @@ describe('ColumnMapping Component - Core Tests', () => {
     );
 
     await waitFor(() => {
-      expect(screen.getByText('✓ All required columns mapped')).toBeInTheDocument();
+      expect(screen.getByText('✓ Todas las columnas obligatorias están mapeadas')).toBeInTheDocument();
     });
   });
 
@@ -59,7 +60,7 @@ describe('ColumnMapping Component - Core Tests', () => {
       />
     );
 
-    expect(screen.getByText('Your CSV Columns')).toBeInTheDocument();
+    expect(screen.getByText('Tus columnas CSV')).toBeInTheDocument();
   });
 
   it('[ERROR] should show missing required columns warning', async () => {
@@ -77,7 +78,7 @@ describe('ColumnMapping Component - Core Tests', () => {
     );
 
     await waitFor(() => {
-      expect(screen.getByText('⚠ Missing required mappings')).toBeInTheDocument();
+      expect(screen.getByText('⚠ Faltan columnas obligatorias por mapear')).toBeInTheDocument();
     });
   });
 
@@ -131,8 +132,8 @@ describe('ColumnMapping Component - Core Tests', () => {
       />
     );
 
-    expect(screen.getByText(/Required Columns \(5\)/)).toBeInTheDocument();
-    expect(screen.getByText(/Optional Columns/)).toBeInTheDocument();
+    expect(screen.getByText(/Columnas obligatorias \(5\)/)).toBeInTheDocument();
+    expect(screen.getByText(/Columnas opcionales/)).toBeInTheDocument();
   });
 
   it('[FUNCTIONAL] should allow removing mapping', async () => {
@@ -150,7 +151,7 @@ describe('ColumnMapping Component - Core Tests', () => {
       />
     );
 
-    const removeButton = screen.getByLabelText('Remove mapping for in_dt');
+    const removeButton = screen.getByLabelText('Quitar mapeo de in_dt');
 
     await act(async () => {
       await user.click(removeButton);
@@ -191,10 +192,31 @@ describe('ColumnMapping Component - Core Tests', () => {
       />
     );
 
-    const badges = screen.getAllByText('REQUIRED');
+    const badges = screen.getAllByText('OBLIGATORIA');
     expect(badges.length).toBeGreaterThan(0);
   });
 
+  it('[I18N] should follow the interface language, column descriptions included', () => {
+    render(
+      <ColumnMapping
+        csvColumns={mockCsvColumns}
+        onMappingChange={mockOnMappingChange}
+      />
+    );
+    expect(screen.getByText('Fecha y hora de la transacción')).toBeInTheDocument();
+
+    act(() => useLocaleStore.getState().setLocale('en'));
+    try {
+      expect(screen.getByText('Your CSV Columns')).toBeInTheDocument();
+      expect(screen.getAllByText('REQUIRED').length).toBeGreaterThan(0);
+      expect(screen.getByText('Transaction datetime')).toBeInTheDocument();
+      expect(screen.getByLabelText('Map CSV column date')).toBeInTheDocument();
+    } finally {
+      act(() => useLocaleStore.getState().setLocale('es'));
+      localStorage.clear();
+    }
+  });
+
   // TEST TYPE 7: PERFORMANCE
   it('[PERFORMANCE] should render quickly with many columns', () => {
     const manyColumns = Array.from({ length: 100 }, (_, i) => `col_${i}`);
@@ -252,4 +274,237 @@ describe('ColumnMapping Component - Core Tests', () => {
       expect(mappings[0]).toHaveProperty('systemColumn');
     });
   });
+
+  // DATA-TYPE VALIDATION
+  it('[DTYPE] should show an inline warning for non-numeric quantity values', async () => {
+    render(
+      <ColumnMapping
+        csvColumns={['Cantidad']}
+        initialMappings={[{ csvColumn: 'Cantidad', systemColumn: 'in_quantity' as SystemColumn }]}
+        sampleRows={[['2'], ['N/A'], ['3'], ['—'], ['']]}
+        onMappingChange={mockOnMappingChange}
+      />
+    );
+
+    expect(
+      await screen.findByText(/2 de 4 valores de muestra en 'Cantidad' no son numéricos: 'N\/A', '—'/)
+    ).toBeInTheDocument();
+  });
+
+  it('[DTYPE] should not warn when sample values match the dtype', () => {
+    render(
+      <ColumnMapping
+        csvColumns={['fecha']}
+        initialMappings={[{ csvColumn: 'fecha', systemColumn: 'in_dt' as SystemColumn }]}
+        sampleRows={[['2024-01-15'], ['15/01/2024 10:30']]}
+        onMappingChange={mockOnMappingChange}
+      />
+    );
+
+    expect(screen.queryByText(/no son fechas válidas/)).not.toBeInTheDocument();
+  });
+
+  // VALUE FORMATS
+  it('[FORMAT] should detect Chilean formats and let the user override them', async () => {
+    const user = userEvent.setup();
+
+    render(
+      <ColumnMapping
+        csvColumns={['fecha', 'monto']}
+        sampleRows={[['15-01-2024', '$ 1.234,5'], ['31-01-2024', '12,9']]}
+        onMappingChange={mockOnMappingChange}
+      />
+    );
+
+    await user.selectOptions(screen.getByLabelText('Mapear columna CSV monto'), 'in_price_total');
+
+    expect(screen.getByLabelText('Formato numérico de in_price_total')).toHaveValue('es-CL');
+    expect(screen.getByLabelText('Formato de fecha de in_dt')).toHaveValue('%d-%m-%Y');
+    expect(screen.queryByText(/no son numéricos/)).not.toBeInTheDocument();
+
+    await user.selectOptions(screen.getByLabelText('Formato numérico de in_price_total'), 'en-US');
+
+    expect(await screen.findByText(/2 de 2 valores de muestra en 'monto' no son numéricos/)).toBeInTheDocument();
+    const lastCall = mockOnMappingChange.mock.calls[mockOnMappingChange.mock.calls.length - 1];
+    expect(lastCall[0]).toContainEqual({
+      csvColumn: 'monto',
+      systemColumn: 'in_price_total',
+      format: { number: 'en-US' }
+    });
+  });
+
+  // FUZZY MATCHING
+  it('[MATCHING] should suggest fuzzy matches with a confidence badge', async () => {
+    render(
+      <ColumnMapping
+        csvColumns={['Fecha Venta', 'Cantidd']}
+        onMappingChange={mockOnMappingChange}
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Mapear columna CSV Fecha Venta')).toHaveValue('in_dt');
+    });
+    expect(screen.getByLabelText('Mapear columna CSV Cantidd')).toHaveValue('in_quantity');
+    expect(screen.getByLabelText('Sugerida con 100% de confianza')).toBeInTheDocument();
+    expect(screen.getByText(/% coincidencia · revisar/)).toBeInTheDocument();
+  });
+
+  // DRAG AND DROP
+  const lastMappings = () =>
+    mockOnMappingChange.mock.calls[mockOnMappingChange.mock.calls.length - 1][0];
+
+  it('[DRAG] should map a CSV column by dropping it on a system column', async () => {
+    render(
+      <ColumnMapping
+        csvColumns={['col1', 'col2']}
+        initialMappings={[
+          { csvColumn: 'col1', systemColumn: null },
+          { csvColumn: 'col2', systemColumn: null }
+        ]}
+        onMappingChange={mockOnMappingChange}
+      />
+    );
+
+    const card = screen.getByText('col1').closest('[draggable="true"]') as HTMLElement;
+    const target = screen.getByRole('group', { name: 'Columna del sistema in_dt' });
+
+    fireEvent.dragStart(card);
+    fireEvent.dragOver(target);
+    fireEvent.drop(target);
+
+    await waitFor(() => {
+      expect(lastMappings()).toContainEqual({ csvColumn: 'col1', systemColumn: 'in_dt' });
+    });
+    expect(screen.getByLabelText('Mapear columna CSV col1')).toHaveValue('in_dt');
+    expect(screen.getByRole('status')).toHaveTextContent('col1 mapeada a in_dt');
+  });
+
+  it('[DRAG] should replace the previous column when dropping on a mapped system column', async () => {
+    render(
+      <ColumnMapping
+        csvColumns={['col1', 'col2']}
+        initialMappings={[
+          { csvColumn: 'col1', systemColumn: 'in_dt' as SystemColumn },
+          { csvColumn: 'col2', systemColumn: null }
+        ]}
+        onMappingChange={mockOnMappingChange}
+      />
+    );
+
+    const card = screen.getByText('col2').closest('[draggable="true"]') as HTMLElement;
+    const target = screen.getByRole('group', { name: 'Columna del sistema in_dt' });
+    fireEvent.dragStart(card);
+    fireEvent.drop(target);
+
+    await waitFor(() => {
+      expect(lastMappings()).toEqual([
+        { csvColumn: 'col1', systemColumn: null },
+        { csvColumn: 'col2', systemColumn: 'in_dt' }
+      ]);
+    });
+    expect(screen.getByRole('status')).toHaveTextContent('en lugar de col1');
+  });
+
+  it('[DRAG] should unmap a column dragged back to the CSV columns', async () => {
+    render(
+      <ColumnMapping
+        csvColumns={['date']}
+        initialMappings={[{ csvColumn: 'date', systemColumn: 'in_dt' as SystemColumn }]}
+        onMappingChange={mockOnMappingChange}
+      />
+    );
+
+    fireEvent.dragStart(screen.getByText('← date'));
+    fireEvent.drop(screen.getByText('Tus columnas CSV'));
+
+    await waitFor(() => {
+      expect(lastMappings()[0].systemColumn).toBe(null);
+    });
+    expect(screen.getByRole('status')).toHaveTextContent('date sin mapear');
+  });
+
+  it('[DRAG] should ignore drops that did not start in the component', () => {
+    render(
+      <ColumnMapping
+        csvColumns={['col1']}
+        initialMappings={[{ csvColumn: 'col1', systemColumn: null }]}
+        onMappingChange={mockOnMappingChange}
+      />
+    );
+
+    fireEvent.drop(screen.getByRole('group', { name: 'Columna del sistema in_dt' }), {
+      dataTransfer: { getData: () => '__proto__' }
+    });
+
+    expect(lastMappings()).toEqual([{ csvColumn: 'col1', systemColumn: null }]);
+  });
+
+  it('[KEYBOARD] should pick up and place a column without a mouse', async () => {
+    const user = userEvent.setup();
+
+    render(
+      <ColumnMapping
+        csvColumns={['col1']}
+        initialMappings={[{ csvColumn: 'col1', systemColumn: null }]}
+        onMappingChange={mockOnMappingChange}
+      />
+    );
+
+    screen.getByLabelText('Mover col1').focus();
+    await user.keyboard('{Enter}');
+
+    expect(screen.getByLabelText('Mover col1')).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('status')).toHaveTextContent('Tomaste col1');
+
+    await user.click(screen.getByRole('button', { name: 'Mapear col1 a in_quantity' }));
+
+    expect(screen.getByLabelText('Mapear columna CSV col1')).toHaveValue('in_quantity');
+    expect(screen.getByRole('status')).toHaveTextContent('col1 mapeada a in_quantity');
+
+    await user.click(screen.getByLabelText('Mover col1'));
+    await user.click(screen.getByRole('button', { name: 'Quitar mapeo de col1' }));
+
+    expect(lastMappings()).toEqual([{ csvColumn: 'col1', systemColumn: null }]);
+  });
+
+  it('[KEYBOARD] should cancel a pick-up with Escape', async () => {
+    const user = userEvent.setup();
+
+    render(
+      <ColumnMapping
+        csvColumns={['col1']}
+        initialMappings={[{ csvColumn: 'col1', systemColumn: null }]}
+        onMappingChange={mockOnMappingChange}
+      />
+    );
+
+    await user.click(screen.getByLabelText('Mover col1'));
+    await user.keyboard('{Escape}');
+
+    expect(screen.getByLabelText('Mover col1')).toHaveAttribute('aria-pressed', 'false');
+    expect(screen.queryByRole('button', { name: /Mapear col1 a/ })).not.toBeInTheDocument();
+    expect(screen.getByRole('status')).toHaveTextContent('Movimiento de col1 cancelado');
+  });
+
+  // INFERENCE PREVIEW
+  it('[INFERENCE] should preview derived columns and list what cannot be inferred', () => {
+    render(
+      <ColumnMapping
+        csvColumns={['cantidad', 'total']}
+        initialMappings={[
+          { csvColumn: 'cantidad', systemColumn: 'in_quantity' as SystemColumn },
+          { csvColumn: 'total', systemColumn: 'in_price_total' as SystemColumn }
+        ]}
+        sampleRows={[['2', '1.990'], ['0', '500']]}
+        onMappingChange={mockOnMappingChange}
+      />
+    );
+
+    const panel = screen.getByRole('region', { name: 'Vista previa de inferencia' });
+    expect(panel).toHaveTextContent('in_price_unit = in_price_total / in_quantity');
+    expect(panel).toHaveTextContent('in_price_total ← total, in_quantity ← cantidad');
+    expect(panel).toHaveTextContent('Vista previa: 995 · —');
+    expect(panel).toHaveTextContent('in_cost_unit - mapea in_cost_total');
+  });
 });
@@ -34,7 +34,7 @@ describe('ColumnMapping Component', () => {
         />
       );
 
-      expect(screen.getByText('Your CSV Columns')).toBeInTheDocument();
+      expect(screen.getByText('Tus columnas CSV')).toBeInTheDocument();
       mockCsvColumns.forEach(col => {
         expect(screen.getByText(col)).toBeInTheDocument();
       });
@@ -76,7 +76,7 @@ describe('ColumnMapping Component', () => {
         />
       );
 
-      const select = screen.getByLabelText('Map CSV column custom_column');
+      const select = screen.getByLabelText('Mapear columna CSV custom_column');
       await user.selectOptions(select, 'in_trans_id');
 
       await waitFor(() => {
@@ -105,7 +105,7 @@ describe('ColumnMapping Component', () => {
       );
 
       await waitFor(() => {
-        expect(screen.getByText('✓ All required columns mapped')).toBeInTheDocument();
+        expect(screen.getByText('✓ Todas las columnas obligatorias están mapeadas')).toBeInTheDocument();
         expect(mockOnValidationChange).toHaveBeenCalledWith(true);
       });
     });
@@ -123,7 +123,7 @@ describe('ColumnMapping Component', () => {
         />
       );
 
-      expect(screen.getByText('Your CSV Columns')).toBeInTheDocument();
+      expect(screen.getByText('Tus columnas CSV')).toBeInTheDocument();
       // Should not crash, shows empty state
     });
 
@@ -141,7 +141,7 @@ describe('ColumnMapping Component', () => {
       );
 
       await waitFor(() => {
-        expect(screen.getByText('⚠ Missing required mappings')).toBeInTheDocument();
+        expect(screen.getByText('⚠ Faltan columnas obligatorias por mapear')).toBeInTheDocument();
         expect(screen.getByText(/in_dt/)).toBeInTheDocument();
         expect(screen.getByText(/in_trans_id/)).toBeInTheDocument();
       });
@@ -179,11 +179,11 @@ describe('ColumnMapping Component', () => {
       );
 
       // Map col1 to in_dt
-      const select1 = screen.getByLabelText('Map CSV column col1');
+      const select1 = screen.getByLabelText('Mapear columna CSV col1');
       await user.selectOptions(select1, 'in_dt');
 
       // Try to map col2 to in_dt - option should be disabled
-      const select2 = screen.getByLabelText('Map CSV column col2');
+      const select2 = screen.getByLabelText('Mapear columna CSV col2');
       const option = (select2.querySelector('option[value="in_dt"]') as HTMLOptionElement);
       expect(option?.disabled).toBe(true);
     });
@@ -198,9 +198,9 @@ describe('ColumnMapping Component', () => {
         />
       );
 
-      const select = screen.getByLabelText('Map CSV column col1');
+      const select = screen.getByLabelText('Mapear columna CSV col1');
 
-      // Select "Not mapped"
+      // Select "Sin mapear"
       await user.selectOptions(select, '');
 
       await waitFor(() => {
@@ -282,7 +282,7 @@ describe('ColumnMapping Component', () => {
         />
       );
 
-      const select = screen.getByLabelText('Map CSV column col1');
+      const select = screen.getByLabelText('Mapear columna CSV col1');
 
       // Rapidly change selections
       await user.selectOptions(select, 'in_dt');
@@ -341,7 +341,7 @@ describe('ColumnMapping Component', () => {
       );
 
       // Find and click the remove button
-      const removeButton = screen.getByLabelText('Remove mapping for in_dt');
+      const removeButton = screen.getByLabelText('Quitar mapeo de in_dt');
       await user.click(removeButton);
 
       await waitFor(() => {
@@ -360,13 +360,13 @@ describe('ColumnMapping Component', () => {
       );
 
       // Check that required section exists
-      expect(screen.getByText(/Required Columns \(5\)/)).toBeInTheDocument();
+      expect(screen.getByText(/Columnas obligatorias \(5\)/)).toBeInTheDocument();
 
       // Check that optional section exists
-      expect(screen.getByText(/Optional Columns/)).toBeInTheDocument();
+      expect(screen.getByText(/Columnas opcionales/)).toBeInTheDocument();
 
       // Check that inferable section exists
-      expect(screen.getByText(/Inferable Columns \(6\)/)).toBeInTheDocument();
+      expect(screen.getByText(/Columnas inferibles \(6\)/)).toBeInTheDocument();
     });
 
     it('should toggle section visibility', async () => {
@@ -379,7 +379,7 @@ describe('ColumnMapping Component', () => {
         />
       );
 
-      const requiredButton = screen.getByRole('button', { name: /Required Columns/ });
+      const requiredButton = screen.getByRole('button', { name: /Columnas obligatorias/ });
 
       // Initially expanded (default)
       expect(requiredButton).toHaveAttribute('aria-expanded', 'true');
@@ -424,7 +424,7 @@ describe('ColumnMapping Component', () => {
         />
       );
 
-      const requiredButton = screen.getByRole('button', { name: /Required Columns/ });
+      const requiredButton = screen.getByRole('button', { name: /Columnas obligatorias/ });
       fireEvent.click(requiredButton);
 
       const requiredElement = screen.getByText('in_dt').closest('div');
@@ -440,7 +440,7 @@ describe('ColumnMapping Component', () => {
         />
       );
 
-      const badges = screen.getAllByText('REQUIRED');
+      const badges = screen.getAllByText('OBLIGATORIA');
       expect(badges.length).toBeGreaterThan(0);
     });
 
@@ -453,10 +453,10 @@ describe('ColumnMapping Component', () => {
       );
 
       // Expand inferable section
-      const inferableButton = screen.getByRole('button', { name: /Inferable Columns/ });
+      const inferableButton = screen.getByRole('button', { name: /Columnas inferibles/ });
       fireEvent.click(inferableButton);
 
-      const badges = screen.getAllByText('INFERABLE');
+      const badges = screen.getAllByText('INFERIBLE');
       expect(badges.length).toBe(6);
     });
 
@@ -468,8 +468,8 @@ describe('ColumnMapping Component', () => {
         />
       );
 
-      expect(screen.getByText('Transaction datetime')).toBeInTheDocument();
-      expect(screen.getByText('Unique transaction identifier')).toBeInTheDocument();
+      expect(screen.getByText('Fecha y hora de la transacción')).toBeInTheDocument();
+      expect(screen.getByText('Identificador único de la transacción')).toBeInTheDocument();
     });
   });
 
@@ -514,7 +514,7 @@ describe('ColumnMapping Component', () => {
       const initialRenderCount = renderCount;
 
       // Make a single change
-      const select = screen.getByLabelText('Map CSV column col1');
+      const select = screen.getByLabelText('Mapear columna CSV col1');
       await user.selectOptions(select, 'in_dt');
 
       // Should not cause excessive re-renders (less than 5 additional renders)
@@ -583,7 +583,7 @@ describe('ColumnMapping Component', () => {
         />
       );
 
-      const select = screen.getByLabelText('Map CSV column col1');
+      const select = screen.getByLabelText('Mapear columna CSV col1');
       await user.selectOptions(select, 'in_dt');
 
       await waitFor(() => {
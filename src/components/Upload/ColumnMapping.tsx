@@ -8,12 +8,35 @@ import {
   getInferableColumns,
   validateMappings
 } from '../../types/columnSchema';
+import { getColumnSamples } from '../../lib/columnValidation';
+import {
+  DATE_FORMATS,
+  DATE_FORMAT_IDS,
+  NUMBER_FORMATS,
+  NUMBER_FORMAT_IDS,
+  detectValueFormat
+} from '../../lib/valueFormats';
+import {
+  suggestMappings,
+  HIGH_CONFIDENCE_THRESHOLD,
+  MEDIUM_CONFIDENCE_THRESHOLD,
+} from '../../lib/columnMatcher';
+import { InferencePreview } from './InferencePreview';
+import type { ColumnValueFormat, DateFormatId, NumberFormatId } from '../../types/valueFormat';
+import { useTranslation } from '../../hooks/useTranslation';
+
+/** Drag payload type, so drops from other pages or apps are ignored */
+const DRAG_DATA_TYPE = 'application/x-ayni-csv-column';
+
+type DropTarget = SystemColumn | 'csv';
 
 interface ColumnMappingProps {
   csvColumns: string[];
   onMappingChange: (mappings: ColumnMappingType[]) => void;
   initialMappings?: ColumnMappingType[];
   onValidationChange?: (isValid: boolean) => void;
+  /** Sample data rows aligned with csvColumns, used to check mapped dtypes */
+  sampleRows?: string[][];
 }
 
 /**
@@ -21,17 +44,23 @@ interface ColumnMappingProps {
  *
  * Interactive UI for mapping CSV columns to system schema columns.
  * Features:
- * - Drag-and-drop support
- * - Automatic smart matching suggestions
+ * - Drag-and-drop mapping (CSV card onto a system card, back out to unmap),
+ *   with a keyboard pick-up/place equivalent and screen-reader announcements
+ * - Automatic smart matching suggestions with confidence scores
  * - Visual validation feedback
+ * - Data-type checks of mapped columns against sample rows
+ * - Number/date format detection (e.g. 1.234,5 and dd-mm-yyyy) with manual override
  * - Required/Optional/Inferable column grouping
+ * - Preview of the inferable columns the current mapping lets the backend derive
  */
 export const ColumnMapping: React.FC<ColumnMappingProps> = ({
   csvColumns,
   onMappingChange,
   initialMappings,
-  onValidationChange
+  onValidationChange,
+  sampleRows
 }) => {
+  const { t } = useTranslation();
   const [mappings, setMappings] = useState<ColumnMappingType[]>(() => {
     if (initialMappings && initialMappings.length > 0) {
       return initialMappings;
@@ -49,10 +78,28 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
     inferable: false
   });
 
+  const [draggedCsvColumn, setDraggedCsvColumn] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [pickedCsvColumn, setPickedCsvColumn] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+
   const requiredColumns = useMemo(() => getRequiredColumns(), []);
   const optionalColumns = useMemo(() => getOptionalColumns(), []);
   const inferableColumns = useMemo(() => getInferableColumns(), []);
 
+  const samples = useMemo(
+    () => (sampleRows ? getColumnSamples(csvColumns, sampleRows) : undefined),
+    [csvColumns, sampleRows]
+  );
+
+  // Build a mapping, detecting the value format from samples when available
+  const buildMapping = useCallback((csvColumn: string, systemColumn: SystemColumn | null): ColumnMappingType => {
+    const format = systemColumn && samples?.[csvColumn]
+      ? detectValueFormat(systemColumn, samples[csvColumn])
+      : undefined;
+    return format ? { csvColumn, systemColumn, format } : { csvColumn, systemColumn };
+  }, [samples]);
+
   // Validate mappings whenever they change
   useEffect(() => {
     const validation = validateMappings(mappings);
@@ -60,65 +107,34 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
     onMappingChange(mappings);
   }, [mappings, onMappingChange, onValidationChange]);
 
-  // Smart column matching suggestions
-  const suggestMapping = useCallback((csvColumn: string): SystemColumn | null => {
-    const normalized = csvColumn.toLowerCase().replace(/[_\s-]/g, '');
-
-    const suggestions: Record<string, SystemColumn> = {
-      'date': 'in_dt',
-      'datetime': 'in_dt',
-      'fecha': 'in_dt',
-      'transactionid': 'in_trans_id',
-      'transid': 'in_trans_id',
-      'idtransaccion': 'in_trans_id',
-      'productid': 'in_product_id',
-      'producto': 'in_product_id',
-      'idproducto': 'in_product_id',
-      'quantity': 'in_quantity',
-      'cantidad': 'in_quantity',
-      'qty': 'in_quantity',
-      'price': 'in_price_total',
-      'pricetotal': 'in_price_total',
-      'total': 'in_price_total',
-      'precio': 'in_price_total',
-      'revenue': 'in_price_total',
-      'customer': 'in_customer_id',
-      'customerid': 'in_customer_id',
-      'cliente': 'in_customer_id',
-      'description': 'in_description',
-      'descripcion': 'in_description',
-      'category': 'in_category',
-      'categoria': 'in_category',
-      'cost': 'in_cost_total',
-      'costtotal': 'in_cost_total',
-      'costo': 'in_cost_total',
-      'stock': 'in_stock',
-      'inventory': 'in_stock',
-      'inventario': 'in_stock',
-      'margin': 'in_margin',
-      'margen': 'in_margin',
-      'discount': 'in_discount_total',
-      'descuento': 'in_discount_total'
-    };
-
-    return suggestions[normalized] || null;
-  }, []);
+  // Ranked smart-matching suggestions with confidence scores
+  const suggestions = useMemo(
+    () => suggestMappings(csvColumns, samples),
+    [csvColumns, samples]
+  );
 
   // Auto-suggest mappings on mount
   useEffect(() => {
     if (!initialMappings) {
-      const suggestedMappings = csvColumns.map(col => ({
-        csvColumn: col,
-        systemColumn: suggestMapping(col)
-      }));
+      const suggestedMappings = csvColumns.map(col =>
+        buildMapping(col, suggestions.get(col)?.systemColumn ?? null)
+      );
       setMappings(suggestedMappings);
     }
-  }, [csvColumns, initialMappings, suggestMapping]);
+  }, [csvColumns, initialMappings, suggestions, buildMapping]);
 
   const handleMappingChange = useCallback((csvColumn: string, systemColumn: SystemColumn | null) => {
     setMappings(prev => prev.map(m =>
       m.csvColumn === csvColumn
-        ? { ...m, systemColumn }
+        ? buildMapping(csvColumn, systemColumn)
+        : m
+    ));
+  }, [buildMapping]);
+
+  const handleFormatChange = useCallback((csvColumn: string, format: ColumnValueFormat) => {
+    setMappings(prev => prev.map(m =>
+      m.csvColumn === csvColumn
+        ? { ...m, format }
         : m
     ));
   }, []);
@@ -132,6 +148,95 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
     return mapping?.csvColumn || null;
   }, [mappings]);
 
+  // Assign a CSV column to a system column, releasing the CSV column that held it before
+  const assignSystemColumn = useCallback((csvColumn: string, systemColumn: SystemColumn) => {
+    const previous = getMappedCsvColumn(systemColumn);
+    setMappings(prev => prev.map(m =>
+      m.csvColumn === csvColumn
+        ? buildMapping(csvColumn, systemColumn)
+        : m.systemColumn === systemColumn
+          ? { csvColumn: m.csvColumn, systemColumn: null }
+          : m
+    ));
+    setAnnouncement(
+      previous && previous !== csvColumn
+        ? t('columnMapping.announceReplaced', { csvColumn, column: systemColumn, previous })
+        : t('columnMapping.announceMapped', { csvColumn, column: systemColumn })
+    );
+  }, [buildMapping, getMappedCsvColumn, t]);
+
+  const unmapCsvColumn = useCallback((csvColumn: string) => {
+    handleMappingChange(csvColumn, null);
+    setAnnouncement(t('columnMapping.announceUnmapped', { csvColumn }));
+  }, [handleMappingChange, t]);
+
+  const handleDragStart = (event: React.DragEvent, csvColumn: string) => {
+    // dataTransfer is also set so the drag starts in every browser
+    event.dataTransfer?.setData(DRAG_DATA_TYPE, csvColumn);
+    if (event.dataTransfer) event.dataTransfer.effectAllowed = 'move';
+    setDraggedCsvColumn(csvColumn);
+    setPickedCsvColumn(null);
+    setAnnouncement(t('columnMapping.announceDragging', { csvColumn }));
+  };
+
+  const handleDragEnd = () => {
+    setDraggedCsvColumn(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOver = (event: React.DragEvent, target: DropTarget) => {
+    if (!draggedCsvColumn) return;
+    if (target === 'csv' && !mappings.some(m => m.csvColumn === draggedCsvColumn && m.systemColumn)) return;
+    event.preventDefault();
+    if (event.dataTransfer) event.dataTransfer.dropEffect = 'move';
+    setDropTarget(target);
+  };
+
+  const handleDragLeave = (target: DropTarget) => {
+    setDropTarget(current => (current === target ? null : current));
+  };
+
+  const handleDrop = (event: React.DragEvent, target: DropTarget) => {
+    // Only accept drags that started in this component
+    if (!draggedCsvColumn) return;
+    event.preventDefault();
+    if (target === 'csv') {
+      unmapCsvColumn(draggedCsvColumn);
+    } else {
+      assignSystemColumn(draggedCsvColumn, target);
+    }
+    handleDragEnd();
+  };
+
+  // Keyboard equivalent of dragging: pick up a CSV column, then place it
+  const togglePickUp = (csvColumn: string) => {
+    if (pickedCsvColumn === csvColumn) {
+      setPickedCsvColumn(null);
+      setAnnouncement(t('columnMapping.announceCancelled', { csvColumn }));
+      return;
+    }
+    setPickedCsvColumn(csvColumn);
+    setAnnouncement(t('columnMapping.announcePickedUp', { csvColumn }));
+  };
+
+  const placePicked = (target: DropTarget) => {
+    if (!pickedCsvColumn) return;
+    if (target === 'csv') {
+      unmapCsvColumn(pickedCsvColumn);
+    } else {
+      assignSystemColumn(pickedCsvColumn, target);
+    }
+    setPickedCsvColumn(null);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape' && pickedCsvColumn) {
+      event.preventDefault();
+      setAnnouncement(t('columnMapping.announceCancelled', { csvColumn: pickedCsvColumn }));
+      setPickedCsvColumn(null);
+    }
+  };
+
   const toggleSection = useCallback((section: 'required' | 'optional' | 'inferable') => {
     setExpandedSections(prev => ({
       ...prev,
@@ -139,18 +244,27 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
     }));
   }, []);
 
-  const validation = useMemo(() => validateMappings(mappings), [mappings]);
+  const validation = useMemo(() => validateMappings(mappings, samples), [mappings, samples]);
 
   const renderSystemColumn = (systemColumn: SystemColumn, isRequired: boolean) => {
     const spec = COLUMN_SCHEMA[systemColumn];
     const isMapped = isSystemColumnMapped(systemColumn);
     const mappedCsvColumn = getMappedCsvColumn(systemColumn);
+    const warning = validation.warnings.find(w => w.systemColumn === systemColumn);
+    const mapping = mappings.find(m => m.systemColumn === systemColumn);
 
     return (
       <div
         key={systemColumn}
+        role="group"
+        aria-label={t('columnMapping.systemColumn', { column: systemColumn })}
+        onDragOver={(e) => handleDragOver(e, systemColumn)}
+        onDragLeave={() => handleDragLeave(systemColumn)}
+        onDrop={(e) => handleDrop(e, systemColumn)}
+        data-drop-target={dropTarget === systemColumn || undefined}
         className={`
           p-4 rounded-lg border-2 transition-all
+          ${dropTarget === systemColumn ? 'ring-2 ring-blue-400 ring-offset-1' : ''}
           ${isMapped
             ? 'border-green-500 bg-green-50'
             : isRequired
@@ -167,31 +281,92 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
               </h4>
               {isRequired && (
                 <span className="text-xs bg-red-500 text-white px-2 py-0.5 rounded">
-                  REQUIRED
+                  {t('columnMapping.required')}
                 </span>
               )}
               {spec.inferable === 1 && (
                 <span className="text-xs bg-blue-500 text-white px-2 py-0.5 rounded">
-                  INFERABLE
+                  {t('columnMapping.inferable')}
                 </span>
               )}
             </div>
             <p className="text-xs text-gray-600 mt-1">
-              {spec.description}
+              {t(`column.${systemColumn}`)}
             </p>
             <p className="text-xs text-gray-500 mt-1">
-              Type: {spec.dtype}
+              {t('columnMapping.type', { dtype: spec.dtype })}
             </p>
+            {mapping?.format?.number && (
+              <label className="flex items-center gap-2 text-xs text-gray-700 mt-2">
+                {t('columnMapping.numberFormat')}
+                <select
+                  value={mapping.format.number}
+                  onChange={(e) => handleFormatChange(mapping.csvColumn, { number: e.target.value as NumberFormatId })}
+                  className="text-xs border border-gray-300 rounded px-1 py-0.5"
+                  aria-label={t('columnMapping.numberFormatFor', { column: systemColumn })}
+                >
+                  {NUMBER_FORMAT_IDS.map(id => (
+                    <option key={id} value={id}>{NUMBER_FORMATS[id].label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {mapping?.format?.date && (
+              <label className="flex items-center gap-2 text-xs text-gray-700 mt-2">
+                {t('columnMapping.dateFormat')}
+                <select
+                  value={mapping.format.date}
+                  onChange={(e) => handleFormatChange(mapping.csvColumn, { date: e.target.value as DateFormatId })}
+                  className="text-xs border border-gray-300 rounded px-1 py-0.5"
+                  aria-label={t('columnMapping.dateFormatFor', { column: systemColumn })}
+                >
+                  {DATE_FORMAT_IDS.map(id => (
+                    <option key={id} value={id}>{DATE_FORMATS[id].label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {warning && (
+              <p className="text-xs text-yellow-800 bg-yellow-50 border border-yellow-300 rounded px-2 py-1 mt-2">
+                ⚠ {t(
+                  warning.dtype === 'float64'
+                    ? 'columnMapping.dtypeWarningNumeric'
+                    : 'columnMapping.dtypeWarningDate',
+                  {
+                    invalidCount: warning.invalidCount,
+                    checked: warning.checked,
+                    csvColumn: warning.csvColumn,
+                    examples: warning.invalidExamples.map(value => `'${value}'`).join(', ')
+                  }
+                )}
+              </p>
+            )}
+            {pickedCsvColumn && mappedCsvColumn !== pickedCsvColumn && (
+              <button
+                type="button"
+                onClick={() => placePicked(systemColumn)}
+                className="mt-2 text-xs text-blue-700 border border-blue-300 bg-white hover:bg-blue-50 rounded px-2 py-1"
+                aria-label={t('columnMapping.mapTo', { csvColumn: pickedCsvColumn, column: systemColumn })}
+              >
+                {t('columnMapping.placeHere', { csvColumn: pickedCsvColumn })}
+              </button>
+            )}
           </div>
           {isMapped && mappedCsvColumn && (
             <div className="ml-4 flex items-center gap-2">
-              <span className="text-sm font-medium text-green-700">
+              <span
+                draggable
+                onDragStart={(e) => handleDragStart(e, mappedCsvColumn)}
+                onDragEnd={handleDragEnd}
+                className="text-sm font-medium text-green-700 cursor-grab"
+                title={t('columnMapping.dragBackHint')}
+              >
                 ← {mappedCsvColumn}
               </span>
               <button
                 onClick={() => handleMappingChange(mappedCsvColumn, null)}
                 className="text-red-500 hover:text-red-700 text-xs"
-                aria-label={`Remove mapping for ${systemColumn}`}
+                aria-label={t('columnMapping.removeMapping', { column: systemColumn })}
               >
                 ✕
               </button>
@@ -205,16 +380,54 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
   const renderCsvColumn = (csvColumn: string) => {
     const mapping = mappings.find(m => m.csvColumn === csvColumn);
     const systemColumn = mapping?.systemColumn;
+    const suggestion = suggestions.get(csvColumn);
+    const isSuggested = !!suggestion && suggestion.systemColumn === systemColumn;
+    const confidence = suggestion ? Math.round(suggestion.score * 100) : 0;
+    // Judge the score as shown, so "85%" is never flagged for review
+    const isHighConfidence = confidence / 100 >= HIGH_CONFIDENCE_THRESHOLD;
+
+    const isPicked = pickedCsvColumn === csvColumn;
 
     return (
       <div
         key={csvColumn}
-        className="p-3 rounded-lg border border-gray-300 bg-white"
+        draggable
+        onDragStart={(e) => handleDragStart(e, csvColumn)}
+        onDragEnd={handleDragEnd}
+        className={`
+          p-3 rounded-lg border bg-white cursor-grab
+          ${isPicked ? 'border-blue-500 ring-2 ring-blue-400' : 'border-gray-300'}
+          ${draggedCsvColumn === csvColumn ? 'opacity-50' : ''}
+        `}
       >
         <div className="flex items-center justify-between gap-2">
-          <span className="font-medium text-sm text-gray-900 truncate">
+          <button
+            type="button"
+            onClick={() => togglePickUp(csvColumn)}
+            className="text-gray-400 hover:text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded px-1"
+            aria-pressed={isPicked}
+            aria-label={t('columnMapping.move', { csvColumn })}
+          >
+            ⠿
+          </button>
+          <span className="flex-1 font-medium text-sm text-gray-900 truncate">
             {csvColumn}
           </span>
+          {isSuggested && (
+            <span
+              className={`text-xs px-2 py-0.5 rounded whitespace-nowrap ${
+                isHighConfidence
+                  ? 'bg-green-100 text-green-800'
+                  : confidence / 100 >= MEDIUM_CONFIDENCE_THRESHOLD
+                    ? 'bg-yellow-100 text-yellow-800'
+                    : 'bg-orange-100 text-orange-800'
+              }`}
+              title={suggestion.reasons.join('; ')}
+              aria-label={t('columnMapping.suggested', { confidence })}
+            >
+              {t('columnMapping.match', { confidence })}{isHighConfidence ? '' : t('columnMapping.check')}
+            </span>
+          )}
           <select
             value={systemColumn || ''}
             onChange={(e) => handleMappingChange(
@@ -222,39 +435,39 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
               e.target.value as SystemColumn || null
             )}
             className="text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
-            aria-label={`Map CSV column ${csvColumn}`}
+            aria-label={t('columnMapping.mapCsvColumn', { csvColumn })}
           >
-            <option value="">Not mapped</option>
-            <optgroup label="Required">
+            <option value="">{t('columnMapping.notMapped')}</option>
+            <optgroup label={t('columnMapping.groupRequired')}>
               {requiredColumns.map(col => (
                 <option
                   key={col}
                   value={col}
                   disabled={isSystemColumnMapped(col) && systemColumn !== col}
                 >
-                  {col} {isSystemColumnMapped(col) && systemColumn !== col ? '(mapped)' : ''}
+                  {col} {isSystemColumnMapped(col) && systemColumn !== col ? t('columnMapping.taken') : ''}
                 </option>
               ))}
             </optgroup>
-            <optgroup label="Optional">
+            <optgroup label={t('columnMapping.groupOptional')}>
               {optionalColumns.filter(col => !inferableColumns.includes(col)).map(col => (
                 <option
                   key={col}
                   value={col}
                   disabled={isSystemColumnMapped(col) && systemColumn !== col}
                 >
-                  {col} {isSystemColumnMapped(col) && systemColumn !== col ? '(mapped)' : ''}
+                  {col} {isSystemColumnMapped(col) && systemColumn !== col ? t('columnMapping.taken') : ''}
                 </option>
               ))}
             </optgroup>
-            <optgroup label="Inferable">
+            <optgroup label={t('columnMapping.groupInferable')}>
               {inferableColumns.map(col => (
                 <option
                   key={col}
                   value={col}
                   disabled={isSystemColumnMapped(col) && systemColumn !== col}
                 >
-                  {col} {isSystemColumnMapped(col) && systemColumn !== col ? '(mapped)' : ''}
+                  {col} {isSystemColumnMapped(col) && systemColumn !== col ? t('columnMapping.taken') : ''}
                 </option>
               ))}
             </optgroup>
@@ -265,7 +478,12 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
   };
 
   return (
-    <div className="space-y-6">
+    <div className="space-y-6" onKeyDown={handleKeyDown}>
+      {/* Screen-reader announcements for drag-and-drop and keyboard moves */}
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+        {announcement}
+      </div>
+
       {/* Validation Summary */}
       <div className={`
         p-4 rounded-lg border-2
@@ -276,22 +494,51 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
       `}>
         <h3 className="font-semibold text-lg mb-2">
           {validation.valid
-            ? '✓ All required columns mapped'
-            : '⚠ Missing required mappings'
+            ? t('columnMapping.allRequiredMapped')
+            : t('columnMapping.missingRequired')
           }
         </h3>
         {!validation.valid && (
           <ul className="text-sm text-red-700 space-y-1">
             {validation.missingRequired.map(col => (
-              <li key={col}>• {col} - {COLUMN_SCHEMA[col].description}</li>
+              <li key={col}>• {col} - {t(`column.${col}`)}</li>
             ))}
           </ul>
         )}
+        {validation.warnings.length > 0 && (
+          <div className="mt-3">
+            <p className="text-sm font-medium text-yellow-800">
+              {t(
+                validation.warnings.length === 1 ? 'columnMapping.warningsOne' : 'columnMapping.warningsOther',
+                { count: validation.warnings.length }
+              )}
+            </p>
+          </div>
+        )}
       </div>
 
       {/* CSV Columns Section */}
-      <div>
-        <h3 className="font-semibold text-lg mb-3">Your CSV Columns</h3>
+      <div
+        onDragOver={(e) => handleDragOver(e, 'csv')}
+        onDragLeave={() => handleDragLeave('csv')}
+        onDrop={(e) => handleDrop(e, 'csv')}
+        className={`rounded-lg ${dropTarget === 'csv' ? 'ring-2 ring-blue-400 ring-offset-4' : ''}`}
+      >
+        <div className="flex items-center justify-between gap-2 mb-3">
+          <h3 className="font-semibold text-lg">{t('columnMapping.csvColumns')}</h3>
+          {pickedCsvColumn && mappings.some(m => m.csvColumn === pickedCsvColumn && m.systemColumn) && (
+            <button
+              type="button"
+              onClick={() => placePicked('csv')}
+              className="text-xs text-red-600 border border-red-300 bg-white hover:bg-red-50 rounded px-2 py-1"
+            >
+              {t('columnMapping.unmap', { csvColumn: pickedCsvColumn })}
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 mb-3">
+          {t('columnMapping.dragHint')}
+        </p>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
           {csvColumns.map(renderCsvColumn)}
         </div>
@@ -307,7 +554,7 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
             aria-expanded={expandedSections.required}
           >
             <span className="font-semibold text-red-900">
-              Required Columns ({requiredColumns.length})
+              {t('columnMapping.requiredColumns', { count: requiredColumns.length })}
             </span>
             <span className="text-red-900">
               {expandedSections.required ? '▼' : '▶'}
@@ -328,7 +575,9 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
             aria-expanded={expandedSections.optional}
           >
             <span className="font-semibold text-blue-900">
-              Optional Columns ({optionalColumns.filter(col => !inferableColumns.includes(col)).length})
+              {t('columnMapping.optionalColumns', {
+                count: optionalColumns.filter(col => !inferableColumns.includes(col)).length
+              })}
             </span>
             <span className="text-blue-900">
               {expandedSections.optional ? '▼' : '▶'}
@@ -351,7 +600,7 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
             aria-expanded={expandedSections.inferable}
           >
             <span className="font-semibold text-purple-900">
-              Inferable Columns ({inferableColumns.length})
+              {t('columnMapping.inferableColumns', { count: inferableColumns.length })}
             </span>
             <span className="text-purple-900">
               {expandedSections.inferable ? '▼' : '▶'}
@@ -364,6 +613,9 @@ export const ColumnMapping: React.FC<ColumnMappingProps> = ({
           )}
         </div>
       </div>
+
+      {/* Inference Preview */}
+      <InferencePreview csvColumns={csvColumns} mappings={mappings} sampleRows={sampleRows} />
     </div>
   );
 };
@@ -0,0 +1,62 @@
+import React from 'react';
+import { useTranslation } from '../../hooks/useTranslation';
+
+interface CsvPreviewTableProps {
+  headers: string[];
+  rows: string[][];
+  maxRows?: number;
+}
+
+/**
+ * CsvPreviewTable Component
+ *
+ * Scrollable table showing the first rows of a parsed file.
+ */
+export const CsvPreviewTable: React.FC<CsvPreviewTableProps> = ({
+  headers,
+  rows,
+  maxRows = 10
+}) => {
+  const { t } = useTranslation();
+  const visibleRows = rows.slice(0, maxRows);
+
+  return (
+    <div className="overflow-x-auto border border-gray-200 rounded-lg">
+      <table className="min-w-full text-sm">
+        <thead className="bg-gray-100">
+          <tr>
+            {headers.map(header => (
+              <th
+                key={header}
+                scope="col"
+                className="px-3 py-2 text-left font-semibold text-gray-700 whitespace-nowrap"
+              >
+                {header}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {visibleRows.map((row, rowIndex) => (
+            <tr key={rowIndex}>
+              {row.map((value, cellIndex) => (
+                <td
+                  key={cellIndex}
+                  className="px-3 py-2 text-gray-900 whitespace-nowrap max-w-xs truncate"
+                  title={value}
+                >
+                  {value}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {visibleRows.length === 0 && (
+        <p className="p-4 text-sm text-gray-500 text-center">{t('wizard.noRows')}</p>
+      )}
+    </div>
+  );
+};
+
+export default CsvPreviewTable;
@@ -0,0 +1,78 @@
+import React, { useCallback, useState } from 'react';
+import { clsx } from 'clsx';
+import { useTranslation } from '../../hooks/useTranslation';
+
+interface FileDropzoneProps {
+  onFileSelected: (file: File) => void;
+  accept?: string;
+  disabled?: boolean;
+  /** Defaults to the translated drop instructions */
+  label?: string;
+}
+
+/**
+ * FileDropzone Component
+ *
+ * File picker that also accepts files dropped from the desktop.
+ */
+export const FileDropzone: React.FC<FileDropzoneProps> = ({
+  onFileSelected,
+  accept = '.csv,.tsv,.txt',
+  disabled = false,
+  label,
+}) => {
+  const { t } = useTranslation();
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDrop = useCallback((event: React.DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (disabled) return;
+
+    const file = event.dataTransfer.files?.[0];
+    if (file) {
+      onFileSelected(file);
+    }
+  }, [disabled, onFileSelected]);
+
+  const handleChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onFileSelected(file);
+    }
+    // Allow picking the same file again
+    event.target.value = '';
+  }, [onFileSelected]);
+
+  return (
+    <label
+      onDragOver={(event) => {
+        event.preventDefault();
+        if (!disabled) setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={clsx(
+        'flex flex-col items-center justify-center gap-2 w-full p-10 rounded-lg border-2 border-dashed text-center transition-colors',
+        disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer',
+        isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 bg-gray-50 hover:bg-gray-100'
+      )}
+    >
+      <svg className="w-10 h-10 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+      </svg>
+      <span className="text-sm text-gray-700">{label ?? t('dropzone.label')}</span>
+      <span className="text-xs text-gray-500">{t('dropzone.formats')}</span>
+      <input
+        type="file"
+        accept={accept}
+        onChange={handleChange}
+        disabled={disabled}
+        className="sr-only"
+        aria-label={t('dropzone.select')}
+      />
+    </label>
+  );
+};
+
+export default FileDropzone;
@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import { ColumnMapping as ColumnMappingType, SystemColumn } from '../../types/columnSchema';
+import { planInference, previewInference } from '../../lib/columnInference';
+import { useTranslation } from '../../hooks/useTranslation';
+
+interface InferencePreviewProps {
+  csvColumns: string[];
+  mappings: ColumnMappingType[];
+  /** Sample data rows aligned with csvColumns */
+  sampleRows?: string[][];
+  /** Number of sample rows to preview */
+  previewSize?: number;
+}
+
+/**
+ * InferencePreview Component
+ *
+ * Shows which inferable columns the backend will derive from the current
+ * mapping, the CSV columns each one comes from, a computed preview over
+ * the sample rows, and which ones cannot be inferred yet.
+ */
+export const InferencePreview: React.FC<InferencePreviewProps> = ({
+  csvColumns,
+  mappings,
+  sampleRows,
+  previewSize = 3
+}) => {
+  const { t, formatLocale } = useTranslation();
+  const numberFormatter = useMemo(
+    () => new Intl.NumberFormat(formatLocale, { maximumFractionDigits: 2 }),
+    [formatLocale]
+  );
+  const plan = useMemo(() => planInference(mappings), [mappings]);
+
+  const preview = useMemo(
+    () => sampleRows && sampleRows.length > 0
+      ? previewInference(plan, mappings, csvColumns, sampleRows.slice(0, previewSize))
+      : undefined,
+    [plan, mappings, csvColumns, sampleRows, previewSize]
+  );
+
+  const csvColumnFor = (systemColumn: SystemColumn) =>
+    mappings.find(m => m.systemColumn === systemColumn)?.csvColumn;
+
+  const derived = plan.filter(entry => entry.status === 'derived');
+  const unavailable = plan.filter(entry => entry.status === 'unavailable');
+
+  return (
+    <section className="p-4 rounded-lg border border-purple-300 bg-purple-50" aria-label={t('inference.region')}>
+      <h3 className="font-semibold text-lg text-purple-900 mb-3">{t('inference.title')}</h3>
+
+      {derived.length === 0 ? (
+        <p className="text-sm text-gray-700">{t('inference.none')}</p>
+      ) : (
+        <ul className="space-y-3">
+          {derived.map(({ column, rule }) => rule && (
+            <li key={column} className="text-sm">
+              <p>
+                <span className="font-semibold text-gray-900">{column}</span>
+                <span className="text-gray-700"> = {rule.formula}</span>
+              </p>
+              <p className="text-xs text-gray-600">
+                {t('inference.from')}{' '}
+                {rule.inputs
+                  .map(input => {
+                    const csvColumn = csvColumnFor(input);
+                    return csvColumn ? `${input} ← ${csvColumn}` : `${input} ${t('inference.inferred')}`;
+                  })
+                  .join(', ')}
+              </p>
+              {preview?.get(column) && (
+                <p className="text-xs text-gray-600">
+                  {t('inference.preview')}{' '}
+                  {preview.get(column)?.map(value => (value === null ? '—' : numberFormatter.format(value))).join(' · ')}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {unavailable.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium text-gray-900 mb-1">{t('inference.unavailableTitle')}</h4>
+          <ul className="text-xs text-gray-600 space-y-1">
+            {unavailable.map(({ column, missingInputs }) => (
+              <li key={column}>
+                <span className="font-medium">{column}</span>
+                {missingInputs.length > 0
+                  ? t('inference.mapInputs', { inputs: missingInputs.join(t('inference.inputsJoin')) })
+                  : t('inference.noRule')}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+};
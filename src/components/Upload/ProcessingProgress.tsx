@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import {
+  isTerminalStage,
+  subscribeToProcessing,
+  type ProcessingConnection,
+} from '../../lib/processingStatus';
+import { formatQuantity } from '../../lib/utils';
+import { useTranslation } from '../../hooks/useTranslation';
+import type { ProcessingStage, UploadProcessingStatus } from '../../types/upload';
+
+interface ProcessingProgressProps {
+  uploadId: number;
+  /** Called once processing completes or fails */
+  onFinished?: (status: UploadProcessingStatus) => void;
+}
+
+/** Stages shown as steps; queued, completed and failed are reported below them */
+const STAGE_STEPS = ['validating', 'inferring', 'aggregating'] as const satisfies readonly ProcessingStage[];
+
+/**
+ * ProcessingProgress Component
+ *
+ * Live processing stages and row error counts for a submitted upload.
+ */
+export const ProcessingProgress: React.FC<ProcessingProgressProps> = ({ uploadId, onFinished }) => {
+  const [status, setStatus] = useState<UploadProcessingStatus | null>(null);
+  const [connection, setConnection] = useState<ProcessingConnection>('connecting');
+  const { t, formatLocale } = useTranslation();
+  const formatCount = (count: number) => formatQuantity(count, null, { locale: formatLocale });
+  // Read the latest callback without resubscribing on every render
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  useEffect(() => {
+    setStatus(null);
+    return subscribeToProcessing(uploadId, {
+      onStatus: (next) => {
+        setStatus(next);
+        if (isTerminalStage(next.stage)) onFinishedRef.current?.(next);
+      },
+      onConnectionChange: setConnection,
+    });
+  }, [uploadId]);
+
+  const stage = status?.stage ?? 'queued';
+  const currentIndex = stage === 'completed'
+    ? STAGE_STEPS.length
+    : STAGE_STEPS.findIndex(step => step === stage);
+
+  return (
+    <div className="space-y-4 text-left" aria-label={t('processing.region')}>
+      <ol className="space-y-2">
+        {STAGE_STEPS.map((step, index) => {
+          const isDone = index < currentIndex;
+          const isCurrent = index === currentIndex && stage !== 'failed';
+          return (
+            <li
+              key={step}
+              className={clsx(
+                'flex items-center gap-2 text-sm',
+                isDone ? 'text-green-700' : isCurrent ? 'text-blue-700 font-medium' : 'text-gray-500'
+              )}
+              aria-current={isCurrent ? 'step' : undefined}
+            >
+              <span aria-hidden="true">{isDone ? '✓' : isCurrent ? '●' : '○'}</span>
+              {t(`processing.stage.${step}`)}
+            </li>
+          );
+        })}
+      </ol>
+
+      <div role="status" aria-live="polite" className="text-sm text-gray-700 space-y-1">
+        {stage === 'queued' && <p>{t('processing.queued')}</p>}
+        {status && status.rows_processed > 0 && (
+          <p>
+            {status.rows_total === null
+              ? t('processing.rows', { processed: formatCount(status.rows_processed) })
+              : t('processing.rowsOfTotal', {
+                  processed: formatCount(status.rows_processed),
+                  total: formatCount(status.rows_total),
+                })}
+          </p>
+        )}
+        {status && status.error_rows > 0 && (
+          <p className="text-yellow-800">
+            {t(status.error_rows === 1 ? 'processing.errorRowsOne' : 'processing.errorRowsOther', {
+              count: formatCount(status.error_rows),
+            })}
+          </p>
+        )}
+        {stage === 'completed' && <p className="text-green-700 font-medium">{t('processing.completed')}</p>}
+      </div>
+
+      {stage === 'failed' && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md" role="alert">
+          <p className="text-sm">{status?.message ?? t('processing.failed')}</p>
+        </div>
+      )}
+
+      {connection !== 'closed' && (
+        <p className="text-xs text-gray-500">{t(`processing.connection.${connection}`)}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { MAPPING_TEMPLATES_QUERY_KEY, createMappingTemplate } from '../../lib/api/mappingTemplates';
+import { extractErrorMessage } from '../../lib/api/auth';
+import { useTranslation } from '../../hooks/useTranslation';
+import type { ColumnMapping } from '../../types/columnSchema';
+import type { MappingTemplate } from '../../types/mappingTemplate';
+
+interface SaveTemplateFormProps {
+  headers: string[];
+  mappings: ColumnMapping[];
+  onSaved?: (template: MappingTemplate) => void;
+}
+
+/**
+ * SaveTemplateForm Component
+ *
+ * Saves the current column mapping as a named template so the next upload
+ * of the same export is mapped automatically.
+ */
+export const SaveTemplateForm: React.FC<SaveTemplateFormProps> = ({
+  headers,
+  mappings,
+  onSaved,
+}) => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [savedName, setSavedName] = useState<string | null>(null);
+
+  const saveMutation = useMutation({
+    mutationFn: createMappingTemplate,
+    onSuccess: (template) => {
+      setSavedName(template.name);
+      setName('');
+      queryClient.invalidateQueries({ queryKey: MAPPING_TEMPLATES_QUERY_KEY });
+      onSaved?.(template);
+    },
+    onError: (err) => setError(extractErrorMessage(err)),
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError(t('templates.nameRequired'));
+      return;
+    }
+
+    setError(null);
+    saveMutation.mutate({ name: trimmed, headers, mappings });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row sm:items-start gap-3" noValidate>
+      <div className="flex-1">
+        <Input
+          id="template-name"
+          label={t('templates.saveAs')}
+          placeholder={t('templates.savePlaceholder')}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          error={error ?? undefined}
+          helperText={savedName ? t('templates.saved', { name: savedName }) : undefined}
+          maxLength={100}
+        />
+      </div>
+      <Button type="submit" variant="outline" isLoading={saveMutation.isPending} className="sm:mt-6">
+        {t('templates.save')}
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+import { clsx } from 'clsx';
+import { useTranslation } from '../../hooks/useTranslation';
+import type { UploadStatus } from '../../types/upload';
+
+const STATUS_STYLES: Record<UploadStatus, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  processing: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+/**
+ * UploadStatusBadge Component
+ *
+ * Colored label for an upload's processing status.
+ */
+export const UploadStatusBadge: React.FC<{ status: UploadStatus }> = ({ status }) => {
+  const { t } = useTranslation();
+  return (
+    <span className={clsx('text-xs font-medium px-2 py-0.5 rounded whitespace-nowrap', STATUS_STYLES[status])}>
+      {t(`uploads.status.${status}`)}
+    </span>
+  );
+};
@@ -0,0 +1,60 @@
+import { clsx } from 'clsx';
+import { useTranslation } from '../../hooks/useTranslation';
+
+export interface WizardStep<T extends string> {
+  id: T;
+  label: string;
+}
+
+interface WizardStepsProps<T extends string> {
+  steps: WizardStep<T>[];
+  current: T;
+}
+
+/**
+ * WizardSteps Component
+ *
+ * Horizontal progress indicator for multi-step flows.
+ */
+export function WizardSteps<T extends string>({ steps, current }: WizardStepsProps<T>) {
+  const { t } = useTranslation();
+  const currentIndex = steps.findIndex((step) => step.id === current);
+
+  return (
+    <ol className="flex items-center w-full gap-2" aria-label={t('wizard.progress')}>
+      {steps.map((step, index) => {
+        const isDone = index < currentIndex;
+        const isCurrent = index === currentIndex;
+
+        return (
+          <li
+            key={step.id}
+            className="flex-1 flex items-center gap-2"
+            aria-current={isCurrent ? 'step' : undefined}
+          >
+            <span
+              className={clsx(
+                'flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full text-sm font-semibold',
+                isDone && 'bg-green-500 text-white',
+                isCurrent && 'bg-blue-600 text-white',
+                !isDone && !isCurrent && 'bg-gray-200 text-gray-600'
+              )}
+            >
+              {isDone ? '✓' : index + 1}
+            </span>
+            <span
+              className={clsx(
+                'text-sm truncate',
+                isCurrent ? 'font-semibold text-gray-900' : 'text-gray-600'
+              )}
+            >
+              {step.label}
+            </span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+export default WizardSteps;
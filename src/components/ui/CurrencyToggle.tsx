@@ -0,0 +1,66 @@
+/**
+ * CurrencyToggle Component
+ * Switches revenue between nominal pesos, real pesos and UF
+ */
+
+import React from 'react';
+import { clsx } from 'clsx';
+import { latestRate } from '@/lib/currency';
+import { formatDate } from '@/lib/utils';
+import { useCurrencyConversion } from '@/hooks/useCurrencyConversion';
+import { useTranslation } from '@/hooks/useTranslation';
+import { CURRENCY_VIEWS } from '@/types/currency';
+
+export interface CurrencyToggleProps {
+  className?: string;
+}
+
+export const CurrencyToggle: React.FC<CurrencyToggleProps> = ({ className }) => {
+  const { t, formatLocale } = useTranslation();
+  const { view, setView, activeView, table, ratesUnavailable, ratesOutdated } = useCurrencyConversion();
+
+  const help =
+    activeView === 'real'
+      ? t('currency.realHelp', {
+          date: formatDate(latestRate(table)?.date, { locale: formatLocale }),
+        })
+      : t(`currency.${activeView}Help`);
+
+  return (
+    <div className={clsx('text-sm', className)}>
+      <div role="radiogroup" aria-label={t('currency.label')} className="inline-flex items-center gap-2">
+        <span className="text-gray-600">{t('currency.label')}</span>
+        <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+          {CURRENCY_VIEWS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={view === option}
+              onClick={() => setView(option)}
+              className={clsx(
+                'px-3 py-1 border-l border-gray-300 first:border-l-0 focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500',
+                view === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              )}
+            >
+              {t(`currency.${option}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">{help}</p>
+      {ratesUnavailable && (
+        <p role="status" className="mt-1 text-xs text-amber-700">
+          {t('currency.ratesUnavailable')}
+        </p>
+      )}
+      {ratesOutdated && activeView !== 'nominal' && (
+        <p role="status" className="mt-1 text-xs text-amber-700">
+          {t('currency.ratesOutdated', {
+            date: formatDate(latestRate(table)?.date, { locale: formatLocale }),
+          })}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+/**
+ * LanguageSwitcher Component
+ * Picks the interface language, saved for the signed-in user
+ */
+
+import React from 'react';
+import { clsx } from 'clsx';
+import { LOCALES, LOCALE_NAMES, type Locale } from '@/lib/i18n';
+import { useTranslation } from '@/hooks/useTranslation';
+
+export interface LanguageSwitcherProps {
+  className?: string;
+}
+
+export const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ className }) => {
+  const { t, locale, setLocale } = useTranslation();
+
+  return (
+    <label className={clsx('inline-flex items-center gap-2 text-sm text-gray-600', className)}>
+      {t('common.language')}
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="text-sm border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {LOCALES.map((option) => (
+          <option key={option} value={option} lang={option}>
+            {LOCALE_NAMES[option]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,76 @@
+/**
+ * useCurrencyConversion Hook
+ * Revenue in the currency view picked by the user, at each transaction's rate
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { listDailyRates, RATES_QUERY_KEY } from '@/lib/api/rates';
+import { convertClp, createRateTable, currencyOfView, findRate } from '@/lib/currency';
+import { EMPTY_VALUE, formatCompactCurrency, formatCurrency } from '@/lib/utils';
+import { useCurrencyStore } from '@/store/currencyStore';
+import { useTranslation } from './useTranslation';
+
+// Rates are published once a day
+const RATES_STALE_TIME_MS = 60 * 60 * 1000;
+
+type TransactionDate = Date | string | null | undefined;
+
+export function useCurrencyConversion() {
+  const { formatLocale: locale } = useTranslation();
+  const view = useCurrencyStore((state) => state.view);
+  const setView = useCurrencyStore((state) => state.setView);
+
+  const { data: rates, isLoading, error } = useQuery({
+    queryKey: [...RATES_QUERY_KEY, 'daily'],
+    queryFn: ({ signal }) => listDailyRates({}, signal),
+    staleTime: RATES_STALE_TIME_MS,
+  });
+
+  const table = useMemo(() => createRateTable(rates ?? []), [rates]);
+  // Without rates, amounts are shown as recorded rather than not at all
+  const ratesUnavailable = Boolean(error);
+  const activeView = ratesUnavailable ? 'nominal' : view;
+  // Rates that stop before today leave recent sales unconverted
+  const ratesOutdated = rates !== undefined && !ratesUnavailable && findRate(table, new Date()) === null;
+  const currency = currencyOfView(activeView);
+
+  /** A peso amount in the current view, or null while its rate is unknown */
+  const convert = useCallback(
+    (amount: number, date: TransactionDate) => convertClp(amount, date, activeView, table),
+    [activeView, table]
+  );
+
+  const format = useCallback(
+    (amount: number, date: TransactionDate) => {
+      const converted = convert(amount, date);
+      return converted === null ? EMPTY_VALUE : formatCurrency(converted, currency, { locale });
+    },
+    [convert, currency, locale]
+  );
+
+  const formatCompact = useCallback(
+    (amount: number, date: TransactionDate) => {
+      const converted = convert(amount, date);
+      return converted === null ? EMPTY_VALUE : formatCompactCurrency(converted, currency, { locale });
+    },
+    [convert, currency, locale]
+  );
+
+  return {
+    /** The view the user picked */
+    view,
+    setView,
+    /** The view amounts are shown in, nominal while rates are unavailable */
+    activeView,
+    currency,
+    table,
+    convert,
+    format,
+    formatCompact,
+    // Nominal pesos need no rates, so they are never waiting on them
+    isLoading: activeView !== 'nominal' && isLoading,
+    ratesUnavailable,
+    ratesOutdated,
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * useSalesAnalytics Hook
+ * Sales summary for a range and its comparison period, in the chosen currency view
+ */
+
+import { useMemo } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { ANALYTICS_QUERY_KEY, getSalesSummary } from '@/lib/api/analytics';
+import { convertSummary } from '@/lib/analytics';
+import { comparisonRange, granularityFor, type Comparison } from '@/lib/dateRanges';
+import type { DateRange, SalesSummaryParams } from '@/types/analytics';
+import { useCurrencyConversion } from './useCurrencyConversion';
+
+const TOP_LIMIT = 5;
+
+export function useSalesAnalytics(range: DateRange, comparison: Comparison) {
+  const { convert, isLoading: isLoadingRates } = useCurrencyConversion();
+
+  const granularity = granularityFor(range);
+  const params: SalesSummaryParams = { ...range, granularity, limit: TOP_LIMIT };
+  const previousRange = comparisonRange(range, comparison);
+  const previousParams: SalesSummaryParams | null = previousRange && {
+    ...previousRange,
+    granularity,
+    limit: TOP_LIMIT,
+  };
+
+  const current = useQuery({
+    queryKey: [...ANALYTICS_QUERY_KEY, 'sales', params],
+    queryFn: ({ signal }) => getSalesSummary(params, signal),
+    placeholderData: keepPreviousData,
+  });
+
+  const previous = useQuery({
+    queryKey: [...ANALYTICS_QUERY_KEY, 'sales', previousParams],
+    queryFn: ({ signal }) => getSalesSummary(previousParams as SalesSummaryParams, signal),
+    enabled: previousParams !== null,
+    placeholderData: keepPreviousData,
+  });
+
+  const summary = useMemo(
+    () => (current.data ? convertSummary(current.data, convert) : undefined),
+    [current.data, convert]
+  );
+
+  // keepPreviousData holds on to the last comparison after it is turned off
+  const isComparing = previousParams !== null;
+  const previousSummary = useMemo(
+    () => (isComparing && previous.data ? convertSummary(previous.data, convert) : undefined),
+    [isComparing, previous.data, convert]
+  );
+
+  return {
+    summary,
+    previousSummary,
+    previousRange,
+    granularity,
+    isLoading: current.isLoading || isLoadingRates,
+    isFetching: current.isFetching || previous.isFetching,
+    error: current.error ?? previous.error,
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * useTranslation Hook
+ * The `t` function for the current interface language, and the regional
+ * format for numbers and dates that goes with it
+ */
+
+import { useMemo } from 'react';
+import { createTranslator, FORMAT_LOCALES } from '@/lib/i18n';
+import { useLocaleStore } from '@/store/localeStore';
+
+export function useTranslation() {
+  const locale = useLocaleStore((state) => state.locale);
+  const setLocale = useLocaleStore((state) => state.setLocale);
+  const t = useMemo(() => createTranslator(locale), [locale]);
+
+  return { t, locale, formatLocale: FORMAT_LOCALES[locale], setLocale };
+}
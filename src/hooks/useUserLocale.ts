@@ -0,0 +1,17 @@
+/**
+ * useUserLocale Hook
+ * Follows the signed-in user, switching to the language they saved
+ */
+
+import { useEffect } from 'react';
+import { useAuthStore } from '@/store/authStore';
+import { useLocaleStore } from '@/store/localeStore';
+
+export function useUserLocale(): void {
+  const userId = useAuthStore((state) => state.user?.id ?? null);
+  const setUser = useLocaleStore((state) => state.setUser);
+
+  useEffect(() => {
+    setUser(userId);
+  }, [userId, setUser]);
+}
@@ -0,0 +1,98 @@
+/**
+ * Test Suite for Sales Analytics
+ * Covers average ticket, period changes and currency conversion of summaries
+ */
+import { describe, it, expect } from 'vitest';
+import { alignSeries, averageTicket, convertSummary, percentChange } from './analytics';
+import type { SalesSummary } from '@/types/analytics';
+
+const summary: SalesSummary = {
+  totals: { revenue: 300000, units: 30, transactions: 12 },
+  series: [
+    { date: '2024-01-01', revenue: 100000, units: 10, transactions: 4 },
+    { date: '2024-01-02', revenue: 200000, units: 20, transactions: 8 },
+  ],
+  top_products: [
+    { product_id: 'P1', description: 'Pan amasado', revenue: 150000, units: 15, unit_type: 'kg' },
+  ],
+  top_categories: [{ category: 'Panadería', revenue: 300000, units: 30 }],
+};
+
+describe('Sales Analytics', () => {
+  describe('Figures', () => {
+    it('should compute the average ticket', () => {
+      expect(averageTicket(summary.totals)).toBe(25000);
+    });
+
+    it('should have no average ticket without transactions or revenue', () => {
+      expect(averageTicket({ revenue: 0, units: 0, transactions: 0 })).toBeNull();
+      expect(averageTicket({ revenue: null, units: 5, transactions: 2 })).toBeNull();
+    });
+
+    it('should compute the change from the previous period', () => {
+      expect(percentChange(125, 100)).toBe(0.25);
+      expect(percentChange(50, 100)).toBe(-0.5);
+    });
+
+    it('should have no change without a previous value to compare', () => {
+      expect(percentChange(100, 0)).toBeNull();
+      expect(percentChange(100, undefined)).toBeNull();
+      expect(percentChange(null, 100)).toBeNull();
+    });
+  });
+
+  describe('Currency Conversion', () => {
+    it('should leave nominal amounts as they are', () => {
+      expect(convertSummary(summary, (amount) => amount)).toEqual(summary);
+    });
+
+    it('should convert each period at its own date', () => {
+      // One UF is 10.000 pesos on the 1st and 20.000 on the 2nd
+      const rates: Record<string, number> = { '2024-01-01': 10000, '2024-01-02': 20000 };
+      const converted = convertSummary(summary, (amount, date) => amount / rates[date]);
+
+      expect(converted.series.map((point) => point.revenue)).toEqual([10, 10]);
+      expect(converted.totals.revenue).toBe(20);
+    });
+
+    it('should scale product and category revenue by the overall conversion', () => {
+      const rates: Record<string, number> = { '2024-01-01': 10000, '2024-01-02': 20000 };
+      const converted = convertSummary(summary, (amount, date) => amount / rates[date]);
+
+      // Half of the revenue, so half of the converted total
+      expect(converted.top_products[0].revenue).toBe(10);
+      expect(converted.top_categories[0].revenue).toBe(20);
+      expect(converted.top_products[0].units).toBe(15);
+    });
+
+    it('should leave revenue empty when a rate is missing', () => {
+      const converted = convertSummary(summary, (amount, date) => (date === '2024-01-01' ? amount : null));
+
+      expect(converted.series.map((point) => point.revenue)).toEqual([100000, null]);
+      expect(converted.totals.revenue).toBeNull();
+      expect(converted.top_products[0].revenue).toBeNull();
+    });
+
+    it('should convert a period without sales', () => {
+      const empty: SalesSummary = {
+        totals: { revenue: 0, units: 0, transactions: 0 },
+        series: [{ date: '2024-01-01', revenue: 0, units: 0, transactions: 0 }],
+        top_products: [],
+        top_categories: [],
+      };
+
+      expect(convertSummary(empty, (amount) => amount / 10000).totals.revenue).toBe(0);
+    });
+  });
+
+  describe('Series Alignment', () => {
+    it('should pair periods by position', () => {
+      const previous = [{ date: '2023-12-30', revenue: 5, units: 1, transactions: 1 }];
+      const aligned = alignSeries(summary.series, previous);
+
+      expect(aligned[0].previous).toEqual(previous[0]);
+      expect(aligned[1].previous).toBeUndefined();
+      expect(alignSeries(summary.series, undefined)[0].previous).toBeUndefined();
+    });
+  });
+});
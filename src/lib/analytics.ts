@@ -0,0 +1,72 @@
+/**
+ * Sales Analytics
+ * Derived figures for the dashboard: average ticket, period changes and
+ * summaries converted to the chosen currency view
+ */
+
+import type { SalesPoint, SalesSummary, SalesTotals } from '@/types/analytics';
+
+/** Converts a peso amount at a date, or null while its rate is unknown */
+export type AmountConverter = (amount: number, date: string) => number | null;
+
+/**
+ * Revenue per transaction, or null without transactions
+ */
+export function averageTicket({ revenue, transactions }: SalesTotals<number | null>): number | null {
+  return revenue !== null && transactions > 0 ? revenue / transactions : null;
+}
+
+/**
+ * Relative change from a previous value: 0.25 for +25%. Null when there is
+ * nothing to compare against, since growth from zero has no percentage.
+ */
+export function percentChange(current: number | null, previous: number | null | undefined): number | null {
+  if (current === null || previous === null || previous === undefined || previous === 0) return null;
+  return (current - previous) / Math.abs(previous);
+}
+
+/**
+ * A summary with its revenue converted for the currency view. Each period is
+ * converted at its own date. Product and category revenue spans the whole
+ * range, so it is scaled by the range's overall conversion, the same factor
+ * that turns nominal total revenue into the converted total.
+ *
+ * Revenue is null where a rate is missing, rather than a wrong amount.
+ */
+export function convertSummary(summary: SalesSummary, convert: AmountConverter): SalesSummary<number | null> {
+  const series = summary.series.map((point) => ({
+    ...point,
+    revenue: convert(point.revenue, point.date),
+  }));
+
+  const nominal = summary.series.reduce((sum, point) => sum + point.revenue, 0);
+  const converted = series.some((point) => point.revenue === null)
+    ? null
+    : series.reduce((sum, point) => sum + (point.revenue ?? 0), 0);
+  // Nothing sold means nothing to convert
+  const factor = nominal === 0 ? 1 : converted === null ? null : converted / nominal;
+  const scale = (amount: number) => (factor === null ? null : amount * factor);
+
+  return {
+    totals: { ...summary.totals, revenue: scale(summary.totals.revenue) },
+    series,
+    top_products: summary.top_products.map((product) => ({ ...product, revenue: scale(product.revenue) })),
+    top_categories: summary.top_categories.map((category) => ({ ...category, revenue: scale(category.revenue) })),
+  };
+}
+
+export interface ComparedPoint<Amount = number> extends SalesPoint<Amount> {
+  /** Same position in the comparison period, if any */
+  previous?: SalesPoint<Amount>;
+}
+
+/**
+ * Pair each period with the one in the same position of the comparison
+ * range, so both can be drawn on one axis
+ */
+export function alignSeries<Amount>(
+  current: SalesPoint<Amount>[],
+  previous: SalesPoint<Amount>[] | undefined
+): ComparedPoint<Amount>[] {
+  return current.map((point, index) => ({ ...point, previous: previous?.[index] }));
+}
@@ -0,0 +1,40 @@
+/**
+ * Test Suite for Analytics API Client
+ * Covers the sales summary request
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ServerError } from './errors';
+import { getSalesSummary } from './analytics';
+
+const apiClient = vi.hoisted(() => ({
+  get: vi.fn(),
+}));
+
+vi.mock('./client', () => ({
+  createApiClient: () => apiClient,
+}));
+
+const params = { from: '2024-03-01', to: '2024-03-31', granularity: 'day' as const, limit: 5 };
+
+describe('Analytics API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should request the sales summary for a range', async () => {
+    const summary = { totals: { revenue: 1000, units: 2, transactions: 1 }, series: [], top_products: [], top_categories: [] };
+    vi.mocked(apiClient.get).mockResolvedValueOnce({ data: summary });
+    const controller = new AbortController();
+
+    const result = await getSalesSummary(params, controller.signal);
+
+    expect(apiClient.get).toHaveBeenCalledWith('/sales/', { params, signal: controller.signal });
+    expect(result).toEqual(summary);
+  });
+
+  it('should propagate server errors', async () => {
+    vi.mocked(apiClient.get).mockRejectedValueOnce(new ServerError('Request failed', { status: 500 }));
+
+    await expect(getSalesSummary(params)).rejects.toThrow('Request failed');
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Analytics API Client
+ * Sales totals, time series and top sellers computed from uploaded transactions
+ */
+
+import { createApiClient } from './client';
+import type { SalesSummary, SalesSummaryParams } from '@/types/analytics';
+
+const analyticsClient = createApiClient({ basePath: '/analytics' });
+
+export const ANALYTICS_QUERY_KEY = ['analytics'] as const;
+
+/**
+ * Summarize sales in a date range
+ */
+export async function getSalesSummary(
+  params: SalesSummaryParams,
+  signal?: AbortSignal
+): Promise<SalesSummary> {
+  const response = await analyticsClient.get<SalesSummary>('/sales/', { params, signal });
+  return response.data;
+}
@@ -0,0 +1,151 @@
+/**
+ * Test Suite for the Auth API Client
+ * Covers DRF error parsing and the profile update whitelist
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { AxiosError, AxiosHeaders, type InternalAxiosRequestConfig } from 'axios';
+import apiClient, {
+  extractErrorMessage,
+  parseApiErrors,
+  summarizeApiError,
+  updateProfile,
+} from './auth';
+import { NetworkError, ValidationError } from './errors';
+import type { User } from '@/types/auth';
+
+const badRequest = (data: unknown) => new ValidationError('Request failed', { status: 400, data });
+
+describe('Auth API', () => {
+  describe('parseApiErrors', () => {
+    it('should return one error per field message', () => {
+      const errors = parseApiErrors(
+        badRequest({
+          email: ['Ya existe un usuario con este correo.'],
+          username: ['Este nombre de usuario ya está en uso.', 'Demasiado corto.'],
+        })
+      );
+
+      expect(errors).toEqual([
+        { message: 'Ya existe un usuario con este correo.', field: 'email' },
+        { message: 'Este nombre de usuario ya está en uso.', field: 'username' },
+        { message: 'Demasiado corto.', field: 'username' },
+      ]);
+    });
+
+    it('should leave general errors without a field', () => {
+      expect(parseApiErrors(badRequest({ non_field_errors: ['Credenciales inválidas.'] }))).toEqual([
+        { message: 'Credenciales inválidas.' },
+      ]);
+      expect(parseApiErrors(badRequest({ detail: 'No autorizado.' }))).toEqual([
+        { message: 'No autorizado.' },
+      ]);
+    });
+
+    it('should keep the codes sent by the server', () => {
+      expect(
+        parseApiErrors(
+          badRequest({ detail: 'Token is invalid or expired', code: 'token_not_valid', messages: [] })
+        )
+      ).toEqual([{ message: 'Token is invalid or expired', code: 'token_not_valid' }]);
+
+      expect(
+        parseApiErrors(badRequest({ email: [{ message: 'Ya registrado.', code: 'unique' }] }))
+      ).toEqual([{ message: 'Ya registrado.', field: 'email', code: 'unique' }]);
+    });
+
+    it('should read the drf-standardized-errors format', () => {
+      const errors = parseApiErrors(
+        badRequest({
+          type: 'validation_error',
+          errors: [
+            { code: 'unique', detail: 'Ya registrado.', attr: 'email' },
+            { code: 'invalid', detail: 'Datos inválidos.', attr: 'non_field_errors' },
+          ],
+        })
+      );
+
+      expect(errors).toEqual([
+        { message: 'Ya registrado.', field: 'email', code: 'unique' },
+        { message: 'Datos inválidos.', code: 'invalid' },
+      ]);
+    });
+
+    it('should name nested fields with dots', () => {
+      expect(parseApiErrors(badRequest({ profile: { phone: ['Número inválido.'] } }))).toEqual([
+        { message: 'Número inválido.', field: 'profile.phone' },
+      ]);
+    });
+
+    it('should fall back to the error message when the body has no errors', () => {
+      expect(parseApiErrors(new NetworkError('Network Error'))).toEqual([{ message: 'Network Error' }]);
+      expect(parseApiErrors(badRequest('<html>Bad Request</html>'))).toEqual([
+        { message: 'Request failed' },
+      ]);
+      expect(parseApiErrors('boom')).toEqual([{ message: 'An unexpected error occurred' }]);
+    });
+
+    it('should read raw axios errors', () => {
+      const error = new AxiosError('Request failed', 'ERR_BAD_REQUEST', undefined, null, {
+        status: 400,
+        statusText: 'Bad Request',
+        data: { password: ['Muy común.'] },
+        headers: {},
+        config: { headers: new AxiosHeaders() },
+      });
+
+      expect(parseApiErrors(error)).toEqual([{ message: 'Muy común.', field: 'password' }]);
+    });
+  });
+
+  describe('summarizeApiError', () => {
+    it('should prefer a general error for the banner', () => {
+      const error = badRequest({ email: ['Ya registrado.'], non_field_errors: ['Revisa los datos.'] });
+
+      expect(summarizeApiError(error)).toEqual({ message: 'Revisa los datos.' });
+      expect(extractErrorMessage(error)).toBe('Ya registrado.');
+    });
+
+    it('should fall back to the first field error', () => {
+      expect(summarizeApiError(badRequest({ email: ['Ya registrado.'] }))).toEqual({
+        message: 'Ya registrado.',
+        field: 'email',
+      });
+    });
+  });
+
+  describe('updateProfile', () => {
+    const originalAdapter = apiClient.defaults.adapter;
+
+    afterEach(() => {
+      apiClient.defaults.adapter = originalAdapter;
+    });
+
+    it('should only send the editable fields', async () => {
+      const user: User = {
+        id: 1,
+        email: 'ana@example.com',
+        username: 'ana',
+        is_active: true,
+        is_staff: false,
+        email_verified: true,
+        date_joined: '2024-01-01T00:00:00Z',
+        last_login: null,
+      };
+      const adapter = vi.fn(async (config: InternalAxiosRequestConfig) => ({
+        data: user,
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config,
+      }));
+      apiClient.defaults.adapter = adapter;
+
+      await updateProfile({ ...user, id: 99, is_staff: true, username: 'ana_tienda' } as User);
+
+      expect(JSON.parse(adapter.mock.calls[0][0].data as string)).toEqual({
+        username: 'ana_tienda',
+        email: 'ana@example.com',
+      });
+    });
+  });
+});
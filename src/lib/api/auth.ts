@@ -3,82 +3,24 @@
  * Handles all authentication-related API calls
  */
 
-import axios, { AxiosError } from 'axios';
+import axios from 'axios';
+import { API_URL, createApiClient } from './client';
+import { ApiError } from './errors';
+import { EDITABLE_PROFILE_FIELDS } from '@/types/auth';
 import type {
   AuthResponse,
   LoginRequest,
   RegisterRequest,
   ChangePasswordRequest,
+  PasswordResetRequest,
+  PasswordResetConfirmRequest,
+  ProfileUpdateRequest,
   User,
   AuthTokens,
+  AuthError,
 } from '@/types/auth';
 
-const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:8000/api';
-
-// Create axios instance with default config
-const apiClient = axios.create({
-  baseURL: `${API_URL}/auth`,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-  timeout: 10000,
-});
-
-// Request interceptor to add auth token
-apiClient.interceptors.request.use(
-  (config) => {
-    const tokens = localStorage.getItem('ayni_tokens');
-    if (tokens) {
-      const { access } = JSON.parse(tokens) as AuthTokens;
-      config.headers.Authorization = `Bearer ${access}`;
-    }
-    return config;
-  },
-  (error) => Promise.reject(error)
-);
-
-// Response interceptor to handle token refresh
-apiClient.interceptors.response.use(
-  (response) => response,
-  async (error: AxiosError) => {
-    const originalRequest = error.config as typeof error.config & { _retry?: boolean };
-
-    // If error is 401 and we haven't retried yet
-    if (error.response?.status === 401 && !originalRequest._retry) {
-      originalRequest._retry = true;
-
-      try {
-        const tokens = localStorage.getItem('ayni_tokens');
-        if (tokens) {
-          const { refresh } = JSON.parse(tokens) as AuthTokens;
-          const { data } = await axios.post<AuthTokens>(
-            `${API_URL}/auth/token/refresh/`,
-            { refresh }
-          );
-
-          // Update stored tokens
-          localStorage.setItem('ayni_tokens', JSON.stringify(data));
-
-          // Update the failed request with new token
-          if (originalRequest.headers) {
-            originalRequest.headers.Authorization = `Bearer ${data.access}`;
-          }
-
-          // Retry the original request
-          return apiClient(originalRequest);
-        }
-      } catch (refreshError) {
-        // Refresh token is also invalid, clear auth state
-        localStorage.removeItem('ayni_tokens');
-        localStorage.removeItem('ayni_user');
-        window.location.href = '/login';
-        return Promise.reject(refreshError);
-      }
-    }
-
-    return Promise.reject(error);
-  }
-);
+const apiClient = createApiClient({ basePath: '/auth' });
 
 /**
  * Register a new user
@@ -106,16 +48,28 @@ export async function logout(refreshToken: string): Promise<void> {
 /**
  * Get current user profile
  */
-export async function getProfile(): Promise<User> {
-  const response = await apiClient.get<User>('/profile/');
+export async function getProfile(signal?: AbortSignal): Promise<User> {
+  const response = await apiClient.get<User>('/profile/', { signal });
   return response.data;
 }
 
+/**
+ * Keep only the editable profile fields, so read-only ones like `id` or
+ * `is_staff` are dropped even if the caller passes a whole `User`
+ */
+export function pickProfileChanges(data: ProfileUpdateRequest): ProfileUpdateRequest {
+  const changes: ProfileUpdateRequest = {};
+  for (const field of EDITABLE_PROFILE_FIELDS) {
+    if (data[field] !== undefined) changes[field] = data[field];
+  }
+  return changes;
+}
+
 /**
  * Update user profile
  */
-export async function updateProfile(data: Partial<User>): Promise<User> {
-  const response = await apiClient.patch<User>('/profile/', data);
+export async function updateProfile(data: ProfileUpdateRequest): Promise<User> {
+  const response = await apiClient.patch<User>('/profile/', pickProfileChanges(data));
   return response.data;
 }
 
@@ -126,6 +80,34 @@ export async function changePassword(data: ChangePasswordRequest): Promise<void>
   await apiClient.post('/change-password/', data);
 }
 
+/**
+ * Request a password reset link by email
+ */
+export async function requestPasswordReset(data: PasswordResetRequest): Promise<void> {
+  await apiClient.post('/password-reset/', data);
+}
+
+/**
+ * Set a new password with the uid and token from the reset link
+ */
+export async function confirmPasswordReset(data: PasswordResetConfirmRequest): Promise<void> {
+  await apiClient.post('/password-reset/confirm/', data);
+}
+
+/**
+ * Confirm the email address with the token from the verification link
+ */
+export async function verifyEmail(token: string): Promise<void> {
+  await apiClient.post('/verify-email/', { token });
+}
+
+/**
+ * Send the verification email again to the signed-in user
+ */
+export async function resendVerificationEmail(): Promise<void> {
+  await apiClient.post('/verify-email/resend/');
+}
+
 /**
  * Refresh access token
  */
@@ -137,43 +119,117 @@ export async function refreshToken(refresh: string): Promise<AuthTokens> {
   return response.data;
 }
 
+/** Keys of a DRF error body that hold errors not tied to one field */
+const NON_FIELD_KEYS = new Set(['non_field_errors', '__all__', 'detail', 'message']);
+
+/** Keys that describe the error rather than hold one */
+const METADATA_KEYS = new Set(['code', 'messages', 'type', 'status_code']);
+
 /**
- * Extract error message from API error
+ * Flatten one DRF error value (a string, a list, an `{ message, code }`
+ * object or nested field errors) into AuthErrors
  */
-export function extractErrorMessage(error: unknown): string {
-  if (axios.isAxiosError(error)) {
-    const data = error.response?.data as Record<string, unknown> | undefined;
-
-    // Handle validation errors
-    if (data && typeof data === 'object') {
-      // Check for field-specific errors
-      const firstError = Object.values(data)[0];
-      if (Array.isArray(firstError)) {
-        return firstError[0] as string;
-      }
-      if (typeof firstError === 'string') {
-        return firstError;
-      }
+function collectErrors(value: unknown, field: string | undefined, errors: AuthError[]): void {
+  if (typeof value === 'string') {
+    errors.push(field ? { message: value, field } : { message: value });
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach(item => collectErrors(item, field, errors));
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+
+  const entry = value as Record<string, unknown>;
+  const message = typeof entry.message === 'string' ? entry.message : entry.detail;
+  if (typeof message === 'string') {
+    errors.push({
+      message,
+      ...(field && { field }),
+      ...(typeof entry.code === 'string' && { code: entry.code }),
+    });
+    return;
+  }
 
-      // Check for detail field
-      if ('detail' in data && typeof data.detail === 'string') {
-        return data.detail;
-      }
+  // Nested serializer errors, e.g. { profile: { phone: [...] } }
+  for (const [key, nested] of Object.entries(entry)) {
+    collectErrors(nested, field ? `${field}.${key}` : key, errors);
+  }
+}
 
-      // Check for message field
-      if ('message' in data && typeof data.message === 'string') {
-        return data.message;
+/**
+ * Parse a DRF error body into one AuthError per message
+ */
+function parseErrorBody(data: unknown): AuthError[] {
+  if (typeof data === 'string') return [];
+  if (!data || typeof data !== 'object') return [];
+  const body = data as Record<string, unknown>;
+  const errors: AuthError[] = [];
+
+  // drf-standardized-errors: { type, errors: [{ code, detail, attr }] }
+  if (Array.isArray(body.errors)) {
+    for (const item of body.errors as Array<Record<string, unknown>>) {
+      if (typeof item?.detail !== 'string') continue;
+      errors.push({
+        message: item.detail,
+        ...(typeof item.attr === 'string' && !NON_FIELD_KEYS.has(item.attr) && { field: item.attr }),
+        ...(typeof item.code === 'string' && { code: item.code }),
+      });
+    }
+    return errors;
+  }
+
+  for (const [key, value] of Object.entries(body)) {
+    if (METADATA_KEYS.has(key)) continue;
+    if (NON_FIELD_KEYS.has(key)) {
+      const before = errors.length;
+      collectErrors(value, undefined, errors);
+      // simplejwt puts the code next to the detail: { detail, code }
+      if (typeof body.code === 'string') {
+        for (let i = before; i < errors.length; i++) errors[i].code ??= body.code;
       }
+    } else {
+      collectErrors(value, key, errors);
     }
+  }
+  return errors;
+}
+
+/**
+ * Every error in an API error response, with the form field it belongs to
+ * (`field`, absent for general errors) and the DRF error code when the
+ * server sends one. Never returns an empty list.
+ */
+export function parseApiErrors(error: unknown): AuthError[] {
+  if (error instanceof ApiError || axios.isAxiosError(error)) {
+    const data = error instanceof ApiError ? error.data : error.response?.data;
+    const errors = parseErrorBody(data);
+    if (errors.length > 0) return errors;
 
-    return error.response?.statusText || error.message;
+    return [{ message: (axios.isAxiosError(error) && error.response?.statusText) || error.message }];
   }
 
   if (error instanceof Error) {
-    return error.message;
+    return [{ message: error.message }];
   }
 
-  return 'An unexpected error occurred';
+  return [{ message: 'An unexpected error occurred' }];
+}
+
+/**
+ * The error to show in a form's banner: the first one not tied to a field,
+ * or else the first field error
+ */
+export function summarizeApiError(error: unknown): AuthError {
+  const errors = parseApiErrors(error);
+  return errors.find(item => !item.field) ?? errors[0];
+}
+
+/**
+ * Extract error message from API error
+ */
+export function extractErrorMessage(error: unknown): string {
+  return parseApiErrors(error)[0].message;
 }
 
 export default apiClient;
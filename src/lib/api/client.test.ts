@@ -0,0 +1,211 @@
+/**
+ * Test Suite for the API Client Factory
+ * Covers token injection and refresh, typed errors, cancellation and logging hooks
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import axios, {
+  AxiosError,
+  AxiosHeaders,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from 'axios';
+import { createApiClient, setApiClientHooks } from './client';
+import {
+  ApiError,
+  AuthenticationError,
+  NetworkError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from './errors';
+import { getTokens } from './tokenManager';
+import { writeSession } from '@/lib/authStorage';
+
+const respond = (config: InternalAxiosRequestConfig, status: number, data: unknown = {}): AxiosResponse => ({
+  data,
+  status,
+  statusText: '',
+  headers: {},
+  config,
+});
+
+const httpError = (config: InternalAxiosRequestConfig, status: number, data: unknown = {}) =>
+  new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, null, respond(config, status, data));
+
+const clientWith = (adapter: AxiosAdapter, options: Parameters<typeof createApiClient>[0] = {}) => {
+  const client = createApiClient(options);
+  client.defaults.adapter = adapter;
+  return client;
+};
+
+const storeTokens = (access: string, refresh = 'refresh-token') =>
+  writeSession({ user: null, tokens: { access, refresh } });
+
+describe('createApiClient', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setApiClientHooks({});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Valid Input Tests', () => {
+    it('should prefix requests with the module base path and apply its timeout', async () => {
+      const adapter = vi.fn(async (config: InternalAxiosRequestConfig) => respond(config, 200, { ok: true }));
+      const client = clientWith(adapter, { basePath: '/analytics', timeout: 30000 });
+
+      const response = await client.get('/summary/');
+
+      expect(response.data).toEqual({ ok: true });
+      const config = adapter.mock.calls[0][0];
+      expect(config.baseURL).toMatch(/\/analytics$/);
+      expect(config.url).toBe('/summary/');
+      expect(config.timeout).toBe(30000);
+    });
+
+    it('should send the stored access token as a bearer token', async () => {
+      storeTokens('access-1');
+      const adapter = vi.fn(async (config: InternalAxiosRequestConfig) => respond(config, 200));
+      const client = clientWith(adapter);
+
+      await client.get('/');
+
+      expect(AxiosHeaders.from(adapter.mock.calls[0][0].headers).get('Authorization')).toBe('Bearer access-1');
+    });
+
+    it('should refresh an expired token once and retry the request', async () => {
+      storeTokens('expired');
+      vi.spyOn(axios, 'post').mockResolvedValueOnce({ data: { access: 'access-2', refresh: 'refresh-2' } });
+      const adapter = vi.fn(async (config: InternalAxiosRequestConfig) => {
+        const auth = AxiosHeaders.from(config.headers).get('Authorization');
+        if (auth === 'Bearer expired') throw httpError(config, 401);
+        return respond(config, 200, { retried: true });
+      });
+      const client = clientWith(adapter);
+
+      const response = await client.get('/');
+
+      expect(response.data).toEqual({ retried: true });
+      expect(adapter).toHaveBeenCalledTimes(2);
+      expect(getTokens()?.access).toBe('access-2');
+    });
+
+    it('should share one refresh between parallel requests that get a 401', async () => {
+      storeTokens('expired');
+      const post = vi.spyOn(axios, 'post').mockImplementation(async () => ({
+        data: { access: 'access-2', refresh: 'refresh-2' },
+      }));
+      const client = clientWith(async config => {
+        const auth = AxiosHeaders.from(config.headers).get('Authorization');
+        if (auth === 'Bearer expired') throw httpError(config, 401);
+        return respond(config, 200);
+      });
+
+      await Promise.all(Array.from({ length: 5 }, (_, i) => client.get(`/${i}/`)));
+
+      expect(post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run global and per-client hooks around each request', async () => {
+      const global = { onRequest: vi.fn(), onResponse: vi.fn() };
+      const own = { onRequest: vi.fn(), onError: vi.fn() };
+      setApiClientHooks(global);
+      const client = clientWith(
+        async config => (config.url === '/fail/' ? Promise.reject(httpError(config, 500)) : respond(config, 200)),
+        { hooks: own }
+      );
+
+      await client.get('/ok/');
+      await expect(client.get('/fail/')).rejects.toThrow();
+
+      expect(global.onRequest).toHaveBeenCalledTimes(2);
+      expect(own.onRequest).toHaveBeenCalledTimes(2);
+      expect(global.onResponse).toHaveBeenCalledWith(expect.objectContaining({ status: 200 }), expect.any(Number));
+      expect(own.onError).toHaveBeenCalledWith(
+        expect.any(ServerError),
+        expect.objectContaining({ url: '/fail/' }),
+        expect.any(Number)
+      );
+    });
+  });
+
+  describe('Typed Error Tests', () => {
+    it.each([
+      [400, ValidationError],
+      [422, ValidationError],
+      [401, AuthenticationError],
+      [403, AuthenticationError],
+      [500, ServerError],
+      [503, ServerError],
+      [404, ApiError],
+    ])('should reject a %i response as %o', async (status, ErrorClass) => {
+      const data = { detail: 'Algo salió mal' };
+      const client = clientWith(async config => Promise.reject(httpError(config, status, data)));
+
+      const error = await client.get('/').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ErrorClass);
+      expect(error).toMatchObject({ status, data });
+    });
+
+    it('should reject an unreachable server as a NetworkError', async () => {
+      const client = clientWith(async config => Promise.reject(new AxiosError('Network Error', 'ERR_NETWORK', config)));
+
+      await expect(client.get('/')).rejects.toBeInstanceOf(NetworkError);
+    });
+
+    it('should reject a timed out request as a TimeoutError', async () => {
+      const client = clientWith(async config =>
+        Promise.reject(new AxiosError('timeout of 10000ms exceeded', 'ECONNABORTED', config))
+      );
+
+      await expect(client.get('/')).rejects.toBeInstanceOf(TimeoutError);
+    });
+  });
+
+  describe('Edge Case Tests', () => {
+    it('should cancel a request through its AbortSignal', async () => {
+      const controller = new AbortController();
+      const adapter = vi.fn(async (config: InternalAxiosRequestConfig) => respond(config, 200));
+      const client = clientWith(adapter);
+      controller.abort();
+
+      const error = await client.get('/', { signal: controller.signal }).catch((e: unknown) => e);
+
+      expect(axios.isCancel(error)).toBe(true);
+      expect(error).not.toBeInstanceOf(ApiError);
+      expect(adapter).not.toHaveBeenCalled();
+    });
+
+    it('should not let a throwing hook break the request', async () => {
+      setApiClientHooks({ onResponse: () => { throw new Error('logger down'); } });
+      const client = clientWith(async config => respond(config, 200, { ok: true }));
+
+      await expect(client.get('/')).resolves.toMatchObject({ data: { ok: true } });
+    });
+  });
+
+  describe('Error Handling Tests', () => {
+    it('should clear stored auth and reject when the refresh token is rejected', async () => {
+      storeTokens('expired');
+      vi.spyOn(axios, 'post').mockRejectedValueOnce(
+        httpError({ headers: new AxiosHeaders() } as InternalAxiosRequestConfig, 401)
+      );
+      const client = clientWith(async config => Promise.reject(httpError(config, 401)));
+
+      await expect(client.get('/')).rejects.toBeInstanceOf(AuthenticationError);
+      expect(getTokens()).toBeNull();
+    });
+
+    it('should not retry a 401 without stored tokens', async () => {
+      const adapter = vi.fn(async (config: InternalAxiosRequestConfig) => Promise.reject(httpError(config, 401)));
+      const client = clientWith(adapter);
+
+      await expect(client.get('/')).rejects.toBeInstanceOf(AuthenticationError);
+      expect(adapter).toHaveBeenCalledTimes(1);
+    });
+  });
+});
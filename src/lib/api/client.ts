@@ -0,0 +1,153 @@
+/**
+ * API Client Factory
+ * Shared axios setup for every API module: bearer token, token refresh,
+ * timeouts, logging hooks and typed errors
+ */
+
+import axios, {
+  type AxiosError,
+  type AxiosInstance,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from 'axios';
+import { toApiError } from './errors';
+import { getTokens, getValidAccessToken, refreshTokens } from './tokenManager';
+
+export const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:8000/api';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Called around every request, e.g. to log traffic during development.
+ * `error` is already converted to an ApiError subclass.
+ */
+export interface ApiClientHooks {
+  onRequest?: (config: InternalAxiosRequestConfig) => void;
+  onResponse?: (response: AxiosResponse, durationMs: number) => void;
+  onError?: (error: unknown, config: InternalAxiosRequestConfig | undefined, durationMs: number) => void;
+}
+
+export interface ApiClientOptions {
+  /** Path under API_URL shared by the module's endpoints, e.g. '/auth' */
+  basePath?: string;
+  timeout?: number;
+  hooks?: ApiClientHooks;
+}
+
+type TrackedRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean; _startedAt?: number };
+
+// Hooks registered once for all clients, in addition to each client's own
+let globalHooks: ApiClientHooks = {};
+
+/**
+ * Register hooks that run for requests made by every client
+ */
+export function setApiClientHooks(hooks: ApiClientHooks): void {
+  globalHooks = hooks;
+}
+
+function runHooks<K extends keyof ApiClientHooks>(
+  own: ApiClientHooks | undefined,
+  name: K,
+  ...args: Parameters<NonNullable<ApiClientHooks[K]>>
+): void {
+  for (const hooks of [globalHooks, own]) {
+    const hook = hooks?.[name] as ((...hookArgs: typeof args) => void) | undefined;
+    try {
+      hook?.(...args);
+    } catch {
+      // A failing logger must never break the request itself
+    }
+  }
+}
+
+function elapsed(config: TrackedRequestConfig | undefined): number {
+  return config?._startedAt === undefined ? 0 : Date.now() - config._startedAt;
+}
+
+/**
+ * Create an axios instance for one API module. Requests carry the stored
+ * access token, renewed first when it is about to expire; a 401 refreshes
+ * it once, sharing the refresh with other failing requests, and retries.
+ * Failures reject with the ApiError subclasses from './errors'; pass
+ * `signal` in a request's config to cancel it.
+ */
+export function createApiClient({
+  basePath = '',
+  timeout = DEFAULT_TIMEOUT_MS,
+  hooks,
+}: ApiClientOptions = {}): AxiosInstance {
+  const client = axios.create({
+    baseURL: `${API_URL}${basePath}`,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    timeout,
+  });
+
+  client.interceptors.request.use(async (config: TrackedRequestConfig) => {
+    const access = await getValidAccessToken();
+    if (access) {
+      config.headers.Authorization = `Bearer ${access}`;
+    }
+    config._startedAt = Date.now();
+    runHooks(hooks, 'onRequest', config);
+    return config;
+  });
+
+  client.interceptors.response.use(
+    (response) => {
+      runHooks(hooks, 'onResponse', response, elapsed(response.config));
+      return response;
+    },
+    async (error: AxiosError) => {
+      const originalRequest = error.config as TrackedRequestConfig | undefined;
+
+      // If error is 401 and we haven't retried yet
+      if (error.response?.status === 401 && originalRequest && !originalRequest._retry) {
+        originalRequest._retry = true;
+
+        const current = getTokens();
+        if (current) {
+          try {
+            // Another request may already have renewed the token this one was sent with
+            const sentWith = originalRequest.headers.Authorization;
+            const access = sentWith === `Bearer ${current.access}`
+              ? (await refreshTokens()).access
+              : current.access;
+
+            // Retry the original request with the new token
+            originalRequest.headers.Authorization = `Bearer ${access}`;
+            return client(originalRequest);
+          } catch (refreshError) {
+            // A rejected refresh has cleared the session, which signs the user out
+            const apiError = toApiError(axios.isAxiosError(refreshError) ? refreshError : error);
+            runHooks(hooks, 'onError', apiError, originalRequest, elapsed(originalRequest));
+            return Promise.reject(apiError);
+          }
+        }
+      }
+
+      const apiError = toApiError(error);
+      runHooks(hooks, 'onError', apiError, originalRequest, elapsed(originalRequest));
+      return Promise.reject(apiError);
+    }
+  );
+
+  return client;
+}
+
+/**
+ * Hooks that log every request to the console, for development builds
+ */
+export const consoleLoggingHooks: ApiClientHooks = {
+  onResponse: (response, durationMs) => {
+    console.debug(
+      `[api] ${response.config.method?.toUpperCase()} ${response.config.url} → ${response.status} (${durationMs} ms)`
+    );
+  },
+  onError: (error, config, durationMs) => {
+    const reason = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+    console.debug(`[api] ${config?.method?.toUpperCase()} ${config?.url} ✕ ${reason} (${durationMs} ms)`);
+  },
+};
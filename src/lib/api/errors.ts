@@ -0,0 +1,103 @@
+/**
+ * API Errors
+ * Typed errors raised by every client built with createApiClient
+ */
+
+import axios from 'axios';
+
+export interface ApiErrorOptions {
+  status?: number;
+  data?: unknown;
+  cause?: unknown;
+}
+
+/**
+ * Base class for failed API requests. `status` and `data` come from the
+ * response when the server answered.
+ */
+export class ApiError extends Error {
+  readonly status?: number;
+  readonly data?: unknown;
+  /** The underlying axios error */
+  readonly cause?: unknown;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status;
+    this.data = options.data;
+    this.cause = options.cause;
+  }
+}
+
+/** The server could not be reached */
+export class NetworkError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+/** The server did not answer within the client's timeout */
+export class TimeoutError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+/** The request was rejected as invalid (400 or 422) */
+export class ValidationError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ValidationError';
+  }
+}
+
+/** Missing or expired credentials, or not allowed (401 or 403) */
+export class AuthenticationError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/** The server failed to handle a valid request (5xx) */
+export class ServerError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Convert an axios error into the matching ApiError subclass.
+ * Cancellations and non-axios errors are returned unchanged.
+ */
+export function toApiError(error: unknown): unknown {
+  if (!axios.isAxiosError(error) || axios.isCancel(error)) {
+    return error;
+  }
+
+  if (!error.response) {
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new TimeoutError(error.message, { cause: error });
+    }
+    return new NetworkError(error.message, { cause: error });
+  }
+
+  const { status, data } = error.response;
+  const options = { status, data, cause: error };
+
+  if (status === 400 || status === 422) return new ValidationError(error.message, options);
+  if (status === 401 || status === 403) return new AuthenticationError(error.message, options);
+  if (status >= 500) return new ServerError(error.message, options);
+  return new ApiError(error.message, options);
+}
+
+/**
+ * Whether the request failed with the given HTTP status
+ */
+export function hasStatus(error: unknown, status: number): boolean {
+  return error instanceof ApiError && error.status === status;
+}
@@ -0,0 +1,105 @@
+/**
+ * Test Suite for Mapping Templates API Client
+ * Covers the server path and the localStorage fallback
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NetworkError, ServerError, ApiError } from './errors';
+import {
+  createMappingTemplate,
+  deleteMappingTemplate,
+  listMappingTemplates,
+  updateMappingTemplate,
+} from './mappingTemplates';
+import { getHeaderFingerprint } from '@/lib/mappingTemplates';
+
+const apiClient = vi.hoisted(() => ({
+  get: vi.fn(),
+  post: vi.fn(),
+  patch: vi.fn(),
+  delete: vi.fn(),
+}));
+
+vi.mock('./client', () => ({
+  createApiClient: () => apiClient,
+}));
+
+const networkError = () => new NetworkError('Network Error');
+
+const httpError = (status: number) => {
+  const options = { status, data: { detail: 'Error del servidor' } };
+  return status >= 500 ? new ServerError('Request failed', options) : new ApiError('Request failed', options);
+};
+
+const request = {
+  name: 'Bsale export',
+  headers: ['Fecha', 'Cantidad'],
+  mappings: [{ csvColumn: 'Fecha', systemColumn: 'in_dt' as const }],
+};
+
+describe('Mapping Templates API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  describe('Server', () => {
+    it('should send the header fingerprint when creating a template', async () => {
+      vi.mocked(apiClient.post).mockResolvedValueOnce({ data: { id: '1' } });
+
+      await createMappingTemplate(request);
+
+      expect(apiClient.post).toHaveBeenCalledWith(
+        '/',
+        { ...request, fingerprint: getHeaderFingerprint(request.headers) }
+      );
+      expect(localStorage.getItem('ayni_mapping_templates')).toBeNull();
+    });
+
+    it('should propagate server errors other than 404', async () => {
+      vi.mocked(apiClient.get).mockRejectedValueOnce(httpError(500));
+
+      await expect(listMappingTemplates()).rejects.toThrow('Request failed');
+    });
+  });
+
+  describe('localStorage Fallback', () => {
+    it('should keep templates locally while the server is unreachable', async () => {
+      vi.mocked(apiClient.post).mockRejectedValue(networkError());
+      vi.mocked(apiClient.get).mockRejectedValue(networkError());
+
+      const created = await createMappingTemplate(request);
+      const listed = await listMappingTemplates();
+
+      expect(created.id).toMatch(/^local-/);
+      expect(created.fingerprint).toBe(getHeaderFingerprint(request.headers));
+      expect(listed).toEqual([created]);
+    });
+
+    it('should fall back when the endpoint is not deployed', async () => {
+      vi.mocked(apiClient.post).mockRejectedValue(httpError(404));
+      vi.mocked(apiClient.patch).mockRejectedValue(httpError(404));
+      vi.mocked(apiClient.delete).mockRejectedValue(httpError(404));
+
+      const created = await createMappingTemplate(request);
+      const renamed = await updateMappingTemplate(created.id, { name: 'Defontana ventas' });
+      expect(renamed.name).toBe('Defontana ventas');
+      expect(renamed.mappings).toEqual(request.mappings);
+
+      await deleteMappingTemplate(created.id);
+      expect(JSON.parse(localStorage.getItem('ayni_mapping_templates') as string)).toEqual([]);
+    });
+
+    it('should reject updates to unknown local templates', async () => {
+      vi.mocked(apiClient.patch).mockRejectedValueOnce(networkError());
+
+      await expect(updateMappingTemplate('missing', { name: 'x' })).rejects.toThrow('Template not found');
+    });
+
+    it('should ignore corrupted local data', async () => {
+      vi.mocked(apiClient.get).mockRejectedValueOnce(networkError());
+      localStorage.setItem('ayni_mapping_templates', '{not json');
+
+      await expect(listMappingTemplates()).resolves.toEqual([]);
+    });
+  });
+});
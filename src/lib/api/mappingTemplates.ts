@@ -0,0 +1,141 @@
+/**
+ * Mapping Templates API Client
+ * Saved column mappings, stored server-side with a localStorage fallback
+ */
+
+import { createApiClient } from './client';
+import { NetworkError, TimeoutError, hasStatus } from './errors';
+import { getHeaderFingerprint } from '@/lib/mappingTemplates';
+import type {
+  CreateMappingTemplateRequest,
+  MappingTemplate,
+  UpdateMappingTemplateRequest,
+} from '@/types/mappingTemplate';
+
+const templatesClient = createApiClient({ basePath: '/mapping-templates' });
+
+const STORAGE_KEY = 'ayni_mapping_templates';
+
+export const MAPPING_TEMPLATES_QUERY_KEY = ['mapping-templates'] as const;
+
+/**
+ * Whether the templates endpoint is unavailable (offline, or not deployed on
+ * this backend yet) so the local copy should be used instead
+ */
+function isServerUnavailable(error: unknown): boolean {
+  return error instanceof NetworkError || error instanceof TimeoutError || hasStatus(error, 404);
+}
+
+async function withLocalFallback<T>(remote: () => Promise<T>, local: () => T): Promise<T> {
+  try {
+    return await remote();
+  } catch (error) {
+    if (isServerUnavailable(error)) {
+      return local();
+    }
+    throw error;
+  }
+}
+
+function readLocalTemplates(): MappingTemplate[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? (parsed as MappingTemplate[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeLocalTemplates(templates: MappingTemplate[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+}
+
+function findLocalTemplate(templates: MappingTemplate[], id: string): MappingTemplate {
+  const template = templates.find(t => t.id === id);
+  if (!template) {
+    throw new Error('Template not found');
+  }
+  return template;
+}
+
+/**
+ * List the user's mapping templates
+ */
+export async function listMappingTemplates(): Promise<MappingTemplate[]> {
+  return withLocalFallback(
+    async () => {
+      const response = await templatesClient.get<MappingTemplate[]>('/');
+      return response.data;
+    },
+    readLocalTemplates
+  );
+}
+
+/**
+ * Save the current mappings as a named template
+ */
+export async function createMappingTemplate(
+  data: CreateMappingTemplateRequest
+): Promise<MappingTemplate> {
+  const payload = { ...data, fingerprint: getHeaderFingerprint(data.headers) };
+
+  return withLocalFallback(
+    async () => {
+      const response = await templatesClient.post<MappingTemplate>('/', payload);
+      return response.data;
+    },
+    () => {
+      const now = new Date().toISOString();
+      const template: MappingTemplate = {
+        ...payload,
+        id: `local-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        created_at: now,
+        updated_at: now,
+      };
+      writeLocalTemplates([...readLocalTemplates(), template]);
+      return template;
+    }
+  );
+}
+
+/**
+ * Rename a template or replace its mappings
+ */
+export async function updateMappingTemplate(
+  id: string,
+  data: UpdateMappingTemplateRequest
+): Promise<MappingTemplate> {
+  return withLocalFallback(
+    async () => {
+      const response = await templatesClient.patch<MappingTemplate>(`/${encodeURIComponent(id)}/`, data);
+      return response.data;
+    },
+    () => {
+      const templates = readLocalTemplates();
+      const updated: MappingTemplate = {
+        ...findLocalTemplate(templates, id),
+        ...data,
+        updated_at: new Date().toISOString(),
+      };
+      writeLocalTemplates(templates.map(t => (t.id === id ? updated : t)));
+      return updated;
+    }
+  );
+}
+
+/**
+ * Delete a template
+ */
+export async function deleteMappingTemplate(id: string): Promise<void> {
+  return withLocalFallback(
+    async () => {
+      await templatesClient.delete(`/${encodeURIComponent(id)}/`);
+    },
+    () => {
+      const templates = readLocalTemplates();
+      findLocalTemplate(templates, id);
+      writeLocalTemplates(templates.filter(t => t.id !== id));
+    }
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * Test Suite for Rates API Client
+ * Covers the server path and its failures
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ApiError, NetworkError, ServerError } from './errors';
+import { listDailyRates } from './rates';
+
+const apiClient = vi.hoisted(() => ({
+  get: vi.fn(),
+}));
+
+vi.mock('./client', () => ({
+  createApiClient: () => apiClient,
+}));
+
+describe('Rates API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should request daily rates for a range', async () => {
+    const rates = [{ date: '2025-01-02', uf: 38420, usd: 990 }];
+    vi.mocked(apiClient.get).mockResolvedValueOnce({ data: rates });
+
+    const result = await listDailyRates({ from: '2025-01-01', to: '2025-01-31' });
+
+    expect(apiClient.get).toHaveBeenCalledWith('/daily/', {
+      params: { from: '2025-01-01', to: '2025-01-31' },
+      signal: undefined,
+    });
+    expect(result).toEqual(rates);
+  });
+
+  it('should fail instead of guessing rates while the server is unreachable', async () => {
+    vi.mocked(apiClient.get)
+      .mockRejectedValueOnce(new NetworkError('Network Error'))
+      .mockRejectedValueOnce(new ApiError('Not found', { status: 404 }));
+
+    await expect(listDailyRates()).rejects.toThrow('Network Error');
+    await expect(listDailyRates()).rejects.toThrow('Not found');
+  });
+
+  it('should propagate server errors', async () => {
+    vi.mocked(apiClient.get).mockRejectedValueOnce(new ServerError('Request failed', { status: 500 }));
+
+    await expect(listDailyRates()).rejects.toThrow('Request failed');
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Rates API Client
+ * Daily UF and dollar values published by the backend
+ */
+
+import { createApiClient } from './client';
+import type { DailyRate, DailyRatesParams } from '@/types/currency';
+
+const ratesClient = createApiClient({ basePath: '/rates' });
+
+export const RATES_QUERY_KEY = ['rates'] as const;
+
+/**
+ * List daily rates, oldest first. There is no offline copy: converting at
+ * rates that are not the published ones would show wrong amounts, so a
+ * failure leaves amounts in nominal pesos instead.
+ */
+export async function listDailyRates(
+  params: DailyRatesParams = {},
+  signal?: AbortSignal
+): Promise<DailyRate[]> {
+  const response = await ratesClient.get<DailyRate[]>('/daily/', { params, signal });
+  return response.data;
+}
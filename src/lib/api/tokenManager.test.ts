@@ -0,0 +1,262 @@
+/**
+ * Test Suite for the Token Manager
+ * Covers JWT expiry decoding, single-flight refresh, cross-tab refresh
+ * locking, proactive renewal and keeping useAuthStore in step with stored tokens
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import axios, { AxiosError, AxiosHeaders } from 'axios';
+import {
+  REFRESH_MARGIN_MS,
+  clearTokens,
+  decodeTokenExpiry,
+  getTokens,
+  getValidAccessToken,
+  refreshTokens,
+  setTokens,
+} from './tokenManager';
+import { readSession, writeSession } from '@/lib/authStorage';
+import { useAuthStore } from '@/store/authStore';
+import type { User } from '@/types/auth';
+
+const base64Url = (value: string) =>
+  btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/** A signed-looking JWT expiring `inMs` from now */
+const jwt = (inMs: number, claims: Record<string, unknown> = {}) =>
+  [
+    base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' })),
+    base64Url(JSON.stringify({ exp: Math.floor((Date.now() + inMs) / 1000), ...claims })),
+    'signature',
+  ].join('.');
+
+const HOUR = 60 * 60 * 1000;
+
+const user: User = {
+  id: 1,
+  email: 'ana@example.com',
+  username: 'ana',
+  is_active: true,
+  is_staff: false,
+  email_verified: true,
+  date_joined: '2024-01-01T00:00:00Z',
+  last_login: null,
+};
+
+const failedRefresh = (status: number, statusText: string, data: unknown) =>
+  new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', undefined, null, {
+    status,
+    statusText,
+    data,
+    headers: {},
+    config: { headers: new AxiosHeaders() },
+  });
+
+const rejectedRefresh = () =>
+  failedRefresh(401, 'Unauthorized', { detail: 'Token is invalid or expired', code: 'token_not_valid' });
+
+/**
+ * Web Locks stand-in that lets a test act as another tab before the lock is
+ * granted to this one
+ */
+const stubLocks = (beforeGrant: () => void = () => {}) => {
+  const request = vi.fn(async (_name: string, callback: () => unknown) => {
+    beforeGrant();
+    return callback();
+  });
+  vi.spyOn(navigator, 'locks', 'get').mockReturnValue({ request } as unknown as LockManager);
+  return request;
+};
+
+describe('Token Manager', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useAuthStore.setState({ user: null, tokens: null, isAuthenticated: false, error: null });
+  });
+
+  afterEach(() => {
+    clearTokens();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe('decodeTokenExpiry', () => {
+    it('should read the exp claim as epoch milliseconds', () => {
+      const token = jwt(HOUR);
+      const expiry = decodeTokenExpiry(token);
+
+      expect(expiry).toBeGreaterThan(Date.now() + HOUR - 2000);
+      expect(expiry).toBeLessThanOrEqual(Date.now() + HOUR);
+    });
+
+    it('should decode base64url payloads', () => {
+      const token = jwt(HOUR, { name: '???>>>' });
+
+      expect(token.split('.')[1]).toMatch(/[-_]/);
+      expect(decodeTokenExpiry(token)).not.toBeNull();
+    });
+
+    it('should return null for malformed tokens or tokens without exp', () => {
+      expect(decodeTokenExpiry('not-a-jwt')).toBeNull();
+      expect(decodeTokenExpiry('a.%%%.c')).toBeNull();
+      expect(decodeTokenExpiry(`x.${base64Url('{"sub":1}')}.y`)).toBeNull();
+    });
+  });
+
+  describe('Single-flight Refresh', () => {
+    it('should send one refresh request for concurrent callers', async () => {
+      setTokens({ access: jwt(-1000), refresh: jwt(HOUR) });
+      const renewed = { access: jwt(HOUR), refresh: jwt(2 * HOUR) };
+      const post = vi.spyOn(axios, 'post').mockResolvedValue({ data: renewed });
+
+      const results = await Promise.all(Array.from({ length: 5 }, () => refreshTokens()));
+
+      expect(post).toHaveBeenCalledTimes(1);
+      expect(results.every(tokens => tokens === results[0])).toBe(true);
+      expect(getTokens()).toEqual(renewed);
+    });
+
+    it('should keep the refresh token when the server does not rotate it', async () => {
+      const refresh = jwt(HOUR);
+      setTokens({ access: jwt(-1000), refresh });
+      const access = jwt(HOUR);
+      vi.spyOn(axios, 'post').mockResolvedValue({ data: { access } });
+
+      await refreshTokens();
+
+      expect(getTokens()).toEqual({ access, refresh });
+    });
+
+    it('should propagate renewed tokens into the auth store', async () => {
+      const initial = { access: jwt(-1000), refresh: jwt(HOUR) };
+      setTokens(initial);
+      useAuthStore.setState({ user, tokens: initial, isAuthenticated: true });
+      const renewed = { access: jwt(HOUR), refresh: jwt(2 * HOUR) };
+      vi.spyOn(axios, 'post').mockResolvedValue({ data: renewed });
+
+      await refreshTokens();
+
+      expect(useAuthStore.getState().tokens).toEqual(renewed);
+      expect(useAuthStore.getState().isAuthenticated).toBe(true);
+    });
+  });
+
+  describe('Cross-tab Refresh', () => {
+    it('should refresh while holding the shared refresh lock', async () => {
+      const request = stubLocks();
+      setTokens({ access: jwt(-1000), refresh: jwt(HOUR) });
+      const renewed = { access: jwt(HOUR), refresh: jwt(2 * HOUR) };
+      vi.spyOn(axios, 'post').mockResolvedValue({ data: renewed });
+
+      await expect(refreshTokens()).resolves.toEqual(renewed);
+
+      expect(request).toHaveBeenCalledWith('ayni_token_refresh', expect.any(Function));
+    });
+
+    it('should reuse the tokens another tab renewed while waiting for the lock', async () => {
+      const renewed = { access: jwt(HOUR), refresh: jwt(2 * HOUR) };
+      stubLocks(() => writeSession({ user, tokens: renewed }));
+      setTokens({ access: jwt(-1000), refresh: jwt(HOUR) });
+      const post = vi.spyOn(axios, 'post');
+
+      await expect(refreshTokens()).resolves.toEqual(renewed);
+
+      expect(post).not.toHaveBeenCalled();
+    });
+
+    it('should keep the session when another tab rotated the refresh token first', async () => {
+      setTokens({ access: jwt(-1000), refresh: jwt(HOUR) });
+      const renewed = { access: jwt(HOUR), refresh: jwt(2 * HOUR) };
+      vi.spyOn(axios, 'post').mockImplementation(async () => {
+        // The other tab's renewal arrives while this request is in flight
+        writeSession({ user, tokens: renewed });
+        throw rejectedRefresh();
+      });
+
+      await expect(refreshTokens()).resolves.toEqual(renewed);
+
+      expect(getTokens()).toEqual(renewed);
+    });
+  });
+
+  describe('Proactive Renewal', () => {
+    it('should refresh shortly before the access token expires', async () => {
+      vi.useFakeTimers();
+      const post = vi.spyOn(axios, 'post').mockResolvedValue({
+        data: { access: jwt(2 * HOUR), refresh: jwt(3 * HOUR) },
+      });
+      setTokens({ access: jwt(10 * 60 * 1000), refresh: jwt(HOUR) });
+
+      await vi.advanceTimersByTimeAsync(10 * 60 * 1000 - REFRESH_MARGIN_MS - 1000);
+      expect(post).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should renew an expiring token before handing it to a request', async () => {
+      setTokens({ access: jwt(REFRESH_MARGIN_MS / 2), refresh: jwt(HOUR) });
+      const renewed = { access: jwt(HOUR), refresh: jwt(2 * HOUR) };
+      vi.spyOn(axios, 'post').mockResolvedValue({ data: renewed });
+
+      await expect(getValidAccessToken()).resolves.toBe(renewed.access);
+    });
+
+    it('should hand out a fresh token without refreshing', async () => {
+      const tokens = { access: jwt(HOUR), refresh: jwt(2 * HOUR) };
+      setTokens(tokens);
+      const post = vi.spyOn(axios, 'post');
+
+      await expect(getValidAccessToken()).resolves.toBe(tokens.access);
+      expect(post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Error Handling Tests', () => {
+    it('should clear tokens and sign out of the store when the refresh is rejected', async () => {
+      const tokens = { access: jwt(-1000), refresh: jwt(HOUR) };
+      writeSession({ user, tokens });
+      useAuthStore.setState({ user, tokens, isAuthenticated: true });
+      vi.spyOn(axios, 'post').mockRejectedValue(rejectedRefresh());
+
+      await expect(refreshTokens()).rejects.toThrow();
+
+      expect(readSession()).toBeNull();
+      expect(useAuthStore.getState()).toMatchObject({ user: null, tokens: null, isAuthenticated: false });
+    });
+
+    it('should keep the session when the refresh fails to reach the server', async () => {
+      const tokens = { access: jwt(-1000), refresh: jwt(HOUR) };
+      setTokens(tokens);
+      vi.spyOn(axios, 'post').mockRejectedValue(new AxiosError('Network Error', 'ERR_NETWORK'));
+
+      await expect(refreshTokens()).rejects.toThrow('Network Error');
+
+      expect(getTokens()).toEqual(tokens);
+    });
+
+    it('should keep the session when the server cannot refresh for now', async () => {
+      const tokens = { access: jwt(-1000), refresh: jwt(HOUR) };
+      writeSession({ user, tokens });
+      useAuthStore.setState({ user, tokens, isAuthenticated: true });
+      vi.spyOn(axios, 'post')
+        .mockRejectedValueOnce(failedRefresh(503, 'Service Unavailable', '<html>Service Unavailable</html>'))
+        .mockRejectedValueOnce(failedRefresh(429, 'Too Many Requests', { detail: 'Request was throttled.' }));
+
+      await expect(refreshTokens()).rejects.toThrow('status code 503');
+      await expect(refreshTokens()).rejects.toThrow('status code 429');
+
+      expect(getTokens()).toEqual(tokens);
+      expect(useAuthStore.getState().isAuthenticated).toBe(true);
+    });
+
+    it('should not send an expired refresh token', async () => {
+      setTokens({ access: jwt(-2000), refresh: jwt(-1000) });
+      const post = vi.spyOn(axios, 'post');
+
+      await expect(refreshTokens()).rejects.toThrow('Session expired');
+
+      expect(post).not.toHaveBeenCalled();
+      expect(getTokens()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Token Manager
+ * Single owner of the stored JWT pair: proactive renewal before expiry,
+ * one refresh request at a time across all tabs, and change notifications
+ * for the auth store
+ */
+
+import axios from 'axios';
+import { clearSession, readSession, updateSession } from '@/lib/authStorage';
+import type { AuthTokens } from '@/types/auth';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:8000/api';
+
+/** Renew the access token this long before it expires */
+export const REFRESH_MARGIN_MS = 60 * 1000;
+
+// setTimeout delays overflow past ~24.8 days
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Web Lock held by the tab that is currently refreshing
+const REFRESH_LOCK = 'ayni_token_refresh';
+
+type TokensListener = (tokens: AuthTokens | null) => void;
+
+const listeners = new Set<TokensListener>();
+let refreshInFlight: Promise<AuthTokens> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * Read the `exp` claim of a JWT as epoch milliseconds, or null if the token
+ * is malformed or has no expiry
+ */
+export function decodeTokenExpiry(token: string): number | null {
+  try {
+    const payload = token.split('.')[1];
+    if (!payload) return null;
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    const { exp } = JSON.parse(atob(padded)) as { exp?: unknown };
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a token expires within `marginMs` from now. Tokens without a
+ * readable expiry are treated as still valid.
+ */
+export function isTokenExpiring(token: string, marginMs = 0): boolean {
+  const expiry = decodeTokenExpiry(token);
+  return expiry !== null && expiry - Date.now() <= marginMs;
+}
+
+export function getTokens(): AuthTokens | null {
+  return readSession()?.tokens ?? null;
+}
+
+/**
+ * Store a new token pair (or end the session with null), reschedule
+ * proactive renewal and notify subscribers
+ */
+export function setTokens(tokens: AuthTokens | null): void {
+  if (tokens) {
+    updateSession({ tokens });
+  } else {
+    clearSession();
+  }
+  scheduleTokenRefresh();
+  listeners.forEach(listener => listener(tokens));
+}
+
+export function clearTokens(): void {
+  setTokens(null);
+}
+
+/**
+ * Be notified whenever tokens are stored, refreshed or cleared
+ */
+export function subscribeToTokens(listener: TokensListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Exchange the refresh token for a new pair. Concurrent callers share one
+ * request, and other tabs wait for it and reuse its result. If the refresh
+ * token is missing, expired or rejected, the tokens are cleared and the
+ * returned promise rejects.
+ */
+export function refreshTokens(): Promise<AuthTokens> {
+  if (!refreshInFlight) {
+    refreshInFlight = requestRefresh().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+/**
+ * Run a refresh while no other tab runs one. With refresh-token rotation
+ * each refresh token is accepted once, so a tab sending a token another tab
+ * has just rotated would be rejected and sign every tab out.
+ */
+async function withRefreshLock<T>(refresh: () => Promise<T>): Promise<T> {
+  if (typeof navigator === 'undefined' || !navigator.locks) return refresh();
+  return await navigator.locks.request(REFRESH_LOCK, refresh);
+}
+
+function requestRefresh(): Promise<AuthTokens> {
+  const expiring = getTokens();
+  return withRefreshLock(async () => {
+    const current = getTokens();
+    // Another tab renewed the pair while this one waited for the lock
+    if (current && expiring && current.access !== expiring.access) return current;
+    return sendRefresh(current);
+  });
+}
+
+/**
+ * Whether the server turned the refresh token down. Server errors, rate
+ * limiting and dropped connections say nothing about the token.
+ */
+function isRefreshRejected(error: unknown): boolean {
+  if (!axios.isAxiosError(error) || !error.response) return false;
+  const { status, data } = error.response;
+  return status === 400 || status === 401 || (data as { code?: unknown } | undefined)?.code === 'token_not_valid';
+}
+
+async function sendRefresh(current: AuthTokens | null): Promise<AuthTokens> {
+  if (!current?.refresh || isTokenExpiring(current.refresh)) {
+    clearTokens();
+    throw new Error('Session expired');
+  }
+
+  try {
+    const { data } = await axios.post<Partial<AuthTokens> & { access: string }>(
+      `${API_URL}/auth/token/refresh/`,
+      { refresh: current.refresh }
+    );
+    // Without refresh-token rotation the server only returns a new access token
+    const tokens: AuthTokens = { refresh: current.refresh, ...data };
+    setTokens(tokens);
+    return tokens;
+  } catch (error) {
+    // Only a rejected refresh token ends the session
+    if (isRefreshRejected(error)) {
+      // The token may have been rotated by another tab without Web Locks
+      const latest = getTokens();
+      if (latest && latest.refresh !== current.refresh) return latest;
+      clearTokens();
+    }
+    throw error;
+  }
+}
+
+/**
+ * The current access token, refreshed first if it is about to expire
+ */
+export async function getValidAccessToken(): Promise<string | null> {
+  const tokens = getTokens();
+  if (!tokens) return null;
+  if (!isTokenExpiring(tokens.access, REFRESH_MARGIN_MS)) return tokens.access;
+
+  try {
+    return (await refreshTokens()).access;
+  } catch {
+    // Send the request anyway; the 401 handling decides what happens next
+    return getTokens()?.access ?? null;
+  }
+}
+
+/**
+ * (Re)arm the timer that renews the stored access token shortly before it
+ * expires
+ */
+export function scheduleTokenRefresh(): void {
+  clearTimeout(refreshTimer);
+  refreshTimer = undefined;
+
+  const tokens = getTokens();
+  const expiry = tokens?.refresh ? decodeTokenExpiry(tokens.access) : null;
+  if (expiry === null) return;
+
+  const delay = Math.min(Math.max(expiry - Date.now() - REFRESH_MARGIN_MS, 0), MAX_TIMER_DELAY_MS);
+  refreshTimer = setTimeout(() => {
+    refreshTimer = undefined;
+    refreshTokens().catch(() => {
+      // A failed renewal has already cleared or kept the tokens as appropriate
+    });
+  }, delay);
+}
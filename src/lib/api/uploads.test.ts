@@ -0,0 +1,346 @@
+/**
+ * Test Suite for Uploads API Client
+ * Runs the chunked upload protocol against an in-memory mock server
+ * plugged in as the uploads client's axios adapter
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  AxiosError,
+  AxiosHeaders,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from 'axios';
+import { createUpload, getFileKey, uploadsClient } from './uploads';
+import { writeSession } from '@/lib/authStorage';
+import type { UploadProgress, UploadSession } from '@/types/upload';
+
+// happy-dom's Blob has no arrayBuffer()
+const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+// 'lost' stores the chunk but drops the response, like a connection cut mid-reply;
+// 'stuck' answers without storing it, so the offset does not move
+type Fault = 'network' | 'lost' | 'stuck' | 500 | 404 | 409 | 400;
+
+interface MockRequest {
+  method: string;
+  url: string;
+  headers: Record<string, unknown>;
+}
+
+/**
+ * Minimal upload server: sessions keep the received bytes, and tests can
+ * queue faults for the next matching requests
+ */
+function createMockServer() {
+  const sessions = new Map<string, UploadSession & { bytes: number[] }>();
+  const uploads = new Map<string, Record<string, unknown>>();
+  // First response to each idempotency key, replayed for repeated requests
+  const idempotent = new Map<string, unknown>();
+  const requests: MockRequest[] = [];
+  const faults: { match: RegExp; fault: Fault }[] = [];
+  let nextId = 1;
+
+  const respond = <T,>(config: InternalAxiosRequestConfig, status: number, data: T): AxiosResponse<T> => ({
+    data,
+    status,
+    statusText: '',
+    headers: {},
+    config,
+  });
+
+  const fail = (config: InternalAxiosRequestConfig, fault: Exclude<Fault, 'stuck'>) => {
+    if (fault === 'network' || fault === 'lost') {
+      return new AxiosError('Network Error', 'ERR_NETWORK', config);
+    }
+    const response = respond(config, fault, { detail: `Error ${fault}` });
+    return new AxiosError(`Request failed with status code ${fault}`, 'ERR_BAD_RESPONSE', config, null, response);
+  };
+
+  const publicSession = (session: UploadSession & { bytes: number[] }): UploadSession => ({
+    id: session.id,
+    file_name: session.file_name,
+    file_size: session.file_size,
+    chunk_size: session.chunk_size,
+    offset: session.offset,
+  });
+
+  const adapter: AxiosAdapter = async (config) => {
+    const method = (config.method ?? 'get').toUpperCase();
+    // Paths are relative to the client's /uploads base path
+    const url = `/uploads${config.url ?? ''}`;
+    requests.push({ method, url, headers: { ...AxiosHeaders.from(config.headers).toJSON() } });
+
+    const faultIndex = faults.findIndex(f => f.match.test(`${method} ${url}`));
+    const fault = faultIndex >= 0 ? faults.splice(faultIndex, 1)[0].fault : undefined;
+    if (fault !== undefined && fault !== 'lost' && fault !== 'stuck') {
+      throw fail(config, fault);
+    }
+
+    const idempotencyKey = AxiosHeaders.from(config.headers).get('Idempotency-Key');
+    const replayed = method === 'POST' && idempotencyKey ? idempotent.get(`${url} ${idempotencyKey}`) : undefined;
+    // Creates the resource on the first request, then drops the response if asked to
+    const created = <T,>(data: T) => {
+      if (idempotencyKey) idempotent.set(`${url} ${idempotencyKey}`, data);
+      if (fault === 'lost') throw fail(config, fault);
+      return respond(config, 201, data);
+    };
+
+    if (method === 'POST' && url === '/uploads/sessions/') {
+      if (replayed) return respond(config, 201, replayed);
+      const body = JSON.parse(config.data as string);
+      const id = `s${nextId++}`;
+      sessions.set(id, { id, file_name: body.file_name, file_size: body.file_size, chunk_size: body.chunk_size, offset: 0, bytes: [] });
+      return created(publicSession(sessions.get(id)!));
+    }
+
+    const match = url.match(/^\/uploads\/sessions\/([^/]+)\/(complete\/)?$/);
+    const session = match && sessions.get(match[1]);
+    if (!session) {
+      throw fail(config, 404);
+    }
+
+    if (method === 'GET') {
+      return respond(config, 200, publicSession(session));
+    }
+
+    if (method === 'PUT') {
+      const range = String(AxiosHeaders.from(config.headers).get('Content-Range'));
+      const [, start, end] = range.match(/^bytes (\d+)-(\d+)\/\d+$/) ?? [];
+      if (Number(start) !== session.offset) {
+        throw fail(config, 409);
+      }
+      if (fault === 'stuck') {
+        return respond(config, 200, publicSession(session));
+      }
+      const chunk = await readBlob(config.data as Blob);
+      expect(chunk.length).toBe(Number(end) - Number(start) + 1);
+      session.bytes.push(...chunk);
+      session.offset += chunk.length;
+      config.onUploadProgress?.({ loaded: chunk.length, total: chunk.length, bytes: chunk.length, lengthComputable: true });
+      if (fault === 'lost') {
+        throw fail(config, fault);
+      }
+      return respond(config, 200, publicSession(session));
+    }
+
+    if (method === 'POST' && match?.[2]) {
+      if (replayed) return respond(config, 201, replayed);
+      if (session.offset !== session.file_size) {
+        throw fail(config, 400);
+      }
+      const body = JSON.parse(config.data as string);
+      const upload = {
+        id: 42 + uploads.size,
+        file_name: session.file_name,
+        file_size: session.file_size,
+        status: 'pending',
+        row_count: null,
+        rejected_rows: 0,
+        template_name: null,
+        created_at: '2024-01-15T00:00:00Z',
+        mappings: body.mappings,
+        content: new TextDecoder().decode(new Uint8Array(session.bytes)),
+      };
+      uploads.set(String(upload.id), upload);
+      return created(upload);
+    }
+
+    throw fail(config, 404);
+  };
+
+  return {
+    adapter,
+    sessions,
+    uploads,
+    requests,
+    failNext: (match: RegExp, fault: Fault, times = 1) => {
+      for (let i = 0; i < times; i++) faults.push({ match, fault });
+    },
+  };
+}
+
+const CONTENT = 'fecha,producto,cantidad\n2024-01-15,SKU-1,2\n2024-01-16,SKU-2,3\n';
+const makeFile = () => new File([CONTENT], 'ventas.csv', { type: 'text/csv', lastModified: 1700000000000 });
+const MAPPINGS = [{ csvColumn: 'fecha', systemColumn: 'in_dt' as const }];
+const FAST = { chunkSize: 16, retryDelayMs: 0 };
+
+describe('Uploads API - Chunked Upload', () => {
+  const originalAdapter = uploadsClient.defaults.adapter;
+  let server: ReturnType<typeof createMockServer>;
+
+  beforeEach(() => {
+    localStorage.clear();
+    server = createMockServer();
+    uploadsClient.defaults.adapter = server.adapter;
+  });
+
+  afterEach(() => {
+    uploadsClient.defaults.adapter = originalAdapter;
+  });
+
+  describe('Valid - Happy Path', () => {
+    it('should send the file in chunks and submit the mappings', async () => {
+      const upload = await createUpload({ file: makeFile(), mappings: MAPPINGS }, FAST);
+
+      expect(upload).toMatchObject({ id: 42, content: CONTENT, mappings: MAPPINGS });
+      const puts = server.requests.filter(r => r.method === 'PUT');
+      expect(puts).toHaveLength(Math.ceil(CONTENT.length / 16));
+      expect(puts[0].headers['Content-Range']).toBe(`bytes 0-15/${CONTENT.length}`);
+    });
+
+    it('should send the access token with every request', async () => {
+      writeSession({ user: null, tokens: { access: 'token-123', refresh: 'r' } });
+
+      await createUpload({ file: makeFile(), mappings: MAPPINGS }, FAST);
+
+      expect(server.requests.every(r => r.headers.Authorization === 'Bearer token-123')).toBe(true);
+    });
+
+    it('should report byte-level progress up to the file size', async () => {
+      const progress: UploadProgress[] = [];
+
+      await createUpload({ file: makeFile(), mappings: MAPPINGS }, { ...FAST, onProgress: p => progress.push(p) });
+
+      const loaded = progress.map(p => p.loaded);
+      expect(loaded[0]).toBe(0);
+      expect(loaded[loaded.length - 1]).toBe(CONTENT.length);
+      expect(loaded).toEqual([...loaded].sort((a, b) => a - b));
+      expect(progress.every(p => p.total === CONTENT.length)).toBe(true);
+    });
+  });
+
+  describe('Error Handling - Retries', () => {
+    it('should retry a chunk after a dropped connection or server error', async () => {
+      server.failNext(/^PUT/, 'network');
+      server.failNext(/^PUT/, 500);
+
+      const upload = await createUpload({ file: makeFile(), mappings: MAPPINGS }, FAST);
+
+      expect(upload).toMatchObject({ content: CONTENT });
+    });
+
+    it('should give up after the retry limit and keep the session', async () => {
+      server.failNext(/^PUT/, 'network', 3);
+
+      await expect(
+        createUpload({ file: makeFile(), mappings: MAPPINGS }, { ...FAST, maxRetries: 2 })
+      ).rejects.toThrow('Network Error');
+      expect(localStorage.getItem('ayni_upload_sessions')).toContain(getFileKey(makeFile()));
+    });
+
+    it('should not retry client errors', async () => {
+      server.failNext(/^POST \/uploads\/sessions\/$/, 400);
+
+      await expect(createUpload({ file: makeFile(), mappings: MAPPINGS }, FAST)).rejects.toThrow('400');
+      expect(server.requests).toHaveLength(1);
+    });
+
+    it('should back off exponentially between retries', async () => {
+      const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout');
+      server.failNext(/^PUT/, 500, 3);
+
+      try {
+        await createUpload({ file: makeFile(), mappings: MAPPINGS }, { chunkSize: 1024, retryDelayMs: 7 });
+        const delays = setTimeoutSpy.mock.calls.map(([, ms]) => ms).filter(ms => [7, 14, 28].includes(ms as number));
+        expect(delays).toEqual([7, 14, 28]);
+      } finally {
+        setTimeoutSpy.mockRestore();
+      }
+    });
+  });
+
+  describe('Functional - Resume', () => {
+    it('should resume from the server offset after a reload', async () => {
+      server.failNext(/^PUT/, 'network');
+      const firstAttempt = createUpload({ file: makeFile(), mappings: MAPPINGS }, { ...FAST, maxRetries: 0 });
+      await expect(firstAttempt).rejects.toThrow('Network Error');
+
+      server.requests.length = 0;
+      const session = [...server.sessions.values()][0];
+      session.bytes.push(...new TextEncoder().encode(CONTENT.slice(0, 16)));
+      session.offset = 16;
+
+      const upload = await createUpload({ file: makeFile(), mappings: MAPPINGS }, FAST);
+
+      expect(upload).toMatchObject({ content: CONTENT });
+      expect(server.requests.filter(r => r.method === 'POST' && r.url === '/uploads/sessions/')).toHaveLength(0);
+      expect(server.requests.find(r => r.method === 'PUT')?.headers['Content-Range']).toMatch(/^bytes 16-/);
+      expect(localStorage.getItem('ayni_upload_sessions')).toBe('[]');
+    });
+
+    it('should start over when the stored session expired', async () => {
+      localStorage.setItem('ayni_upload_sessions', JSON.stringify([[getFileKey(makeFile()), 'gone']]));
+
+      const upload = await createUpload({ file: makeFile(), mappings: MAPPINGS }, FAST);
+
+      expect(upload).toMatchObject({ content: CONTENT });
+      expect(server.requests[0]).toMatchObject({ method: 'GET', url: '/uploads/sessions/gone/' });
+    });
+
+    it('should continue from the server offset when a chunk response is lost', async () => {
+      server.failNext(/^PUT/, 'lost');
+
+      const upload = await createUpload({ file: makeFile(), mappings: MAPPINGS }, FAST);
+
+      expect(upload).toMatchObject({ content: CONTENT });
+      const methods = server.requests.map(r => r.method);
+      // PUT (stored, reply lost), PUT retry rejected with 409, GET offset, then the next chunk
+      expect(methods.slice(1, 5)).toEqual(['PUT', 'PUT', 'GET', 'PUT']);
+    });
+
+    it('should not open a second session when the session reply is lost', async () => {
+      server.failNext(/^POST \/uploads\/sessions\/$/, 'lost');
+
+      const upload = await createUpload({ file: makeFile(), mappings: MAPPINGS }, FAST);
+
+      expect(upload).toMatchObject({ content: CONTENT });
+      expect(server.sessions.size).toBe(1);
+      const [first, retry] = server.requests.filter(r => r.method === 'POST' && r.url === '/uploads/sessions/');
+      expect(retry.headers['Idempotency-Key']).toBe(first.headers['Idempotency-Key']);
+    });
+
+    it('should not create a second upload when the completion reply is lost', async () => {
+      server.failNext(/\/complete\/$/, 'lost');
+
+      const upload = await createUpload({ file: makeFile(), mappings: MAPPINGS }, FAST);
+
+      expect(upload).toMatchObject({ id: 42, content: CONTENT });
+      expect(server.uploads.size).toBe(1);
+      const completions = server.requests.filter(r => r.url.endsWith('/complete/'));
+      expect(completions.map(r => r.headers['Idempotency-Key'])).toEqual(['s1', 's1']);
+    });
+  });
+
+  describe('Edge Cases', () => {
+    it('should stop when the upload is aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        createUpload({ file: makeFile(), mappings: MAPPINGS }, { ...FAST, signal: controller.signal })
+      ).rejects.toMatchObject({ name: 'CanceledError' });
+    });
+
+    it('should fail instead of resending a chunk the server did not accept', async () => {
+      server.failNext(/^PUT/, 'stuck');
+
+      await expect(createUpload({ file: makeFile(), mappings: MAPPINGS }, FAST)).rejects.toMatchObject({
+        name: 'ServerError',
+      });
+      expect(server.requests.filter(r => r.method === 'PUT')).toHaveLength(1);
+    });
+
+    it('should ignore corrupted stored sessions', async () => {
+      localStorage.setItem('ayni_upload_sessions', '{not json');
+
+      await expect(createUpload({ file: makeFile(), mappings: MAPPINGS }, FAST)).resolves.toMatchObject({ id: 42 });
+    });
+  });
+});
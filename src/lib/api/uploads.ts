@@ -0,0 +1,343 @@
+/**
+ * Uploads API Client
+ * Chunked, resumable CSV upload and upload status
+ */
+
+import axios from 'axios';
+import { createApiClient } from './client';
+import { NetworkError, ServerError, TimeoutError, hasStatus } from './errors';
+import type { ColumnMapping } from '@/types/columnSchema';
+import type {
+  CreateUploadRequest,
+  PageParams,
+  PaginatedResponse,
+  RowRejection,
+  Upload,
+  UploadDetail,
+  UploadListParams,
+  UploadProcessingStatus,
+  UploadProgress,
+  UploadSession,
+} from '@/types/upload';
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const CHUNK_TIMEOUT_MS = 60000;
+// The server answers a repeated POST with the same key with its first result
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+export const UPLOADS_QUERY_KEY = ['uploads'] as const;
+
+export const uploadsClient = createApiClient({ basePath: '/uploads' });
+
+// Upload session ids by file, so an interrupted upload resumes after a reload
+const SESSIONS_STORAGE_KEY = 'ayni_upload_sessions';
+
+export interface ChunkedUploadOptions {
+  /** Requested chunk size in bytes; the server may choose another */
+  chunkSize?: number;
+  /** Retries per chunk after the first attempt */
+  maxRetries?: number;
+  /** Base delay before a retry, doubled on each attempt */
+  retryDelayMs?: number;
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Identify a local file across page reloads
+ */
+export function getFileKey(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function readSessions(): Map<string, string> {
+  try {
+    const stored = localStorage.getItem(SESSIONS_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return new Map(Array.isArray(parsed) ? (parsed as [string, string][]) : []);
+  } catch {
+    return new Map();
+  }
+}
+
+function writeSessions(sessions: Map<string, string>): void {
+  localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify([...sessions]));
+}
+
+function rememberSession(file: File, sessionId: string): void {
+  const sessions = readSessions();
+  sessions.set(getFileKey(file), sessionId);
+  writeSessions(sessions);
+}
+
+function forgetSession(file: File): void {
+  const sessions = readSessions();
+  sessions.delete(getFileKey(file));
+  writeSessions(sessions);
+}
+
+/**
+ * Dropped connections, timeouts, throttling and server errors are worth retrying;
+ * other client errors and cancellations are not
+ */
+function isRetryable(error: unknown): boolean {
+  return (
+    error instanceof NetworkError ||
+    error instanceof TimeoutError ||
+    error instanceof ServerError ||
+    hasStatus(error, 429)
+  );
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new axios.CanceledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new axios.CanceledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function withRetry<T>(
+  request: () => Promise<T>,
+  { maxRetries = DEFAULT_MAX_RETRIES, retryDelayMs = DEFAULT_RETRY_DELAY_MS, signal }: ChunkedUploadOptions
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryable(error)) throw error;
+      await wait(retryDelayMs * 2 ** attempt, signal);
+    }
+  }
+}
+
+/**
+ * Start a chunked upload session. Retries must reuse the idempotency key so
+ * the server returns the session it already created instead of a new one.
+ */
+export async function createUploadSession(
+  file: File,
+  chunkSize: number = DEFAULT_CHUNK_SIZE,
+  idempotencyKey: string = crypto.randomUUID()
+): Promise<UploadSession> {
+  const response = await uploadsClient.post<UploadSession>(
+    '/sessions/',
+    {
+      file_name: file.name,
+      file_size: file.size,
+      chunk_size: chunkSize,
+    },
+    { headers: { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey } }
+  );
+  return response.data;
+}
+
+/**
+ * Get how many bytes of a session the server has received
+ */
+export async function getUploadSession(id: string, signal?: AbortSignal): Promise<UploadSession> {
+  const response = await uploadsClient.get<UploadSession>(
+    `/sessions/${encodeURIComponent(id)}/`,
+    { signal }
+  );
+  return response.data;
+}
+
+/**
+ * Send one chunk; the server answers with its new offset
+ */
+async function sendChunk(
+  session: UploadSession,
+  file: File,
+  start: number,
+  onProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<UploadSession> {
+  const end = Math.min(start + session.chunk_size, file.size);
+  const response = await uploadsClient.put<UploadSession>(
+    `/sessions/${encodeURIComponent(session.id)}/`,
+    file.slice(start, end),
+    {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Range': `bytes ${start}-${end - 1}/${file.size}`,
+      },
+      // Send the bytes untouched rather than letting axios serialize the body
+      transformRequest: [(data) => data],
+      timeout: CHUNK_TIMEOUT_MS,
+      signal,
+      onUploadProgress: (event) => onProgress(start + Math.min(event.loaded, end - start)),
+    }
+  );
+  return response.data;
+}
+
+/**
+ * Finish a session by submitting the column mappings. Keyed by the session,
+ * so a repeated request returns the upload already created for it instead
+ * of processing the same sales twice.
+ */
+export async function completeUploadSession(
+  id: string,
+  mappings: ColumnMapping[],
+  templateId?: string,
+  signal?: AbortSignal
+): Promise<Upload> {
+  const response = await uploadsClient.post<Upload>(
+    `/sessions/${encodeURIComponent(id)}/complete/`,
+    templateId ? { mappings, template_id: templateId } : { mappings },
+    { headers: { [IDEMPOTENCY_KEY_HEADER]: id }, signal }
+  );
+  return response.data;
+}
+
+/**
+ * Resume the stored session for this file, or start a new one
+ */
+async function resumeOrCreateSession(
+  file: File,
+  options: ChunkedUploadOptions
+): Promise<UploadSession> {
+  const storedId = readSessions().get(getFileKey(file));
+  if (storedId) {
+    try {
+      const session = await withRetry(() => getUploadSession(storedId, options.signal), options);
+      if (session.file_size === file.size) return session;
+    } catch (error) {
+      // An expired or unknown session just means starting over
+      if (!hasStatus(error, 404)) throw error;
+    }
+    forgetSession(file);
+  }
+
+  const idempotencyKey = crypto.randomUUID();
+  const session = await withRetry(
+    () => createUploadSession(file, options.chunkSize, idempotencyKey),
+    options
+  );
+  rememberSession(file, session.id);
+  return session;
+}
+
+/**
+ * Upload a CSV in chunks, then submit its column mappings.
+ * Each chunk is retried with exponential backoff; an interrupted upload of
+ * the same file resumes from the server's offset, even after a page reload.
+ */
+export async function createUpload(
+  { file, mappings, templateId }: CreateUploadRequest,
+  options: ChunkedUploadOptions = {}
+): Promise<Upload> {
+  const { onProgress, signal } = options;
+  const report = (loaded: number) => onProgress?.({ loaded, total: file.size });
+
+  let session = await resumeOrCreateSession(file, options);
+  report(session.offset);
+
+  while (session.offset < file.size) {
+    const current = session;
+    try {
+      session = await withRetry(
+        () => sendChunk(current, file, current.offset, report, signal),
+        options
+      );
+      // Sending the same chunk again would never finish
+      if (session.offset <= current.offset) {
+        throw new ServerError(`Upload session did not advance past byte ${current.offset}`);
+      }
+    } catch (error) {
+      // The server has a different offset than we assumed; continue from its offset
+      if (!hasStatus(error, 409)) throw error;
+      session = await getUploadSession(current.id, signal);
+      if (session.offset === current.offset) throw error;
+    }
+    report(session.offset);
+  }
+
+  const upload = await withRetry(() => completeUploadSession(session.id, mappings, templateId, signal), options);
+  forgetSession(file);
+  return upload;
+}
+
+/**
+ * List past uploads, newest first
+ */
+export async function listUploads(
+  params: UploadListParams = {},
+  signal?: AbortSignal
+): Promise<PaginatedResponse<Upload>> {
+  const response = await uploadsClient.get<PaginatedResponse<Upload>>('/', { params, signal });
+  return response.data;
+}
+
+/**
+ * Get a single upload with its headers and mappings
+ */
+export async function getUpload(id: number, signal?: AbortSignal): Promise<UploadDetail> {
+  const response = await uploadsClient.get<UploadDetail>(`/${id}/`, { signal });
+  return response.data;
+}
+
+/**
+ * List the rows rejected while processing an upload
+ */
+export async function listUploadRejections(
+  id: number,
+  params: PageParams = {},
+  signal?: AbortSignal
+): Promise<PaginatedResponse<RowRejection>> {
+  const response = await uploadsClient.get<PaginatedResponse<RowRejection>>(
+    `/${id}/rejections/`,
+    { params, signal }
+  );
+  return response.data;
+}
+
+/**
+ * Download the rejected rows as a CSV file
+ */
+export async function downloadRejectedRows(id: number): Promise<Blob> {
+  const response = await uploadsClient.get<Blob>(`/${id}/rejected-rows/`, {
+    responseType: 'blob',
+    timeout: 0,
+  });
+  return response.data;
+}
+
+/**
+ * Process an upload's file again with new mappings
+ */
+export async function reprocessUpload(id: number, mappings: ColumnMapping[]): Promise<Upload> {
+  const response = await uploadsClient.post<Upload>(`/${id}/reprocess/`, { mappings });
+  return response.data;
+}
+
+/**
+ * Delete an upload and the sales data loaded from it
+ */
+export async function deleteUpload(id: number): Promise<void> {
+  await uploadsClient.delete(`/${id}/`);
+}
+
+/**
+ * Get the processing status of an upload
+ */
+export async function getUploadStatus(id: number, signal?: AbortSignal): Promise<UploadProcessingStatus> {
+  const response = await uploadsClient.get<UploadProcessingStatus>(
+    `/${id}/status/`,
+    { signal }
+  );
+  return response.data;
+}
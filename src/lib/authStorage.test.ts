@@ -0,0 +1,165 @@
+/**
+ * Test Suite for Auth Storage
+ * Covers the versioned session record, migration of legacy keys and backends
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  AUTH_SCHEMA_VERSION,
+  AUTH_STORAGE_KEY,
+  clearSession,
+  createMemoryBackend,
+  readSession,
+  setAuthStorageBackend,
+  updateSession,
+  writeSession,
+} from './authStorage';
+import type { User } from '@/types/auth';
+
+const user: User = {
+  id: 1,
+  email: 'ana@example.com',
+  username: 'ana',
+  is_active: true,
+  is_staff: false,
+  email_verified: true,
+  date_joined: '2024-01-01T00:00:00Z',
+  last_login: null,
+};
+
+const tokens = { access: 'access-1', refresh: 'refresh-1' };
+
+describe('Auth Storage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    setAuthStorageBackend('local');
+    clearSession();
+  });
+
+  afterEach(() => {
+    setAuthStorageBackend('local');
+  });
+
+  describe('Valid Input Tests', () => {
+    it('should write a versioned record under a single key', () => {
+      writeSession({ user, tokens });
+
+      expect(JSON.parse(localStorage.getItem(AUTH_STORAGE_KEY) as string)).toEqual({
+        version: AUTH_SCHEMA_VERSION,
+        user,
+        tokens,
+      });
+      expect(readSession()).toEqual({ user, tokens });
+    });
+
+    it('should update part of the session', () => {
+      writeSession({ user, tokens });
+      const renewed = { access: 'access-2', refresh: 'refresh-2' };
+
+      updateSession({ tokens: renewed });
+
+      expect(readSession()).toEqual({ user, tokens: renewed });
+    });
+
+    it('should clear the session from every backend', () => {
+      writeSession({ user, tokens });
+      sessionStorage.setItem(AUTH_STORAGE_KEY, localStorage.getItem(AUTH_STORAGE_KEY) as string);
+
+      clearSession();
+
+      expect(readSession()).toBeNull();
+      expect(sessionStorage.getItem(AUTH_STORAGE_KEY)).toBeNull();
+    });
+  });
+
+  describe('Migration Tests', () => {
+    it('should migrate the manual ayni_tokens/ayni_user keys', () => {
+      localStorage.setItem('ayni_tokens', JSON.stringify(tokens));
+      localStorage.setItem('ayni_user', JSON.stringify(user));
+
+      expect(readSession()).toEqual({ user, tokens });
+      expect(localStorage.getItem('ayni_tokens')).toBeNull();
+      expect(localStorage.getItem('ayni_user')).toBeNull();
+      expect(localStorage.getItem(AUTH_STORAGE_KEY)).not.toBeNull();
+    });
+
+    it('should migrate the zustand ayni-auth-storage record', () => {
+      localStorage.setItem(
+        'ayni-auth-storage',
+        JSON.stringify({ state: { user, tokens, isAuthenticated: true }, version: 0 })
+      );
+
+      expect(readSession()).toEqual({ user, tokens });
+      expect(localStorage.getItem('ayni-auth-storage')).toBeNull();
+    });
+
+    it('should prefer the manual keys over a stale store record', () => {
+      const stale = { access: 'stale', refresh: 'stale' };
+      localStorage.setItem('ayni-auth-storage', JSON.stringify({ state: { user, tokens: stale } }));
+      localStorage.setItem('ayni_tokens', JSON.stringify(tokens));
+      localStorage.setItem('ayni_user', JSON.stringify(user));
+
+      expect(readSession()?.tokens).toEqual(tokens);
+    });
+
+    it('should not restore a half-signed-in legacy session', () => {
+      localStorage.setItem('ayni-auth-storage', JSON.stringify({ state: { isAuthenticated: true } }));
+
+      expect(readSession()).toBeNull();
+      expect(localStorage.getItem('ayni-auth-storage')).toBeNull();
+    });
+  });
+
+  describe('Backend Tests', () => {
+    it('should keep the session in sessionStorage when that backend is active', () => {
+      setAuthStorageBackend('session');
+      writeSession({ user, tokens });
+
+      expect(sessionStorage.getItem(AUTH_STORAGE_KEY)).not.toBeNull();
+      expect(localStorage.getItem(AUTH_STORAGE_KEY)).toBeNull();
+      expect(readSession()).toEqual({ user, tokens });
+    });
+
+    it('should move an existing session when switching backends', () => {
+      writeSession({ user, tokens });
+
+      setAuthStorageBackend('memory');
+
+      expect(localStorage.getItem(AUTH_STORAGE_KEY)).toBeNull();
+      expect(readSession()).toEqual({ user, tokens });
+    });
+
+    it('should provide an isolated memory backend', () => {
+      const backend = createMemoryBackend();
+      backend.setItem('key', 'value');
+
+      expect(backend.getItem('key')).toBe('value');
+      expect(createMemoryBackend().getItem('key')).toBeNull();
+      backend.removeItem('key');
+      expect(backend.getItem('key')).toBeNull();
+    });
+  });
+
+  describe('Error Handling Tests', () => {
+    it('should ignore corrupted records', () => {
+      localStorage.setItem(AUTH_STORAGE_KEY, '{not json');
+
+      expect(readSession()).toBeNull();
+    });
+
+    it('should ignore records written by a newer schema version', () => {
+      localStorage.setItem(
+        AUTH_STORAGE_KEY,
+        JSON.stringify({ version: AUTH_SCHEMA_VERSION + 1, user, tokens })
+      );
+
+      expect(readSession()).toBeNull();
+    });
+
+    it('should ignore unversioned records', () => {
+      localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify({ user, tokens }));
+
+      expect(readSession()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Auth Storage
+ * The one place the signed-in session (user and tokens) is persisted:
+ * a versioned record in a pluggable backend, migrated from older keys
+ */
+
+import type { AuthTokens, User } from '@/types/auth';
+
+export const AUTH_STORAGE_KEY = 'ayni_auth';
+
+/** Bump when the stored record changes shape, and add a migration below */
+export const AUTH_SCHEMA_VERSION = 1;
+
+/** Keys written by earlier versions of the app */
+const LEGACY_TOKENS_KEY = 'ayni_tokens';
+const LEGACY_USER_KEY = 'ayni_user';
+const LEGACY_STORE_KEY = 'ayni-auth-storage';
+
+export interface StoredSession {
+  user: User | null;
+  tokens: AuthTokens | null;
+}
+
+interface StoredRecord extends StoredSession {
+  version: number;
+}
+
+export type AuthStorageBackendName = 'local' | 'session' | 'memory';
+
+/** The subset of the Web Storage API the adapter needs */
+export interface StorageBackend {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * A backend that only lives as long as the page, for browsers that block
+ * Web Storage and for tests
+ */
+export function createMemoryBackend(): StorageBackend {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+const memoryBackend = createMemoryBackend();
+
+/**
+ * Resolve a backend by name. Web Storage can be missing or throw (private
+ * browsing, disabled cookies), in which case memory is used instead.
+ */
+function resolveBackend(name: AuthStorageBackendName): StorageBackend {
+  try {
+    if (name === 'local' && typeof localStorage !== 'undefined') return localStorage;
+    if (name === 'session' && typeof sessionStorage !== 'undefined') return sessionStorage;
+  } catch {
+    // Accessing the storage object itself can throw a SecurityError
+  }
+  return memoryBackend;
+}
+
+const BACKEND_NAMES: AuthStorageBackendName[] = ['local', 'session', 'memory'];
+
+let activeBackend: AuthStorageBackendName = 'local';
+
+/**
+ * Choose where the session is written from now on. A session already stored
+ * elsewhere moves to the new backend.
+ */
+export function setAuthStorageBackend(name: AuthStorageBackendName): void {
+  const session = readSession();
+  activeBackend = name;
+  if (session) {
+    writeSession(session);
+  }
+}
+
+export function getAuthStorageBackend(): AuthStorageBackendName {
+  return activeBackend;
+}
+
+/**
+ * Whether the session outlives the browser ("Recordarme" was checked).
+ * Sessions kept in sessionStorage end when the tab closes.
+ */
+export function isSessionRemembered(): boolean {
+  return activeBackend !== 'session';
+}
+
+function parseRecord(raw: string | null): StoredRecord | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoredRecord> | null;
+    if (!parsed || typeof parsed !== 'object' || typeof parsed.version !== 'number') return null;
+    // A record from a newer version of the app cannot be trusted to match this shape
+    if (parsed.version > AUTH_SCHEMA_VERSION) return null;
+    return migrateRecord(parsed as StoredRecord);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Upgrade an older stored record to the current schema version
+ */
+function migrateRecord(record: StoredRecord): StoredRecord {
+  // Version 1 is the first versioned schema; future migrations go here, e.g.
+  // if (record.version < 2) record = { ...record, version: 2, ... }
+  return record;
+}
+
+function readJson<T>(backend: StorageBackend, key: string): T | null {
+  try {
+    const raw = backend.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the session written by earlier versions of the app — the manual
+ * `ayni_tokens`/`ayni_user` keys, falling back to the zustand persist
+ * record — and remove those keys
+ */
+function takeLegacySession(): StoredSession | null {
+  const backend = resolveBackend('local');
+  const tokens = readJson<AuthTokens>(backend, LEGACY_TOKENS_KEY);
+  const user = readJson<User>(backend, LEGACY_USER_KEY);
+  const persisted = readJson<{ state?: Partial<StoredSession> }>(backend, LEGACY_STORE_KEY)?.state;
+
+  try {
+    [LEGACY_TOKENS_KEY, LEGACY_USER_KEY, LEGACY_STORE_KEY].forEach(key => backend.removeItem(key));
+  } catch {
+    // Left in place; they are ignored once the new record exists
+  }
+
+  // The manual keys were what the API client used, so they win over the store copy
+  const session: StoredSession = {
+    tokens: tokens ?? persisted?.tokens ?? null,
+    user: user ?? persisted?.user ?? null,
+  };
+  return session.tokens && session.user ? session : null;
+}
+
+/**
+ * Read the stored session from whichever backend holds it, migrating the
+ * keys of earlier versions on first use. The backend holding the session
+ * becomes the active one, so renewed tokens are stored alongside it.
+ */
+export function readSession(): StoredSession | null {
+  for (const name of [activeBackend, ...BACKEND_NAMES.filter(n => n !== activeBackend)]) {
+    let record: StoredRecord | null = null;
+    try {
+      record = parseRecord(resolveBackend(name).getItem(AUTH_STORAGE_KEY));
+    } catch {
+      // Unreadable backend, try the next one
+    }
+    if (record) {
+      activeBackend = name;
+      return { user: record.user ?? null, tokens: record.tokens ?? null };
+    }
+  }
+
+  const legacy = takeLegacySession();
+  if (legacy) {
+    writeSession(legacy);
+  }
+  return legacy;
+}
+
+/**
+ * Store the session in the active backend, replacing copies in the others
+ */
+export function writeSession(session: StoredSession): void {
+  const record: StoredRecord = { version: AUTH_SCHEMA_VERSION, ...session };
+  let target = resolveBackend(activeBackend);
+
+  try {
+    target.setItem(AUTH_STORAGE_KEY, JSON.stringify(record));
+  } catch {
+    // Quota or security errors leave the session in memory only
+    target = memoryBackend;
+    target.setItem(AUTH_STORAGE_KEY, JSON.stringify(record));
+  }
+
+  for (const name of BACKEND_NAMES) {
+    const backend = resolveBackend(name);
+    if (backend === target) continue;
+    try {
+      backend.removeItem(AUTH_STORAGE_KEY);
+    } catch {
+      // Nothing stored there
+    }
+  }
+}
+
+/**
+ * Update part of the stored session
+ */
+export function updateSession(changes: Partial<StoredSession>): void {
+  writeSession({ user: null, tokens: null, ...readSession(), ...changes });
+}
+
+/**
+ * Remove the session from every backend
+ */
+export function clearSession(): void {
+  for (const name of BACKEND_NAMES) {
+    try {
+      resolveBackend(name).removeItem(AUTH_STORAGE_KEY);
+    } catch {
+      // Nothing stored there
+    }
+  }
+}
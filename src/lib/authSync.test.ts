@@ -0,0 +1,130 @@
+/**
+ * Test Suite for Auth Sync
+ * Covers the BroadcastChannel transport and the storage-event fallback
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { AUTH_SYNC_CHANNEL, broadcastAuthChange, subscribeToAuthChanges } from './authSync';
+import type { AuthSyncMessage } from './authSync';
+
+const tokens = { access: 'access-2', refresh: 'refresh-2' };
+
+const openTabs: BroadcastChannel[] = [];
+
+/** A channel standing in for another open tab */
+const otherTab = () => {
+  const tab = new BroadcastChannel(AUTH_SYNC_CHANNEL);
+  openTabs.push(tab);
+  return tab;
+};
+
+const nextMessage = (tab: BroadcastChannel) =>
+  new Promise<unknown>(resolve => {
+    tab.addEventListener('message', event => resolve((event as MessageEvent).data), { once: true });
+  });
+
+describe('Auth Sync', () => {
+  afterEach(() => {
+    openTabs.splice(0).forEach(tab => tab.close());
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  describe('BroadcastChannel Tests', () => {
+    it('should send changes to the other tabs', async () => {
+      const tab = otherTab();
+      const received = nextMessage(tab);
+
+      broadcastAuthChange({ type: 'tokens', tokens });
+
+      expect(await received).toEqual({ type: 'tokens', tokens });
+    });
+
+    it('should deliver changes made in another tab', async () => {
+      const listener = vi.fn();
+      const unsubscribe = subscribeToAuthChanges(listener);
+
+      otherTab().postMessage({ type: 'logout' });
+
+      await vi.waitFor(() => expect(listener).toHaveBeenCalledWith({ type: 'logout' }));
+      unsubscribe();
+    });
+
+    it('should not deliver a change back to the tab that made it', async () => {
+      const listener = vi.fn();
+      const unsubscribe = subscribeToAuthChanges(listener);
+      const tab = otherTab();
+      const received = nextMessage(tab);
+
+      broadcastAuthChange({ type: 'logout' });
+      await received;
+
+      expect(listener).not.toHaveBeenCalled();
+      unsubscribe();
+    });
+
+    it('should ignore unknown messages', async () => {
+      const listener = vi.fn();
+      const unsubscribe = subscribeToAuthChanges(listener);
+      const tab = otherTab();
+
+      tab.postMessage({ type: 'hack' });
+      tab.postMessage('logout');
+      tab.postMessage({ type: 'logout' });
+
+      await vi.waitFor(() => expect(listener).toHaveBeenCalled());
+      expect(listener).toHaveBeenCalledTimes(1);
+      unsubscribe();
+    });
+  });
+
+  describe('Storage Fallback Tests', () => {
+    const loadWithoutBroadcastChannel = async () => {
+      vi.stubGlobal('BroadcastChannel', undefined);
+      vi.resetModules();
+      return import('./authSync');
+    };
+
+    it('should send changes through a short-lived storage entry', async () => {
+      const sync = await loadWithoutBroadcastChannel();
+      const setItem = vi.spyOn(Storage.prototype, 'setItem');
+
+      sync.broadcastAuthChange({ type: 'logout' });
+
+      expect(setItem).toHaveBeenCalledWith(AUTH_SYNC_CHANNEL, expect.stringContaining('"logout"'));
+      expect(localStorage.getItem(AUTH_SYNC_CHANNEL)).toBeNull();
+      setItem.mockRestore();
+    });
+
+    it('should deliver changes from storage events', async () => {
+      const sync = await loadWithoutBroadcastChannel();
+      const listener = vi.fn();
+      const unsubscribe = sync.subscribeToAuthChanges(listener);
+      const message: AuthSyncMessage = { type: 'tokens', tokens };
+
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: AUTH_SYNC_CHANNEL,
+          newValue: JSON.stringify({ message, sentAt: Date.now() }),
+        })
+      );
+      // The removal that follows every message
+      window.dispatchEvent(new StorageEvent('storage', { key: AUTH_SYNC_CHANNEL, newValue: null }));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(message);
+      unsubscribe();
+    });
+
+    it('should ignore other keys and corrupted values', async () => {
+      const sync = await loadWithoutBroadcastChannel();
+      const listener = vi.fn();
+      const unsubscribe = sync.subscribeToAuthChanges(listener);
+
+      window.dispatchEvent(new StorageEvent('storage', { key: 'ayni_auth', newValue: '{"message":{"type":"logout"}}' }));
+      window.dispatchEvent(new StorageEvent('storage', { key: AUTH_SYNC_CHANNEL, newValue: '{not json' }));
+
+      expect(listener).not.toHaveBeenCalled();
+      unsubscribe();
+    });
+  });
+});
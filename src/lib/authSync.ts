@@ -0,0 +1,92 @@
+/**
+ * Auth Sync
+ * Cross-tab channel that tells every open AYNI tab about logins, logouts,
+ * renewed tokens and profile changes made in another tab
+ */
+
+import type { AuthTokens, User } from '@/types/auth';
+
+export const AUTH_SYNC_CHANNEL = 'ayni_auth_sync';
+
+export type AuthSyncMessage =
+  | { type: 'login'; user: User; tokens: AuthTokens; remember: boolean }
+  | { type: 'logout' }
+  | { type: 'tokens'; tokens: AuthTokens }
+  | { type: 'profile'; user: User };
+
+type AuthSyncListener = (message: AuthSyncMessage) => void;
+
+const MESSAGE_TYPES: ReadonlyArray<AuthSyncMessage['type']> = ['login', 'logout', 'tokens', 'profile'];
+
+let channel: BroadcastChannel | null | undefined;
+
+/**
+ * The shared BroadcastChannel, or null where the browser lacks one and
+ * storage events are used instead
+ */
+function getChannel(): BroadcastChannel | null {
+  if (channel === undefined) {
+    try {
+      channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(AUTH_SYNC_CHANNEL);
+    } catch {
+      channel = null;
+    }
+  }
+  return channel;
+}
+
+function isAuthSyncMessage(value: unknown): value is AuthSyncMessage {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    MESSAGE_TYPES.includes((value as { type?: unknown }).type as AuthSyncMessage['type'])
+  );
+}
+
+/**
+ * Tell the other tabs about an auth change made in this one. Neither
+ * transport delivers the message back to the tab that sent it.
+ */
+export function broadcastAuthChange(message: AuthSyncMessage): void {
+  const broadcast = getChannel();
+  if (broadcast) {
+    broadcast.postMessage(message);
+    return;
+  }
+
+  try {
+    // Storage events only fire when the value changes, hence the timestamp;
+    // removing the key right away keeps tokens from lingering in localStorage
+    localStorage.setItem(AUTH_SYNC_CHANNEL, JSON.stringify({ message, sentAt: Date.now() }));
+    localStorage.removeItem(AUTH_SYNC_CHANNEL);
+  } catch {
+    // Without storage the other tabs catch up on their next API call
+  }
+}
+
+/**
+ * Be notified of auth changes made in other tabs
+ */
+export function subscribeToAuthChanges(listener: AuthSyncListener): () => void {
+  const broadcast = getChannel();
+
+  if (broadcast) {
+    const onMessage = (event: MessageEvent) => {
+      if (isAuthSyncMessage(event.data)) listener(event.data);
+    };
+    broadcast.addEventListener('message', onMessage);
+    return () => broadcast.removeEventListener('message', onMessage);
+  }
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== AUTH_SYNC_CHANNEL || !event.newValue) return;
+    try {
+      const { message } = JSON.parse(event.newValue) as { message?: unknown };
+      if (isAuthSyncMessage(message)) listener(message);
+    } catch {
+      // Not one of ours
+    }
+  };
+  window.addEventListener('storage', onStorage);
+  return () => window.removeEventListener('storage', onStorage);
+}
@@ -0,0 +1,116 @@
+/**
+ * Test Suite for Column Inference
+ */
+import { describe, it, expect } from 'vitest';
+import { planInference, previewInference } from './columnInference';
+import { INFERENCE_RULES } from '@/types/inferenceRules';
+import { COLUMN_SCHEMA, type ColumnMapping, type SystemColumn } from '@/types/columnSchema';
+
+const REQUIRED: ColumnMapping[] = [
+  { csvColumn: 'fecha', systemColumn: 'in_dt' },
+  { csvColumn: 'boleta', systemColumn: 'in_trans_id' },
+  { csvColumn: 'sku', systemColumn: 'in_product_id' },
+  { csvColumn: 'cantidad', systemColumn: 'in_quantity' },
+  { csvColumn: 'total', systemColumn: 'in_price_total' },
+];
+
+const entryFor = (mappings: ColumnMapping[], column: SystemColumn) =>
+  planInference(mappings).find(entry => entry.column === column);
+
+describe('Inference Rules - Registry', () => {
+  it('valid: only targets inferable columns', () => {
+    for (const rule of INFERENCE_RULES) {
+      expect(COLUMN_SCHEMA[rule.target].inferable).toBe(1);
+      expect(rule.inputs).not.toContain(rule.target);
+      expect(rule.compute.length).toBe(rule.inputs.length);
+    }
+  });
+
+  it('edge: returns null on division by zero', () => {
+    const priceUnit = INFERENCE_RULES.find(rule => rule.target === 'in_price_unit');
+    expect(priceUnit?.compute(1000, 0)).toBeNull();
+    expect(priceUnit?.compute(1000, 4)).toBe(250);
+  });
+});
+
+describe('Column Inference - Plan', () => {
+  it('functional: derives unit price from the required columns', () => {
+    const entry = entryFor(REQUIRED, 'in_price_unit');
+    expect(entry?.status).toBe('derived');
+    expect(entry?.rule?.formula).toBe('in_price_total / in_quantity');
+  });
+
+  it('functional: reports missing inputs for cost columns', () => {
+    expect(entryFor(REQUIRED, 'in_cost_unit')).toMatchObject({
+      status: 'unavailable',
+      missingInputs: ['in_cost_total'],
+    });
+    expect(entryFor(REQUIRED, 'in_margin')).toMatchObject({
+      status: 'unavailable',
+      missingInputs: ['in_cost_total'],
+    });
+  });
+
+  it('functional: chains rules (cost_unit → cost_total → margin)', () => {
+    const mappings = [...REQUIRED, { csvColumn: 'costo', systemColumn: 'in_cost_unit' as const }];
+    expect(entryFor(mappings, 'in_cost_unit')?.status).toBe('mapped');
+    expect(entryFor(mappings, 'in_cost_total')?.status).toBe('derived');
+    expect(entryFor(mappings, 'in_margin')?.status).toBe('derived');
+  });
+
+  it('functional: only infers discounts from a mapped unit price', () => {
+    expect(entryFor(REQUIRED, 'in_discount_total')).toMatchObject({
+      status: 'unavailable',
+      missingInputs: ['in_price_unit'],
+    });
+
+    const mappings = [...REQUIRED, { csvColumn: 'precio lista', systemColumn: 'in_price_unit' as const }];
+    expect(entryFor(mappings, 'in_discount_total')?.status).toBe('derived');
+  });
+
+  it('edge: columns without a rule are never inferred', () => {
+    expect(entryFor(REQUIRED, 'in_commission_total')).toMatchObject({
+      status: 'unavailable',
+      missingInputs: [],
+    });
+  });
+
+  it('edge: nothing is derived from an empty mapping', () => {
+    expect(planInference([]).every(entry => entry.status === 'unavailable')).toBe(true);
+  });
+});
+
+describe('Column Inference - Preview', () => {
+  const csvColumns = ['cantidad', 'total', 'costo'];
+  const mappings: ColumnMapping[] = [
+    { csvColumn: 'cantidad', systemColumn: 'in_quantity', format: { number: 'es-CL' } },
+    { csvColumn: 'total', systemColumn: 'in_price_total', format: { number: 'es-CL' } },
+    { csvColumn: 'costo', systemColumn: 'in_cost_unit', format: { number: 'es-CL' } },
+  ];
+
+  it('functional: computes derived values per sample row', () => {
+    const rows = [['2', '$ 1.990', '500'], ['4', '10.000,5', '1.000']];
+    const preview = previewInference(planInference(mappings), mappings, csvColumns, rows);
+
+    expect(preview.get('in_price_unit')).toEqual([995, 2500.125]);
+    expect(preview.get('in_cost_total')).toEqual([1000, 4000]);
+    expect(preview.get('in_margin')).toEqual([990, 6000.5]);
+    expect(preview.has('in_cost_unit')).toBe(false);
+  });
+
+  it('error: yields null for empty, unparseable or undefined values', () => {
+    const rows = [['0', '1.990', '500'], ['', '1.990', '500'], ['N/A', '1.990', '']];
+    const preview = previewInference(planInference(mappings), mappings, csvColumns, rows);
+
+    expect(preview.get('in_price_unit')).toEqual([null, null, null]);
+    expect(preview.get('in_margin')?.[2]).toBeNull();
+  });
+
+  it('edge: detects the number format when a mapping has none', () => {
+    const unformatted = mappings.map(({ csvColumn, systemColumn }) => ({ csvColumn, systemColumn }));
+    const rows = [['2', '1,990.5', '1.5']];
+    const preview = previewInference(planInference(unformatted), unformatted, csvColumns, rows);
+
+    expect(preview.get('in_price_unit')).toEqual([995.25]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Column Inference
+ * Works out which inferable columns the current mapping lets the backend
+ * derive, and previews the derived values over sample rows
+ */
+
+import {
+  getInferableColumns,
+  type ColumnMapping,
+  type SystemColumn,
+} from '@/types/columnSchema';
+import { INFERENCE_RULES, type InferenceRule } from '@/types/inferenceRules';
+import { detectValueFormat, normalizeValue } from '@/lib/valueFormats';
+
+export type InferenceStatus = 'mapped' | 'derived' | 'unavailable';
+
+export interface InferencePlanEntry {
+  column: SystemColumn;
+  status: InferenceStatus;
+  /** Rule used when status is 'derived' */
+  rule?: InferenceRule;
+  /** Inputs still needed by the closest rule when status is 'unavailable' */
+  missingInputs: SystemColumn[];
+}
+
+function getRulesFor(column: SystemColumn): InferenceRule[] {
+  return INFERENCE_RULES.filter(rule => rule.target === column);
+}
+
+/**
+ * Plan the inferable columns for a mapping. Rules are applied until no more
+ * columns can be derived, so chains like cost_unit → cost_total → margin work.
+ */
+export function planInference(mappings: ColumnMapping[]): InferencePlanEntry[] {
+  const mapped = new Set(
+    mappings
+      .map(m => m.systemColumn)
+      .filter((col): col is SystemColumn => col !== null)
+  );
+  const derived = new Map<SystemColumn, InferenceRule>();
+  const isAvailable = (col: SystemColumn) => mapped.has(col) || derived.has(col);
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const rule of INFERENCE_RULES) {
+      if (isAvailable(rule.target)) continue;
+      const ready = rule.inputs.every(input =>
+        rule.mappedInputsOnly ? mapped.has(input) : isAvailable(input)
+      );
+      if (ready) {
+        derived.set(rule.target, rule);
+        changed = true;
+      }
+    }
+  }
+
+  return getInferableColumns().map(column => {
+    if (mapped.has(column)) {
+      return { column, status: 'mapped', missingInputs: [] };
+    }
+    const rule = derived.get(column);
+    if (rule) {
+      return { column, status: 'derived', rule, missingInputs: [] };
+    }
+
+    const missing = getRulesFor(column)
+      .map(r => r.inputs.filter(input => (r.mappedInputsOnly ? !mapped.has(input) : !isAvailable(input))))
+      .sort((a, b) => a.length - b.length);
+    return { column, status: 'unavailable', missingInputs: missing[0] ?? [] };
+  });
+}
+
+/**
+ * Compute derived values for each sample row. Entries are null where an
+ * input is empty or does not parse, or the formula is undefined.
+ */
+export function previewInference(
+  plan: InferencePlanEntry[],
+  mappings: ColumnMapping[],
+  csvColumns: string[],
+  rows: string[][]
+): Map<SystemColumn, (number | null)[]> {
+  const sources = new Map<SystemColumn, { index: number; mapping: ColumnMapping }>();
+  for (const mapping of mappings) {
+    const index = csvColumns.indexOf(mapping.csvColumn);
+    if (mapping.systemColumn && index >= 0) {
+      sources.set(mapping.systemColumn, { index, mapping });
+    }
+  }
+
+  // Fall back to a detected format for mappings made without sample rows
+  const formats = new Map(
+    [...sources].map(([col, { index, mapping }]) => [
+      col,
+      mapping.format ?? detectValueFormat(col, rows.map(row => row[index] ?? '')),
+    ])
+  );
+
+  const rules = new Map(
+    plan
+      .filter(entry => entry.status === 'derived' && entry.rule)
+      .map(entry => [entry.column, entry.rule as InferenceRule])
+  );
+
+  const preview = new Map<SystemColumn, (number | null)[]>(
+    [...rules.keys()].map(col => [col, []])
+  );
+
+  for (const row of rows) {
+    const cache = new Map<SystemColumn, number | null>();
+
+    const valueOf = (col: SystemColumn): number | null => {
+      if (cache.has(col)) return cache.get(col) as number | null;
+
+      let value: number | null = null;
+      const source = sources.get(col);
+      const rule = rules.get(col);
+      if (source) {
+        const normalized = normalizeValue(col, row[source.index] ?? '', formats.get(col));
+        value = typeof normalized === 'number' ? normalized : null;
+      } else if (rule) {
+        const inputs = rule.inputs.map(valueOf);
+        if (inputs.every((input): input is number => input !== null)) {
+          const result = rule.compute(...inputs);
+          value = result !== null && Number.isFinite(result) ? result : null;
+        }
+      }
+
+      cache.set(col, value);
+      return value;
+    };
+
+    for (const col of rules.keys()) {
+      preview.get(col)?.push(valueOf(col));
+    }
+  }
+
+  return preview;
+}
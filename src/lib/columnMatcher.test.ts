@@ -0,0 +1,98 @@
+/**
+ * Test Suite for Column Matcher
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  editDistance,
+  HIGH_CONFIDENCE_THRESHOLD,
+  MEDIUM_CONFIDENCE_THRESHOLD,
+  normalizeColumnName,
+  rankCandidates,
+  suggestMappings,
+  SUGGESTION_THRESHOLD,
+} from './columnMatcher';
+
+const top = (header: string, values?: string[]) => rankCandidates(header, values)[0];
+
+describe('Column Matcher - Normalization', () => {
+  it('valid: strips accents, punctuation and case', () => {
+    expect(normalizeColumnName('Descripción')).toEqual(['descripcion']);
+    expect(normalizeColumnName('Fecha_Venta')).toEqual(['fecha', 'venta']);
+  });
+
+  it('valid: splits camelCase and expands abbreviations', () => {
+    expect(normalizeColumnName('Cod. Producto')).toEqual(['codigo', 'producto']);
+    expect(normalizeColumnName('precioTotal')).toEqual(['precio', 'total']);
+    expect(normalizeColumnName('N° Boleta')).toEqual(['numero', 'boleta']);
+  });
+
+  it('valid: computes edit distance', () => {
+    expect(editDistance('cantidad', 'cantidd')).toBe(1);
+    expect(editDistance('', 'abc')).toBe(3);
+    expect(editDistance('fecha', 'fecha')).toBe(0);
+  });
+});
+
+describe('Column Matcher - Ranking', () => {
+  it('functional: matches headers the exact lookup missed', () => {
+    expect(top('Fecha Venta').systemColumn).toBe('in_dt');
+    expect(top('Cod. Producto').systemColumn).toBe('in_product_id');
+    expect(top('Monto Neto').systemColumn).toBe('in_price_total');
+    expect(top('SKU').systemColumn).toBe('in_product_id');
+  });
+
+  it('functional: keeps the original exact matches at full confidence', () => {
+    expect(top('fecha')).toMatchObject({ systemColumn: 'in_dt', score: 1 });
+    expect(top('cantidad')).toMatchObject({ systemColumn: 'in_quantity', score: 1 });
+    expect(top('transaction_id')).toMatchObject({ systemColumn: 'in_trans_id', score: 1 });
+  });
+
+  it('functional: tolerates typos with lower confidence', () => {
+    const candidate = top('Cantidd');
+    expect(candidate.systemColumn).toBe('in_quantity');
+    expect(candidate.score).toBeLessThan(1);
+    expect(candidate.score).toBeGreaterThanOrEqual(SUGGESTION_THRESHOLD);
+  });
+
+  it('functional: uses values that look like dates', () => {
+    const candidate = top('Columna 3', ['2024-01-15', '16/01/2024']);
+    expect(candidate.systemColumn).toBe('in_dt');
+    expect(candidate.reasons).toContain('values look like dates');
+  });
+
+  it('functional: penalizes numeric columns whose values are text', () => {
+    const withText = rankCandidates('Total', ['abc', 'def']).find(c => c.systemColumn === 'in_price_total');
+    expect(withText?.score).toBeLessThan(SUGGESTION_THRESHOLD);
+  });
+
+  it('edge: returns candidates sorted by score', () => {
+    const scores = rankCandidates('precio_total').map(c => c.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+});
+
+describe('Column Matcher - Suggestions', () => {
+  it('valid: orders the confidence levels above the suggestion threshold', () => {
+    expect(SUGGESTION_THRESHOLD).toBeLessThan(MEDIUM_CONFIDENCE_THRESHOLD);
+    expect(MEDIUM_CONFIDENCE_THRESHOLD).toBeLessThan(HIGH_CONFIDENCE_THRESHOLD);
+    expect(HIGH_CONFIDENCE_THRESHOLD).toBeLessThanOrEqual(1);
+  });
+
+  it('functional: assigns each system column at most once', () => {
+    const result = suggestMappings(['Total', 'Monto Total']);
+    const assigned = [...result.values()].filter(Boolean).map(c => c?.systemColumn);
+    expect(new Set(assigned).size).toBe(assigned.length);
+  });
+
+  it('functional: leaves unrecognized headers unmapped', () => {
+    const result = suggestMappings(['custom_column', 'notas']);
+    expect(result.get('custom_column')).toBeNull();
+    expect(result.get('notas')).toBeNull();
+  });
+
+  it('security: handles prototype-like header names', () => {
+    const result = suggestMappings(['__proto__', 'constructor', 'fecha']);
+    expect(result.get('fecha')?.systemColumn).toBe('in_dt');
+    expect(({} as Record<string, unknown>).systemColumn).toBeUndefined();
+  });
+});
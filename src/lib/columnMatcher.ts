@@ -0,0 +1,283 @@
+/**
+ * Column Matcher
+ * Scores CSV headers against system columns using synonyms, token overlap,
+ * edit distance and hints from the column's values
+ */
+
+import { COLUMN_SCHEMA, type SystemColumn } from '@/types/columnSchema';
+import { isDatetimeValue, isNumericValue } from './columnValidation';
+
+export interface MatchCandidate {
+  systemColumn: SystemColumn;
+  /** 0..1, where 1 is an exact synonym match */
+  score: number;
+  /** Short explanations shown to the user */
+  reasons: string[];
+}
+
+/** Minimum score for a candidate to be auto-applied */
+export const SUGGESTION_THRESHOLD = 0.6;
+
+/** Score from which a suggestion is trusted without review */
+export const HIGH_CONFIDENCE_THRESHOLD = 0.85;
+
+/** Score from which a suggestion needing review is still a likely match */
+export const MEDIUM_CONFIDENCE_THRESHOLD = 0.7;
+
+/**
+ * Spanish and English names seen in POS and ERP exports, normalized
+ * (lowercase, no accents, abbreviations expanded)
+ */
+export const COLUMN_SYNONYMS: Record<SystemColumn, string[]> = {
+  in_dt: ['fecha', 'date', 'datetime', 'fecha venta', 'fecha hora', 'fecha emision', 'fecha documento', 'fecha transaccion', 'timestamp', 'transaction date', 'sale date', 'dia'],
+  in_trans_id: ['transaction id', 'trans id', 'id transaccion', 'numero transaccion', 'folio', 'numero documento', 'numero boleta', 'boleta', 'ticket', 'order id', 'numero pedido', 'pedido', 'id venta', 'numero venta', 'documento', 'factura'],
+  in_product_id: ['product id', 'id producto', 'codigo producto', 'producto', 'product', 'sku', 'codigo', 'item', 'articulo', 'codigo articulo', 'codigo barra', 'ean'],
+  in_quantity: ['quantity', 'cantidad', 'qty', 'unidades', 'units', 'cantidad vendida'],
+  in_price_total: ['price total', 'price', 'precio', 'precio total', 'total', 'monto', 'monto total', 'monto neto', 'total venta', 'venta total', 'venta neta', 'neto', 'subtotal', 'importe', 'valor total', 'revenue'],
+  in_trans_type: ['transaction type', 'tipo', 'tipo transaccion', 'tipo documento', 'tipo movimiento'],
+  in_customer_id: ['customer id', 'customer', 'cliente', 'id cliente', 'codigo cliente', 'rut cliente', 'rut'],
+  in_description: ['description', 'descripcion', 'detalle', 'glosa', 'nombre producto', 'product name', 'nombre'],
+  in_category: ['category', 'categoria', 'subcategoria', 'familia', 'linea', 'rubro', 'departamento'],
+  in_unit_type: ['unit type', 'unit', 'unidad', 'unidad medida', 'uom'],
+  in_stock: ['stock', 'inventory', 'inventario', 'existencia', 'saldo'],
+  in_cost_unit: ['cost unit', 'unit cost', 'costo unitario', 'costo unidad'],
+  in_cost_total: ['cost total', 'cost', 'costo', 'costo total', 'total cost'],
+  in_price_unit: ['price unit', 'unit price', 'precio unitario', 'precio unidad', 'valor unitario', 'precio lista'],
+  in_discount_total: ['discount total', 'discount', 'descuento', 'descuento total'],
+  in_commission_total: ['commission total', 'commission', 'comision', 'comision total'],
+  in_margin: ['margin', 'margen', 'utilidad', 'ganancia', 'profit'],
+};
+
+/** Abbreviations common in Chilean exports */
+const ABBREVIATIONS = new Map<string, string>(Object.entries({
+  cod: 'codigo',
+  cant: 'cantidad',
+  prod: 'producto',
+  trans: 'transaccion',
+  trx: 'transaccion',
+  nro: 'numero',
+  num: 'numero',
+  n: 'numero',
+  cat: 'categoria',
+  cli: 'cliente',
+  fec: 'fecha',
+  vta: 'venta',
+  dcto: 'descuento',
+  dto: 'descuento',
+  desc: 'descripcion',
+  pu: 'precio unitario',
+  um: 'unidad medida',
+  doc: 'documento',
+  tx: 'transaccion',
+}));
+
+/**
+ * Lowercase, strip accents and punctuation, split camelCase, expand
+ * abbreviations and drop the system "in_" prefix
+ */
+export function normalizeColumnName(name: string): string[] {
+  return name
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(token => token !== '' && token !== 'in')
+    .flatMap(token => (ABBREVIATIONS.get(token) ?? token).split(' '));
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two tokens: exact, or close enough to be a typo
+ */
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (Math.min(a.length, b.length) < 5) return 0;
+  return editDistance(a, b) <= 1 ? 0.8 : 0;
+}
+
+/**
+ * Dice coefficient over tokens, with fuzzy token equality
+ */
+function tokenOverlap(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const used = new Set<number>();
+  let matched = 0;
+
+  for (const token of a) {
+    let best = 0;
+    let bestIndex = -1;
+    b.forEach((other, index) => {
+      if (used.has(index)) return;
+      const similarity = tokenSimilarity(token, other);
+      if (similarity > best) {
+        best = similarity;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex >= 0) {
+      used.add(bestIndex);
+      matched += best;
+    }
+  }
+
+  return (2 * matched) / (a.length + b.length);
+}
+
+/**
+ * Score a header against one synonym phrase
+ */
+function phraseScore(headerTokens: string[], synonym: string): number {
+  const synonymTokens = synonym.split(' ');
+  const header = headerTokens.join('');
+  const phrase = synonymTokens.join('');
+
+  if (header === phrase) return 1;
+
+  const overlap = tokenOverlap(headerTokens, synonymTokens) * 0.9;
+  const edit = Math.min(header.length, phrase.length) >= 4
+    ? (1 - editDistance(header, phrase) / Math.max(header.length, phrase.length)) * 0.85
+    : 0;
+
+  return Math.max(overlap, edit);
+}
+
+type ValueKind = 'date' | 'number' | 'text' | 'empty';
+
+/**
+ * Classify a column by what most of its sample values look like
+ */
+export function classifyValues(values: string[]): ValueKind {
+  const nonEmpty = values.filter(value => value.trim() !== '').slice(0, 50);
+  if (nonEmpty.length === 0) return 'empty';
+
+  const share = (test: (value: string) => boolean) =>
+    nonEmpty.filter(test).length / nonEmpty.length;
+
+  if (share(value => isDatetimeValue(value)) >= 0.8) return 'date';
+  if (share(value => isNumericValue(value)) >= 0.8) return 'number';
+  return 'text';
+}
+
+/**
+ * Adjust a name-based score by how well the values fit the column's dtype
+ */
+function applyValueHint(
+  systemColumn: SystemColumn,
+  score: number,
+  kind: ValueKind,
+  reasons: string[]
+): number {
+  const { dtype } = COLUMN_SCHEMA[systemColumn];
+
+  if (kind === 'date') {
+    if (systemColumn === 'in_dt') {
+      reasons.push('values look like dates');
+      return Math.max(score + 0.25, 0.65);
+    }
+    return score * 0.5;
+  }
+  if (kind === 'number') {
+    if (dtype === 'float64') {
+      reasons.push('values are numeric');
+      return score + 0.05;
+    }
+    return dtype === 'datetime64[ns]' ? score * 0.3 : score;
+  }
+  if (kind === 'text') {
+    if (dtype === 'float64') {
+      reasons.push('values are not numeric');
+      return score * 0.4;
+    }
+    if (dtype === 'datetime64[ns]') {
+      reasons.push('values are not dates');
+      return score * 0.3;
+    }
+  }
+  return score;
+}
+
+/**
+ * Rank every system column as a candidate for one CSV header
+ */
+export function rankCandidates(csvColumn: string, values?: string[]): MatchCandidate[] {
+  const headerTokens = normalizeColumnName(csvColumn);
+  const kind = values ? classifyValues(values) : 'empty';
+
+  const candidates = (Object.keys(COLUMN_SCHEMA) as SystemColumn[]).map(systemColumn => {
+    const reasons: string[] = [];
+    let best = 0;
+    let bestSynonym = '';
+
+    for (const synonym of [systemColumn.replace(/^in_/, '').replace(/_/g, ' '), ...COLUMN_SYNONYMS[systemColumn]]) {
+      const score = phraseScore(headerTokens, synonym);
+      if (score > best) {
+        best = score;
+        bestSynonym = synonym;
+      }
+    }
+
+    if (best >= 0.5) {
+      reasons.push(best === 1 ? `name matches "${bestSynonym}"` : `name resembles "${bestSynonym}"`);
+    }
+
+    const score = Math.min(1, applyValueHint(systemColumn, best, kind, reasons));
+    return { systemColumn, score: Math.round(score * 100) / 100, reasons };
+  });
+
+  return candidates
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Suggest one system column per CSV header. Pairs are assigned greedily
+ * from the highest score down so no system column is used twice.
+ */
+export function suggestMappings(
+  csvColumns: string[],
+  samples?: Record<string, string[]>,
+  threshold = SUGGESTION_THRESHOLD
+): Map<string, MatchCandidate | null> {
+  const pairs = csvColumns.flatMap(csvColumn =>
+    rankCandidates(csvColumn, samples?.[csvColumn])
+      .filter(candidate => candidate.score >= threshold)
+      .map(candidate => ({ csvColumn, candidate }))
+  );
+  pairs.sort((a, b) => b.candidate.score - a.candidate.score);
+
+  // A Map, since headers like "__proto__" must not touch object prototypes
+  const result = new Map<string, MatchCandidate | null>(
+    csvColumns.map(csvColumn => [csvColumn, null])
+  );
+  const usedSystemColumns = new Set<SystemColumn>();
+
+  for (const { csvColumn, candidate } of pairs) {
+    if (result.get(csvColumn) || usedSystemColumns.has(candidate.systemColumn)) continue;
+    result.set(csvColumn, candidate);
+    usedSystemColumns.add(candidate.systemColumn);
+  }
+
+  return result;
+}
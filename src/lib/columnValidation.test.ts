@@ -0,0 +1,117 @@
+/**
+ * Test Suite for Column Validation
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  checkColumnDtype,
+  describeDtypeProblem,
+  getColumnSamples,
+  isDatetimeValue,
+  isNumericValue,
+} from './columnValidation';
+import { validateMappings, type ColumnMapping } from '@/types/columnSchema';
+
+describe('Column Validation - Valid Tests', () => {
+  it('valid: accepts plain numbers', () => {
+    expect(isNumericValue('12')).toBe(true);
+    expect(isNumericValue('-3.5')).toBe(true);
+    expect(isNumericValue(' 1e3 ')).toBe(true);
+  });
+
+  it('valid: accepts ISO and day-first dates', () => {
+    expect(isDatetimeValue('2024-01-15')).toBe(true);
+    expect(isDatetimeValue('2024-01-15T10:30:00Z')).toBe(true);
+    expect(isDatetimeValue('15/01/2024')).toBe(true);
+    expect(isDatetimeValue('15-01-24 23:59')).toBe(true);
+  });
+
+  it('valid: object columns accept any value', () => {
+    expect(checkColumnDtype('object', ['abc', 'N/A'])).toEqual({
+      checked: 2,
+      invalidCount: 0,
+      invalidExamples: [],
+    });
+  });
+});
+
+describe('Column Validation - Invalid Input', () => {
+  it('invalid: rejects non-numeric values', () => {
+    expect(isNumericValue('N/A')).toBe(false);
+    expect(isNumericValue('—')).toBe(false);
+    expect(isNumericValue('Infinity')).toBe(false);
+  });
+
+  it('invalid: rejects impossible or unknown dates', () => {
+    expect(isDatetimeValue('2024-13-01')).toBe(false);
+    expect(isDatetimeValue('32/01/2024')).toBe(false);
+    expect(isDatetimeValue('15/01/2024 25:00')).toBe(false);
+    expect(isDatetimeValue('ayer')).toBe(false);
+  });
+});
+
+describe('Column Validation - Dtype Checks', () => {
+  it('functional: counts invalid values and keeps distinct examples', () => {
+    const result = checkColumnDtype('float64', ['1', 'N/A', 'N/A', '—', 'x', 'y', '2']);
+    expect(result).toEqual({
+      checked: 7,
+      invalidCount: 5,
+      invalidExamples: ['N/A', '—', 'x'],
+    });
+  });
+
+  it('edge: skips empty values', () => {
+    expect(checkColumnDtype('float64', ['', '  ', '3'])).toEqual({
+      checked: 1,
+      invalidCount: 0,
+      invalidExamples: [],
+    });
+  });
+
+  it('functional: describes the problem for the user', () => {
+    const message = describeDtypeProblem('Cantidad', 'float64', {
+      checked: 500,
+      invalidCount: 12,
+      invalidExamples: ['N/A', '—'],
+    });
+    expect(message).toBe("12 of 500 sample values in 'Cantidad' are not numeric: 'N/A', '—'");
+  });
+
+  it('functional: builds samples per column from rows', () => {
+    expect(getColumnSamples(['a', 'b'], [['1', '2'], ['3']])).toEqual({
+      a: ['1', '3'],
+      b: ['2', ''],
+    });
+  });
+});
+
+describe('validateMappings - Dtype Warnings', () => {
+  const mappings: ColumnMapping[] = [
+    { csvColumn: 'Fecha', systemColumn: 'in_dt' },
+    { csvColumn: 'Cantidad', systemColumn: 'in_quantity' },
+    { csvColumn: 'Producto', systemColumn: 'in_product_id' },
+    { csvColumn: 'Notas', systemColumn: null },
+  ];
+
+  it('functional: reports warnings alongside missingRequired', () => {
+    const result = validateMappings(mappings, {
+      Fecha: ['2024-01-15', 'mañana'],
+      Cantidad: ['1', '2'],
+      Producto: ['SKU-1', 'SKU-2'],
+      Notas: ['x', 'y'],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.missingRequired).toEqual(['in_trans_id', 'in_price_total']);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toMatchObject({
+      csvColumn: 'Fecha',
+      systemColumn: 'in_dt',
+      invalidCount: 1,
+      invalidExamples: ['mañana'],
+    });
+  });
+
+  it('edge: returns no warnings without samples', () => {
+    expect(validateMappings(mappings).warnings).toEqual([]);
+  });
+});
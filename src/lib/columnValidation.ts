@@ -0,0 +1,98 @@
+/**
+ * Column Validation
+ * Parseability checks of sample CSV values against COLUMN_SCHEMA dtypes
+ */
+
+import type { ColumnSpec } from '@/types/columnSchema';
+import type { ColumnValueFormat, DateFormatId, NumberFormatId } from '@/types/valueFormat';
+import {
+  DATE_FORMAT_IDS,
+  NUMBER_FORMAT_IDS,
+  parseDate,
+  parseNumber,
+} from './valueFormats';
+
+export type ColumnDtype = ColumnSpec['dtype'];
+
+/** Sample values per CSV column name */
+export type ColumnSamples = Record<string, string[]>;
+
+export interface DtypeCheckResult {
+  /** Non-empty values that were checked */
+  checked: number;
+  invalidCount: number;
+  /** A few distinct offending values, for display */
+  invalidExamples: string[];
+}
+
+const MAX_EXAMPLES = 3;
+
+/**
+ * Check that a value can be read as a float, in the given format or in any
+ * supported format when none is given
+ */
+export function isNumericValue(value: string, format?: NumberFormatId): boolean {
+  const formats = format ? [format] : NUMBER_FORMAT_IDS;
+  return formats.some(id => parseNumber(value, id) !== null);
+}
+
+/**
+ * Check that a value can be read as a datetime, in the given format or in
+ * any supported format when none is given
+ */
+export function isDatetimeValue(value: string, format?: DateFormatId): boolean {
+  const formats = format ? [format] : DATE_FORMAT_IDS;
+  return formats.some(id => parseDate(value, id) !== null);
+}
+
+/**
+ * Check sample values against a dtype, using the column's value format
+ * when one was chosen. Empty values are treated as missing data rather
+ * than parse failures, and 'object' accepts anything.
+ */
+export function checkColumnDtype(
+  dtype: ColumnDtype,
+  values: string[],
+  format?: ColumnValueFormat
+): DtypeCheckResult {
+  const nonEmpty = values.filter(value => value.trim() !== '');
+
+  if (dtype === 'object') {
+    return { checked: nonEmpty.length, invalidCount: 0, invalidExamples: [] };
+  }
+
+  const isValid = dtype === 'float64'
+    ? (value: string) => isNumericValue(value, format?.number)
+    : (value: string) => isDatetimeValue(value, format?.date);
+  const invalid = nonEmpty.filter(value => !isValid(value));
+
+  return {
+    checked: nonEmpty.length,
+    invalidCount: invalid.length,
+    invalidExamples: [...new Set(invalid.map(value => value.trim()))].slice(0, MAX_EXAMPLES),
+  };
+}
+
+/**
+ * Build per-column sample values from parsed rows aligned with the header
+ */
+export function getColumnSamples(csvColumns: string[], rows: string[][]): ColumnSamples {
+  const samples: ColumnSamples = {};
+  csvColumns.forEach((column, index) => {
+    samples[column] = rows.map(row => row[index] ?? '');
+  });
+  return samples;
+}
+
+/**
+ * Human-readable summary of a failed dtype check
+ */
+export function describeDtypeProblem(
+  csvColumn: string,
+  dtype: ColumnDtype,
+  result: DtypeCheckResult
+): string {
+  const kind = dtype === 'float64' ? 'numeric' : 'valid dates';
+  const examples = result.invalidExamples.map(value => `'${value}'`).join(', ');
+  return `${result.invalidCount} of ${result.checked} sample values in '${csvColumn}' are not ${kind}: ${examples}`;
+}
@@ -0,0 +1,8 @@
+/**
+ * CSV Module Index
+ * Centralized exports for client-side CSV parsing
+ */
+
+export { parseCsvFile, normalizeHeaders, CsvParseError } from './parseFile';
+export { CsvTokenizer, tokenize } from './tokenizer';
+export { detectDelimiter, detectEncoding, CANDIDATE_DELIMITERS } from './sniff';
@@ -0,0 +1,194 @@
+/**
+ * Test Suite for CSV File Parser
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { parseCsvFile, normalizeHeaders, CsvParseError } from './parseFile';
+import { detectDelimiter, detectEncoding } from './sniff';
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+/**
+ * Encode text as Windows-1252 (Latin-1 range only)
+ */
+const latin1 = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+const blobOf = (...parts: BlobPart[]) => new Blob(parts);
+
+describe('CSV Sniffing - Delimiter Detection', () => {
+  it('valid: detects comma', () => {
+    expect(detectDelimiter('a,b,c\n1,2,3\n4,5,6\n')).toBe(',');
+  });
+
+  it('valid: detects semicolon from Chilean Excel exports', () => {
+    expect(detectDelimiter('fecha;monto;glosa\n15-01-2024;1.234,5;uno, dos\n16-01-2024;99,9;tres\n')).toBe(';');
+  });
+
+  it('valid: detects tab and pipe', () => {
+    expect(detectDelimiter('a\tb\tc\n1\t2\t3\n')).toBe('\t');
+    expect(detectDelimiter('a|b|c\n1|2|3\n')).toBe('|');
+  });
+
+  it('edge: ignores delimiters inside quotes', () => {
+    expect(detectDelimiter('"a,b";c\n"1,2";3\n"4,5";6\n')).toBe(';');
+  });
+
+  it('edge: falls back to comma for single-column files', () => {
+    expect(detectDelimiter('producto\nSKU-1\nSKU-2\n')).toBe(',');
+  });
+});
+
+describe('CSV Sniffing - Encoding Detection', () => {
+  it('valid: detects UTF-8 text', () => {
+    expect(detectEncoding(utf8('descripción'))).toEqual({ encoding: 'utf-8', bomLength: 0 });
+  });
+
+  it('valid: detects and skips a UTF-8 BOM', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]))).toEqual({ encoding: 'utf-8', bomLength: 3 });
+  });
+
+  it('valid: detects UTF-16LE BOM', () => {
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x61, 0x00]))).toEqual({ encoding: 'utf-16le', bomLength: 2 });
+  });
+
+  it('valid: falls back to Windows-1252 for invalid UTF-8', () => {
+    expect(detectEncoding(latin1('descripción')).encoding).toBe('windows-1252');
+  });
+
+  it('edge: tolerates a multi-byte character cut at the end of the sample', () => {
+    const bytes = utf8('descripción');
+    const cut = bytes.subarray(0, bytes.length - 3); // splits "ó"
+    expect(detectEncoding(cut).encoding).toBe('utf-8');
+  });
+});
+
+describe('CSV File Parser - Valid Tests', () => {
+  it('valid: returns headers, sample rows and detected format', async () => {
+    const preview = await parseCsvFile(blobOf('fecha;producto;cantidad\n2024-01-15;A;1\n2024-01-16;B;2\n'));
+
+    expect(preview.headers).toEqual(['fecha', 'producto', 'cantidad']);
+    expect(preview.rows).toEqual([
+      ['2024-01-15', 'A', '1'],
+      ['2024-01-16', 'B', '2'],
+    ]);
+    expect(preview.delimiter).toBe(';');
+    expect(preview.encoding).toBe('utf-8');
+    expect(preview.truncated).toBe(false);
+    expect(preview.totalRows).toBe(2);
+  });
+
+  it('valid: decodes Windows-1252 files without mojibake', async () => {
+    const preview = await parseCsvFile(blobOf(latin1('descripción;año\nCafé;2024\n')));
+
+    expect(preview.encoding).toBe('windows-1252');
+    expect(preview.headers).toEqual(['descripción', 'año']);
+    expect(preview.rows[0]).toEqual(['Café', '2024']);
+  });
+
+  it('valid: strips UTF-8 BOM from the first header', async () => {
+    const preview = await parseCsvFile(blobOf(new Uint8Array([0xef, 0xbb, 0xbf]), utf8('fecha,total\n1,2\n')));
+    expect(preview.headers[0]).toBe('fecha');
+  });
+
+  it('valid: decodes UTF-16LE tab-separated exports', async () => {
+    const text = 'fecha\tdescripción\n2024-01-15\tCafé\n';
+    const bytes = new Uint8Array(2 + text.length * 2);
+    bytes.set([0xff, 0xfe]);
+    for (let i = 0; i < text.length; i++) {
+      bytes[2 + i * 2] = text.charCodeAt(i);
+    }
+
+    const preview = await parseCsvFile(blobOf(bytes));
+    expect(preview.encoding).toBe('utf-16le');
+    expect(preview.delimiter).toBe('\t');
+    expect(preview.headers).toEqual(['fecha', 'descripción']);
+  });
+});
+
+describe('CSV File Parser - Error Handling', () => {
+  it('error: rejects empty files', async () => {
+    await expect(parseCsvFile(blobOf(''))).rejects.toMatchObject({ code: 'empty_file' });
+  });
+
+  it('error: rejects files with only blank lines', async () => {
+    await expect(parseCsvFile(blobOf('\n\n\n'))).rejects.toBeInstanceOf(CsvParseError);
+  });
+
+  it('error: stops when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const text = 'a,b\n' + '1,2\n'.repeat(1000);
+    const promise = parseCsvFile(blobOf(text), {
+      chunkSize: 64,
+      countRows: true,
+      signal: controller.signal,
+      onProgress: () => controller.abort(),
+    });
+
+    await expect(promise).rejects.toMatchObject({ code: 'aborted' });
+  });
+});
+
+describe('CSV File Parser - Edge Cases', () => {
+  it('edge: keeps quoted fields with embedded newlines across chunks', async () => {
+    const text = 'id,desc\n1,"línea uno\nlínea dos"\n2,otra\n';
+    const preview = await parseCsvFile(blobOf(text), { chunkSize: 5 });
+
+    expect(preview.rows).toEqual([
+      ['1', 'línea uno\nlínea dos'],
+      ['2', 'otra'],
+    ]);
+  });
+
+  it('edge: pads short rows and trims long rows to the header width', async () => {
+    const preview = await parseCsvFile(blobOf('a,b,c\n1\n1,2,3,4\n'));
+    expect(preview.rows).toEqual([
+      ['1', '', ''],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('edge: makes duplicate and empty headers unique', () => {
+    expect(normalizeHeaders(['total', '', 'total', ' fecha '])).toEqual([
+      'total',
+      'column_2',
+      'total (2)',
+      'fecha',
+    ]);
+  });
+
+  it('edge: honors an explicit delimiter and encoding', async () => {
+    const preview = await parseCsvFile(blobOf('a;b,c\n1;2,3\n'), { delimiter: ',', encoding: 'utf-8' });
+    expect(preview.headers).toEqual(['a;b', 'c']);
+  });
+});
+
+describe('CSV File Parser - Performance', () => {
+  it('performance: stops reading once the sample is complete', async () => {
+    const text = 'a,b\n' + '1,2\n'.repeat(10000);
+    const preview = await parseCsvFile(blobOf(text), { sampleSize: 10, chunkSize: 1024 });
+
+    expect(preview.rows).toHaveLength(10);
+    expect(preview.truncated).toBe(true);
+    expect(preview.totalRows).toBeNull();
+    expect(preview.bytesRead).toBeLessThan(text.length);
+  });
+
+  it('performance: counts every row in a full pass with progress updates', async () => {
+    const onProgress = vi.fn();
+    const text = 'a,b\n' + '1,2\n'.repeat(10000);
+    const preview = await parseCsvFile(blobOf(text), {
+      sampleSize: 10,
+      chunkSize: 4096,
+      countRows: true,
+      onProgress,
+    });
+
+    expect(preview.rows).toHaveLength(10);
+    expect(preview.totalRows).toBe(10000);
+    expect(onProgress.mock.calls.length).toBeGreaterThan(1);
+    expect(onProgress).toHaveBeenLastCalledWith({
+      bytesRead: text.length,
+      totalBytes: text.length,
+      rowsRead: 10000,
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * CSV File Parser
+ * Streams a File/Blob in chunks to extract the header row and a sample of rows
+ */
+
+import type {
+  CsvDelimiter,
+  CsvEncoding,
+  CsvParseOptions,
+  CsvPreview,
+} from '@/types/csv';
+import { CsvTokenizer } from './tokenizer';
+import { detectDelimiter, detectEncoding } from './sniff';
+
+const DEFAULT_SAMPLE_SIZE = 100;
+const DEFAULT_CHUNK_SIZE = 1024 * 1024; // 1 MB
+
+export class CsvParseError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'empty_file' | 'no_header' | 'aborted' | 'read_failed'
+  ) {
+    super(message);
+    this.name = 'CsvParseError';
+  }
+}
+
+/**
+ * Read a slice of a Blob as bytes
+ */
+async function readSlice(file: Blob, start: number, end: number): Promise<Uint8Array> {
+  const slice = file.slice(start, end);
+  if (typeof slice.arrayBuffer === 'function') {
+    return new Uint8Array(await slice.arrayBuffer());
+  }
+
+  // Older engines without Blob.arrayBuffer()
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(slice);
+  });
+}
+
+/**
+ * Give the browser a chance to paint and handle input between chunks
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Make header names non-empty and unique, since mappings are keyed by name
+ */
+export function normalizeHeaders(raw: string[]): string[] {
+  const seen = new Map<string, number>();
+
+  return raw.map((value, index) => {
+    const base = value.replace(/^\uFEFF/, '').trim() || `column_${index + 1}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base} (${count + 1})`;
+  });
+}
+
+/**
+ * Pad or trim a row to the header width
+ */
+function fitRow(row: string[], width: number): string[] {
+  if (row.length === width) return row;
+  if (row.length > width) return row.slice(0, width);
+  return [...row, ...Array<string>(width - row.length).fill('')];
+}
+
+/**
+ * Parse the header and a sample of rows from a CSV/TSV file.
+ *
+ * The file is read in chunks so multi-hundred-MB exports never have to
+ * fit in memory, and reading stops as soon as the sample is complete
+ * unless `countRows` asks for a full pass.
+ */
+export async function parseCsvFile(
+  file: Blob,
+  options: CsvParseOptions = {}
+): Promise<CsvPreview> {
+  const {
+    sampleSize = DEFAULT_SAMPLE_SIZE,
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    countRows = false,
+    signal,
+    onProgress,
+  } = options;
+
+  const totalBytes = file.size;
+  if (totalBytes === 0) {
+    throw new CsvParseError('The file is empty', 'empty_file');
+  }
+
+  const checkAborted = () => {
+    if (signal?.aborted) {
+      throw new CsvParseError('Parsing was cancelled', 'aborted');
+    }
+  };
+
+  checkAborted();
+
+  let offset = 0;
+  let firstChunk: Uint8Array;
+  try {
+    firstChunk = await readSlice(file, 0, Math.min(chunkSize, totalBytes));
+  } catch (error) {
+    throw new CsvParseError(
+      error instanceof Error ? error.message : 'Could not read the file',
+      'read_failed'
+    );
+  }
+
+  const detected = detectEncoding(firstChunk);
+  const encoding: CsvEncoding = options.encoding ?? detected.encoding;
+  const decoder = new TextDecoder(encoding);
+
+  const firstText = decoder.decode(firstChunk.subarray(detected.bomLength), { stream: true });
+  const delimiter: CsvDelimiter = options.delimiter ?? detectDelimiter(firstText);
+  const tokenizer = new CsvTokenizer(delimiter);
+
+  let headers: string[] | null = null;
+  const rows: string[][] = [];
+  let rowCount = 0;
+
+  const consume = (completed: string[][]) => {
+    for (const row of completed) {
+      if (headers === null) {
+        headers = normalizeHeaders(row);
+        continue;
+      }
+      rowCount++;
+      if (rows.length < sampleSize) {
+        rows.push(fitRow(row, headers.length));
+      }
+    }
+  };
+
+  consume(tokenizer.push(firstText));
+  offset = firstChunk.length;
+  onProgress?.({ bytesRead: offset, totalBytes, rowsRead: rowCount });
+
+  const sampleComplete = () => headers !== null && rows.length >= sampleSize;
+
+  while (offset < totalBytes && (countRows || !sampleComplete())) {
+    await yieldToEventLoop();
+    checkAborted();
+
+    const end = Math.min(offset + chunkSize, totalBytes);
+    let bytes: Uint8Array;
+    try {
+      bytes = await readSlice(file, offset, end);
+    } catch (error) {
+      throw new CsvParseError(
+        error instanceof Error ? error.message : 'Could not read the file',
+        'read_failed'
+      );
+    }
+
+    consume(tokenizer.push(decoder.decode(bytes, { stream: true })));
+    offset = end;
+    onProgress?.({ bytesRead: offset, totalBytes, rowsRead: rowCount });
+  }
+
+  const reachedEnd = offset >= totalBytes;
+  if (reachedEnd) {
+    consume(tokenizer.push(decoder.decode()));
+    consume(tokenizer.flush());
+  }
+
+  if (headers === null) {
+    throw new CsvParseError('The file has no header row', 'no_header');
+  }
+
+  return {
+    headers,
+    rows,
+    delimiter,
+    encoding,
+    bytesRead: offset,
+    totalBytes,
+    truncated: !reachedEnd,
+    totalRows: reachedEnd ? rowCount : null,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * CSV Sniffing
+ * Encoding and delimiter detection from the first bytes of a file
+ */
+
+import type { CsvDelimiter, CsvEncoding } from '@/types/csv';
+
+export const CANDIDATE_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+
+const SNIFF_LINES = 20;
+
+export interface EncodingDetection {
+  encoding: CsvEncoding;
+  /** Length of the byte order mark to skip, if any */
+  bomLength: number;
+}
+
+/**
+ * Detect the text encoding of a file from its first bytes.
+ *
+ * Honors UTF-8 and UTF-16LE byte order marks (Excel's "Unicode text"
+ * export is UTF-16LE). Otherwise the bytes are validated as UTF-8 and,
+ * if invalid, assumed to be Windows-1252 - the default for Excel CSV
+ * exports on Spanish-language Windows.
+ */
+export function detectEncoding(bytes: Uint8Array): EncodingDetection {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: 'utf-8', bomLength: 3 };
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { encoding: 'utf-16le', bomLength: 2 };
+  }
+
+  try {
+    // stream: true tolerates a multi-byte sequence cut at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return { encoding: 'utf-8', bomLength: 0 };
+  } catch {
+    return { encoding: 'windows-1252', bomLength: 0 };
+  }
+}
+
+/**
+ * Count delimiter occurrences per line, ignoring quoted sections
+ */
+function countPerLine(lines: string[], delimiter: CsvDelimiter): number[] {
+  return lines.map((line) => {
+    let count = 0;
+    let inQuotes = false;
+    for (const char of line) {
+      if (char === '"') inQuotes = !inQuotes;
+      else if (char === delimiter && !inQuotes) count++;
+    }
+    return count;
+  });
+}
+
+/**
+ * Detect the field delimiter from a sample of decoded text.
+ *
+ * The winner is the candidate that appears the same number of times on
+ * the most lines; ties go to the candidate with more fields per line,
+ * then to list order (comma first).
+ */
+export function detectDelimiter(sample: string): CsvDelimiter {
+  const lines = sample
+    .split(/\r\n|\n|\r/)
+    .slice(0, SNIFF_LINES)
+    .filter((line) => line.trim() !== '');
+
+  // The last line of a sample may be cut mid-row
+  if (lines.length > 2) lines.pop();
+
+  let best: CsvDelimiter = ',';
+  let bestConsistency = 0;
+  let bestFields = 0;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const counts = countPerLine(lines, delimiter);
+    const header = counts[0] ?? 0;
+    if (header === 0) continue;
+
+    const consistency = counts.filter((count) => count === header).length;
+    if (
+      consistency > bestConsistency ||
+      (consistency === bestConsistency && header > bestFields)
+    ) {
+      best = delimiter;
+      bestConsistency = consistency;
+      bestFields = header;
+    }
+  }
+
+  return best;
+}
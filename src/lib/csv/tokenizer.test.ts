@@ -0,0 +1,87 @@
+/**
+ * Test Suite for CSV Tokenizer
+ */
+import { describe, it, expect } from 'vitest';
+import { CsvTokenizer, tokenize } from './tokenizer';
+
+describe('CSV Tokenizer - Valid Tests', () => {
+  it('valid: splits simple comma-separated rows', () => {
+    expect(tokenize('a,b,c\n1,2,3\n', ',')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('valid: supports semicolon, tab and pipe delimiters', () => {
+    expect(tokenize('a;b\n1;2', ';')).toEqual([['a', 'b'], ['1', '2']]);
+    expect(tokenize('a\tb\n1\t2', '\t')).toEqual([['a', 'b'], ['1', '2']]);
+    expect(tokenize('a|b\n1|2', '|')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('valid: handles CRLF and bare CR line endings', () => {
+    expect(tokenize('a,b\r\n1,2\r3,4', ',')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+  });
+});
+
+describe('CSV Tokenizer - Quoted Fields', () => {
+  it('quoted: keeps delimiters inside quotes', () => {
+    expect(tokenize('"Pérez, Juan",2\n', ',')).toEqual([['Pérez, Juan', '2']]);
+  });
+
+  it('quoted: unescapes doubled quotes', () => {
+    expect(tokenize('"Pantalla 24"" LED",1', ',')).toEqual([['Pantalla 24" LED', '1']]);
+  });
+
+  it('quoted: keeps embedded newlines', () => {
+    expect(tokenize('desc,qty\n"línea 1\nlínea 2",3\n', ',')).toEqual([
+      ['desc', 'qty'],
+      ['línea 1\nlínea 2', '3'],
+    ]);
+  });
+
+  it('quoted: treats a quote in the middle of a field literally', () => {
+    expect(tokenize('ab"c,d', ',')).toEqual([['ab"c', 'd']]);
+  });
+});
+
+describe('CSV Tokenizer - Edge Cases', () => {
+  it('edge: skips blank lines', () => {
+    expect(tokenize('a,b\n\n1,2\n\n', ',')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('edge: keeps empty fields', () => {
+    expect(tokenize(',,\n', ',')).toEqual([['', '', '']]);
+  });
+
+  it('edge: produces the same rows regardless of chunk boundaries', () => {
+    const text = 'id,desc\r\n1,"dice ""hola""\r\ny adiós"\r\n2,simple\r\n';
+    const expected = tokenize(text, ',');
+
+    for (let size = 1; size <= text.length; size++) {
+      const tokenizer = new CsvTokenizer(',');
+      const rows: string[][] = [];
+      for (let i = 0; i < text.length; i += size) {
+        rows.push(...tokenizer.push(text.slice(i, i + size)));
+      }
+      rows.push(...tokenizer.flush());
+      expect(rows).toEqual(expected);
+    }
+  });
+
+  it('edge: emits the final row without trailing newline on flush', () => {
+    const tokenizer = new CsvTokenizer(',');
+    expect(tokenizer.push('a,b\n1,2')).toEqual([['a', 'b']]);
+    expect(tokenizer.flush()).toEqual([['1', '2']]);
+  });
+});
+
+describe('CSV Tokenizer - Performance', () => {
+  it('performance: tokenizes 50k rows quickly', () => {
+    const text = 'fecha,producto,cantidad\n' + '2024-01-15,SKU-001,3\n'.repeat(50000);
+    const start = performance.now();
+    const rows = tokenize(text, ',');
+    const duration = performance.now() - start;
+    expect(rows).toHaveLength(50001);
+    expect(duration).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * CSV Tokenizer
+ * Incremental RFC 4180 tokenizer that accepts text in arbitrary chunks
+ */
+
+import type { CsvDelimiter } from '@/types/csv';
+
+const QUOTE = 34; // "
+const LF = 10; // \n
+const CR = 13; // \r
+
+/**
+ * Splits delimited text into rows of fields.
+ *
+ * Chunks may end anywhere (inside a quoted field, between \r and \n,
+ * between two quotes of an escaped quote); state carries over to the
+ * next push(). Blank lines are skipped.
+ */
+export class CsvTokenizer {
+  private readonly delimiter: number;
+  private field = '';
+  private row: string[] = [];
+  private inQuotes = false;
+  private quotePending = false;
+  private skipNextLf = false;
+
+  constructor(delimiter: CsvDelimiter) {
+    this.delimiter = delimiter.charCodeAt(0);
+  }
+
+  /**
+   * Feed a chunk of text, returning every row completed by it
+   */
+  push(text: string): string[][] {
+    const rows: string[][] = [];
+    const length = text.length;
+    let start = 0;
+    let i = 0;
+
+    if (this.skipNextLf && length > 0) {
+      this.skipNextLf = false;
+      if (text.charCodeAt(0) === LF) {
+        start = i = 1;
+      }
+    }
+
+    while (i < length) {
+      const code = text.charCodeAt(i);
+
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (code === QUOTE) {
+          // Escaped quote ("") inside a quoted field
+          this.field += '"';
+          start = i + 1;
+          i++;
+          continue;
+        }
+        this.inQuotes = false;
+        start = i;
+      }
+
+      if (this.inQuotes) {
+        if (code === QUOTE) {
+          this.field += text.slice(start, i);
+          this.quotePending = true;
+          start = i + 1;
+        }
+        i++;
+        continue;
+      }
+
+      if (code === QUOTE && start === i && this.field === '') {
+        this.inQuotes = true;
+        start = i + 1;
+      } else if (code === this.delimiter) {
+        this.row.push(this.field + text.slice(start, i));
+        this.field = '';
+        start = i + 1;
+      } else if (code === LF || code === CR) {
+        this.field += text.slice(start, i);
+        this.endRow(rows);
+        if (code === CR) {
+          if (i + 1 < length) {
+            if (text.charCodeAt(i + 1) === LF) i++;
+          } else {
+            this.skipNextLf = true;
+          }
+        }
+        start = i + 1;
+      }
+      i++;
+    }
+
+    if (start < length) {
+      this.field += text.slice(start, length);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Finish the input, returning the last row if it had no trailing newline
+   */
+  flush(): string[][] {
+    const rows: string[][] = [];
+    this.quotePending = false;
+    this.inQuotes = false;
+    if (this.field !== '' || this.row.length > 0) {
+      this.endRow(rows);
+    }
+    return rows;
+  }
+
+  private endRow(rows: string[][]): void {
+    this.row.push(this.field);
+    this.field = '';
+    if (!(this.row.length === 1 && this.row[0] === '')) {
+      rows.push(this.row);
+    }
+    this.row = [];
+  }
+}
+
+/**
+ * Tokenize a complete string in one go
+ */
+export function tokenize(text: string, delimiter: CsvDelimiter): string[][] {
+  const tokenizer = new CsvTokenizer(delimiter);
+  return [...tokenizer.push(text), ...tokenizer.flush()];
+}
@@ -0,0 +1,60 @@
+/**
+ * Test Suite for Currency Conversion
+ * Covers UF, dollar and inflation-adjusted amounts at the transaction date
+ */
+import { describe, it, expect } from 'vitest';
+import { convertClp, currencyOfView, fromUf, toRealClp, toUf, toUsd } from './convert';
+import { createRateTable } from './rateTable';
+
+const table = createRateTable([
+  { date: '2024-01-02', uf: 36000, usd: 900 },
+  { date: '2024-06-03', uf: 37000, usd: 925 },
+  { date: '2024-12-02', uf: 38000, usd: 950 },
+]);
+
+describe('Currency Conversion', () => {
+  it('should convert pesos to UF and back at the rate of the date', () => {
+    expect(toUf(72000, '2024-01-02', table)).toBe(2);
+    expect(toUf(74000, '2024-06-07T14:00:00Z', table)).toBe(2);
+    expect(fromUf(2, '2024-12-02', table)).toBe(76000);
+  });
+
+  it('should convert pesos to dollars', () => {
+    expect(toUsd(1850, '2024-06-03', table)).toBe(2);
+  });
+
+  it('should express pesos in pesos of the latest rate', () => {
+    // 36.000 in January bought one UF, which costs 38.000 in December
+    expect(toRealClp(36000, '2024-01-02', table)).toBe(38000);
+    expect(toRealClp(38000, '2024-12-02', table)).toBe(38000);
+  });
+
+  it('should express pesos in pesos of a chosen day', () => {
+    expect(toRealClp(38000, '2024-12-02', table, '2024-01-02')).toBe(36000);
+  });
+
+  it('should convert according to the currency view', () => {
+    expect(convertClp(36000, '2024-01-02', 'nominal', table)).toBe(36000);
+    expect(convertClp(36000, '2024-01-02', 'real', table)).toBe(38000);
+    expect(convertClp(36000, '2024-01-02', 'uf', table)).toBe(1);
+    expect(convertClp(36000, '2024-01-02', 'real', table, { baseDate: '2024-06-03' })).toBe(37000);
+  });
+
+  it('should return null instead of guessing a missing rate', () => {
+    expect(toUf(36000, '2023-12-31', table)).toBeNull();
+    expect(toUf(74000, '2024-06-20', table)).toBeNull();
+    expect(convertClp(38000, '2025-03-03', 'real', table)).toBeNull();
+    expect(convertClp(36000, 'no es fecha', 'uf', table)).toBeNull();
+    expect(toRealClp(36000, '2024-01-02', createRateTable([]))).toBeNull();
+  });
+
+  it('should keep nominal pesos without any rates', () => {
+    expect(convertClp(36000, null, 'nominal', createRateTable([]))).toBe(36000);
+  });
+
+  it('should format UF views in UF and peso views in pesos', () => {
+    expect(currencyOfView('uf')).toBe('UF');
+    expect(currencyOfView('real')).toBe('CLP');
+    expect(currencyOfView('nominal')).toBe('CLP');
+  });
+});
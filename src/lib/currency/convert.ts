@@ -0,0 +1,84 @@
+/**
+ * Currency Conversion
+ * Peso amounts in UF, dollars or inflation-adjusted pesos at the transaction date
+ */
+
+import type { Currency } from '@/lib/utils';
+import type { CurrencyView } from '@/types/currency';
+import { findRate, latestRate, type RateTable } from './rateTable';
+
+type TransactionDate = Date | string | null | undefined;
+
+/**
+ * A peso amount in UF at the UF value of its date
+ */
+export function toUf(amount: number, date: TransactionDate, table: RateTable): number | null {
+  const rate = findRate(table, date);
+  return rate ? amount / rate.uf : null;
+}
+
+/**
+ * A UF amount in pesos at the UF value of its date
+ */
+export function fromUf(amount: number, date: TransactionDate, table: RateTable): number | null {
+  const rate = findRate(table, date);
+  return rate ? amount * rate.uf : null;
+}
+
+/**
+ * A peso amount in dollars at the observed rate of its date
+ */
+export function toUsd(amount: number, date: TransactionDate, table: RateTable): number | null {
+  const rate = findRate(table, date);
+  return rate ? amount / rate.usd : null;
+}
+
+/**
+ * A peso amount in pesos of another day, adjusted for inflation. The UF
+ * follows the CPI day by day, so the amount keeps its value in UF.
+ *
+ * @param baseDate - Day whose pesos the result is in; the latest rate by default
+ */
+export function toRealClp(
+  amount: number,
+  date: TransactionDate,
+  table: RateTable,
+  baseDate?: TransactionDate
+): number | null {
+  const rate = findRate(table, date);
+  const base = baseDate === undefined ? latestRate(table) : findRate(table, baseDate);
+  return rate && base ? (amount * base.uf) / rate.uf : null;
+}
+
+export interface ConvertOptions {
+  /** Day whose pesos real amounts are in; the latest rate by default */
+  baseDate?: TransactionDate;
+}
+
+/**
+ * A peso amount as shown in a currency view. Null when the table has no rate
+ * for the date, so the amount is not shown converted at a wrong rate.
+ */
+export function convertClp(
+  amount: number,
+  date: TransactionDate,
+  view: CurrencyView,
+  table: RateTable,
+  { baseDate }: ConvertOptions = {}
+): number | null {
+  switch (view) {
+    case 'nominal':
+      return amount;
+    case 'real':
+      return toRealClp(amount, date, table, baseDate);
+    case 'uf':
+      return toUf(amount, date, table);
+  }
+}
+
+/**
+ * The currency amounts in a view are formatted in
+ */
+export function currencyOfView(view: CurrencyView): Currency {
+  return view === 'uf' ? 'UF' : 'CLP';
+}
@@ -0,0 +1,9 @@
+/**
+ * Currency Module Index
+ * Centralized exports for daily rates and peso conversion
+ */
+
+export { MAX_RATE_AGE_DAYS, createRateTable, findRate, latestRate, toCalendarDay } from './rateTable';
+export type { RateTable } from './rateTable';
+export { convertClp, currencyOfView, fromUf, toRealClp, toUf, toUsd } from './convert';
+export type { ConvertOptions } from './convert';
@@ -0,0 +1,86 @@
+/**
+ * Test Suite for the Rate Table
+ * Covers transaction days in Chile and rate lookup by date
+ */
+import { describe, it, expect } from 'vitest';
+import { createRateTable, findRate, latestRate, toCalendarDay } from './rateTable';
+import fixtureRates from './fixtures/dailyRates.json';
+
+const table = createRateTable([
+  { date: '2024-03-08', uf: 36880, usd: 970 },
+  { date: '2024-03-04', uf: 36870, usd: 975 },
+  { date: '2024-03-11', uf: 36890, usd: 965 },
+]);
+
+describe('Rate Table', () => {
+  describe('Calendar Days', () => {
+    it('should keep calendar dates as written', () => {
+      expect(toCalendarDay('2024-03-09')).toBe('2024-03-09');
+    });
+
+    it('should date timestamps by the day in Santiago', () => {
+      // 01:30 UTC on the 10th is 22:30 on the 9th in Chile
+      expect(toCalendarDay('2024-03-10T01:30:00Z')).toBe('2024-03-09');
+      expect(toCalendarDay(new Date('2024-03-10T12:00:00Z'))).toBe('2024-03-10');
+    });
+
+    it('should return null for unreadable dates', () => {
+      expect(toCalendarDay('2024-13-45')).toBeNull();
+      expect(toCalendarDay('ayer')).toBeNull();
+      expect(toCalendarDay(null)).toBeNull();
+    });
+  });
+
+  describe('Lookup', () => {
+    it('should sort rates by date', () => {
+      expect(table.rates.map((rate) => rate.date)).toEqual(['2024-03-04', '2024-03-08', '2024-03-11']);
+      expect(latestRate(table)?.date).toBe('2024-03-11');
+    });
+
+    it('should find the rate of the day', () => {
+      expect(findRate(table, '2024-03-08')?.uf).toBe(36880);
+      expect(findRate(table, '2024-03-11T15:00:00Z')?.uf).toBe(36890);
+    });
+
+    it('should use the last rate before a day with none', () => {
+      expect(findRate(table, '2024-03-10')?.date).toBe('2024-03-08');
+      expect(findRate(table, '2024-03-15')?.date).toBe('2024-03-11');
+    });
+
+    it('should have no rate once the last one is too old', () => {
+      expect(findRate(table, '2024-03-16')?.date).toBe('2024-03-11');
+      expect(findRate(table, '2024-03-17')).toBeNull();
+      expect(findRate(table, '2024-12-31')).toBeNull();
+    });
+
+    it('should have no rate before the table starts', () => {
+      expect(findRate(table, '2024-03-03')).toBeNull();
+      expect(findRate(createRateTable([]), '2024-03-08')).toBeNull();
+      expect(latestRate(createRateTable([]))).toBeNull();
+    });
+
+    it('should drop unusable rows and keep the last row for a repeated day', () => {
+      const cleaned = createRateTable([
+        { date: '2024-03-04', uf: 36870, usd: 975 },
+        { date: '2024-03-04', uf: 36871, usd: 975 },
+        { date: '04-03-2024', uf: 36870, usd: 975 },
+        { date: '2024-03-05', uf: 0, usd: 975 },
+      ]);
+
+      expect(cleaned.rates).toEqual([{ date: '2024-03-04', uf: 36871, usd: 975 }]);
+    });
+  });
+
+  describe('Offline Fixture', () => {
+    it('should cover every day of the fixture year with usable rates', () => {
+      const fixture = createRateTable(fixtureRates);
+
+      expect(fixture.rates).toHaveLength(fixtureRates.length);
+      expect(fixture.rates[0].date).toBe('2024-01-01');
+      expect(latestRate(fixture)?.date).toBe('2024-12-31');
+      // One row per day, with no gaps
+      const days = fixture.rates.map((rate) => Date.parse(`${rate.date}T00:00:00Z`));
+      expect(days.every((day, i) => i === 0 || day - days[i - 1] === 24 * 60 * 60 * 1000)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Rate Table
+ * Daily UF and dollar rates, looked up by transaction date
+ */
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { DEFAULT_TIME_ZONE, parseDate } from '@/lib/utils';
+import type { DailyRate } from '@/types/currency';
+
+export interface RateTable {
+  /** Rates in date order, one per day at most */
+  rates: DailyRate[];
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * How long a rate stays in force without a newer one. Long enough for a
+ * weekend with holidays, short enough that an outdated table reads as
+ * missing rates instead of converting at an old value.
+ */
+export const MAX_RATE_AGE_DAYS = 5;
+
+// en-CA writes dates as YYYY-MM-DD, the format the rate table is keyed by
+const calendarDayFormat = new Intl.DateTimeFormat('en-CA', {
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  timeZone: DEFAULT_TIME_ZONE,
+});
+
+/**
+ * The Chilean calendar day of a transaction, YYYY-MM-DD, or null when the
+ * date cannot be read. A sale at 22:00 on the 14th is dated the 14th even
+ * though it is already the 15th in UTC.
+ */
+export function toCalendarDay(date: Date | string | null | undefined): string | null {
+  if (typeof date === 'string' && DATE_ONLY.test(date)) {
+    return parseDate(`${date}T00:00:00Z`) ? date : null;
+  }
+  const parsed = parseDate(date);
+  return parsed ? calendarDayFormat.format(parsed) : null;
+}
+
+/**
+ * Build a table from rates in any order. Unusable rows are dropped, and a
+ * repeated day keeps the last row given for it.
+ */
+export function createRateTable(rates: DailyRate[]): RateTable {
+  const byDate = new Map<string, DailyRate>();
+  for (const rate of rates) {
+    if (DATE_ONLY.test(rate.date) && rate.uf > 0 && rate.usd > 0) {
+      byDate.set(rate.date, rate);
+    }
+  }
+  return {
+    rates: [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+/**
+ * The rate in force on a date: that day's, or the last one published before
+ * it (the dollar is not quoted on weekends). Null before the table starts,
+ * and more than MAX_RATE_AGE_DAYS after the last rate published.
+ */
+export function findRate(table: RateTable, date: Date | string | null | undefined): DailyRate | null {
+  const day = toCalendarDay(date);
+  if (!day) return null;
+
+  // Last rate dated on or before the day
+  let low = 0;
+  let high = table.rates.length - 1;
+  let found: DailyRate | null = null;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (table.rates[middle].date <= day) {
+      found = table.rates[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  if (found && differenceInCalendarDays(parseISO(day), parseISO(found.date)) > MAX_RATE_AGE_DAYS) {
+    return null;
+  }
+  return found;
+}
+
+/**
+ * The most recent rate in the table
+ */
+export function latestRate(table: RateTable): DailyRate | null {
+  return table.rates[table.rates.length - 1] ?? null;
+}
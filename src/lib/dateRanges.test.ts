@@ -0,0 +1,76 @@
+/**
+ * Test Suite for Date Ranges
+ * Covers presets, comparison periods and series granularity
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  comparisonRange,
+  granularityFor,
+  isValidRange,
+  rangeForPreset,
+  rangeLength,
+} from './dateRanges';
+
+describe('Date Ranges', () => {
+  describe('Presets', () => {
+    it('should end every preset today', () => {
+      expect(rangeForPreset('last7', '2024-03-10')).toEqual({ from: '2024-03-04', to: '2024-03-10' });
+      expect(rangeForPreset('last30', '2024-03-10')).toEqual({ from: '2024-02-10', to: '2024-03-10' });
+      expect(rangeForPreset('last90', '2024-03-10')).toEqual({ from: '2023-12-12', to: '2024-03-10' });
+      expect(rangeForPreset('thisMonth', '2024-03-10')).toEqual({ from: '2024-03-01', to: '2024-03-10' });
+      expect(rangeForPreset('thisYear', '2024-03-10')).toEqual({ from: '2024-01-01', to: '2024-03-10' });
+    });
+
+    it('should count both ends of a range', () => {
+      expect(rangeLength(rangeForPreset('last7', '2024-03-10'))).toBe(7);
+      expect(rangeLength({ from: '2024-03-10', to: '2024-03-10' })).toBe(1);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should accept a range that ends on or after its start', () => {
+      expect(isValidRange({ from: '2024-03-01', to: '2024-03-10' })).toBe(true);
+      expect(isValidRange({ from: '2024-03-10', to: '2024-03-10' })).toBe(true);
+    });
+
+    it('should reject reversed, empty or impossible dates', () => {
+      expect(isValidRange({ from: '2024-03-10', to: '2024-03-01' })).toBe(false);
+      expect(isValidRange({ from: '', to: '2024-03-01' })).toBe(false);
+      expect(isValidRange({ from: '2024-13-01', to: '2024-13-05' })).toBe(false);
+    });
+  });
+
+  describe('Comparison', () => {
+    it('should compare with the same number of days right before', () => {
+      expect(comparisonRange({ from: '2024-03-01', to: '2024-03-10' }, 'previousPeriod')).toEqual({
+        from: '2024-02-20',
+        to: '2024-02-29',
+      });
+    });
+
+    it('should compare with the same days a year earlier', () => {
+      expect(comparisonRange({ from: '2024-03-01', to: '2024-03-10' }, 'previousYear')).toEqual({
+        from: '2023-03-01',
+        to: '2023-03-10',
+      });
+      // There is no February 29th the year before
+      expect(comparisonRange({ from: '2024-02-29', to: '2024-02-29' }, 'previousYear')).toEqual({
+        from: '2023-02-28',
+        to: '2023-02-28',
+      });
+    });
+
+    it('should have no comparison range when not comparing', () => {
+      expect(comparisonRange({ from: '2024-03-01', to: '2024-03-10' }, 'none')).toBeNull();
+    });
+  });
+
+  describe('Granularity', () => {
+    it('should use days, then weeks, then months as ranges grow', () => {
+      expect(granularityFor({ from: '2024-01-01', to: '2024-03-02' })).toBe('day');
+      expect(granularityFor({ from: '2024-01-01', to: '2024-03-03' })).toBe('week');
+      expect(granularityFor({ from: '2024-01-01', to: '2024-12-31' })).toBe('week');
+      expect(granularityFor({ from: '2023-01-01', to: '2024-12-31' })).toBe('month');
+    });
+  });
+});
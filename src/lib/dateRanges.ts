@@ -0,0 +1,107 @@
+/**
+ * Date Ranges
+ * Dashboard periods: presets, the period to compare against and series granularity
+ */
+
+import {
+  differenceInCalendarDays,
+  format,
+  isValid,
+  parseISO,
+  startOfMonth,
+  startOfYear,
+  subDays,
+  subYears,
+} from 'date-fns';
+import { toCalendarDay } from '@/lib/currency';
+import type { DateRange, Granularity } from '@/types/analytics';
+
+export const RANGE_PRESETS = ['last7', 'last30', 'last90', 'thisMonth', 'thisYear'] as const;
+
+export type RangePreset = (typeof RANGE_PRESETS)[number];
+
+/** What a period is compared against */
+export const COMPARISONS = ['none', 'previousPeriod', 'previousYear'] as const;
+
+export type Comparison = (typeof COMPARISONS)[number];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const toDay = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Today in Chile, YYYY-MM-DD, wherever the browser is
+ */
+export function today(): string {
+  return toCalendarDay(new Date()) ?? toDay(new Date());
+}
+
+/**
+ * The range a preset covers, ending today
+ */
+export function rangeForPreset(preset: RangePreset, currentDay: string = today()): DateRange {
+  const end = parseISO(currentDay);
+  switch (preset) {
+    case 'last7':
+      return { from: toDay(subDays(end, 6)), to: currentDay };
+    case 'last30':
+      return { from: toDay(subDays(end, 29)), to: currentDay };
+    case 'last90':
+      return { from: toDay(subDays(end, 89)), to: currentDay };
+    case 'thisMonth':
+      return { from: toDay(startOfMonth(end)), to: currentDay };
+    case 'thisYear':
+      return { from: toDay(startOfYear(end)), to: currentDay };
+  }
+}
+
+/**
+ * Whether both ends are real days and the range does not end before it starts
+ */
+export function isValidRange({ from, to }: DateRange): boolean {
+  return (
+    DATE_ONLY.test(from) &&
+    DATE_ONLY.test(to) &&
+    isValid(parseISO(from)) &&
+    isValid(parseISO(to)) &&
+    from <= to
+  );
+}
+
+/**
+ * Number of days in a range, both ends included
+ */
+export function rangeLength({ from, to }: DateRange): number {
+  return differenceInCalendarDays(parseISO(to), parseISO(from)) + 1;
+}
+
+/**
+ * The range to compare against: the same number of days right before, or
+ * the same days a year earlier. Null when not comparing.
+ */
+export function comparisonRange(range: DateRange, comparison: Comparison): DateRange | null {
+  switch (comparison) {
+    case 'none':
+      return null;
+    case 'previousPeriod': {
+      const to = subDays(parseISO(range.from), 1);
+      return { from: toDay(subDays(to, rangeLength(range) - 1)), to: toDay(to) };
+    }
+    case 'previousYear':
+      return {
+        from: toDay(subYears(parseISO(range.from), 1)),
+        to: toDay(subYears(parseISO(range.to), 1)),
+      };
+  }
+}
+
+/**
+ * Series granularity that keeps charts readable: days up to two months,
+ * weeks up to a year, months beyond
+ */
+export function granularityFor(range: DateRange): Granularity {
+  const days = rangeLength(range);
+  if (days <= 62) return 'day';
+  if (days <= 366) return 'week';
+  return 'month';
+}
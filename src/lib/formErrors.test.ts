@@ -0,0 +1,67 @@
+/**
+ * Test Suite for Form Errors
+ * Covers routing server errors to react-hook-form inputs
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { applyServerErrors, isShownOnField } from './formErrors';
+import { ValidationError } from './api/errors';
+
+type FormData = { email: string; username: string };
+
+const badRequest = (data: unknown) => new ValidationError('Request failed', { status: 400, data });
+
+describe('Form Errors', () => {
+  it('should set each field error on its input and focus the first', () => {
+    const setError = vi.fn();
+
+    const unmatched = applyServerErrors<FormData>(
+      badRequest({ email: [{ message: 'Ya registrado.', code: 'unique' }], username: ['En uso.'] }),
+      setError,
+      ['email', 'username']
+    );
+
+    expect(unmatched).toEqual([]);
+    expect(setError).toHaveBeenCalledWith(
+      'email',
+      { type: 'unique', message: 'Ya registrado.' },
+      { shouldFocus: true }
+    );
+    expect(setError).toHaveBeenCalledWith(
+      'username',
+      { type: 'server', message: 'En uso.' },
+      { shouldFocus: false }
+    );
+  });
+
+  it('should keep the first message when a field has several', () => {
+    const setError = vi.fn();
+
+    applyServerErrors<FormData>(badRequest({ username: ['En uso.', 'Muy corto.'] }), setError, ['username']);
+
+    expect(setError).toHaveBeenCalledTimes(1);
+    expect(setError.mock.calls[0][1].message).toBe('En uso.');
+  });
+
+  it('should return general errors and fields the form does not have', () => {
+    const setError = vi.fn();
+
+    const unmatched = applyServerErrors<FormData>(
+      badRequest({ non_field_errors: ['Revisa los datos.'], phone: ['Inválido.'] }),
+      setError,
+      ['email', 'username']
+    );
+
+    expect(setError).not.toHaveBeenCalled();
+    expect(unmatched).toEqual([
+      { message: 'Revisa los datos.' },
+      { message: 'Inválido.', field: 'phone' },
+    ]);
+  });
+
+  it('should tell whether an error is already on an input', () => {
+    expect(isShownOnField({ message: 'x', field: 'email' }, ['email'])).toBe(true);
+    expect(isShownOnField({ message: 'x', field: 'phone' }, ['email'])).toBe(false);
+    expect(isShownOnField({ message: 'x' }, ['email'])).toBe(false);
+    expect(isShownOnField(null, ['email'])).toBe(false);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Form Errors
+ * Puts field errors returned by the API on the matching react-hook-form inputs
+ */
+
+import type { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { parseApiErrors } from '@/lib/api/auth';
+import type { AuthError } from '@/types/auth';
+
+/**
+ * Show each server error on the input it names, focusing the first one.
+ * Returns the errors that match none of `fields`, for the form's banner.
+ */
+export function applyServerErrors<T extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<T>,
+  fields: readonly Path<T>[]
+): AuthError[] {
+  const unmatched: AuthError[] = [];
+  const assigned = new Set<string>();
+
+  for (const item of parseApiErrors(error)) {
+    const field = fields.find(name => name === item.field);
+    if (!field) {
+      unmatched.push(item);
+      continue;
+    }
+    // An input shows one message; keep the first the server sent
+    if (assigned.has(field)) continue;
+    setError(
+      field,
+      { type: item.code ?? 'server', message: item.message },
+      { shouldFocus: assigned.size === 0 }
+    );
+    assigned.add(field);
+  }
+
+  return unmatched;
+}
+
+/**
+ * Whether an error is already shown on one of the form's inputs, so the
+ * banner can leave it out
+ */
+export function isShownOnField(error: AuthError | null, fields: readonly string[]): boolean {
+  return !!error?.field && fields.includes(error.field);
+}
@@ -0,0 +1,16 @@
+/**
+ * i18n Module Index
+ * Centralized exports for message catalogs and translation helpers
+ */
+
+export {
+  translate,
+  createTranslator,
+  isLocale,
+  LOCALES,
+  LOCALE_NAMES,
+  FORMAT_LOCALES,
+  DEFAULT_LOCALE,
+} from './translate';
+export type { Locale, MessageKey, MessageParams, Translate } from './translate';
+export { createZodErrorMap } from './zodErrorMap';
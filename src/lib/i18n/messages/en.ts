@@ -0,0 +1,430 @@
+/**
+ * English Messages
+ * Translation of the Spanish catalog
+ */
+
+import type { MessageKey } from './es';
+
+export const en: Record<MessageKey, string> = {
+  // Shared
+  'common.tagline': 'Analytics for Chilean SMEs',
+  'common.language': 'Language',
+  'common.email': 'Email',
+  'common.emailPlaceholder': 'you@company.cl',
+  'common.username': 'Username',
+  'common.usernameHelp': 'Letters, numbers and underscores only',
+  'common.password': 'Password',
+  'common.newPassword': 'New Password',
+  'common.confirmNewPassword': 'Confirm New Password',
+  'common.saving': 'Saving...',
+  'common.cancel': 'Cancel',
+  'common.confirmDelete': 'Confirm deletion',
+  'common.loading': 'Loading...',
+  'common.previous': 'Previous',
+  'common.next': 'Next',
+  'common.pageOf': 'Page {page} of {total}',
+  'common.pagination': 'Pagination',
+  'common.signIn': 'Sign in',
+  'common.signInLink': 'Sign in',
+  'common.checkEmail': 'Check your email',
+  'common.requestNewLink': 'Request a new link',
+  'common.terms': 'Terms of Service',
+  'common.privacy': 'Privacy Policy',
+
+  // Validation
+  'validation.required': 'This field is required',
+  'validation.invalid': 'Invalid value',
+  'validation.email': 'Invalid email format',
+  'validation.tooShort': 'Must be at least {minimum} characters',
+  'validation.tooLong': 'Cannot exceed {maximum} characters',
+  'validation.emailRequired': 'Email is required',
+  'validation.usernameRequired': 'Username is required',
+  'validation.usernameTooShort': 'Username must be at least {minimum} characters',
+  'validation.usernameTooLong': 'Username cannot exceed {maximum} characters',
+  'validation.passwordRequired': 'Password is required',
+  'validation.passwordTooShort': 'Password must be at least {minimum} characters',
+  'validation.passwordUppercase': 'Must contain at least one uppercase letter',
+  'validation.passwordLowercase': 'Must contain at least one lowercase letter',
+  'validation.passwordDigit': 'Must contain at least one number',
+  'validation.currentPasswordRequired': 'Current password is required',
+  'validation.newPasswordRequired': 'New password is required',
+  'validation.confirmPassword': 'Confirm your password',
+  'validation.confirmNewPassword': 'Confirm your new password',
+  'validation.passwordsMismatch': 'Passwords do not match',
+  'validation.passwordUnchanged': 'The new password must be different from the current one',
+
+  // Password policy
+  'password.requirementsTitle': 'Your password must contain:',
+  'password.newRequirementsTitle': 'Your new password must contain:',
+  'password.ruleLength': 'At least 8 characters',
+  'password.ruleUppercase': 'One uppercase letter',
+  'password.ruleLowercase': 'One lowercase letter',
+  'password.ruleDigit': 'One number',
+
+  // Login
+  'login.title': 'Sign In',
+  'login.subtitle': 'Sign in to your account to see your analytics',
+  'login.remember': 'Remember me',
+  'login.rememberHint':
+    'On shared computers, untick it: the session ends when the browser closes or after 30 minutes of inactivity.',
+  'login.forgotPassword': 'Forgot your password?',
+  'login.submit': 'Sign In',
+  'login.submitting': 'Signing in...',
+  'login.noAccount': "Don't have an account?",
+  'login.registerLink': 'Sign up for free',
+  'login.termsNotice': 'By signing in, you accept our',
+  'login.termsJoin': 'and',
+  'login.idleLogout': 'You were signed out after a period of inactivity',
+
+  // Register
+  'register.tagline': 'Create your account and start analyzing your data',
+  'register.title': 'Create Account',
+  'register.subtitle': 'Sign up for free and start today',
+  'register.usernamePlaceholder': 'yourname',
+  'register.confirmPassword': 'Confirm Password',
+  'register.strength': 'Strength:',
+  'register.strengthLabel': 'Password strength',
+  'register.strengthWeak': 'Weak',
+  'register.strengthMedium': 'Medium',
+  'register.strengthStrong': 'Strong',
+  'register.acceptTerms': 'I accept the',
+  'register.termsJoin': 'and the',
+  'register.submit': 'Create Account',
+  'register.submitting': 'Creating account...',
+  'register.haveAccount': 'Already have an account?',
+
+  // Change password
+  'changePassword.title': 'Change Password',
+  'changePassword.subtitle': 'Update your password securely',
+  'changePassword.success': 'Password updated successfully! Redirecting...',
+  'changePassword.currentPassword': 'Current Password',
+  'changePassword.submitting': 'Updating...',
+
+  // Forgot password
+  'forgotPassword.title': 'Forgot your password?',
+  'forgotPassword.subtitle': "Enter your email and we'll send you a link to reset it",
+  'forgotPassword.sentSubtitle': 'We sent you instructions to reset your password',
+  'forgotPassword.sentBefore': 'If an account is linked to',
+  'forgotPassword.sentAfter':
+    ", you'll receive a link to create a new password. Check your spam folder too.",
+  'forgotPassword.backToLogin': 'Back to sign in',
+  'forgotPassword.submit': 'Send link',
+  'forgotPassword.submitting': 'Sending...',
+  'forgotPassword.remembered': 'Remembered your password?',
+
+  // Reset password
+  'resetPassword.title': 'Reset Password',
+  'resetPassword.subtitle': 'Choose a new password for your account',
+  'resetPassword.submit': 'Save Password',
+  'resetPassword.successTitle': 'Password reset',
+  'resetPassword.successBody':
+    'Your password was updated. You can now sign in with the new password.',
+  'resetPassword.invalidTitle': 'Invalid link',
+  'resetPassword.invalidLink': 'The password reset link is invalid or has expired.',
+
+  // Check email
+  'checkEmail.subtitle': 'Verify your email address to enable data uploads',
+  'checkEmail.blocked': 'You must verify your email before uploading or reviewing data uploads.',
+  'checkEmail.sentBefore': 'We sent a verification link to',
+  'checkEmail.sentAfter':
+    ". Open it on this device or any other; if you can't find it, check your spam folder.",
+  'checkEmail.resent': 'We sent a new link to {email}.',
+  'checkEmail.yourEmail': 'your email',
+  'checkEmail.throttled': "We've already sent several emails. Wait a moment before asking for another.",
+  'checkEmail.stillUnverified':
+    "Your email doesn't show as verified yet. Open the link we sent you and try again.",
+  'checkEmail.resend': 'Resend email',
+  'checkEmail.resendIn': 'Resend in {seconds} s',
+  'checkEmail.checkAgain': "I've verified my email",
+  'checkEmail.goToDashboard': 'Go to dashboard',
+
+  // Verify email
+  'verifyEmail.verifyingTitle': 'Verifying your email...',
+  'verifyEmail.verifyingBody': 'This will only take a moment.',
+  'verifyEmail.verifiedTitle': 'Email verified!',
+  'verifyEmail.verifiedBody': 'Your account is ready to upload sales data.',
+  'verifyEmail.upload': 'Upload data',
+  'verifyEmail.failedTitle': "We couldn't verify your email",
+  'verifyEmail.invalidLink': 'The verification link is invalid or has expired.',
+  'verifyEmail.signInForNewLink': 'Sign in to request a new link',
+
+  // Profile settings
+  'profile.back': '← Back to dashboard',
+  'profile.title': 'My profile',
+  'profile.subtitle': 'Update your account details',
+  'profile.saved': 'Profile updated.',
+  'profile.emailSentBefore': 'We sent a verification link to',
+  'profile.emailSentAfter': '. Data uploads are locked until you open it.',
+  'profile.reviewVerification': 'Review verification',
+  'profile.emailHelp': "If you change it, you'll have to verify the new email before uploading data",
+  'profile.save': 'Save changes',
+  'profile.accountTitle': 'Your account',
+  'profile.memberSince': 'Member since',
+  'profile.lastLogin': 'Last sign-in',
+  'profile.never': 'Never',
+  'profile.emailStatus': 'Email',
+  'profile.verified': 'Verified',
+  'profile.pendingVerification': 'Pending verification',
+  'profile.languageHelp': 'Remembered for your account in this browser',
+
+  // Column mapping
+  'columnMapping.systemColumn': 'System column {column}',
+  'columnMapping.required': 'REQUIRED',
+  'columnMapping.inferable': 'INFERABLE',
+  'columnMapping.type': 'Type: {dtype}',
+  'columnMapping.numberFormat': 'Number format:',
+  'columnMapping.numberFormatFor': 'Number format for {column}',
+  'columnMapping.dateFormat': 'Date format:',
+  'columnMapping.dateFormatFor': 'Date format for {column}',
+  'columnMapping.dtypeWarningNumeric':
+    "{invalidCount} of {checked} sample values in '{csvColumn}' are not numeric: {examples}",
+  'columnMapping.dtypeWarningDate':
+    "{invalidCount} of {checked} sample values in '{csvColumn}' are not valid dates: {examples}",
+  'columnMapping.placeHere': 'Place {csvColumn} here',
+  'columnMapping.mapTo': 'Map {csvColumn} to {column}',
+  'columnMapping.dragBackHint': 'Drag back to your CSV columns to unmap',
+  'columnMapping.removeMapping': 'Remove mapping for {column}',
+  'columnMapping.move': 'Move {csvColumn}',
+  'columnMapping.suggested': 'Suggested with {confidence}% confidence',
+  'columnMapping.match': '{confidence}% match',
+  'columnMapping.check': ' · check',
+  'columnMapping.mapCsvColumn': 'Map CSV column {csvColumn}',
+  'columnMapping.notMapped': 'Not mapped',
+  'columnMapping.groupRequired': 'Required',
+  'columnMapping.groupOptional': 'Optional',
+  'columnMapping.groupInferable': 'Inferable',
+  'columnMapping.taken': '(mapped)',
+  'columnMapping.allRequiredMapped': '✓ All required columns mapped',
+  'columnMapping.missingRequired': '⚠ Missing required mappings',
+  'columnMapping.warningsOne': "⚠ {count} mapped column has values that don't match the expected type",
+  'columnMapping.warningsOther': "⚠ {count} mapped columns have values that don't match the expected type",
+  'columnMapping.csvColumns': 'Your CSV Columns',
+  'columnMapping.unmap': 'Unmap {csvColumn}',
+  'columnMapping.dragHint':
+    'Drag a column onto a system column below, or use ⠿ to move it with the keyboard.',
+  'columnMapping.requiredColumns': 'Required Columns ({count})',
+  'columnMapping.optionalColumns': 'Optional Columns ({count})',
+  'columnMapping.inferableColumns': 'Inferable Columns ({count})',
+  'columnMapping.announceMapped': '{csvColumn} mapped to {column}',
+  'columnMapping.announceReplaced': '{csvColumn} mapped to {column}, replacing {previous}',
+  'columnMapping.announceUnmapped': '{csvColumn} unmapped',
+  'columnMapping.announceDragging': 'Dragging {csvColumn}',
+  'columnMapping.announcePickedUp':
+    'Picked up {csvColumn}. Choose a system column to map it to, or press Escape to cancel.',
+  'columnMapping.announceCancelled': 'Move of {csvColumn} cancelled',
+
+  // Inference preview
+  'inference.region': 'Inference preview',
+  'inference.title': 'Inferred Columns',
+  'inference.none': 'No columns can be inferred from the current mapping.',
+  'inference.from': 'From:',
+  'inference.inferred': '(inferred)',
+  'inference.preview': 'Preview:',
+  'inference.unavailableTitle': 'Cannot be inferred',
+  'inference.mapInputs': ' - map {inputs}',
+  'inference.inputsJoin': ' and ',
+  'inference.noRule': ' - no inference rule; map it to include it',
+
+  // Currency views
+  'currency.label': 'Show amounts in',
+  'currency.nominal': 'Nominal CLP',
+  'currency.real': 'Real CLP',
+  'currency.uf': 'UF',
+  'currency.nominalHelp': 'Pesos as recorded',
+  'currency.realHelp': 'Pesos adjusted for inflation to the UF value of {date}',
+  'currency.ufHelp': 'Amounts in UF at the value on the day of each transaction',
+  'currency.ratesUnavailable': 'UF values could not be loaded; showing nominal pesos.',
+  'currency.ratesOutdated': 'UF values only go up to {date}; later sales are not converted.',
+
+  // Dashboard
+  'dashboard.greeting': 'Hi, {name}',
+  'dashboard.subtitle': 'Welcome to your analytics dashboard',
+  'dashboard.verifyEmail': 'Verify your email to start uploading data.',
+  'dashboard.verifyEmailLink': 'Check verification',
+  'dashboard.navUpload': 'Upload data',
+  'dashboard.navUploads': 'Upload history',
+  'dashboard.navTemplates': 'Mapping templates',
+  'dashboard.navProfile': 'My profile',
+  'dashboard.navChangePassword': 'Change Password',
+  'dashboard.logout': 'Sign Out',
+  'dashboard.period': 'Period',
+  'dashboard.preset.last7': 'Last 7 days',
+  'dashboard.preset.last30': 'Last 30 days',
+  'dashboard.preset.last90': 'Last 90 days',
+  'dashboard.preset.thisMonth': 'This month',
+  'dashboard.preset.thisYear': 'This year',
+  'dashboard.preset.custom': 'Custom',
+  'dashboard.from': 'From',
+  'dashboard.to': 'To',
+  'dashboard.invalidRange': 'The start date must be on or before the end date',
+  'dashboard.compareWith': 'Compare with',
+  'dashboard.comparison.none': 'No comparison',
+  'dashboard.comparison.previousPeriod': 'Previous period',
+  'dashboard.comparison.previousYear': 'Same period last year',
+  'dashboard.comparedRange': 'Compared with {from} – {to}',
+  'dashboard.kpi.revenue': 'Revenue',
+  'dashboard.kpi.units': 'Units sold',
+  'dashboard.kpi.averageTicket': 'Average ticket',
+  'dashboard.kpi.transactions': 'Transactions',
+  'dashboard.kpi.previous': 'Before: {value}',
+  'dashboard.kpi.changeLabel': 'Change from the comparison period',
+  'dashboard.revenueOverTime': 'Revenue over time',
+  'dashboard.unitsOverTime': 'Units over time',
+  'dashboard.currentSeries': 'Current period',
+  'dashboard.previousSeries': 'Comparison period',
+  'dashboard.topProducts': 'Top products',
+  'dashboard.topCategories': 'Top categories',
+  'dashboard.product': 'Product',
+  'dashboard.category': 'Category',
+  'dashboard.revenue': 'Revenue',
+  'dashboard.units': 'Units',
+  'dashboard.noTopSellers': 'No sales in this period',
+  'dashboard.loading': 'Loading analytics...',
+  'dashboard.empty': 'No sales recorded in this period.',
+  'dashboard.emptyUpload': 'Upload a sales file',
+
+  // Upload wizard
+  'wizard.progress': 'Progress',
+  'wizard.step.file': 'File',
+  'wizard.step.preview': 'Preview',
+  'wizard.step.mapping': 'Columns',
+  'wizard.step.review': 'Review',
+  'wizard.step.submit': 'Submit',
+  'dropzone.label': 'Drop your CSV file here or click to choose it',
+  'dropzone.formats': 'CSV or TSV, separated by comma, semicolon, tab or pipe',
+  'dropzone.select': 'Choose file',
+  'dropzone.reselect': 'Choose the file again',
+  'wizard.title': 'Upload sales data',
+  'wizard.back': 'Back',
+  'wizard.startOver': 'Start over',
+  'wizard.continue': 'Continue',
+  'wizard.submit': 'Submit file',
+  'wizard.submitting': 'Submitting...',
+  'wizard.readError': 'The file could not be read',
+  'wizard.readErrorDetail': 'The file could not be read: {error}',
+  'wizard.fileMismatch': 'This is not the file you mapped. Choose the same file or start over.',
+  'wizard.paused': 'Upload paused. Submit it again to continue where it left off.',
+  'wizard.submitFailed': '{error}. If you submit it again, it will continue where it left off.',
+  'wizard.reading': 'Reading file...',
+  'wizard.currentFile': 'Current file:',
+  'wizard.previewSummary': '{count} columns detected · «{delimiter}» separator · {encoding} encoding',
+  'wizard.tab': 'tab',
+  'wizard.noRows': 'The file has no data rows',
+  'wizard.templateApplied': 'The «{name}» template was applied. Check the mapping before continuing.',
+  'wizard.manageTemplates': 'Manage templates',
+  'wizard.willSend': 'Will submit',
+  'wizard.withMappedColumns': 'with {count} mapped columns.',
+  'wizard.fileNotKept':
+    'Your mapping was restored, but the browser does not keep the file across reloads. Choose the same file to continue.',
+  'wizard.sendProgress': 'Upload progress',
+  'wizard.sentOfTotal': '{sent} of {total}',
+  'wizard.preparing': 'Preparing upload...',
+  'wizard.pause': 'Pause',
+  'wizard.sent': 'File submitted!',
+  'wizard.processingFile': '{name} is being processed',
+  'wizard.uploadAnother': 'Upload another file',
+  'wizard.viewDetail': 'View details',
+  'wizard.goToDashboard': 'Go to dashboard',
+  'wizard.review.mapped': 'Mapped columns ({count})',
+  'wizard.review.inferred': 'Columns to be inferred ({count})',
+  'wizard.review.notInferable': 'Columns that cannot be inferred',
+  'wizard.review.missingOptional': 'Optional columns without data',
+
+  // Processing progress
+  'processing.region': 'Processing progress',
+  'processing.stage.validating': 'Validating rows',
+  'processing.stage.inferring': 'Inferring columns',
+  'processing.stage.aggregating': 'Calculating aggregates',
+  'processing.queued': 'Queued for processing...',
+  'processing.rows': '{processed} rows processed',
+  'processing.rowsOfTotal': '{processed} of {total} rows processed',
+  'processing.errorRowsOne': '{count} row with errors',
+  'processing.errorRowsOther': '{count} rows with errors',
+  'processing.completed': 'Processing complete',
+  'processing.failed': 'Processing failed',
+  'processing.connection.connecting': 'Connecting...',
+  'processing.connection.live': 'Live',
+  'processing.connection.reconnecting': 'Reconnecting...',
+  'processing.connection.polling': 'Updating periodically',
+
+  // Uploads
+  'uploads.status.pending': 'Pending',
+  'uploads.status.processing': 'Processing',
+  'uploads.status.completed': 'Completed',
+  'uploads.status.failed': 'Failed',
+  'uploads.allStatuses': 'All statuses',
+  'uploads.title': 'Upload history',
+  'uploads.subtitle': 'Uploaded files and their processing',
+  'uploads.uploadLink': 'Upload data',
+  'uploads.search': 'Search by file name',
+  'uploads.searchSubmit': 'Search',
+  'uploads.status': 'Status',
+  'uploads.loading': 'Loading history...',
+  'uploads.noMatches': 'No uploads match the filters.',
+  'uploads.empty': 'You have not uploaded any files yet.',
+  'uploads.file': 'File',
+  'uploads.date': 'Date',
+  'uploads.rows': 'Rows',
+  'uploads.template': 'Template',
+  'uploads.rejected': 'Rejected',
+
+  // Upload detail
+  'uploadDetail.back': '← Upload history',
+  'uploadDetail.notFound': 'The requested upload does not exist.',
+  'uploadDetail.uploadedOn': 'Uploaded on {date}',
+  'uploadDetail.size': 'Size',
+  'uploadDetail.download': 'Download rejected rows',
+  'uploadDetail.rejectedFileName': '{name}-rejected.csv',
+  'uploadDetail.reprocessWithMapping': 'Reprocess with another mapping',
+  'uploadDetail.delete': 'Delete data',
+  'uploadDetail.deleteWarning': 'The upload and every sale imported from this file will be deleted.',
+  'uploadDetail.editMapping': 'Edit mapping',
+  'uploadDetail.editMappingSubtitle': 'The file will be processed again with this mapping',
+  'uploadDetail.reprocess': 'Reprocess',
+  'uploadDetail.rejectedTitle': 'Rejected rows',
+  'uploadDetail.rejectedSubtitle': 'Why each row was not loaded',
+  'uploadDetail.row': 'Row',
+  'uploadDetail.column': 'Column',
+  'uploadDetail.value': 'Value',
+  'uploadDetail.reason': 'Reason',
+  'uploadDetail.rejectedPagination': 'Rejected rows pagination',
+
+  // Mapping templates
+  'templates.title': 'Mapping templates',
+  'templates.subtitle': 'Saved mappings applied automatically when you upload the same file format',
+  'templates.loading': 'Loading templates...',
+  'templates.empty': 'You have no templates yet. Save one from the «Columns» step when you',
+  'templates.emptyLink': 'upload data',
+  'templates.summary': '{mapped} of {total} columns mapped · updated {date}',
+  'templates.edit': 'Edit',
+  'templates.editLabel': 'Edit {name}',
+  'templates.delete': 'Delete',
+  'templates.deleteLabel': 'Delete {name}',
+  'templates.back': 'Back to upload data',
+  'templates.name': 'Template name',
+  'templates.nameRequired': 'Enter a name for the template',
+  'templates.saveChanges': 'Save changes',
+  'templates.saveAs': 'Save as template',
+  'templates.savePlaceholder': 'E.g. "Bsale export"',
+  'templates.saved': 'Template «{name}» saved',
+  'templates.save': 'Save template',
+
+  // System column descriptions
+  'column.in_dt': 'Transaction datetime',
+  'column.in_trans_id': 'Unique transaction identifier',
+  'column.in_product_id': 'Product identifier',
+  'column.in_quantity': 'Quantity of items in transaction',
+  'column.in_price_total': 'Total price/revenue for transaction',
+  'column.in_trans_type': 'Transaction type (sale, return, etc.)',
+  'column.in_customer_id': 'Customer identifier',
+  'column.in_description': 'Product description',
+  'column.in_category': 'Product category',
+  'column.in_unit_type': 'Unit of measure (kg, unit, liter, etc.)',
+  'column.in_stock': 'Current stock level',
+  'column.in_cost_unit': 'Cost per unit (can be inferred from cost_total/quantity)',
+  'column.in_cost_total': 'Total cost (can be inferred from cost_unit * quantity)',
+  'column.in_price_unit': 'Price per unit (can be inferred from price_total/quantity)',
+  'column.in_discount_total': 'Total discount amount (can be inferred)',
+  'column.in_commission_total': 'Total commission amount (can be inferred)',
+  'column.in_margin': 'Profit margin (can be inferred from price and cost)',
+};
@@ -0,0 +1,431 @@
+/**
+ * Spanish Messages
+ * The default catalog; every other locale translates these keys
+ */
+
+export const es = {
+  // Shared
+  'common.tagline': 'Analytics para PYMEs Chilenas',
+  'common.language': 'Idioma',
+  'common.email': 'Correo Electrónico',
+  'common.emailPlaceholder': 'tu@empresa.cl',
+  'common.username': 'Nombre de Usuario',
+  'common.usernameHelp': 'Solo letras, números y guiones bajos',
+  'common.password': 'Contraseña',
+  'common.newPassword': 'Nueva Contraseña',
+  'common.confirmNewPassword': 'Confirmar Nueva Contraseña',
+  'common.saving': 'Guardando...',
+  'common.cancel': 'Cancelar',
+  'common.confirmDelete': 'Confirmar eliminación',
+  'common.loading': 'Cargando...',
+  'common.previous': 'Anterior',
+  'common.next': 'Siguiente',
+  'common.pageOf': 'Página {page} de {total}',
+  'common.pagination': 'Paginación',
+  'common.signIn': 'Iniciar sesión',
+  'common.signInLink': 'Inicia sesión',
+  'common.checkEmail': 'Revisa tu correo',
+  'common.requestNewLink': 'Solicitar un nuevo enlace',
+  'common.terms': 'Términos de Servicio',
+  'common.privacy': 'Política de Privacidad',
+
+  // Validation
+  'validation.required': 'Este campo es requerido',
+  'validation.invalid': 'Valor inválido',
+  'validation.email': 'Formato de correo electrónico inválido',
+  'validation.tooShort': 'Debe tener al menos {minimum} caracteres',
+  'validation.tooLong': 'No puede exceder {maximum} caracteres',
+  'validation.emailRequired': 'El correo electrónico es requerido',
+  'validation.usernameRequired': 'El nombre de usuario es requerido',
+  'validation.usernameTooShort': 'El nombre de usuario debe tener al menos {minimum} caracteres',
+  'validation.usernameTooLong': 'El nombre de usuario no puede exceder {maximum} caracteres',
+  'validation.passwordRequired': 'La contraseña es requerida',
+  'validation.passwordTooShort': 'La contraseña debe tener al menos {minimum} caracteres',
+  'validation.passwordUppercase': 'Debe contener al menos una mayúscula',
+  'validation.passwordLowercase': 'Debe contener al menos una minúscula',
+  'validation.passwordDigit': 'Debe contener al menos un número',
+  'validation.currentPasswordRequired': 'La contraseña actual es requerida',
+  'validation.newPasswordRequired': 'La nueva contraseña es requerida',
+  'validation.confirmPassword': 'Confirma tu contraseña',
+  'validation.confirmNewPassword': 'Confirma tu nueva contraseña',
+  'validation.passwordsMismatch': 'Las contraseñas no coinciden',
+  'validation.passwordUnchanged': 'La nueva contraseña debe ser diferente a la actual',
+
+  // Password policy
+  'password.requirementsTitle': 'Tu contraseña debe contener:',
+  'password.newRequirementsTitle': 'Tu nueva contraseña debe contener:',
+  'password.ruleLength': 'Al menos 8 caracteres',
+  'password.ruleUppercase': 'Una letra mayúscula',
+  'password.ruleLowercase': 'Una letra minúscula',
+  'password.ruleDigit': 'Un número',
+
+  // Login
+  'login.title': 'Iniciar Sesión',
+  'login.subtitle': 'Ingresa a tu cuenta para ver tus analytics',
+  'login.remember': 'Recordarme',
+  'login.rememberHint':
+    'En computadores compartidos, desmárcalo: la sesión se cerrará al cerrar el navegador o tras 30 minutos sin actividad.',
+  'login.forgotPassword': '¿Olvidaste tu contraseña?',
+  'login.submit': 'Iniciar Sesión',
+  'login.submitting': 'Iniciando sesión...',
+  'login.noAccount': '¿No tienes una cuenta?',
+  'login.registerLink': 'Regístrate gratis',
+  'login.termsNotice': 'Al iniciar sesión, aceptas nuestros',
+  'login.termsJoin': 'y',
+  'login.idleLogout': 'Tu sesión se cerró por inactividad',
+
+  // Register
+  'register.tagline': 'Crea tu cuenta y comienza a analizar tus datos',
+  'register.title': 'Crear Cuenta',
+  'register.subtitle': 'Regístrate gratis y empieza hoy',
+  'register.usernamePlaceholder': 'tunombre',
+  'register.confirmPassword': 'Confirmar Contraseña',
+  'register.strength': 'Seguridad:',
+  'register.strengthLabel': 'Seguridad de la contraseña',
+  'register.strengthWeak': 'Débil',
+  'register.strengthMedium': 'Media',
+  'register.strengthStrong': 'Fuerte',
+  'register.acceptTerms': 'Acepto los',
+  'register.termsJoin': 'y la',
+  'register.submit': 'Crear Cuenta',
+  'register.submitting': 'Creando cuenta...',
+  'register.haveAccount': '¿Ya tienes una cuenta?',
+
+  // Change password
+  'changePassword.title': 'Cambiar Contraseña',
+  'changePassword.subtitle': 'Actualiza tu contraseña de forma segura',
+  'changePassword.success': '¡Contraseña actualizada exitosamente! Redirigiendo...',
+  'changePassword.currentPassword': 'Contraseña Actual',
+  'changePassword.submitting': 'Actualizando...',
+
+  // Forgot password
+  'forgotPassword.title': '¿Olvidaste tu contraseña?',
+  'forgotPassword.subtitle': 'Ingresa tu correo y te enviaremos un enlace para restablecerla',
+  'forgotPassword.sentSubtitle': 'Te enviamos las instrucciones para restablecer tu contraseña',
+  'forgotPassword.sentBefore': 'Si existe una cuenta asociada a',
+  'forgotPassword.sentAfter':
+    ', recibirás un enlace para crear una nueva contraseña. Revisa también la carpeta de spam.',
+  'forgotPassword.backToLogin': 'Volver a iniciar sesión',
+  'forgotPassword.submit': 'Enviar enlace',
+  'forgotPassword.submitting': 'Enviando...',
+  'forgotPassword.remembered': '¿Recordaste tu contraseña?',
+
+  // Reset password
+  'resetPassword.title': 'Restablecer Contraseña',
+  'resetPassword.subtitle': 'Elige una nueva contraseña para tu cuenta',
+  'resetPassword.submit': 'Guardar Contraseña',
+  'resetPassword.successTitle': 'Contraseña restablecida',
+  'resetPassword.successBody':
+    'Tu contraseña se actualizó. Ya puedes iniciar sesión con la nueva contraseña.',
+  'resetPassword.invalidTitle': 'Enlace no válido',
+  'resetPassword.invalidLink':
+    'El enlace para restablecer la contraseña no es válido o ya expiró.',
+
+  // Check email
+  'checkEmail.subtitle': 'Verifica tu correo electrónico para activar la carga de datos',
+  'checkEmail.blocked': 'Debes verificar tu correo antes de subir o revisar cargas de datos.',
+  'checkEmail.sentBefore': 'Enviamos un enlace de verificación a',
+  'checkEmail.sentAfter':
+    '. Ábrelo desde este dispositivo o cualquier otro; si no lo encuentras, revisa la carpeta de spam.',
+  'checkEmail.resent': 'Te enviamos un nuevo enlace a {email}.',
+  'checkEmail.yourEmail': 'tu correo',
+  'checkEmail.throttled': 'Ya enviamos varios correos. Espera un momento antes de pedir otro.',
+  'checkEmail.stillUnverified':
+    'Tu correo aún no aparece verificado. Abre el enlace que te enviamos e inténtalo de nuevo.',
+  'checkEmail.resend': 'Reenviar correo',
+  'checkEmail.resendIn': 'Reenviar en {seconds} s',
+  'checkEmail.checkAgain': 'Ya verifiqué mi correo',
+  'checkEmail.goToDashboard': 'Ir al panel',
+
+  // Verify email
+  'verifyEmail.verifyingTitle': 'Verificando tu correo...',
+  'verifyEmail.verifyingBody': 'Esto tomará solo un momento.',
+  'verifyEmail.verifiedTitle': '¡Correo verificado!',
+  'verifyEmail.verifiedBody': 'Tu cuenta está lista para cargar datos de ventas.',
+  'verifyEmail.upload': 'Subir datos',
+  'verifyEmail.failedTitle': 'No pudimos verificar tu correo',
+  'verifyEmail.invalidLink': 'El enlace de verificación no es válido o ya expiró.',
+  'verifyEmail.signInForNewLink': 'Inicia sesión para pedir un nuevo enlace',
+
+  // Profile settings
+  'profile.back': '← Volver al panel',
+  'profile.title': 'Mi perfil',
+  'profile.subtitle': 'Actualiza los datos de tu cuenta',
+  'profile.saved': 'Perfil actualizado.',
+  'profile.emailSentBefore': 'Enviamos un enlace de verificación a',
+  'profile.emailSentAfter': '. La carga de datos queda bloqueada hasta que lo abras.',
+  'profile.reviewVerification': 'Revisar verificación',
+  'profile.emailHelp': 'Si lo cambias, tendrás que verificar el nuevo correo antes de subir datos',
+  'profile.save': 'Guardar cambios',
+  'profile.accountTitle': 'Tu cuenta',
+  'profile.memberSince': 'Miembro desde',
+  'profile.lastLogin': 'Último inicio de sesión',
+  'profile.never': 'Nunca',
+  'profile.emailStatus': 'Correo',
+  'profile.verified': 'Verificado',
+  'profile.pendingVerification': 'Pendiente de verificación',
+  'profile.languageHelp': 'Se recuerda para tu cuenta en este navegador',
+
+  // Column mapping
+  'columnMapping.systemColumn': 'Columna del sistema {column}',
+  'columnMapping.required': 'OBLIGATORIA',
+  'columnMapping.inferable': 'INFERIBLE',
+  'columnMapping.type': 'Tipo: {dtype}',
+  'columnMapping.numberFormat': 'Formato numérico:',
+  'columnMapping.numberFormatFor': 'Formato numérico de {column}',
+  'columnMapping.dateFormat': 'Formato de fecha:',
+  'columnMapping.dateFormatFor': 'Formato de fecha de {column}',
+  'columnMapping.dtypeWarningNumeric':
+    '{invalidCount} de {checked} valores de muestra en \'{csvColumn}\' no son numéricos: {examples}',
+  'columnMapping.dtypeWarningDate':
+    '{invalidCount} de {checked} valores de muestra en \'{csvColumn}\' no son fechas válidas: {examples}',
+  'columnMapping.placeHere': 'Colocar {csvColumn} aquí',
+  'columnMapping.mapTo': 'Mapear {csvColumn} a {column}',
+  'columnMapping.dragBackHint': 'Arrastra de vuelta a tus columnas CSV para quitar el mapeo',
+  'columnMapping.removeMapping': 'Quitar mapeo de {column}',
+  'columnMapping.move': 'Mover {csvColumn}',
+  'columnMapping.suggested': 'Sugerida con {confidence}% de confianza',
+  'columnMapping.match': '{confidence}% coincidencia',
+  'columnMapping.check': ' · revisar',
+  'columnMapping.mapCsvColumn': 'Mapear columna CSV {csvColumn}',
+  'columnMapping.notMapped': 'Sin mapear',
+  'columnMapping.groupRequired': 'Obligatorias',
+  'columnMapping.groupOptional': 'Opcionales',
+  'columnMapping.groupInferable': 'Inferibles',
+  'columnMapping.taken': '(mapeada)',
+  'columnMapping.allRequiredMapped': '✓ Todas las columnas obligatorias están mapeadas',
+  'columnMapping.missingRequired': '⚠ Faltan columnas obligatorias por mapear',
+  'columnMapping.warningsOne': '⚠ {count} columna mapeada tiene valores que no coinciden con el tipo esperado',
+  'columnMapping.warningsOther': '⚠ {count} columnas mapeadas tienen valores que no coinciden con el tipo esperado',
+  'columnMapping.csvColumns': 'Tus columnas CSV',
+  'columnMapping.unmap': 'Quitar mapeo de {csvColumn}',
+  'columnMapping.dragHint':
+    'Arrastra una columna sobre una columna del sistema, o usa ⠿ para moverla con el teclado.',
+  'columnMapping.requiredColumns': 'Columnas obligatorias ({count})',
+  'columnMapping.optionalColumns': 'Columnas opcionales ({count})',
+  'columnMapping.inferableColumns': 'Columnas inferibles ({count})',
+  'columnMapping.announceMapped': '{csvColumn} mapeada a {column}',
+  'columnMapping.announceReplaced': '{csvColumn} mapeada a {column}, en lugar de {previous}',
+  'columnMapping.announceUnmapped': '{csvColumn} sin mapear',
+  'columnMapping.announceDragging': 'Arrastrando {csvColumn}',
+  'columnMapping.announcePickedUp':
+    'Tomaste {csvColumn}. Elige una columna del sistema para mapearla, o presiona Escape para cancelar.',
+  'columnMapping.announceCancelled': 'Movimiento de {csvColumn} cancelado',
+
+  // Inference preview
+  'inference.region': 'Vista previa de inferencia',
+  'inference.title': 'Columnas inferidas',
+  'inference.none': 'Ninguna columna se puede inferir con el mapeo actual.',
+  'inference.from': 'A partir de:',
+  'inference.inferred': '(inferida)',
+  'inference.preview': 'Vista previa:',
+  'inference.unavailableTitle': 'No se pueden inferir',
+  'inference.mapInputs': ' - mapea {inputs}',
+  'inference.inputsJoin': ' y ',
+  'inference.noRule': ' - sin regla de inferencia; mapéala para incluirla',
+
+  // Currency views
+  'currency.label': 'Mostrar montos en',
+  'currency.nominal': 'CLP nominal',
+  'currency.real': 'CLP real',
+  'currency.uf': 'UF',
+  'currency.nominalHelp': 'Pesos tal como se registraron',
+  'currency.realHelp': 'Pesos ajustados por inflación al valor de la UF del {date}',
+  'currency.ufHelp': 'Montos en UF al valor del día de cada transacción',
+  'currency.ratesUnavailable': 'No se pudieron cargar los valores de la UF; se muestran pesos nominales.',
+  'currency.ratesOutdated': 'Los valores de la UF llegan hasta el {date}; las ventas posteriores no se convierten.',
+
+  // Dashboard
+  'dashboard.greeting': 'Hola, {name}',
+  'dashboard.subtitle': 'Bienvenido a tu panel de analytics',
+  'dashboard.verifyEmail': 'Verifica tu correo para empezar a subir datos.',
+  'dashboard.verifyEmailLink': 'Revisar verificación',
+  'dashboard.navUpload': 'Subir datos',
+  'dashboard.navUploads': 'Historial de cargas',
+  'dashboard.navTemplates': 'Plantillas de mapeo',
+  'dashboard.navProfile': 'Mi perfil',
+  'dashboard.navChangePassword': 'Cambiar Contraseña',
+  'dashboard.logout': 'Cerrar Sesión',
+  'dashboard.period': 'Período',
+  'dashboard.preset.last7': 'Últimos 7 días',
+  'dashboard.preset.last30': 'Últimos 30 días',
+  'dashboard.preset.last90': 'Últimos 90 días',
+  'dashboard.preset.thisMonth': 'Este mes',
+  'dashboard.preset.thisYear': 'Este año',
+  'dashboard.preset.custom': 'Personalizado',
+  'dashboard.from': 'Desde',
+  'dashboard.to': 'Hasta',
+  'dashboard.invalidRange': 'La fecha de inicio debe ser anterior o igual a la de término',
+  'dashboard.compareWith': 'Comparar con',
+  'dashboard.comparison.none': 'Sin comparación',
+  'dashboard.comparison.previousPeriod': 'Período anterior',
+  'dashboard.comparison.previousYear': 'Mismo período del año anterior',
+  'dashboard.comparedRange': 'Comparado con {from} – {to}',
+  'dashboard.kpi.revenue': 'Ingresos',
+  'dashboard.kpi.units': 'Unidades vendidas',
+  'dashboard.kpi.averageTicket': 'Ticket promedio',
+  'dashboard.kpi.transactions': 'Transacciones',
+  'dashboard.kpi.previous': 'Antes: {value}',
+  'dashboard.kpi.changeLabel': 'Cambio respecto al período de comparación',
+  'dashboard.revenueOverTime': 'Ingresos en el tiempo',
+  'dashboard.unitsOverTime': 'Unidades en el tiempo',
+  'dashboard.currentSeries': 'Período actual',
+  'dashboard.previousSeries': 'Período de comparación',
+  'dashboard.topProducts': 'Productos más vendidos',
+  'dashboard.topCategories': 'Categorías más vendidas',
+  'dashboard.product': 'Producto',
+  'dashboard.category': 'Categoría',
+  'dashboard.revenue': 'Ingresos',
+  'dashboard.units': 'Unidades',
+  'dashboard.noTopSellers': 'Sin ventas en el período',
+  'dashboard.loading': 'Cargando analytics...',
+  'dashboard.empty': 'No hay ventas registradas en este período.',
+  'dashboard.emptyUpload': 'Sube un archivo de ventas',
+
+  // Upload wizard
+  'wizard.progress': 'Progreso',
+  'wizard.step.file': 'Archivo',
+  'wizard.step.preview': 'Vista previa',
+  'wizard.step.mapping': 'Columnas',
+  'wizard.step.review': 'Revisión',
+  'wizard.step.submit': 'Enviar',
+  'dropzone.label': 'Arrastra tu archivo CSV aquí o haz clic para seleccionarlo',
+  'dropzone.formats': 'CSV o TSV, separado por coma, punto y coma, tabulador o barra',
+  'dropzone.select': 'Seleccionar archivo',
+  'dropzone.reselect': 'Selecciona nuevamente el archivo',
+  'wizard.title': 'Subir datos de ventas',
+  'wizard.back': 'Atrás',
+  'wizard.startOver': 'Empezar de nuevo',
+  'wizard.continue': 'Continuar',
+  'wizard.submit': 'Enviar archivo',
+  'wizard.submitting': 'Enviando...',
+  'wizard.readError': 'No se pudo leer el archivo',
+  'wizard.readErrorDetail': 'No se pudo leer el archivo: {error}',
+  'wizard.fileMismatch': 'El archivo no coincide con el que mapeaste. Selecciona el mismo archivo o vuelve a empezar.',
+  'wizard.paused': 'Envío pausado. Vuelve a enviarlo para continuar desde donde quedó.',
+  'wizard.submitFailed': '{error}. Si vuelves a enviarlo, continuará desde donde quedó.',
+  'wizard.reading': 'Leyendo archivo...',
+  'wizard.currentFile': 'Archivo actual:',
+  'wizard.previewSummary': '{count} columnas detectadas · separador «{delimiter}» · codificación {encoding}',
+  'wizard.tab': 'tab',
+  'wizard.noRows': 'El archivo no tiene filas de datos',
+  'wizard.templateApplied': 'Se aplicó la plantilla «{name}». Revisa el mapeo antes de continuar.',
+  'wizard.manageTemplates': 'Administrar plantillas',
+  'wizard.willSend': 'Se enviará',
+  'wizard.withMappedColumns': 'con {count} columnas mapeadas.',
+  'wizard.fileNotKept':
+    'Tu mapeo se recuperó, pero el navegador no conserva el archivo al recargar. Selecciona el mismo archivo para continuar.',
+  'wizard.sendProgress': 'Progreso de envío',
+  'wizard.sentOfTotal': '{sent} de {total}',
+  'wizard.preparing': 'Preparando envío...',
+  'wizard.pause': 'Pausar',
+  'wizard.sent': '¡Archivo enviado!',
+  'wizard.processingFile': '{name} se está procesando',
+  'wizard.uploadAnother': 'Subir otro archivo',
+  'wizard.viewDetail': 'Ver detalle',
+  'wizard.goToDashboard': 'Ir al panel',
+  'wizard.review.mapped': 'Columnas mapeadas ({count})',
+  'wizard.review.inferred': 'Columnas que se inferirán ({count})',
+  'wizard.review.notInferable': 'Columnas que no se pueden inferir',
+  'wizard.review.missingOptional': 'Columnas opcionales sin datos',
+
+  // Processing progress
+  'processing.region': 'Progreso de procesamiento',
+  'processing.stage.validating': 'Validando filas',
+  'processing.stage.inferring': 'Infiriendo columnas',
+  'processing.stage.aggregating': 'Calculando agregados',
+  'processing.queued': 'En cola para procesarse...',
+  'processing.rows': '{processed} filas procesadas',
+  'processing.rowsOfTotal': '{processed} de {total} filas procesadas',
+  'processing.errorRowsOne': '{count} fila con errores',
+  'processing.errorRowsOther': '{count} filas con errores',
+  'processing.completed': 'Procesamiento completo',
+  'processing.failed': 'El procesamiento falló',
+  'processing.connection.connecting': 'Conectando...',
+  'processing.connection.live': 'En vivo',
+  'processing.connection.reconnecting': 'Reconectando...',
+  'processing.connection.polling': 'Actualizando periódicamente',
+
+  // Uploads
+  'uploads.status.pending': 'Pendiente',
+  'uploads.status.processing': 'Procesando',
+  'uploads.status.completed': 'Completada',
+  'uploads.status.failed': 'Fallida',
+  'uploads.allStatuses': 'Todos los estados',
+  'uploads.title': 'Historial de cargas',
+  'uploads.subtitle': 'Archivos subidos y su procesamiento',
+  'uploads.uploadLink': 'Subir datos',
+  'uploads.search': 'Buscar por nombre de archivo',
+  'uploads.searchSubmit': 'Buscar',
+  'uploads.status': 'Estado',
+  'uploads.loading': 'Cargando historial...',
+  'uploads.noMatches': 'Ninguna carga coincide con los filtros.',
+  'uploads.empty': 'Aún no has subido archivos.',
+  'uploads.file': 'Archivo',
+  'uploads.date': 'Fecha',
+  'uploads.rows': 'Filas',
+  'uploads.template': 'Plantilla',
+  'uploads.rejected': 'Rechazadas',
+
+  // Upload detail
+  'uploadDetail.back': '← Historial de cargas',
+  'uploadDetail.notFound': 'La carga solicitada no existe.',
+  'uploadDetail.uploadedOn': 'Subido el {date}',
+  'uploadDetail.size': 'Tamaño',
+  'uploadDetail.download': 'Descargar filas rechazadas',
+  'uploadDetail.rejectedFileName': '{name}-rechazadas.csv',
+  'uploadDetail.reprocessWithMapping': 'Reprocesar con otro mapeo',
+  'uploadDetail.delete': 'Eliminar datos',
+  'uploadDetail.deleteWarning': 'Se eliminará la carga y todas las ventas importadas desde este archivo.',
+  'uploadDetail.editMapping': 'Editar mapeo',
+  'uploadDetail.editMappingSubtitle': 'El archivo se procesará de nuevo con este mapeo',
+  'uploadDetail.reprocess': 'Reprocesar',
+  'uploadDetail.rejectedTitle': 'Filas rechazadas',
+  'uploadDetail.rejectedSubtitle': 'Motivo por el que cada fila no se cargó',
+  'uploadDetail.row': 'Fila',
+  'uploadDetail.column': 'Columna',
+  'uploadDetail.value': 'Valor',
+  'uploadDetail.reason': 'Motivo',
+  'uploadDetail.rejectedPagination': 'Paginación de filas rechazadas',
+
+  // Mapping templates
+  'templates.title': 'Plantillas de mapeo',
+  'templates.subtitle': 'Mapeos guardados que se aplican automáticamente al subir el mismo formato de archivo',
+  'templates.loading': 'Cargando plantillas...',
+  'templates.empty': 'Aún no tienes plantillas. Guarda una desde el paso «Columnas» al',
+  'templates.emptyLink': 'subir datos',
+  'templates.summary': '{mapped} de {total} columnas mapeadas · actualizada {date}',
+  'templates.edit': 'Editar',
+  'templates.editLabel': 'Editar {name}',
+  'templates.delete': 'Eliminar',
+  'templates.deleteLabel': 'Eliminar {name}',
+  'templates.back': 'Volver a subir datos',
+  'templates.name': 'Nombre de la plantilla',
+  'templates.nameRequired': 'Ingresa un nombre para la plantilla',
+  'templates.saveChanges': 'Guardar cambios',
+  'templates.saveAs': 'Guardar como plantilla',
+  'templates.savePlaceholder': 'Ej: "Bsale export"',
+  'templates.saved': 'Plantilla «{name}» guardada',
+  'templates.save': 'Guardar plantilla',
+
+  // System column descriptions
+  'column.in_dt': 'Fecha y hora de la transacción',
+  'column.in_trans_id': 'Identificador único de la transacción',
+  'column.in_product_id': 'Identificador del producto',
+  'column.in_quantity': 'Cantidad de unidades en la transacción',
+  'column.in_price_total': 'Precio total/ingreso de la transacción',
+  'column.in_trans_type': 'Tipo de transacción (venta, devolución, etc.)',
+  'column.in_customer_id': 'Identificador del cliente',
+  'column.in_description': 'Descripción del producto',
+  'column.in_category': 'Categoría del producto',
+  'column.in_unit_type': 'Unidad de medida (kg, unidad, litro, etc.)',
+  'column.in_stock': 'Nivel de stock actual',
+  'column.in_cost_unit': 'Costo unitario (se puede inferir de costo total/cantidad)',
+  'column.in_cost_total': 'Costo total (se puede inferir de costo unitario × cantidad)',
+  'column.in_price_unit': 'Precio unitario (se puede inferir de precio total/cantidad)',
+  'column.in_discount_total': 'Monto total de descuento (se puede inferir)',
+  'column.in_commission_total': 'Monto total de comisión (se puede inferir)',
+  'column.in_margin': 'Margen de ganancia (se puede inferir de precio y costo)',
+};
+
+export type MessageKey = keyof typeof es;
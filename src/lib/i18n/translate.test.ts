@@ -0,0 +1,42 @@
+/**
+ * Test Suite for Translation
+ * Covers message lookup, placeholders and catalog completeness
+ */
+import { describe, it, expect } from 'vitest';
+import { createTranslator, isLocale, translate, type MessageKey } from './translate';
+import { es } from './messages/es';
+import { en } from './messages/en';
+
+const placeholdersOf = (message: string) => (message.match(/\{\w+\}/g) ?? []).sort();
+
+describe('Translation', () => {
+  it('should look up a message in the requested locale', () => {
+    expect(translate('es', 'login.title')).toBe('Iniciar Sesión');
+    expect(translate('en', 'login.title')).toBe('Sign In');
+  });
+
+  it('should fill placeholders from params', () => {
+    const t = createTranslator('es');
+
+    expect(t('columnMapping.announceReplaced', { csvColumn: 'fecha', column: 'in_dt', previous: 'dia' }))
+      .toBe('fecha mapeada a in_dt, en lugar de dia');
+    expect(t('checkEmail.resendIn', { seconds: 42 })).toBe('Reenviar en 42 s');
+  });
+
+  it('should leave placeholders without a param visible', () => {
+    expect(translate('en', 'columnMapping.mapTo', { csvColumn: 'date' })).toBe('Map date to {column}');
+  });
+
+  it('should recognize only supported locales', () => {
+    expect(isLocale('es')).toBe(true);
+    expect(isLocale('en')).toBe(true);
+    expect(isLocale('pt')).toBe(false);
+    expect(isLocale(null)).toBe(false);
+  });
+
+  it('should use the same placeholders in every catalog', () => {
+    for (const key of Object.keys(es) as MessageKey[]) {
+      expect(placeholdersOf(en[key]), key).toEqual(placeholdersOf(es[key]));
+    }
+  });
+});
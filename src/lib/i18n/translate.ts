@@ -0,0 +1,56 @@
+/**
+ * Translation
+ * Locales, message lookup and placeholder interpolation
+ */
+
+import { es, type MessageKey } from './messages/es';
+import { en } from './messages/en';
+
+export type { MessageKey };
+
+export const LOCALES = ['es', 'en'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'es';
+
+/** Each language in its own words, for the language switcher */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  es: 'Español',
+  en: 'English',
+};
+
+/** Regional format of numbers, amounts and dates in each language */
+export const FORMAT_LOCALES: Record<Locale, string> = {
+  es: 'es-CL',
+  en: 'en-US',
+};
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { es, en };
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Look up a message and fill its `{name}` placeholders. Placeholders with
+ * no matching param are left as they are, so a missing value is visible.
+ */
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams): string {
+  const template = CATALOGS[locale][key] ?? CATALOGS[DEFAULT_LOCALE][key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * A `t` function bound to one locale
+ */
+export function createTranslator(locale: Locale): Translate {
+  return (key, params) => translate(locale, key, params);
+}
@@ -0,0 +1,47 @@
+/**
+ * Test Suite for the Zod Error Map
+ * Covers default validation messages in each locale
+ */
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { createZodErrorMap } from './zodErrorMap';
+
+const schema = z.object({
+  email: z.string().email(),
+  name: z.string().min(1).max(5),
+  code: z.string().min(3).regex(/^\d+$/),
+});
+
+const messagesFor = (locale: 'es' | 'en', data: unknown) => {
+  const result = schema.safeParse(data, { errorMap: createZodErrorMap(locale) });
+  return result.success ? {} : result.error.flatten().fieldErrors;
+};
+
+describe('Zod Error Map', () => {
+  it('should word default messages in Spanish', () => {
+    expect(messagesFor('es', { email: 'ana', name: '', code: 'ab' })).toEqual({
+      email: ['Formato de correo electrónico inválido'],
+      name: ['Este campo es requerido'],
+      code: ['Debe tener al menos 3 caracteres', 'Valor inválido'],
+    });
+  });
+
+  it('should word default messages in English', () => {
+    expect(messagesFor('en', { email: 'ana', name: 'demasiado', code: '123' })).toEqual({
+      email: ['Invalid email format'],
+      name: ['Cannot exceed 5 characters'],
+    });
+  });
+
+  it('should report missing fields as required', () => {
+    expect(messagesFor('es', {}).email).toEqual(['Este campo es requerido']);
+  });
+
+  it('should keep messages written in the schema', () => {
+    const result = z.string().min(1, 'Mensaje propio').safeParse('', {
+      errorMap: createZodErrorMap('en'),
+    });
+
+    expect(result.success ? null : result.error.issues[0].message).toBe('Mensaje propio');
+  });
+});
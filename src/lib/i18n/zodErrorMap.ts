@@ -0,0 +1,39 @@
+/**
+ * Zod Error Map
+ * Default validation messages in the interface language, for schema
+ * checks that do not word their own message
+ */
+
+import { z } from 'zod';
+import { createTranslator, type Locale } from './translate';
+
+export function createZodErrorMap(locale: Locale): z.ZodErrorMap {
+  const t = createTranslator(locale);
+
+  return (issue, ctx) => {
+    switch (issue.code) {
+      case z.ZodIssueCode.invalid_type:
+        if (issue.received === z.ZodParsedType.undefined) {
+          return { message: t('validation.required') };
+        }
+        break;
+      case z.ZodIssueCode.too_small:
+        if (issue.type === 'string') {
+          return {
+            message: issue.minimum === 1
+              ? t('validation.required')
+              : t('validation.tooShort', { minimum: Number(issue.minimum) }),
+          };
+        }
+        break;
+      case z.ZodIssueCode.too_big:
+        if (issue.type === 'string') {
+          return { message: t('validation.tooLong', { maximum: Number(issue.maximum) }) };
+        }
+        break;
+      case z.ZodIssueCode.invalid_string:
+        return { message: issue.validation === 'email' ? t('validation.email') : t('validation.invalid') };
+    }
+    return { message: ctx.defaultError };
+  };
+}
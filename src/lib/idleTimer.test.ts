@@ -0,0 +1,96 @@
+/**
+ * Test Suite for the Idle Timer
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SHARED_ACTIVITY_KEY, watchForIdle } from './idleTimer';
+
+const MINUTE = 60 * 1000;
+
+describe('watchForIdle', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should call onIdle after the timeout without activity', () => {
+    const onIdle = vi.fn();
+    watchForIdle({ timeoutMs: 30 * MINUTE, onIdle });
+
+    vi.advanceTimersByTime(30 * MINUTE - 1);
+    expect(onIdle).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it('should restart the countdown on user activity', () => {
+    const onIdle = vi.fn();
+    watchForIdle({ timeoutMs: 30 * MINUTE, onIdle });
+
+    vi.advanceTimersByTime(20 * MINUTE);
+    window.dispatchEvent(new Event('keydown'));
+    vi.advanceTimersByTime(20 * MINUTE);
+    expect(onIdle).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(10 * MINUTE);
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only fire once', () => {
+    const onIdle = vi.fn();
+    watchForIdle({ timeoutMs: MINUTE, onIdle });
+
+    vi.advanceTimersByTime(10 * MINUTE);
+    document.dispatchEvent(new Event('visibilitychange'));
+
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it('should check elapsed time when the tab becomes visible again', () => {
+    const onIdle = vi.fn();
+    watchForIdle({ timeoutMs: MINUTE, onIdle });
+
+    // Simulate a throttled background timer: the clock moves but the timer has not run
+    vi.setSystemTime(Date.now() + 2 * MINUTE);
+    document.dispatchEvent(new Event('visibilitychange'));
+
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share this tab\'s activity with the other tabs', () => {
+    watchForIdle({ timeoutMs: 30 * MINUTE, onIdle: vi.fn() });
+
+    vi.advanceTimersByTime(10 * MINUTE);
+    window.dispatchEvent(new Event('pointerdown'));
+
+    expect(Number(localStorage.getItem(SHARED_ACTIVITY_KEY))).toBe(Date.now());
+  });
+
+  it('should only go idle once every tab has been idle', () => {
+    const onIdle = vi.fn();
+    watchForIdle({ timeoutMs: 30 * MINUTE, onIdle });
+
+    // The user keeps working in a second tab while this one sits in the background
+    vi.advanceTimersByTime(20 * MINUTE);
+    localStorage.setItem(SHARED_ACTIVITY_KEY, String(Date.now()));
+    vi.advanceTimersByTime(20 * MINUTE);
+    expect(onIdle).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(10 * MINUTE);
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop watching when stopped', () => {
+    const onIdle = vi.fn();
+    const stop = watchForIdle({ timeoutMs: MINUTE, onIdle });
+
+    stop();
+    vi.advanceTimersByTime(10 * MINUTE);
+
+    expect(onIdle).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Idle Timer
+ * Detects when the user has stopped interacting with every open AYNI tab
+ */
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart', 'scroll'] as const;
+
+/** Time of the latest activity in any tab, shared through localStorage */
+export const SHARED_ACTIVITY_KEY = 'ayni_last_activity';
+
+// Pointer moves fire constantly; storing the time this often is enough
+const SHARED_ACTIVITY_INTERVAL_MS = 5000;
+
+function readSharedActivity(): number {
+  try {
+    return Number(localStorage.getItem(SHARED_ACTIVITY_KEY)) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+function writeSharedActivity(time: number): void {
+  try {
+    localStorage.setItem(SHARED_ACTIVITY_KEY, String(time));
+  } catch {
+    // Without storage each tab only counts its own activity
+  }
+}
+
+export interface IdleTimerOptions {
+  timeoutMs: number;
+  onIdle: () => void;
+}
+
+/**
+ * Call `onIdle` once after `timeoutMs` without pointer, keyboard or scroll
+ * activity in this or any other tab. Returns a function that stops watching.
+ *
+ * Activity only records a timestamp; the timer checks it when it fires, and
+ * again when the tab becomes visible since background timers are throttled.
+ */
+export function watchForIdle({ timeoutMs, onIdle }: IdleTimerOptions): () => void {
+  let lastActivity = Date.now();
+  let lastShared = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const recordActivity = () => {
+    lastActivity = Date.now();
+    if (lastActivity - lastShared >= SHARED_ACTIVITY_INTERVAL_MS) {
+      lastShared = lastActivity;
+      writeSharedActivity(lastActivity);
+    }
+  };
+
+  const check = () => {
+    if (stopped) return;
+    const latest = Math.max(lastActivity, readSharedActivity());
+    const remaining = latest + timeoutMs - Date.now();
+    if (remaining <= 0) {
+      stop();
+      onIdle();
+      return;
+    }
+    clearTimeout(timer);
+    timer = setTimeout(check, remaining);
+  };
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'visible') check();
+  };
+
+  function stop() {
+    stopped = true;
+    clearTimeout(timer);
+    ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, recordActivity));
+    document.removeEventListener('visibilitychange', onVisibilityChange);
+  }
+
+  ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, recordActivity, { passive: true }));
+  document.addEventListener('visibilitychange', onVisibilityChange);
+  recordActivity();
+  timer = setTimeout(check, timeoutMs);
+
+  return stop;
+}
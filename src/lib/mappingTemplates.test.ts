@@ -0,0 +1,85 @@
+/**
+ * Test Suite for Mapping Template Helpers
+ */
+import { describe, it, expect } from 'vitest';
+import { applyTemplate, findTemplateForHeaders, getHeaderFingerprint } from './mappingTemplates';
+import type { MappingTemplate } from '@/types/mappingTemplate';
+
+const makeTemplate = (overrides: Partial<MappingTemplate> = {}): MappingTemplate => ({
+  id: 't1',
+  name: 'Bsale export',
+  fingerprint: getHeaderFingerprint(['Fecha', 'Cantidad']),
+  headers: ['Fecha', 'Cantidad'],
+  mappings: [
+    { csvColumn: 'Fecha', systemColumn: 'in_dt', format: { date: '%d-%m-%Y' } },
+    { csvColumn: 'Cantidad', systemColumn: 'in_quantity' },
+  ],
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('Mapping Templates - Fingerprint', () => {
+  it('valid: is stable for the same header set', () => {
+    expect(getHeaderFingerprint(['a', 'b'])).toBe(getHeaderFingerprint(['a', 'b']));
+    expect(getHeaderFingerprint(['a', 'b'])).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  it('functional: ignores order, case and surrounding whitespace', () => {
+    expect(getHeaderFingerprint(['Fecha', 'Cantidad'])).toBe(getHeaderFingerprint([' cantidad ', 'FECHA']));
+  });
+
+  it('functional: changes when a column is added or renamed', () => {
+    const base = getHeaderFingerprint(['fecha', 'cantidad']);
+    expect(getHeaderFingerprint(['fecha', 'cantidad', 'total'])).not.toBe(base);
+    expect(getHeaderFingerprint(['fecha', 'cant'])).not.toBe(base);
+  });
+
+  it('edge: does not confuse joined header names', () => {
+    expect(getHeaderFingerprint(['ab', 'c'])).not.toBe(getHeaderFingerprint(['a', 'bc']));
+  });
+});
+
+describe('Mapping Templates - Matching', () => {
+  it('functional: finds the template for a re-ordered export', () => {
+    const template = makeTemplate();
+    expect(findTemplateForHeaders([template], ['cantidad', 'fecha'])).toBe(template);
+  });
+
+  it('functional: prefers the most recently updated template', () => {
+    const older = makeTemplate({ id: 'old' });
+    const newer = makeTemplate({ id: 'new', updated_at: '2024-06-01T00:00:00Z' });
+    expect(findTemplateForHeaders([older, newer], ['Fecha', 'Cantidad'])?.id).toBe('new');
+  });
+
+  it('edge: returns null when nothing matches', () => {
+    expect(findTemplateForHeaders([makeTemplate()], ['otra'])).toBeNull();
+    expect(findTemplateForHeaders([], ['Fecha'])).toBeNull();
+  });
+});
+
+describe('Mapping Templates - Apply', () => {
+  it('functional: re-keys mappings onto the new header names and keeps formats', () => {
+    expect(applyTemplate(makeTemplate(), ['CANTIDAD', 'fecha'])).toEqual([
+      { csvColumn: 'CANTIDAD', systemColumn: 'in_quantity' },
+      { csvColumn: 'fecha', systemColumn: 'in_dt', format: { date: '%d-%m-%Y' } },
+    ]);
+  });
+
+  it('edge: leaves unknown headers unmapped', () => {
+    expect(applyTemplate(makeTemplate(), ['Fecha', 'Extra'])[1]).toEqual({
+      csvColumn: 'Extra',
+      systemColumn: null,
+    });
+  });
+
+  it('security: handles prototype-like header names', () => {
+    const template = makeTemplate({
+      mappings: [{ csvColumn: '__proto__', systemColumn: 'in_description' }],
+    });
+    expect(applyTemplate(template, ['__proto__', 'constructor'])).toEqual([
+      { csvColumn: '__proto__', systemColumn: 'in_description' },
+      { csvColumn: 'constructor', systemColumn: null },
+    ]);
+  });
+});
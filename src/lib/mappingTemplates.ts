@@ -0,0 +1,60 @@
+/**
+ * Mapping Template Helpers
+ * Header fingerprints and applying saved templates to a new upload
+ */
+
+import type { ColumnMapping } from '@/types/columnSchema';
+import type { MappingTemplate } from '@/types/mappingTemplate';
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase();
+}
+
+/**
+ * Fingerprint of a header set. Column order, case and surrounding
+ * whitespace are ignored, so re-ordered exports still match.
+ */
+export function getHeaderFingerprint(headers: string[]): string {
+  const key = [...new Set(headers.map(normalizeHeader))].sort().join('\u001f');
+
+  // 32-bit FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/**
+ * Find the template saved for this header set, preferring the most recently updated
+ */
+export function findTemplateForHeaders(
+  templates: MappingTemplate[],
+  headers: string[]
+): MappingTemplate | null {
+  const fingerprint = getHeaderFingerprint(headers);
+  const matches = templates
+    .filter(template => template.fingerprint === fingerprint)
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+  return matches[0] ?? null;
+}
+
+/**
+ * Re-key a template's mappings onto the actual header names of a new upload
+ */
+export function applyTemplate(template: MappingTemplate, headers: string[]): ColumnMapping[] {
+  const byHeader = new Map(
+    template.mappings.map(mapping => [normalizeHeader(mapping.csvColumn), mapping])
+  );
+
+  return headers.map(csvColumn => {
+    const saved = byHeader.get(normalizeHeader(csvColumn));
+    if (!saved || saved.systemColumn === null) {
+      return { csvColumn, systemColumn: null };
+    }
+    return saved.format
+      ? { csvColumn, systemColumn: saved.systemColumn, format: saved.format }
+      : { csvColumn, systemColumn: saved.systemColumn };
+  });
+}
@@ -0,0 +1,32 @@
+/**
+ * Password Rules
+ * The password policy shared by every form that sets a new password
+ */
+
+import { z } from 'zod';
+import type { MessageKey, Translate } from '@/lib/i18n';
+
+/** The policy as shown to the user, in the order it is checked */
+export const PASSWORD_REQUIREMENTS: readonly MessageKey[] = [
+  'password.ruleLength',
+  'password.ruleUppercase',
+  'password.ruleLowercase',
+  'password.ruleDigit',
+];
+
+/**
+ * Zod schema for a new password. `requiredMessage` lets each form word the
+ * empty-field error for its own label.
+ */
+export function newPasswordSchema(
+  t: Translate,
+  requiredMessage: MessageKey = 'validation.passwordRequired'
+) {
+  return z
+    .string()
+    .min(1, t(requiredMessage))
+    .min(8, t('validation.passwordTooShort', { minimum: 8 }))
+    .regex(/[A-Z]/, t('validation.passwordUppercase'))
+    .regex(/[a-z]/, t('validation.passwordLowercase'))
+    .regex(/[0-9]/, t('validation.passwordDigit'));
+}
@@ -0,0 +1,270 @@
+/**
+ * Test Suite for Processing Status Subscription
+ * Uses a fake WebSocket and fake timers to drive reconnects and polling
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { subscribeToProcessing, type ProcessingConnection } from './processingStatus';
+import { getUploadStatus } from '@/lib/api/uploads';
+import { getValidAccessToken } from '@/lib/api/tokenManager';
+import type { UploadProcessingStatus } from '@/types/upload';
+
+vi.mock('@/lib/api/uploads', () => ({
+  getUploadStatus: vi.fn(),
+}));
+
+vi.mock('@/lib/api/tokenManager', () => ({
+  getValidAccessToken: vi.fn(async () => 'access-token'),
+}));
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+  url: string;
+  sent: string[] = [];
+  closed = false;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  // Test helpers
+  open() {
+    this.onopen?.();
+  }
+
+  receive(data: unknown) {
+    this.onmessage?.({ data: typeof data === 'string' ? data : JSON.stringify(data) });
+  }
+
+  drop() {
+    this.onclose?.();
+  }
+}
+
+const latest = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+const status = (overrides: Partial<UploadProcessingStatus> = {}): UploadProcessingStatus => ({
+  upload_id: 7,
+  stage: 'validating',
+  rows_processed: 100,
+  rows_total: 500,
+  error_rows: 2,
+  ...overrides,
+});
+
+describe('Processing Status Subscription', () => {
+  let onStatus: ReturnType<typeof vi.fn>;
+  let connections: ProcessingConnection[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    onStatus = vi.fn();
+    connections = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  const subscribe = (options = {}) =>
+    subscribeToProcessing(7, {
+      onStatus,
+      onConnectionChange: c => connections.push(c),
+      reconnectDelayMs: 100,
+      maxReconnectAttempts: 3,
+      pollIntervalMs: 1000,
+      ...options,
+    });
+
+  describe('Valid - Streaming', () => {
+    it('should connect to the upload channel and authenticate with the access token', async () => {
+      subscribe();
+      latest().open();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(getValidAccessToken).toHaveBeenCalled();
+      expect(latest().url).toMatch(/\/uploads\/7\/$/);
+      expect(latest().url).not.toContain('access-token');
+      expect(JSON.parse(latest().sent[0])).toEqual({ type: 'auth', token: 'access-token' });
+      expect(connections).toEqual(['connecting', 'live']);
+    });
+
+    it('should stream stage updates and error counts', () => {
+      subscribe();
+      latest().open();
+      latest().receive({ type: 'status', ...status() });
+      latest().receive({ type: 'status', ...status({ stage: 'inferring', error_rows: 5 }) });
+
+      expect(onStatus).toHaveBeenCalledTimes(2);
+      expect(onStatus).toHaveBeenLastCalledWith(expect.objectContaining({ stage: 'inferring', error_rows: 5 }));
+    });
+
+    it('should close once processing reaches a terminal stage', () => {
+      subscribe();
+      latest().open();
+      latest().receive({ type: 'status', ...status({ stage: 'completed' }) });
+
+      expect(latest().closed).toBe(true);
+      expect(connections[connections.length - 1]).toBe('closed');
+    });
+  });
+
+  describe('Invalid - Messages', () => {
+    it('should ignore malformed or unknown messages', () => {
+      subscribe();
+      latest().open();
+      latest().receive('not json');
+      latest().receive({ type: 'ping' });
+      latest().receive({ type: 'status', ...status(), stage: 'exploding' });
+
+      expect(onStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Functional - Reconnect', () => {
+    it('should reconnect with exponential backoff', () => {
+      subscribe({ maxReconnectAttempts: 5 });
+
+      latest().drop();
+      vi.advanceTimersByTime(99);
+      expect(FakeWebSocket.instances).toHaveLength(1);
+      vi.advanceTimersByTime(1);
+      expect(FakeWebSocket.instances).toHaveLength(2);
+
+      latest().drop();
+      vi.advanceTimersByTime(199);
+      expect(FakeWebSocket.instances).toHaveLength(2);
+      vi.advanceTimersByTime(1);
+      expect(FakeWebSocket.instances).toHaveLength(3);
+      expect(connections).toContain('reconnecting');
+    });
+
+    it('should reset the backoff once a status arrives', () => {
+      subscribe();
+      latest().drop();
+      vi.advanceTimersByTime(100);
+      latest().open();
+      latest().receive({ type: 'status', ...status() });
+      latest().drop();
+
+      vi.advanceTimersByTime(100);
+      expect(FakeWebSocket.instances).toHaveLength(3);
+    });
+
+    it('should reset the backoff after the socket stayed open long enough', () => {
+      subscribe({ stableConnectionMs: 5000 });
+      latest().drop();
+      vi.advanceTimersByTime(100);
+      latest().open();
+      vi.advanceTimersByTime(5000);
+      latest().drop();
+
+      vi.advanceTimersByTime(100);
+      expect(FakeWebSocket.instances).toHaveLength(3);
+    });
+
+    it('should keep backing off when the socket closes right after opening', () => {
+      subscribe();
+      latest().open();
+      latest().drop();
+      vi.advanceTimersByTime(100);
+      latest().open();
+      latest().drop();
+
+      vi.advanceTimersByTime(199);
+      expect(FakeWebSocket.instances).toHaveLength(2);
+      vi.advanceTimersByTime(1);
+      latest().open();
+      latest().drop();
+
+      expect(connections[connections.length - 1]).toBe('polling');
+      expect(FakeWebSocket.instances).toHaveLength(3);
+    });
+  });
+
+  describe('Error Handling - Polling Fallback', () => {
+    it('should fall back to HTTP polling when the socket cannot connect', async () => {
+      vi.mocked(getUploadStatus)
+        .mockResolvedValueOnce(status())
+        .mockResolvedValueOnce(status({ stage: 'completed' }));
+      subscribe();
+
+      latest().drop();
+      vi.advanceTimersByTime(100);
+      latest().drop();
+      vi.advanceTimersByTime(200);
+      latest().drop();
+
+      expect(connections[connections.length - 1]).toBe('polling');
+      await vi.advanceTimersByTimeAsync(0);
+      expect(onStatus).toHaveBeenCalledWith(expect.objectContaining({ stage: 'validating' }));
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(onStatus).toHaveBeenLastCalledWith(expect.objectContaining({ stage: 'completed' }));
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(getUploadStatus).toHaveBeenCalledTimes(2);
+      expect(FakeWebSocket.instances).toHaveLength(3);
+    });
+
+    it('should keep polling through transient HTTP errors', async () => {
+      vi.mocked(getUploadStatus)
+        .mockRejectedValueOnce(new Error('Network Error'))
+        .mockResolvedValueOnce(status());
+      subscribe({ maxReconnectAttempts: 1 });
+
+      latest().drop();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(onStatus).toHaveBeenCalledWith(expect.objectContaining({ stage: 'validating' }));
+    });
+
+    it('should poll when WebSocket is not available', async () => {
+      vi.stubGlobal('WebSocket', undefined);
+      vi.mocked(getUploadStatus).mockResolvedValue(status());
+      subscribe();
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(connections).toEqual(['polling']);
+      expect(getUploadStatus).toHaveBeenCalledWith(7, expect.any(AbortSignal));
+    });
+  });
+
+  describe('Edge Cases - Unsubscribe', () => {
+    it('should stop reconnecting and polling after unsubscribe', async () => {
+      const unsubscribe = subscribe();
+      latest().drop();
+      unsubscribe();
+
+      await vi.advanceTimersByTimeAsync(10000);
+      expect(FakeWebSocket.instances).toHaveLength(1);
+      expect(getUploadStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not report updates after unsubscribe', () => {
+      const unsubscribe = subscribe();
+      const socket = latest();
+      socket.open();
+      unsubscribe();
+      socket.receive({ type: 'status', ...status() });
+
+      expect(onStatus).not.toHaveBeenCalled();
+      expect(socket.closed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Processing Status
+ * Streams an upload's processing stages over WebSocket (VITE_WS_URL),
+ * reconnecting with backoff and falling back to HTTP polling
+ */
+
+import { getUploadStatus } from '@/lib/api/uploads';
+import { getValidAccessToken } from '@/lib/api/tokenManager';
+import type { ProcessingStage, UploadProcessingStatus } from '@/types/upload';
+
+const WS_URL = import.meta.env.VITE_WS_URL || 'ws://localhost:8000/ws';
+
+export type ProcessingConnection = 'connecting' | 'live' | 'reconnecting' | 'polling' | 'closed';
+
+export interface ProcessingSubscriptionOptions {
+  onStatus: (status: UploadProcessingStatus) => void;
+  onConnectionChange?: (connection: ProcessingConnection) => void;
+  /** Failed connection attempts in a row before switching to polling */
+  maxReconnectAttempts?: number;
+  /** First reconnect delay, doubled on each attempt up to maxReconnectDelayMs */
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  /** How long a socket must stay open, without any status, to count as connected */
+  stableConnectionMs?: number;
+  pollIntervalMs?: number;
+}
+
+export const PROCESSING_STAGES: ProcessingStage[] = [
+  'queued',
+  'validating',
+  'inferring',
+  'aggregating',
+  'completed',
+  'failed',
+];
+
+const TERMINAL_STAGES: ProcessingStage[] = ['completed', 'failed'];
+
+export function isTerminalStage(stage: ProcessingStage): boolean {
+  return TERMINAL_STAGES.includes(stage);
+}
+
+interface StatusMessage extends UploadProcessingStatus {
+  type: 'status';
+}
+
+function parseStatusMessage(data: unknown): UploadProcessingStatus | null {
+  if (typeof data !== 'string') return null;
+  try {
+    const message = JSON.parse(data) as Partial<StatusMessage>;
+    if (message.type !== 'status' || !PROCESSING_STAGES.includes(message.stage as ProcessingStage)) {
+      return null;
+    }
+    return {
+      upload_id: Number(message.upload_id),
+      stage: message.stage as ProcessingStage,
+      rows_processed: Number(message.rows_processed) || 0,
+      rows_total: typeof message.rows_total === 'number' ? message.rows_total : null,
+      error_rows: Number(message.error_rows) || 0,
+      message: typeof message.message === 'string' ? message.message : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Subscribe to the processing status of an upload. The socket authenticates
+ * with the current access token in its first message, so the token never
+ * ends up in URLs or server logs. A socket that closes before sending a
+ * status or staying open for a while counts as a failed attempt.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToProcessing(
+  uploadId: number,
+  {
+    onStatus,
+    onConnectionChange,
+    maxReconnectAttempts = 5,
+    reconnectDelayMs = 1000,
+    maxReconnectDelayMs = 30000,
+    stableConnectionMs = 10000,
+    pollIntervalMs = 3000,
+  }: ProcessingSubscriptionOptions
+): () => void {
+  let socket: WebSocket | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let pollController: AbortController | null = null;
+  let failedAttempts = 0;
+  let stopped = false;
+
+  const setConnection = (connection: ProcessingConnection) => {
+    if (!stopped) onConnectionChange?.(connection);
+  };
+
+  const stop = () => {
+    if (stopped) return;
+    onConnectionChange?.('closed');
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    pollController?.abort();
+    if (socket) {
+      socket.onclose = null;
+      socket.close();
+    }
+  };
+
+  const handleStatus = (status: UploadProcessingStatus) => {
+    if (stopped) return;
+    onStatus(status);
+    if (isTerminalStage(status.stage)) stop();
+  };
+
+  const poll = async () => {
+    pollController = new AbortController();
+    try {
+      handleStatus(await getUploadStatus(uploadId, pollController.signal));
+    } catch {
+      // Keep polling through transient errors
+    }
+    if (!stopped) timer = setTimeout(poll, pollIntervalMs);
+  };
+
+  const connect = () => {
+    if (stopped) return;
+    setConnection(failedAttempts === 0 ? 'connecting' : 'reconnecting');
+
+    let openedAt: number | null = null;
+    let receivedStatus = false;
+    const current = new WebSocket(`${WS_URL}/uploads/${uploadId}/`);
+    socket = current;
+
+    current.onopen = async () => {
+      openedAt = Date.now();
+      // Renew an expiring token first, or the server rejects the handshake
+      const token = await getValidAccessToken();
+      if (stopped || socket !== current) return;
+      current.send(JSON.stringify({ type: 'auth', token }));
+      setConnection('live');
+    };
+
+    current.onmessage = (event: MessageEvent) => {
+      const status = parseStatusMessage(event.data);
+      if (!status) return;
+      receivedStatus = true;
+      handleStatus(status);
+    };
+
+    current.onclose = () => {
+      socket = null;
+      if (stopped) return;
+      const wasStable = openedAt !== null && Date.now() - openedAt >= stableConnectionMs;
+      failedAttempts = receivedStatus || wasStable ? 0 : failedAttempts + 1;
+
+      if (failedAttempts >= maxReconnectAttempts) {
+        setConnection('polling');
+        poll();
+        return;
+      }
+
+      setConnection('reconnecting');
+      const delay = Math.min(reconnectDelayMs * 2 ** Math.max(failedAttempts - 1, 0), maxReconnectDelayMs);
+      timer = setTimeout(connect, delay);
+    };
+  };
+
+  if (typeof WebSocket === 'undefined') {
+    setConnection('polling');
+    poll();
+  } else {
+    connect();
+  }
+
+  return stop;
+}
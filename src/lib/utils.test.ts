@@ -2,7 +2,20 @@
  * Test Suite for Utility Functions
  */
 import { describe, it, expect } from 'vitest'
-import { cn, formatCurrency, formatDate } from './utils'
+import {
+  cn,
+  EMPTY_VALUE,
+  formatCompactCurrency,
+  formatCompactNumber,
+  formatCurrency,
+  formatDate,
+  formatDateTime,
+  formatFileSize,
+  formatPercent,
+  formatQuantity,
+  formatRelativeDate,
+  parseDate,
+} from './utils'
 
 describe('Utility Functions - Valid Tests', () => {
   it('valid: cn merges classes correctly', () => {
@@ -16,9 +29,82 @@ describe('Utility Functions - Valid Tests', () => {
     expect(result).toMatch(/1\.000\.000/)
   })
 
+  it('valid: formatCurrency rounds pesos to whole amounts', () => {
+    expect(formatCurrency(1234.56)).toBe('$1.235')
+  })
+
+  it('valid: formatCurrency formats UF with two decimals', () => {
+    expect(formatCurrency(1234.5, 'UF')).toBe('UF 1.234,50')
+  })
+
+  it('valid: formatCurrency formats US dollars', () => {
+    expect(formatCurrency(1234.5, 'USD')).toBe('US$1.234,50')
+  })
+
+  it('valid: formatCurrency follows the given locale', () => {
+    expect(formatCurrency(1234.5, 'USD', { locale: 'en-US' })).toBe('$1,234.50')
+    expect(formatCurrency(1234.5, 'UF', { locale: 'en-US' })).toBe('UF 1,234.50')
+  })
+
+  it('valid: formatCompactCurrency uses M for thousands and MM for millions', () => {
+    expect(formatCompactCurrency(1234567)).toBe('$1,2 MM')
+    expect(formatCompactCurrency(850000)).toBe('$850 M')
+    expect(formatCompactCurrency(1234567890)).toBe('$1.235 MM')
+    expect(formatCompactCurrency(950)).toBe('$950')
+  })
+
+  it('valid: formatCompactCurrency prefixes UF and US dollars', () => {
+    expect(formatCompactCurrency(12500, 'UF')).toBe('UF 12,5 M')
+    expect(formatCompactCurrency(2500000, 'USD')).toBe('US$2,5 MM')
+  })
+
+  it('valid: formatCompactNumber uses English abbreviations in English', () => {
+    expect(formatCompactNumber(1234567)).toBe('1,2 MM')
+    expect(formatCompactNumber(1234567, { locale: 'en-US' })).toBe('1.2 M')
+    expect(formatCompactNumber(2500000000, { locale: 'en-US' })).toBe('2.5 B')
+    expect(formatCompactNumber(4200, { locale: 'en-US' })).toBe('4.2 K')
+  })
+
+  it('valid: formatPercent formats ratios', () => {
+    expect(formatPercent(0.1234)).toBe('12,3%')
+    expect(formatPercent(0.5, { locale: 'en-US' })).toBe('50%')
+    expect(formatPercent(0.12345, { decimals: 2 })).toBe('12,35%')
+  })
+
+  it('valid: formatPercent can sign period-over-period changes', () => {
+    expect(formatPercent(0.05, { signed: true })).toBe('+5%')
+    expect(formatPercent(-0.05, { signed: true })).toBe('-5%')
+    expect(formatPercent(0, { signed: true })).toBe('0%')
+  })
+
+  it('valid: formatQuantity abbreviates known unit types', () => {
+    expect(formatQuantity(1.5, 'kilos')).toBe('1,5 kg')
+    expect(formatQuantity(3, 'Unidad')).toBe('3 un.')
+    expect(formatQuantity(2, 'LT')).toBe('2 L')
+    expect(formatQuantity(250, 'cc')).toBe('250 mL')
+  })
+
   it('valid: formatDate formats dates for Chilean locale', () => {
-    const result = formatDate(new Date('2024-01-15'))
-    expect(result).toBeTruthy()
+    const result = formatDate(new Date('2024-01-15T15:00:00Z'))
+    expect(result).toBe('15-01-2024')
+  })
+
+  it('valid: formatDateTime shows the time in Santiago', () => {
+    // UTC-3 in January (summer time), UTC-4 in July
+    expect(formatDateTime('2024-01-15T12:30:00Z')).toBe('15-01-2024, 09:30')
+    expect(formatDateTime('2024-07-15T12:30:00Z')).toBe('15-07-2024, 08:30')
+  })
+
+  it('valid: formatDateTime can name the time zone', () => {
+    expect(formatDateTime('2024-07-15T12:30:00Z', { showTimeZone: true })).toMatch(/^15-07-2024, 08:30 \S+/)
+  })
+
+  it('valid: formatRelativeDate describes the distance from now', () => {
+    const now = new Date('2024-03-10T12:00:00Z')
+    expect(formatRelativeDate('2024-03-07T12:00:00Z', { now })).toBe('hace 3 días')
+    expect(formatRelativeDate('2024-03-09T12:00:00Z', { now })).toBe('ayer')
+    expect(formatRelativeDate('2024-03-10T14:00:00Z', { now })).toBe('dentro de 2 horas')
+    expect(formatRelativeDate('2024-03-07T12:00:00Z', { now, locale: 'en-US' })).toBe('3 days ago')
   })
 })
 
@@ -39,10 +125,70 @@ describe('Utility Functions - Edge Cases', () => {
     expect(result).toMatch(/-1\.000/)
   })
 
+  it('edge: formatCompactNumber moves to the next scale when rounding reaches it', () => {
+    expect(formatCompactNumber(999.6)).toBe('1 M')
+    expect(formatCompactNumber(999_950)).toBe('1 MM')
+    expect(formatCompactNumber(999_499)).toBe('999 M')
+    expect(formatCompactNumber(999.6, { locale: 'en-US' })).toBe('1 K')
+    expect(formatCompactNumber(999_950, { locale: 'en-US' })).toBe('1 M')
+    expect(formatCompactNumber(999_999_999, { locale: 'en-US' })).toBe('1 B')
+    expect(formatCompactCurrency(-999_950)).toBe('-$1 MM')
+  })
+
+  it('edge: formatCompactCurrency keeps the sign before the symbol', () => {
+    expect(formatCompactCurrency(-1234567)).toBe('-$1,2 MM')
+  })
+
+  it('edge: number formatters show a placeholder for non-finite values', () => {
+    expect(formatCurrency(NaN)).toBe(EMPTY_VALUE)
+    expect(formatCompactCurrency(Infinity)).toBe(EMPTY_VALUE)
+    expect(formatCompactNumber(NaN)).toBe(EMPTY_VALUE)
+    expect(formatPercent(NaN)).toBe(EMPTY_VALUE)
+    expect(formatQuantity(NaN, 'kg')).toBe(EMPTY_VALUE)
+  })
+
+  it('edge: formatQuantity keeps unknown units and omits missing ones', () => {
+    expect(formatQuantity(4, 'caja')).toBe('4 caja')
+    expect(formatQuantity(4, '  ')).toBe('4')
+    expect(formatQuantity(4, null)).toBe('4')
+    expect(formatQuantity(1234.5678)).toBe('1.234,568')
+  })
+
   it('edge: formatDate handles string input', () => {
     const result = formatDate('2024-01-15')
     expect(result).toBeTruthy()
   })
+
+  it('edge: formatDate keeps calendar dates on the day written', () => {
+    // UTC midnight is still the previous evening in Santiago
+    expect(formatDate('2024-01-15')).toBe('15-01-2024')
+    expect(formatDate('2024-01-15T02:00:00Z')).toBe('14-01-2024')
+  })
+
+  it('edge: date formatters never print "Invalid Date"', () => {
+    expect(formatDate('not a date')).toBe(EMPTY_VALUE)
+    expect(formatDate(new Date(NaN))).toBe(EMPTY_VALUE)
+    expect(formatDate(null)).toBe(EMPTY_VALUE)
+    expect(formatDateTime('')).toBe(EMPTY_VALUE)
+    expect(formatRelativeDate(undefined)).toBe(EMPTY_VALUE)
+  })
+
+  it('edge: parseDate returns null for unusable values', () => {
+    expect(parseDate('31/31/2024')).toBeNull()
+    expect(parseDate('')).toBeNull()
+    expect(parseDate(0)).toEqual(new Date(0))
+  })
+
+  it('edge: formatRelativeDate says "now" within a second', () => {
+    const now = new Date('2024-03-10T12:00:00Z')
+    expect(formatRelativeDate(now, { now })).toBe('ahora')
+  })
+
+  it('edge: formatFileSize switches units at 1024', () => {
+    expect(formatFileSize(1023)).toBe('1023 B')
+    expect(formatFileSize(1024)).toBe('1.0 KB')
+    expect(formatFileSize(5 * 1024 * 1024)).toBe('5.0 MB')
+  })
 })
 
 describe('Utility Functions - Performance', () => {
@@ -63,4 +209,13 @@ describe('Utility Functions - Performance', () => {
     const duration = performance.now() - start
     expect(duration).toBeLessThan(100)
   })
+
+  it('performance: formatDateTime executes quickly', () => {
+    const start = performance.now()
+    for (let i = 0; i < 1000; i++) {
+      formatDateTime('2024-01-15T12:30:00Z')
+    }
+    const duration = performance.now() - start
+    expect(duration).toBeLessThan(100)
+  })
 })
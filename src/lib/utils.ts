@@ -8,20 +8,309 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+/** Locale used when a formatter is not given one */
+export const DEFAULT_FORMAT_LOCALE = 'es-CL'
+
+/** Time zone dates and times are shown in, wherever the browser is */
+export const DEFAULT_TIME_ZONE = 'America/Santiago'
+
+/** Shown instead of a value that cannot be formatted */
+export const EMPTY_VALUE = '—'
+
+export type Currency = 'CLP' | 'UF' | 'USD'
+
+export interface FormatOptions {
+  /** BCP 47 locale, e.g. 'es-CL' or 'en-US' */
+  locale?: string
+}
+
+export interface DateFormatOptions extends FormatOptions {
+  timeZone?: string
+}
+
+const numberFormats = new Map<string, Intl.NumberFormat>()
+const dateTimeFormats = new Map<string, Intl.DateTimeFormat>()
+
+// Building an Intl formatter is far slower than using one, so they are cached
+function getNumberFormat(locale: string, options: Intl.NumberFormatOptions): Intl.NumberFormat {
+  const key = `${locale}|${JSON.stringify(options)}`
+  let format = numberFormats.get(key)
+  if (!format) {
+    format = new Intl.NumberFormat(locale, options)
+    numberFormats.set(key, format)
+  }
+  return format
+}
+
+function getDateTimeFormat(locale: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+  const key = `${locale}|${JSON.stringify(options)}`
+  let format = dateTimeFormats.get(key)
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale, options)
+    dateTimeFormats.set(key, format)
+  }
+  return format
+}
+
+/**
+ * Number of decimals each currency is shown with. UF amounts keep cents,
+ * since one UF is worth tens of thousands of pesos.
+ */
+const CURRENCY_DECIMALS: Record<Currency, number> = {
+  CLP: 0,
+  UF: 2,
+  USD: 2,
+}
+
 /**
- * Format currency for Chilean Pesos
+ * Format a currency amount: "$1.234.567" for CLP, "UF 1.234,56" or "US$1.234,56"
  */
-export function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat('es-CL', {
+export function formatCurrency(
+  amount: number,
+  currency: Currency = 'CLP',
+  { locale = DEFAULT_FORMAT_LOCALE }: FormatOptions = {}
+): string {
+  if (!Number.isFinite(amount)) return EMPTY_VALUE
+  const decimals = CURRENCY_DECIMALS[currency]
+
+  // Intl knows the UF as CLF but prints it with four decimals and no "UF"
+  if (currency === 'UF') {
+    const number = getNumberFormat(locale, {
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    })
+    return `UF ${number.format(amount)}`
+  }
+
+  return getNumberFormat(locale, {
     style: 'currency',
-    currency: 'CLP',
+    currency,
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
   }).format(amount)
 }
 
 /**
- * Format date for Chilean locale
+ * Abbreviations for large amounts. Chilean usage is M for thousands and
+ * MM for millions; English uses K, M and B.
+ */
+const COMPACT_SCALES: Record<string, [number, string][]> = {
+  es: [[1e6, 'MM'], [1e3, 'M']],
+  en: [[1e9, 'B'], [1e6, 'M'], [1e3, 'K']],
+}
+
+// One decimal while it still tells something: "1,2 MM" but "123 MM"
+const compactDecimals = (scaled: number, size: number) => (size > 1 && Math.abs(scaled) < 100 ? 1 : 0)
+
+function compact(value: number, locale: string): string {
+  // Largest first, ending with plain numbers
+  const scales: [number, string][] = [...(COMPACT_SCALES[locale.split('-')[0]] ?? COMPACT_SCALES.en), [1, '']]
+  let index = scales.findIndex(([size]) => Math.abs(value) >= size)
+  if (index === -1) index = scales.length - 1
+
+  // Rounding can reach the next scale: 999.950 is "1 MM", not "1.000 M"
+  while (index > 0) {
+    const size = scales[index][0]
+    const factor = 10 ** compactDecimals(value / size, size)
+    const shown = (Math.round((Math.abs(value) / size) * factor) / factor) * size
+    if (shown < scales[index - 1][0]) break
+    index--
+  }
+
+  const [size, suffix] = scales[index]
+  const scaled = value / size
+  const formatted = getNumberFormat(locale, { maximumFractionDigits: compactDecimals(scaled, size) }).format(scaled)
+  return suffix ? `${formatted} ${suffix}` : formatted
+}
+
+/**
+ * Short form of a number for dashboard cards, e.g. "1,2 MM"
+ */
+export function formatCompactNumber(
+  value: number,
+  { locale = DEFAULT_FORMAT_LOCALE }: FormatOptions = {}
+): string {
+  if (!Number.isFinite(value)) return EMPTY_VALUE
+  return compact(value, locale)
+}
+
+const CURRENCY_PREFIXES: Record<Currency, string> = {
+  CLP: '$',
+  UF: 'UF ',
+  USD: 'US$',
+}
+
+/**
+ * Short form of an amount for dashboard cards, e.g. "$1,2 MM" or "UF 350"
+ */
+export function formatCompactCurrency(
+  amount: number,
+  currency: Currency = 'CLP',
+  { locale = DEFAULT_FORMAT_LOCALE }: FormatOptions = {}
+): string {
+  if (!Number.isFinite(amount)) return EMPTY_VALUE
+  const sign = amount < 0 ? '-' : ''
+  return `${sign}${CURRENCY_PREFIXES[currency]}${compact(Math.abs(amount), locale)}`
+}
+
+export interface PercentFormatOptions extends FormatOptions {
+  /** Maximum decimals, 1 by default */
+  decimals?: number
+  /** Show "+" on increases, for period-over-period changes */
+  signed?: boolean
+}
+
+/**
+ * Format a ratio as a percentage: 0.123 → "12,3%"
+ */
+export function formatPercent(
+  ratio: number,
+  { locale = DEFAULT_FORMAT_LOCALE, decimals = 1, signed = false }: PercentFormatOptions = {}
+): string {
+  if (!Number.isFinite(ratio)) return EMPTY_VALUE
+  return getNumberFormat(locale, {
+    style: 'percent',
+    maximumFractionDigits: decimals,
+    signDisplay: signed ? 'exceptZero' : 'auto',
+  }).format(ratio)
+}
+
+/**
+ * Spellings of `in_unit_type` seen in uploads, by the abbreviation shown
+ */
+const UNIT_ALIASES: Record<string, string[]> = {
+  'un.': ['un', 'un.', 'u', 'und', 'unidad', 'unidades', 'unit', 'units', 'pcs', 'pieza', 'piezas'],
+  kg: ['kg', 'kgs', 'kilo', 'kilos', 'kilogramo', 'kilogramos'],
+  g: ['g', 'gr', 'grs', 'gramo', 'gramos'],
+  L: ['l', 'lt', 'lts', 'litro', 'litros', 'liter', 'liters'],
+  mL: ['ml', 'cc', 'mililitro', 'mililitros'],
+  m: ['m', 'mt', 'mts', 'metro', 'metros'],
+}
+
+const UNIT_LABELS = new Map(
+  Object.entries(UNIT_ALIASES).flatMap(([label, aliases]) =>
+    aliases.map((alias) => [alias, label] as const)
+  )
+)
+
+/**
+ * Format a quantity with its unit type: 1.5 "kilos" → "1,5 kg". Unknown
+ * units are shown as written; without one only the number is shown.
+ */
+export function formatQuantity(
+  quantity: number,
+  unitType?: string | null,
+  { locale = DEFAULT_FORMAT_LOCALE }: FormatOptions = {}
+): string {
+  if (!Number.isFinite(quantity)) return EMPTY_VALUE
+  const number = getNumberFormat(locale, { maximumFractionDigits: 3 }).format(quantity)
+  const unit = unitType?.trim()
+  if (!unit) return number
+  return `${number} ${UNIT_LABELS.get(unit.toLowerCase()) ?? unit}`
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Parse a date, returning null instead of an invalid Date
+ */
+export function parseDate(value: Date | string | number | null | undefined): Date | null {
+  if (value === null || value === undefined || value === '') return null
+  const date = value instanceof Date ? value : new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Format a date: "15-01-2024". Calendar dates such as "2024-01-15" are
+ * shown as written; timestamps in the Santiago time zone.
+ */
+export function formatDate(
+  date: Date | string | null | undefined,
+  { locale = DEFAULT_FORMAT_LOCALE, timeZone = DEFAULT_TIME_ZONE }: DateFormatOptions = {}
+): string {
+  const parsed = parseDate(date)
+  if (!parsed) return EMPTY_VALUE
+  // "2024-01-15" parses as UTC midnight, which is still the 14th in Chile
+  const zone = typeof date === 'string' && DATE_ONLY.test(date) ? 'UTC' : timeZone
+  return getDateTimeFormat(locale, {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    timeZone: zone,
+  }).format(parsed)
+}
+
+export interface DateTimeFormatOptions extends DateFormatOptions {
+  /** Append the zone abbreviation, e.g. "CLT" */
+  showTimeZone?: boolean
+}
+
+/**
+ * Format a date and 24-hour time in the Santiago time zone: "15-01-2024, 09:30"
+ */
+export function formatDateTime(
+  date: Date | string | null | undefined,
+  {
+    locale = DEFAULT_FORMAT_LOCALE,
+    timeZone = DEFAULT_TIME_ZONE,
+    showTimeZone = false,
+  }: DateTimeFormatOptions = {}
+): string {
+  const parsed = parseDate(date)
+  if (!parsed) return EMPTY_VALUE
+  return getDateTimeFormat(locale, {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone,
+    ...(showTimeZone && { timeZoneName: 'short' }),
+  }).format(parsed)
+}
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 60 * 60],
+  ['month', 30 * 24 * 60 * 60],
+  ['week', 7 * 24 * 60 * 60],
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60],
+  ['second', 1],
+]
+
+export interface RelativeDateFormatOptions extends FormatOptions {
+  /** The moment the date is relative to; now by default */
+  now?: Date
+}
+
+/**
+ * Format a date relative to now: "hace 3 días", "ayer", "dentro de 2 horas"
+ */
+export function formatRelativeDate(
+  date: Date | string | null | undefined,
+  { locale = DEFAULT_FORMAT_LOCALE, now = new Date() }: RelativeDateFormatOptions = {}
+): string {
+  const parsed = parseDate(date)
+  if (!parsed) return EMPTY_VALUE
+
+  const seconds = Math.round((parsed.getTime() - now.getTime()) / 1000)
+  const [unit, size] =
+    RELATIVE_UNITS.find(([, unitSeconds]) => Math.abs(seconds) >= unitSeconds) ??
+    RELATIVE_UNITS[RELATIVE_UNITS.length - 1]
+
+  return new Intl.RelativeTimeFormat(locale, { numeric: 'auto' }).format(
+    Math.round(seconds / size),
+    unit
+  )
+}
+
+/**
+ * Format a byte count as B, KB or MB
  */
-export function formatDate(date: Date | string): string {
-  const d = typeof date === 'string' ? new Date(date) : date
-  return new Intl.DateTimeFormat('es-CL').format(d)
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
 }
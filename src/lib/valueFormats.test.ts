@@ -0,0 +1,121 @@
+/**
+ * Test Suite for Value Formats
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  detectDateFormat,
+  detectNumberFormat,
+  detectValueFormat,
+  normalizeValue,
+  parseDate,
+  parseNumber,
+} from './valueFormats';
+
+describe('Value Formats - Number Parsing', () => {
+  it('valid: parses Chilean thousands and decimal separators', () => {
+    expect(parseNumber('1.234.567,89', 'es-CL')).toBe(1234567.89);
+    expect(parseNumber('12,5', 'es-CL')).toBe(12.5);
+    expect(parseNumber('12.990', 'es-CL')).toBe(12990);
+  });
+
+  it('valid: parses US separators', () => {
+    expect(parseNumber('1,234,567.89', 'en-US')).toBe(1234567.89);
+    expect(parseNumber('12.990', 'en-US')).toBe(12.99);
+  });
+
+  it('valid: strips currency markers and spaces', () => {
+    expect(parseNumber('$ 12.990', 'es-CL')).toBe(12990);
+    expect(parseNumber('CLP 1.500', 'es-CL')).toBe(1500);
+    expect(parseNumber('1 500 CLP', 'es-CL')).toBe(1500);
+    expect(parseNumber('US$ 1,299.50', 'en-US')).toBe(1299.5);
+  });
+
+  it('valid: handles negative amounts', () => {
+    expect(parseNumber('-$ 1.000', 'es-CL')).toBe(-1000);
+    expect(parseNumber('$ -1.000', 'es-CL')).toBe(-1000);
+    expect(parseNumber('(1.000)', 'es-CL')).toBe(-1000);
+    expect(parseNumber('1.000-', 'es-CL')).toBe(-1000);
+  });
+
+  it('invalid: rejects malformed grouping and text', () => {
+    expect(parseNumber('1.23.4', 'es-CL')).toBeNull();
+    expect(parseNumber('1,5', 'en-US')).toBeNull();
+    expect(parseNumber('N/A', 'es-CL')).toBeNull();
+    expect(parseNumber('', 'es-CL')).toBeNull();
+  });
+});
+
+describe('Value Formats - Date Parsing', () => {
+  it('valid: parses Chilean day-first dates', () => {
+    expect(parseDate('15-01-2024', '%d-%m-%Y')).toEqual(new Date(2024, 0, 15));
+    expect(parseDate('15/01/24', '%d/%m/%y')).toEqual(new Date(2024, 0, 15));
+  });
+
+  it('valid: parses ISO dates with time', () => {
+    expect(parseDate('2024-01-15 10:30:05', '%Y-%m-%d')).toEqual(new Date(2024, 0, 15, 10, 30, 5));
+  });
+
+  it('invalid: rejects impossible dates and mismatched formats', () => {
+    expect(parseDate('31-02-2024', '%d-%m-%Y')).toBeNull();
+    expect(parseDate('15-01-2024', '%d/%m/%Y')).toBeNull();
+    expect(parseDate('2024-01-15', '%d-%m-%Y')).toBeNull();
+    expect(parseDate('15-01-2024 24:00', '%d-%m-%Y')).toBeNull();
+  });
+
+  it('edge: accepts 29 February only in leap years', () => {
+    expect(parseDate('29/02/2024', '%d/%m/%Y')).not.toBeNull();
+    expect(parseDate('29/02/2023', '%d/%m/%Y')).toBeNull();
+  });
+});
+
+describe('Value Formats - Detection', () => {
+  it('functional: detects es-CL from decimal commas', () => {
+    expect(detectNumberFormat(['1.234,5', '99,90', '10'])).toBe('es-CL');
+  });
+
+  it('functional: detects en-US from decimal points', () => {
+    expect(detectNumberFormat(['1,234.5', '99.90', '10'])).toBe('en-US');
+  });
+
+  it('edge: defaults to es-CL for ambiguous thousands groups', () => {
+    expect(detectNumberFormat(['$ 12.990', '1.500'])).toBe('es-CL');
+    expect(detectNumberFormat([])).toBe('es-CL');
+  });
+
+  it('functional: detects day-first over month-first on ambiguous dates', () => {
+    expect(detectDateFormat(['01/02/2024', '03/04/2024'])).toBe('%d/%m/%Y');
+  });
+
+  it('functional: detects month-first when day-first cannot parse', () => {
+    expect(detectDateFormat(['01/31/2024', '02/28/2024'])).toBe('%m/%d/%Y');
+  });
+
+  it('functional: detects two-digit years', () => {
+    expect(detectDateFormat(['15-01-24', '16-01-24'])).toBe('%d-%m-%y');
+  });
+
+  it('edge: returns undefined when no format parses', () => {
+    expect(detectDateFormat(['ayer', 'hoy'])).toBeUndefined();
+  });
+});
+
+describe('Value Formats - Normalization by System Column', () => {
+  it('functional: picks the format kind from the column dtype', () => {
+    expect(detectValueFormat('in_quantity', ['1,5'])).toEqual({ number: 'es-CL' });
+    expect(detectValueFormat('in_dt', ['15/01/2024'])).toEqual({ date: '%d/%m/%Y' });
+    expect(detectValueFormat('in_product_id', ['SKU-1'])).toBeUndefined();
+  });
+
+  it('functional: normalizes values with the chosen format', () => {
+    expect(normalizeValue('in_price_total', '$ 12.990', { number: 'es-CL' })).toBe(12990);
+    expect(normalizeValue('in_price_total', '12.990', { number: 'en-US' })).toBe(12.99);
+    expect(normalizeValue('in_dt', '15-01-2024', { date: '%d-%m-%Y' })).toEqual(new Date(2024, 0, 15));
+    expect(normalizeValue('in_product_id', '  SKU-1 ')).toBe('SKU-1');
+  });
+
+  it('edge: normalizes empty and unparseable values to null', () => {
+    expect(normalizeValue('in_quantity', '  ')).toBeNull();
+    expect(normalizeValue('in_quantity', 'N/A')).toBeNull();
+    expect(normalizeValue('in_dt', '31-02-2024')).toBeNull();
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Value Formats
+ * Locale-aware detection and normalization of numbers and dates in CSV values,
+ * keyed by the SystemColumn they are mapped to
+ */
+
+import { COLUMN_SCHEMA, type SystemColumn } from '@/types/columnSchema';
+import type { ColumnValueFormat, DateFormatId, NumberFormatId } from '@/types/valueFormat';
+
+interface NumberFormatSpec {
+  label: string;
+  decimal: '.' | ',';
+  thousands: '.' | ',';
+}
+
+interface DateFormatSpec {
+  label: string;
+  order: 'YMD' | 'DMY' | 'MDY';
+  separator: '-' | '/' | '.';
+  shortYear: boolean;
+}
+
+export const NUMBER_FORMATS: Record<NumberFormatId, NumberFormatSpec> = {
+  'es-CL': { label: '1.234.567,89', decimal: ',', thousands: '.' },
+  'en-US': { label: '1,234,567.89', decimal: '.', thousands: ',' },
+};
+
+/** Listed in detection preference order: ISO first, then day-first (Chilean) */
+export const DATE_FORMATS: Record<DateFormatId, DateFormatSpec> = {
+  '%Y-%m-%d': { label: 'yyyy-mm-dd', order: 'YMD', separator: '-', shortYear: false },
+  '%d-%m-%Y': { label: 'dd-mm-yyyy', order: 'DMY', separator: '-', shortYear: false },
+  '%d/%m/%Y': { label: 'dd/mm/yyyy', order: 'DMY', separator: '/', shortYear: false },
+  '%d.%m.%Y': { label: 'dd.mm.yyyy', order: 'DMY', separator: '.', shortYear: false },
+  '%d-%m-%y': { label: 'dd-mm-yy', order: 'DMY', separator: '-', shortYear: true },
+  '%d/%m/%y': { label: 'dd/mm/yy', order: 'DMY', separator: '/', shortYear: true },
+  '%m/%d/%Y': { label: 'mm/dd/yyyy', order: 'MDY', separator: '/', shortYear: false },
+};
+
+export const NUMBER_FORMAT_IDS = Object.keys(NUMBER_FORMATS) as NumberFormatId[];
+export const DATE_FORMAT_IDS = Object.keys(DATE_FORMATS) as DateFormatId[];
+
+/** Chilean exports are the common case, so ambiguous values read as es-CL */
+const DEFAULT_NUMBER_FORMAT: NumberFormatId = 'es-CL';
+
+const CURRENCY_PREFIX = /^(?:US\$|CLP\$?|USD|UF|\$)\s*/i;
+const CURRENCY_SUFFIX = /\s*(?:CLP|USD|UF)$/i;
+const TIME_SUFFIX = /^(?:[ T](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const escapeRegExp = (char: string) => char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Strip sign, currency markers and whitespace, returning the bare digits
+ * and separators plus whether the amount is negative
+ */
+function stripNumber(raw: string): { body: string; negative: boolean } {
+  let body = raw.trim();
+  let negative = false;
+
+  if (/^\(.*\)$/.test(body)) {
+    negative = true;
+    body = body.slice(1, -1).trim();
+  }
+  if (body.startsWith('-')) {
+    negative = !negative;
+    body = body.slice(1).trim();
+  }
+  body = body.replace(CURRENCY_PREFIX, '').replace(CURRENCY_SUFFIX, '');
+  if (body.startsWith('-')) {
+    negative = !negative;
+    body = body.slice(1);
+  }
+  if (body.endsWith('-')) {
+    negative = !negative;
+    body = body.slice(0, -1);
+  }
+
+  // Spaces (including non-breaking) are sometimes used as thousands separators
+  body = body.replace(/[\s\u00a0\u202f]/g, '');
+  return { body, negative };
+}
+
+/**
+ * Parse a number written in the given format, e.g. "$ 12.990" or
+ * "1.234.567,89" in es-CL. Returns null if the value does not parse.
+ */
+export function parseNumber(raw: string, format: NumberFormatId): number | null {
+  const { body, negative } = stripNumber(raw);
+  if (body === '') return null;
+
+  const { decimal, thousands } = NUMBER_FORMATS[format];
+  const d = escapeRegExp(decimal);
+  const t = escapeRegExp(thousands);
+  const grouped = new RegExp(`^\\d{1,3}(?:${t}\\d{3})+(?:${d}\\d+)?$`);
+  const plain = new RegExp(`^(?:\\d+(?:${d}\\d*)?|${d}\\d+)(?:[eE][+-]?\\d+)?$`);
+
+  if (!grouped.test(body) && !plain.test(body)) return null;
+
+  const normalized = body.split(thousands).join('').replace(decimal, '.');
+  const value = Number(normalized);
+  if (!Number.isFinite(value)) return null;
+  return negative ? -value : value;
+}
+
+/**
+ * Days in a month, accounting for leap years
+ */
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Parse a date (with optional time) written in the given format.
+ * Two-digit years are read as 20yy. Returns null if the value does not parse.
+ */
+export function parseDate(raw: string, format: DateFormatId): Date | null {
+  const { order, separator, shortYear } = DATE_FORMATS[format];
+  const value = raw.trim();
+  const sep = escapeRegExp(separator);
+  const year = shortYear ? '(\\d{2})' : '(\\d{4})';
+  const part = '(\\d{1,2})';
+
+  const datePattern =
+    order === 'YMD' ? `${year}${sep}${part}${sep}${part}` :
+    `${part}${sep}${part}${sep}${year}`;
+
+  const match = new RegExp(`^${datePattern}`).exec(value);
+  if (!match) return null;
+
+  const time = TIME_SUFFIX.exec(value.slice(match[0].length));
+  if (!time) return null;
+
+  const [a, b, c] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const [y, m, d] =
+    order === 'YMD' ? [a, b, c] :
+    order === 'DMY' ? [c, b, a] :
+    [c, a, b];
+  const fullYear = shortYear ? 2000 + y : y;
+
+  if (m < 1 || m > 12 || d < 1 || d > daysInMonth(fullYear, m)) return null;
+
+  const [hours, minutes, seconds] = [Number(time[1] ?? 0), Number(time[2] ?? 0), Number(time[3] ?? 0)];
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+
+  return new Date(fullYear, m - 1, d, hours, minutes, seconds);
+}
+
+/**
+ * Detect the number format of a column from its sample values.
+ *
+ * Unambiguous values vote: "1.234,5" or "12,5" for es-CL, "1,234.5" or
+ * "12.5" for en-US. Values like "12.990" fit both and count for neither;
+ * when nothing decides, es-CL wins.
+ */
+export function detectNumberFormat(values: string[]): NumberFormatId {
+  const votes: Record<NumberFormatId, number> = { 'es-CL': 0, 'en-US': 0 };
+
+  for (const raw of values) {
+    const { body } = stripNumber(raw);
+    if (body === '') continue;
+
+    const candidates = NUMBER_FORMAT_IDS.filter(id => parseNumber(raw, id) !== null);
+    if (candidates.length === 1) {
+      votes[candidates[0]]++;
+    } else if (candidates.length === 2) {
+      const lastDot = body.lastIndexOf('.');
+      const lastComma = body.lastIndexOf(',');
+      // One separator followed by exactly three digits is a thousands group in either
+      // format, but a different count after a single separator marks it as decimal
+      const separatorAt = Math.max(lastDot, lastComma);
+      if (separatorAt >= 0 && body.length - separatorAt - 1 !== 3) {
+        votes[lastComma > lastDot ? 'es-CL' : 'en-US']++;
+      }
+    }
+  }
+
+  if (votes['en-US'] > votes['es-CL']) return 'en-US';
+  return DEFAULT_NUMBER_FORMAT;
+}
+
+/**
+ * Detect the date format of a column: the format that parses the most
+ * sample values, preferring earlier (ISO, then day-first) formats on ties
+ */
+export function detectDateFormat(values: string[]): DateFormatId | undefined {
+  const nonEmpty = values.filter(value => value.trim() !== '');
+  let best: DateFormatId | undefined;
+  let bestCount = 0;
+
+  for (const id of DATE_FORMAT_IDS) {
+    const count = nonEmpty.filter(value => parseDate(value, id) !== null).length;
+    if (count > bestCount) {
+      best = id;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Detect the value format a system column needs from the sample values
+ * of the CSV column mapped to it. Text columns need no format.
+ */
+export function detectValueFormat(
+  systemColumn: SystemColumn,
+  values: string[]
+): ColumnValueFormat | undefined {
+  switch (COLUMN_SCHEMA[systemColumn].dtype) {
+    case 'float64':
+      return { number: detectNumberFormat(values) };
+    case 'datetime64[ns]': {
+      const date = detectDateFormat(values);
+      return date ? { date } : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Normalize a raw CSV value for the system column it is mapped to:
+ * numbers for float64, Dates for datetime64, trimmed text otherwise.
+ * Empty values and values that do not parse become null.
+ */
+export function normalizeValue(
+  systemColumn: SystemColumn,
+  raw: string,
+  format?: ColumnValueFormat
+): number | Date | string | null {
+  if (raw.trim() === '') return null;
+
+  switch (COLUMN_SCHEMA[systemColumn].dtype) {
+    case 'float64':
+      return parseNumber(raw, format?.number ?? DEFAULT_NUMBER_FORMAT);
+    case 'datetime64[ns]': {
+      const ids = format?.date ? [format.date] : DATE_FORMAT_IDS;
+      for (const id of ids) {
+        const date = parseDate(raw, id);
+        if (date) return date;
+      }
+      return null;
+    }
+    default:
+      return raw.trim();
+  }
+}
@@ -2,6 +2,11 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { consoleLoggingHooks, setApiClientHooks } from './lib/api/client'
+
+if (import.meta.env.DEV) {
+  setApiClientHooks(consoleLoggingHooks)
+}
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
@@ -3,7 +3,7 @@
  * Allow authenticated users to change their password
  */
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -12,41 +12,46 @@ import { useAuthStore } from '@/store/authStore';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card, CardHeader } from '@/components/ui/Card';
-
-const changePasswordSchema = z
-  .object({
-    old_password: z
-      .string()
-      .min(1, 'La contraseña actual es requerida'),
-    new_password: z
-      .string()
-      .min(1, 'La nueva contraseña es requerida')
-      .min(8, 'La contraseña debe tener al menos 8 caracteres')
-      .regex(/[A-Z]/, 'Debe contener al menos una mayúscula')
-      .regex(/[a-z]/, 'Debe contener al menos una minúscula')
-      .regex(/[0-9]/, 'Debe contener al menos un número'),
-    new_password_confirm: z.string().min(1, 'Confirma tu nueva contraseña'),
-  })
-  .refine((data) => data.new_password !== data.old_password, {
-    message: 'La nueva contraseña debe ser diferente a la actual',
-    path: ['new_password'],
-  })
-  .refine((data) => data.new_password === data.new_password_confirm, {
-    message: 'Las contraseñas no coinciden',
-    path: ['new_password_confirm'],
-  });
-
-type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
+import { applyServerErrors, isShownOnField } from '@/lib/formErrors';
+import { PasswordRequirements } from '@/components/Auth';
+import { newPasswordSchema } from '@/lib/passwordRules';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { Translate } from '@/lib/i18n';
+
+const createChangePasswordSchema = (t: Translate) =>
+  z
+    .object({
+      old_password: z
+        .string()
+        .min(1, t('validation.currentPasswordRequired')),
+      new_password: newPasswordSchema(t, 'validation.newPasswordRequired'),
+      new_password_confirm: z.string().min(1, t('validation.confirmNewPassword')),
+    })
+    .refine((data) => data.new_password !== data.old_password, {
+      message: t('validation.passwordUnchanged'),
+      path: ['new_password'],
+    })
+    .refine((data) => data.new_password === data.new_password_confirm, {
+      message: t('validation.passwordsMismatch'),
+      path: ['new_password_confirm'],
+    });
+
+type ChangePasswordFormData = z.infer<ReturnType<typeof createChangePasswordSchema>>;
+
+const CHANGE_PASSWORD_FIELDS = ['old_password', 'new_password', 'new_password_confirm'] as const;
 
 export const ChangePassword: React.FC = () => {
   const navigate = useNavigate();
   const { changePassword, isLoading, error, clearError } = useAuthStore();
   const [success, setSuccess] = useState(false);
+  const { t } = useTranslation();
+  const changePasswordSchema = useMemo(() => createChangePasswordSchema(t), [t]);
 
   const {
     register,
     handleSubmit,
     formState: { errors },
+    setError,
     reset,
   } = useForm<ChangePasswordFormData>({
     resolver: zodResolver(changePasswordSchema),
@@ -71,7 +76,8 @@ export const ChangePassword: React.FC = () => {
         navigate('/dashboard');
       }, 2000);
     } catch (err) {
-      // Error is handled by the store
+      // The store keeps the banner message; field errors go on their inputs
+      applyServerErrors(err, setError, CHANGE_PASSWORD_FIELDS);
       console.error('Change password failed:', err);
     }
   };
@@ -82,11 +88,11 @@ export const ChangePassword: React.FC = () => {
         <Card>
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6" noValidate>
             <CardHeader
-              title="Cambiar Contraseña"
-              subtitle="Actualiza tu contraseña de forma segura"
+              title={t('changePassword.title')}
+              subtitle={t('changePassword.subtitle')}
             />
 
-            {error && (
+            {error && !isShownOnField(error, CHANGE_PASSWORD_FIELDS) && (
               <div
                 className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md"
                 role="alert"
@@ -101,7 +107,7 @@ export const ChangePassword: React.FC = () => {
                 role="alert"
               >
                 <p className="text-sm">
-                  ¡Contraseña actualizada exitosamente! Redirigiendo...
+                  {t('changePassword.success')}
                 </p>
               </div>
             )}
@@ -109,7 +115,7 @@ export const ChangePassword: React.FC = () => {
             <Input
               {...register('old_password')}
               type="password"
-              label="Contraseña Actual"
+              label={t('changePassword.currentPassword')}
               placeholder="••••••••"
               error={errors.old_password?.message}
               autoComplete="current-password"
@@ -120,7 +126,7 @@ export const ChangePassword: React.FC = () => {
             <Input
               {...register('new_password')}
               type="password"
-              label="Nueva Contraseña"
+              label={t('common.newPassword')}
               placeholder="••••••••"
               error={errors.new_password?.message}
               autoComplete="new-password"
@@ -131,7 +137,7 @@ export const ChangePassword: React.FC = () => {
             <Input
               {...register('new_password_confirm')}
               type="password"
-              label="Confirmar Nueva Contraseña"
+              label={t('common.confirmNewPassword')}
               placeholder="••••••••"
               error={errors.new_password_confirm?.message}
               autoComplete="new-password"
@@ -139,15 +145,7 @@ export const ChangePassword: React.FC = () => {
               disabled={isLoading || success}
             />
 
-            <div className="text-xs text-gray-600 bg-gray-50 p-3 rounded-md">
-              <p className="font-medium mb-1">Tu nueva contraseña debe contener:</p>
-              <ul className="list-disc list-inside space-y-1">
-                <li>Al menos 8 caracteres</li>
-                <li>Una letra mayúscula</li>
-                <li>Una letra minúscula</li>
-                <li>Un número</li>
-              </ul>
-            </div>
+            <PasswordRequirements title={t('password.newRequirementsTitle')} />
 
             <div className="flex gap-3">
               <Button
@@ -157,7 +155,7 @@ export const ChangePassword: React.FC = () => {
                 onClick={() => navigate('/dashboard')}
                 disabled={isLoading || success}
               >
-                Cancelar
+                {t('common.cancel')}
               </Button>
               <Button
                 type="submit"
@@ -166,7 +164,7 @@ export const ChangePassword: React.FC = () => {
                 isLoading={isLoading}
                 disabled={success}
               >
-                {isLoading ? 'Actualizando...' : 'Cambiar Contraseña'}
+                {isLoading ? t('changePassword.submitting') : t('changePassword.title')}
               </Button>
             </div>
           </form>
@@ -0,0 +1,145 @@
+/**
+ * CheckEmail Component Tests
+ * Covers resending the verification email, its cooldown and re-checking the profile
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { MemoryRouter, Route, Routes, useLocation } from 'react-router-dom';
+import { CheckEmail, RESEND_COOLDOWN_SECONDS } from './CheckEmail';
+import { useAuthStore } from '@/store/authStore';
+import * as authApi from '@/lib/api/auth';
+import { ApiError, NetworkError } from '@/lib/api/errors';
+import type { User } from '@/types/auth';
+
+vi.mock('@/lib/api/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api/auth')>()),
+  resendVerificationEmail: vi.fn(),
+  getProfile: vi.fn(),
+}));
+
+const user: User = {
+  id: 1,
+  email: 'ana@example.com',
+  username: 'ana',
+  is_active: true,
+  is_staff: false,
+  email_verified: false,
+  date_joined: '2024-01-01T00:00:00Z',
+  last_login: null,
+};
+
+const LocationDisplay = () => <div data-testid="location">{useLocation().pathname}</div>;
+
+describe('CheckEmail Component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useAuthStore.setState({
+      user,
+      tokens: { access: 'access', refresh: 'refresh' },
+      isAuthenticated: true,
+      isLoading: false,
+      error: null,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    useAuthStore.setState({ user: null, tokens: null, isAuthenticated: false });
+    localStorage.clear();
+  });
+
+  const renderCheckEmail = (state?: unknown) =>
+    render(
+      <MemoryRouter initialEntries={[{ pathname: '/verify-email', state }]}>
+        <Routes>
+          <Route path="/verify-email" element={<CheckEmail />} />
+          <Route path="*" element={<LocationDisplay />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+  // TEST TYPE 1: VALID (Happy Path)
+  describe('Valid - Happy Path', () => {
+    it('should show where the verification email was sent', () => {
+      renderCheckEmail();
+
+      expect(screen.getByRole('heading', { name: /revisa tu correo/i })).toBeInTheDocument();
+      expect(screen.getByText('ana@example.com')).toBeInTheDocument();
+    });
+
+    it('should continue to the blocked page once the email is verified', async () => {
+      vi.mocked(authApi.getProfile).mockResolvedValue({ ...user, email_verified: true });
+      renderCheckEmail({ from: { pathname: '/uploads', search: '', hash: '' } });
+      expect(screen.getByText(/debes verificar tu correo/i)).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: /ya verifiqué/i }));
+
+      expect(await screen.findByTestId('location')).toHaveTextContent('/uploads');
+    });
+  });
+
+  // TEST TYPE 2: COOLDOWN
+  describe('Resend Cooldown', () => {
+    it('should resend the email and wait before allowing another', async () => {
+      vi.useFakeTimers();
+      vi.mocked(authApi.resendVerificationEmail).mockResolvedValue();
+      renderCheckEmail();
+
+      await act(async () => {
+        fireEvent.click(screen.getByRole('button', { name: /reenviar correo/i }));
+      });
+
+      expect(authApi.resendVerificationEmail).toHaveBeenCalledTimes(1);
+      expect(screen.getByText(/te enviamos un nuevo enlace a ana@example.com/i)).toBeInTheDocument();
+      const button = screen.getByRole('button', { name: `Reenviar en ${RESEND_COOLDOWN_SECONDS} s` });
+      expect(button).toBeDisabled();
+
+      act(() => {
+        vi.advanceTimersByTime(1000);
+      });
+      expect(button).toHaveTextContent(`Reenviar en ${RESEND_COOLDOWN_SECONDS - 1} s`);
+
+      for (let second = 1; second < RESEND_COOLDOWN_SECONDS; second++) {
+        act(() => {
+          vi.advanceTimersByTime(1000);
+        });
+      }
+      expect(screen.getByRole('button', { name: /reenviar correo/i })).toBeEnabled();
+    });
+
+    it('should start the cooldown when the server is rate limiting', async () => {
+      vi.mocked(authApi.resendVerificationEmail).mockRejectedValue(
+        new ApiError('Request failed', { status: 429, data: { detail: 'Request was throttled.' } })
+      );
+      renderCheckEmail();
+
+      fireEvent.click(screen.getByRole('button', { name: /reenviar correo/i }));
+
+      expect(await screen.findByRole('alert')).toHaveTextContent(/espera un momento/i);
+      expect(screen.getByRole('button', { name: /reenviar en/i })).toBeDisabled();
+    });
+  });
+
+  // TEST TYPE 3: ERROR HANDLING
+  describe('Error Handling', () => {
+    it('should allow retrying right away after a network error', async () => {
+      vi.mocked(authApi.resendVerificationEmail).mockRejectedValue(new NetworkError('Network Error'));
+      renderCheckEmail();
+
+      fireEvent.click(screen.getByRole('button', { name: /reenviar correo/i }));
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Network Error');
+      expect(screen.getByRole('button', { name: /reenviar correo/i })).toBeEnabled();
+    });
+
+    it('should say so when the email is still not verified', async () => {
+      vi.mocked(authApi.getProfile).mockResolvedValue(user);
+      renderCheckEmail();
+
+      fireEvent.click(screen.getByRole('button', { name: /ya verifiqué/i }));
+
+      expect(await screen.findByText(/aún no aparece verificado/i)).toBeInTheDocument();
+    });
+  });
+});
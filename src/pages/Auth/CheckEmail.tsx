@@ -0,0 +1,155 @@
+/**
+ * Check Email Page
+ * Shown after registration until the user opens the verification link
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link, Navigate, useLocation } from 'react-router-dom';
+import { selectIsEmailVerified, useAuthStore } from '@/store/authStore';
+import * as authApi from '@/lib/api/auth';
+import { hasStatus } from '@/lib/api/errors';
+import { Button } from '@/components/ui/Button';
+import { Card, CardHeader } from '@/components/ui/Card';
+import { getRedirectPath, type RedirectState } from '@/components/Auth';
+import { useTranslation } from '@/hooks/useTranslation';
+
+/** Wait this long between verification emails */
+export const RESEND_COOLDOWN_SECONDS = 60;
+
+export const CheckEmail: React.FC = () => {
+  const location = useLocation();
+  const { user, refreshProfile, isLoading, clearError } = useAuthStore();
+  const isEmailVerified = useAuthStore(selectIsEmailVerified);
+  const [isSending, setIsSending] = useState(false);
+  const [cooldown, setCooldown] = useState(0);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
+
+  // Count the cooldown down one second at a time
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  // Clear error on component unmount
+  useEffect(() => {
+    return () => clearError();
+  }, [clearError]);
+
+  if (isEmailVerified) {
+    return <Navigate to={getRedirectPath(location.state)} replace />;
+  }
+
+  const blockedFrom = (location.state as RedirectState | null)?.from;
+
+  const handleResend = async () => {
+    setIsSending(true);
+    setNotice(null);
+    setError(null);
+    try {
+      await authApi.resendVerificationEmail();
+      setNotice(t('checkEmail.resent', { email: user?.email ?? t('checkEmail.yourEmail') }));
+      setCooldown(RESEND_COOLDOWN_SECONDS);
+    } catch (err) {
+      if (hasStatus(err, 429)) {
+        setError(t('checkEmail.throttled'));
+        setCooldown(RESEND_COOLDOWN_SECONDS);
+      } else {
+        setError(authApi.extractErrorMessage(err));
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleCheckAgain = async () => {
+    setNotice(null);
+    setError(null);
+    try {
+      await refreshProfile();
+      if (!selectIsEmailVerified(useAuthStore.getState())) {
+        setNotice(t('checkEmail.stillUnverified'));
+      }
+    } catch (err) {
+      setError(authApi.extractErrorMessage(err));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md">
+        <Card>
+          <div className="space-y-6">
+            <CardHeader
+              title={t('common.checkEmail')}
+              subtitle={t('checkEmail.subtitle')}
+            />
+
+            {blockedFrom && (
+              <div
+                className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md"
+                role="status"
+              >
+                <p className="text-sm">{t('checkEmail.blocked')}</p>
+              </div>
+            )}
+
+            <p className="text-sm text-gray-600">
+              {t('checkEmail.sentBefore')}{' '}
+              <strong className="text-gray-900">{user?.email}</strong>
+              {t('checkEmail.sentAfter')}
+            </p>
+
+            {error && (
+              <div
+                className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md"
+                role="alert"
+              >
+                <p className="text-sm">{error}</p>
+              </div>
+            )}
+
+            {notice && (
+              <div
+                className="bg-blue-50 border border-blue-200 text-blue-700 px-4 py-3 rounded-md"
+                role="status"
+              >
+                <p className="text-sm">{notice}</p>
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                fullWidth
+                onClick={handleResend}
+                isLoading={isSending}
+                disabled={cooldown > 0}
+              >
+                {cooldown > 0 ? t('checkEmail.resendIn', { seconds: cooldown }) : t('checkEmail.resend')}
+              </Button>
+              <Button
+                type="button"
+                variant="primary"
+                fullWidth
+                onClick={handleCheckAgain}
+                isLoading={isLoading}
+              >
+                {t('checkEmail.checkAgain')}
+              </Button>
+            </div>
+
+            <div className="text-center text-sm">
+              <Link to="/dashboard" className="text-blue-600 hover:text-blue-500 font-medium">
+                {t('checkEmail.goToDashboard')}
+              </Link>
+            </div>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
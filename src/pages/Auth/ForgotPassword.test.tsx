@@ -0,0 +1,101 @@
+/**
+ * ForgotPassword Component Tests
+ * Covers requesting a reset link, validation and API failures
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { ForgotPassword } from './ForgotPassword';
+import * as authApi from '@/lib/api/auth';
+import { NetworkError, ServerError } from '@/lib/api/errors';
+
+vi.mock('@/lib/api/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api/auth')>()),
+  requestPasswordReset: vi.fn(),
+}));
+
+describe('ForgotPassword Component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderForgotPassword = () =>
+    render(
+      <MemoryRouter>
+        <ForgotPassword />
+      </MemoryRouter>
+    );
+
+  const submitEmail = async (email: string) => {
+    const user = userEvent.setup();
+    if (email) await user.type(screen.getByLabelText(/correo electrónico/i), email);
+    await user.click(screen.getByRole('button', { name: /enviar enlace/i }));
+  };
+
+  // TEST TYPE 1: VALID (Happy Path)
+  describe('Valid - Happy Path', () => {
+    it('should request a reset link and confirm it was sent', async () => {
+      vi.mocked(authApi.requestPasswordReset).mockResolvedValue();
+      renderForgotPassword();
+
+      await submitEmail('ana@example.com');
+
+      expect(authApi.requestPasswordReset).toHaveBeenCalledWith({ email: 'ana@example.com' });
+      expect(await screen.findByText(/revisa tu correo/i)).toBeInTheDocument();
+      expect(screen.getByText('ana@example.com')).toBeInTheDocument();
+      expect(screen.getByRole('link', { name: /volver a iniciar sesión/i })).toHaveAttribute('href', '/login');
+    });
+  });
+
+  // TEST TYPE 2: INVALID INPUT
+  describe('Invalid Input Validation', () => {
+    it('should require an email', async () => {
+      renderForgotPassword();
+
+      await submitEmail('');
+
+      expect(await screen.findByText(/el correo electrónico es requerido/i)).toBeInTheDocument();
+      expect(authApi.requestPasswordReset).not.toHaveBeenCalled();
+    });
+
+    it('should reject a malformed email', async () => {
+      renderForgotPassword();
+
+      await submitEmail('ana@');
+
+      expect(await screen.findByText(/formato de correo electrónico inválido/i)).toBeInTheDocument();
+      expect(authApi.requestPasswordReset).not.toHaveBeenCalled();
+    });
+  });
+
+  // TEST TYPE 3: ERROR HANDLING
+  describe('Error Handling', () => {
+    it('should show the API error and keep the form', async () => {
+      vi.mocked(authApi.requestPasswordReset).mockRejectedValue(
+        new ServerError('Request failed', { status: 500, data: { detail: 'Servicio de correo no disponible' } })
+      );
+      renderForgotPassword();
+
+      await submitEmail('ana@example.com');
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Servicio de correo no disponible');
+      expect(screen.getByLabelText(/correo electrónico/i)).toHaveValue('ana@example.com');
+    });
+
+    it('should let the user retry after a network error', async () => {
+      vi.mocked(authApi.requestPasswordReset)
+        .mockRejectedValueOnce(new NetworkError('Network Error'))
+        .mockResolvedValueOnce();
+      renderForgotPassword();
+
+      await submitEmail('ana@example.com');
+      await screen.findByRole('alert');
+      await userEvent.setup().click(screen.getByRole('button', { name: /enviar enlace/i }));
+
+      await waitFor(() => expect(screen.getByText(/revisa tu correo/i)).toBeInTheDocument());
+      expect(authApi.requestPasswordReset).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Forgot Password Page
+ * Request an email with a link to reset the password
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import * as authApi from '@/lib/api/auth';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardHeader } from '@/components/ui/Card';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { Translate } from '@/lib/i18n';
+
+const createForgotPasswordSchema = (t: Translate) =>
+  z.object({
+    email: z
+      .string()
+      .min(1, t('validation.emailRequired'))
+      .email(),
+  });
+
+type ForgotPasswordFormData = z.infer<ReturnType<typeof createForgotPasswordSchema>>;
+
+export const ForgotPassword: React.FC = () => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const { t } = useTranslation();
+  const forgotPasswordSchema = useMemo(() => createForgotPasswordSchema(t), [t]);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: '',
+    },
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await authApi.requestPasswordReset(data);
+      setSentTo(data.email);
+    } catch (err) {
+      setError(authApi.extractErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">AYNI</h1>
+          <p className="text-gray-600">
+            {t('common.tagline')}
+          </p>
+        </div>
+
+        <Card>
+          {sentTo ? (
+            <div className="space-y-6">
+              <CardHeader
+                title={t('common.checkEmail')}
+                subtitle={t('forgotPassword.sentSubtitle')}
+              />
+
+              {/* Same message whether or not the account exists, so emails cannot be probed */}
+              <div
+                className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md"
+                role="status"
+              >
+                <p className="text-sm">
+                  {t('forgotPassword.sentBefore')} <strong>{sentTo}</strong>
+                  {t('forgotPassword.sentAfter')}
+                </p>
+              </div>
+
+              <div className="text-center text-sm">
+                <Link to="/login" className="text-blue-600 hover:text-blue-500 font-medium">
+                  {t('forgotPassword.backToLogin')}
+                </Link>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6" noValidate>
+              <CardHeader
+                title={t('forgotPassword.title')}
+                subtitle={t('forgotPassword.subtitle')}
+              />
+
+              {error && (
+                <div
+                  className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md"
+                  role="alert"
+                >
+                  <p className="text-sm">{error}</p>
+                </div>
+              )}
+
+              <Input
+                {...register('email')}
+                type="email"
+                label={t('common.email')}
+                placeholder={t('common.emailPlaceholder')}
+                error={errors.email?.message}
+                autoComplete="email"
+                required
+                disabled={isLoading}
+              />
+
+              <Button
+                type="submit"
+                variant="primary"
+                fullWidth
+                isLoading={isLoading}
+              >
+                {isLoading ? t('forgotPassword.submitting') : t('forgotPassword.submit')}
+              </Button>
+
+              <div className="text-center text-sm text-gray-600">
+                {t('forgotPassword.remembered')}{' '}
+                <Link
+                  to="/login"
+                  className="text-blue-600 hover:text-blue-500 font-medium"
+                >
+                  {t('common.signInLink')}
+                </Link>
+              </div>
+            </form>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -9,6 +9,7 @@ import userEvent from '@testing-library/user-event';
 import { BrowserRouter } from 'react-router-dom';
 import { Login } from './Login';
 import { useAuthStore } from '@/store/authStore';
+import { ValidationError } from '@/lib/api/errors';
 
 // Mock the auth store
 vi.mock('@/store/authStore', () => ({
@@ -76,6 +77,7 @@ describe('Login Component', () => {
         expect(mockLogin).toHaveBeenCalledWith({
           email: 'test@example.com',
           password: 'password123',
+          remember: true,
         });
       });
     });
@@ -131,6 +133,27 @@ describe('Login Component', () => {
       });
     });
 
+    it('should show a server field error on its input', async () => {
+      const user = userEvent.setup();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockLogin.mockRejectedValueOnce(
+        new ValidationError('Request failed', {
+          status: 400,
+          data: { email: ['Esta cuenta está desactivada.'] },
+        })
+      );
+
+      renderLogin();
+
+      await user.type(screen.getByLabelText(/correo electrónico/i), 'test@example.com');
+      await user.type(screen.getByLabelText(/contraseña/i), 'password123');
+      await user.click(screen.getByRole('button', { name: /iniciar sesión/i }));
+
+      expect(await screen.findByText('Esta cuenta está desactivada.')).toBeInTheDocument();
+      expect(screen.getByLabelText(/correo electrónico/i)).toHaveAttribute('aria-invalid', 'true');
+      expect(screen.getByLabelText(/correo electrónico/i)).toHaveFocus();
+    });
+
     it('should clear error on component unmount', () => {
       const { unmount } = renderLogin();
 
@@ -251,6 +274,7 @@ describe('Login Component', () => {
         expect(mockLogin).toHaveBeenCalledWith({
           email: longEmail,
           password: 'password123',
+          remember: true,
         });
       });
     });
@@ -272,7 +296,29 @@ describe('Login Component', () => {
       await user.click(screen.getByRole('button', { name: /iniciar sesión/i }));
 
       await waitFor(() => {
-        expect(mockLogin).toHaveBeenCalledWith({ email, password });
+        expect(mockLogin).toHaveBeenCalledWith({ email, password, remember: true });
+      });
+    });
+
+    it('should not remember the session when Recordarme is unchecked', async () => {
+      const user = userEvent.setup();
+      mockLogin.mockResolvedValueOnce(undefined);
+
+      renderLogin();
+
+      const remember = screen.getByRole('checkbox', { name: /recordarme/i });
+      expect(remember).toBeChecked();
+      await user.click(remember);
+      await user.type(screen.getByLabelText(/correo electrónico/i), 'caja@tienda.cl');
+      await user.type(screen.getByLabelText(/contraseña/i), 'password123');
+      await user.click(screen.getByRole('button', { name: /iniciar sesión/i }));
+
+      await waitFor(() => {
+        expect(mockLogin).toHaveBeenCalledWith({
+          email: 'caja@tienda.cl',
+          password: 'password123',
+          remember: false,
+        });
       });
     });
 
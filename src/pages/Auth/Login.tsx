@@ -3,8 +3,8 @@
  * User authentication login form with validation
  */
 
-import React, { useEffect } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import React, { useEffect, useMemo } from 'react';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -12,42 +12,57 @@ import { useAuthStore } from '@/store/authStore';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card, CardHeader } from '@/components/ui/Card';
+import { applyServerErrors, isShownOnField } from '@/lib/formErrors';
+import { getRedirectPath } from '@/components/Auth';
+import { LanguageSwitcher } from '@/components/ui/LanguageSwitcher';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { Translate } from '@/lib/i18n';
+
+const createLoginSchema = (t: Translate) =>
+  z.object({
+    email: z
+      .string()
+      .min(1, t('validation.emailRequired'))
+      .email(),
+    password: z
+      .string()
+      .min(1, t('validation.passwordRequired'))
+      .min(6, t('validation.passwordTooShort', { minimum: 6 })),
+    remember: z.boolean(),
+  });
 
-const loginSchema = z.object({
-  email: z
-    .string()
-    .min(1, 'El correo electrónico es requerido')
-    .email('Formato de correo electrónico inválido'),
-  password: z
-    .string()
-    .min(1, 'La contraseña es requerida')
-    .min(6, 'La contraseña debe tener al menos 6 caracteres'),
-});
+type LoginFormData = z.infer<ReturnType<typeof createLoginSchema>>;
 
-type LoginFormData = z.infer<typeof loginSchema>;
+const LOGIN_FIELDS = ['email', 'password'] as const;
 
 export const Login: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  const redirectTo = getRedirectPath(location.state);
   const { login, isLoading, error, clearError, isAuthenticated } = useAuthStore();
+  const { t } = useTranslation();
+  const loginSchema = useMemo(() => createLoginSchema(t), [t]);
 
   const {
     register,
     handleSubmit,
     formState: { errors },
+    setError,
   } = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
     defaultValues: {
       email: '',
       password: '',
+      remember: true,
     },
   });
 
   // Redirect if already authenticated
   useEffect(() => {
     if (isAuthenticated) {
-      navigate('/dashboard');
+      navigate(redirectTo);
     }
-  }, [isAuthenticated, navigate]);
+  }, [isAuthenticated, navigate, redirectTo]);
 
   // Clear error on component unmount
   useEffect(() => {
@@ -57,9 +72,11 @@ export const Login: React.FC = () => {
   const onSubmit = async (data: LoginFormData) => {
     try {
       await login(data);
-      navigate('/dashboard');
+      // Return to the page that required authentication, if any
+      navigate(redirectTo);
     } catch (err) {
-      // Error is handled by the store
+      // The store keeps the banner message; field errors go on their inputs
+      applyServerErrors(err, setError, LOGIN_FIELDS);
       console.error('Login failed:', err);
     }
   };
@@ -70,18 +87,18 @@ export const Login: React.FC = () => {
         <div className="text-center mb-8">
           <h1 className="text-4xl font-bold text-gray-900 mb-2">AYNI</h1>
           <p className="text-gray-600">
-            Analytics para PYMEs Chilenas
+            {t('common.tagline')}
           </p>
         </div>
 
         <Card>
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6" noValidate>
             <CardHeader
-              title="Iniciar Sesión"
-              subtitle="Ingresa a tu cuenta para ver tus analytics"
+              title={t('login.title')}
+              subtitle={t('login.subtitle')}
             />
 
-            {error && (
+            {error && !isShownOnField(error, LOGIN_FIELDS) && (
               <div
                 className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md"
                 role="alert"
@@ -93,8 +110,8 @@ export const Login: React.FC = () => {
             <Input
               {...register('email')}
               type="email"
-              label="Correo Electrónico"
-              placeholder="tu@empresa.cl"
+              label={t('common.email')}
+              placeholder={t('common.emailPlaceholder')}
               error={errors.email?.message}
               autoComplete="email"
               required
@@ -104,7 +121,7 @@ export const Login: React.FC = () => {
             <Input
               {...register('password')}
               type="password"
-              label="Contraseña"
+              label={t('common.password')}
               placeholder="••••••••"
               error={errors.password?.message}
               autoComplete="current-password"
@@ -115,19 +132,24 @@ export const Login: React.FC = () => {
             <div className="flex items-center justify-between text-sm">
               <label className="flex items-center">
                 <input
+                  {...register('remember')}
                   type="checkbox"
                   className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                  defaultChecked
+                  disabled={isLoading}
+                  aria-describedby="remember-hint"
                 />
-                <span className="ml-2 text-gray-600">Recordarme</span>
+                <span className="ml-2 text-gray-600">{t('login.remember')}</span>
               </label>
               <Link
                 to="/forgot-password"
                 className="text-blue-600 hover:text-blue-500 font-medium"
               >
-                ¿Olvidaste tu contraseña?
+                {t('login.forgotPassword')}
               </Link>
             </div>
+            <p id="remember-hint" className="-mt-4 text-xs text-gray-500">
+              {t('login.rememberHint')}
+            </p>
 
             <Button
               type="submit"
@@ -135,31 +157,35 @@ export const Login: React.FC = () => {
               fullWidth
               isLoading={isLoading}
             >
-              {isLoading ? 'Iniciando sesión...' : 'Iniciar Sesión'}
+              {isLoading ? t('login.submitting') : t('login.submit')}
             </Button>
 
             <div className="text-center text-sm text-gray-600">
-              ¿No tienes una cuenta?{' '}
+              {t('login.noAccount')}{' '}
               <Link
                 to="/register"
                 className="text-blue-600 hover:text-blue-500 font-medium"
               >
-                Regístrate gratis
+                {t('login.registerLink')}
               </Link>
             </div>
           </form>
         </Card>
 
         <p className="mt-8 text-center text-xs text-gray-500">
-          Al iniciar sesión, aceptas nuestros{' '}
+          {t('login.termsNotice')}{' '}
           <Link to="/terms" className="underline hover:text-gray-700">
-            Términos de Servicio
+            {t('common.terms')}
           </Link>{' '}
-          y{' '}
+          {t('login.termsJoin')}{' '}
           <Link to="/privacy" className="underline hover:text-gray-700">
-            Política de Privacidad
+            {t('common.privacy')}
           </Link>
         </p>
+
+        <div className="mt-4 text-center">
+          <LanguageSwitcher />
+        </div>
       </div>
     </div>
   );
@@ -9,6 +9,7 @@ import userEvent from '@testing-library/user-event';
 import { BrowserRouter } from 'react-router-dom';
 import { Register } from './Register';
 import { useAuthStore } from '@/store/authStore';
+import { ValidationError } from '@/lib/api/errors';
 
 // Mock the auth store
 vi.mock('@/store/authStore', () => ({
@@ -86,7 +87,7 @@ describe('Register Component', () => {
       });
     });
 
-    it('should navigate to dashboard after successful registration', async () => {
+    it('should ask to verify the email after successful registration', async () => {
       const user = userEvent.setup();
       mockRegister.mockResolvedValueOnce(undefined);
 
@@ -99,8 +100,9 @@ describe('Register Component', () => {
       await user.click(screen.getByRole('button', { name: /crear cuenta/i }));
 
       await waitFor(() => {
-        expect(mockNavigate).toHaveBeenCalledWith('/dashboard');
+        expect(mockNavigate).toHaveBeenCalledWith('/verify-email');
       });
+      expect(mockNavigate).not.toHaveBeenCalledWith('/dashboard');
     });
 
     it('should display password strength indicator', async () => {
@@ -153,6 +155,43 @@ describe('Register Component', () => {
       });
     });
 
+    it('should show each server field error on its input', async () => {
+      const user = userEvent.setup();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockRegister.mockRejectedValueOnce(
+        new ValidationError('Request failed', {
+          status: 400,
+          data: {
+            email: ['Ya existe un usuario con este correo.'],
+            username: ['Este nombre de usuario ya está en uso.'],
+          },
+        })
+      );
+      (useAuthStore as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
+        register: mockRegister,
+        isLoading: false,
+        error: { message: 'Ya existe un usuario con este correo.', field: 'email' },
+        clearError: mockClearError,
+        isAuthenticated: false,
+      });
+
+      renderRegister();
+
+      await user.type(screen.getByLabelText(/correo electrónico/i), 'test@example.com');
+      await user.type(screen.getByLabelText(/nombre de usuario/i), 'testuser');
+      await user.type(screen.getByLabelText(/^contraseña[^c]/i), 'Password123');
+      await user.type(screen.getByLabelText(/confirmar contraseña/i), 'Password123');
+      await user.click(screen.getByRole('button', { name: /crear cuenta/i }));
+
+      await waitFor(() => {
+        expect(screen.getByLabelText(/correo electrónico/i)).toHaveAttribute('aria-invalid', 'true');
+      });
+      expect(screen.getByText('Este nombre de usuario ya está en uso.')).toBeInTheDocument();
+      expect(screen.getByLabelText(/nombre de usuario/i)).toHaveAttribute('aria-invalid', 'true');
+      // Shown on the input, so not repeated in the banner
+      expect(screen.getAllByText('Ya existe un usuario con este correo.')).toHaveLength(1);
+    });
+
     it('should clear error on component unmount', () => {
       const { unmount } = renderRegister();
 
@@ -3,7 +3,7 @@
  * New user registration form with validation
  */
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -12,43 +12,49 @@ import { useAuthStore } from '@/store/authStore';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card, CardHeader } from '@/components/ui/Card';
+import { applyServerErrors, isShownOnField } from '@/lib/formErrors';
+import { PasswordRequirements } from '@/components/Auth';
+import { newPasswordSchema } from '@/lib/passwordRules';
+import { LanguageSwitcher } from '@/components/ui/LanguageSwitcher';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { Translate } from '@/lib/i18n';
 
-const registerSchema = z
-  .object({
-    email: z
-      .string()
-      .min(1, 'El correo electrónico es requerido')
-      .email('Formato de correo electrónico inválido'),
-    username: z
-      .string()
-      .min(1, 'El nombre de usuario es requerido')
-      .min(3, 'El nombre de usuario debe tener al menos 3 caracteres')
-      .max(30, 'El nombre de usuario no puede exceder 30 caracteres')
-      .regex(/^[a-zA-Z0-9_]+$/, 'Solo letras, números y guiones bajos'),
-    password: z
-      .string()
-      .min(1, 'La contraseña es requerida')
-      .min(8, 'La contraseña debe tener al menos 8 caracteres')
-      .regex(/[A-Z]/, 'Debe contener al menos una mayúscula')
-      .regex(/[a-z]/, 'Debe contener al menos una minúscula')
-      .regex(/[0-9]/, 'Debe contener al menos un número'),
-    password_confirm: z.string().min(1, 'Confirma tu contraseña'),
-  })
-  .refine((data) => data.password === data.password_confirm, {
-    message: 'Las contraseñas no coinciden',
-    path: ['password_confirm'],
-  });
+const createRegisterSchema = (t: Translate) =>
+  z
+    .object({
+      email: z
+        .string()
+        .min(1, t('validation.emailRequired'))
+        .email(),
+      username: z
+        .string()
+        .min(1, t('validation.usernameRequired'))
+        .min(3, t('validation.usernameTooShort', { minimum: 3 }))
+        .max(30, t('validation.usernameTooLong', { maximum: 30 }))
+        .regex(/^[a-zA-Z0-9_]+$/, t('common.usernameHelp')),
+      password: newPasswordSchema(t),
+      password_confirm: z.string().min(1, t('validation.confirmPassword')),
+    })
+    .refine((data) => data.password === data.password_confirm, {
+      message: t('validation.passwordsMismatch'),
+      path: ['password_confirm'],
+    });
+
+type RegisterFormData = z.infer<ReturnType<typeof createRegisterSchema>>;
 
-type RegisterFormData = z.infer<typeof registerSchema>;
+const REGISTER_FIELDS = ['email', 'username', 'password', 'password_confirm'] as const;
 
 export const Register: React.FC = () => {
   const navigate = useNavigate();
   const { register: registerUser, isLoading, error, clearError, isAuthenticated } = useAuthStore();
+  const { t } = useTranslation();
+  const registerSchema = useMemo(() => createRegisterSchema(t), [t]);
 
   const {
     register,
     handleSubmit,
     formState: { errors },
+    setError,
     watch,
   } = useForm<RegisterFormData>({
     resolver: zodResolver(registerSchema),
@@ -74,16 +80,20 @@ export const Register: React.FC = () => {
     if (/[0-9]/.test(pwd)) strength++;
     if (/[^A-Za-z0-9]/.test(pwd)) strength++;
 
-    if (strength <= 2) return { strength, label: 'Débil', color: 'bg-red-500' };
-    if (strength <= 4) return { strength, label: 'Media', color: 'bg-yellow-500' };
-    return { strength, label: 'Fuerte', color: 'bg-green-500' };
+    if (strength <= 2) return { strength, label: t('register.strengthWeak'), color: 'bg-red-500' };
+    if (strength <= 4) return { strength, label: t('register.strengthMedium'), color: 'bg-yellow-500' };
+    return { strength, label: t('register.strengthStrong'), color: 'bg-green-500' };
   };
 
   const passwordStrength = getPasswordStrength(password);
 
+  // Set while registering, so the new session is not mistaken for a visitor
+  // who was already signed in
+  const registeringRef = useRef(false);
+
   // Redirect if already authenticated
   useEffect(() => {
-    if (isAuthenticated) {
+    if (isAuthenticated && !registeringRef.current) {
       navigate('/dashboard');
     }
   }, [isAuthenticated, navigate]);
@@ -94,11 +104,15 @@ export const Register: React.FC = () => {
   }, [clearError]);
 
   const onSubmit = async (data: RegisterFormData) => {
+    registeringRef.current = true;
     try {
       await registerUser(data);
-      navigate('/dashboard');
+      // New accounts confirm their email before uploading data
+      navigate('/verify-email');
     } catch (err) {
-      // Error is handled by the store
+      registeringRef.current = false;
+      // The store keeps the banner message; field errors go on their inputs
+      applyServerErrors(err, setError, REGISTER_FIELDS);
       console.error('Registration failed:', err);
     }
   };
@@ -109,18 +123,18 @@ export const Register: React.FC = () => {
         <div className="text-center mb-8">
           <h1 className="text-4xl font-bold text-gray-900 mb-2">AYNI</h1>
           <p className="text-gray-600">
-            Crea tu cuenta y comienza a analizar tus datos
+            {t('register.tagline')}
           </p>
         </div>
 
         <Card>
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6" noValidate>
             <CardHeader
-              title="Crear Cuenta"
-              subtitle="Regístrate gratis y empieza hoy"
+              title={t('register.title')}
+              subtitle={t('register.subtitle')}
             />
 
-            {error && (
+            {error && !isShownOnField(error, REGISTER_FIELDS) && (
               <div
                 className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md"
                 role="alert"
@@ -132,8 +146,8 @@ export const Register: React.FC = () => {
             <Input
               {...register('email')}
               type="email"
-              label="Correo Electrónico"
-              placeholder="tu@empresa.cl"
+              label={t('common.email')}
+              placeholder={t('common.emailPlaceholder')}
               error={errors.email?.message}
               autoComplete="email"
               required
@@ -143,10 +157,10 @@ export const Register: React.FC = () => {
             <Input
               {...register('username')}
               type="text"
-              label="Nombre de Usuario"
-              placeholder="tunombre"
+              label={t('common.username')}
+              placeholder={t('register.usernamePlaceholder')}
               error={errors.username?.message}
-              helperText="Solo letras, números y guiones bajos"
+              helperText={t('common.usernameHelp')}
               autoComplete="username"
               required
               disabled={isLoading}
@@ -156,7 +170,7 @@ export const Register: React.FC = () => {
               <Input
                 {...register('password')}
                 type="password"
-                label="Contraseña"
+                label={t('common.password')}
                 placeholder="••••••••"
                 error={errors.password?.message}
                 autoComplete="new-password"
@@ -166,7 +180,7 @@ export const Register: React.FC = () => {
               {password && !errors.password && (
                 <div className="mt-2">
                   <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
-                    <span>Seguridad:</span>
+                    <span>{t('register.strength')}</span>
                     <span className="font-medium">{passwordStrength.label}</span>
                   </div>
                   <div className="w-full bg-gray-200 rounded-full h-2">
@@ -177,7 +191,7 @@ export const Register: React.FC = () => {
                       aria-valuenow={passwordStrength.strength}
                       aria-valuemin={0}
                       aria-valuemax={6}
-                      aria-label="Password strength"
+                      aria-label={t('register.strengthLabel')}
                     />
                   </div>
                 </div>
@@ -187,7 +201,7 @@ export const Register: React.FC = () => {
             <Input
               {...register('password_confirm')}
               type="password"
-              label="Confirmar Contraseña"
+              label={t('register.confirmPassword')}
               placeholder="••••••••"
               error={errors.password_confirm?.message}
               autoComplete="new-password"
@@ -195,15 +209,7 @@ export const Register: React.FC = () => {
               disabled={isLoading}
             />
 
-            <div className="text-xs text-gray-600 bg-gray-50 p-3 rounded-md">
-              <p className="font-medium mb-1">Tu contraseña debe contener:</p>
-              <ul className="list-disc list-inside space-y-1">
-                <li>Al menos 8 caracteres</li>
-                <li>Una letra mayúscula</li>
-                <li>Una letra minúscula</li>
-                <li>Un número</li>
-              </ul>
-            </div>
+            <PasswordRequirements />
 
             <div className="flex items-start">
               <input
@@ -213,13 +219,13 @@ export const Register: React.FC = () => {
                 disabled={isLoading}
               />
               <label className="ml-2 text-sm text-gray-600">
-                Acepto los{' '}
+                {t('register.acceptTerms')}{' '}
                 <Link to="/terms" className="text-blue-600 hover:text-blue-500 underline">
-                  Términos de Servicio
+                  {t('common.terms')}
                 </Link>{' '}
-                y la{' '}
+                {t('register.termsJoin')}{' '}
                 <Link to="/privacy" className="text-blue-600 hover:text-blue-500 underline">
-                  Política de Privacidad
+                  {t('common.privacy')}
                 </Link>
               </label>
             </div>
@@ -230,20 +236,24 @@ export const Register: React.FC = () => {
               fullWidth
               isLoading={isLoading}
             >
-              {isLoading ? 'Creando cuenta...' : 'Crear Cuenta'}
+              {isLoading ? t('register.submitting') : t('register.submit')}
             </Button>
 
             <div className="text-center text-sm text-gray-600">
-              ¿Ya tienes una cuenta?{' '}
+              {t('register.haveAccount')}{' '}
               <Link
                 to="/login"
                 className="text-blue-600 hover:text-blue-500 font-medium"
               >
-                Inicia sesión
+                {t('common.signInLink')}
               </Link>
             </div>
           </form>
         </Card>
+
+        <div className="mt-6 text-center">
+          <LanguageSwitcher />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,123 @@
+/**
+ * ResetPassword Component Tests
+ * Covers the uid/token from the link, the shared password rules and invalid links
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { ResetPassword } from './ResetPassword';
+import * as authApi from '@/lib/api/auth';
+import { ServerError, ValidationError } from '@/lib/api/errors';
+
+vi.mock('@/lib/api/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api/auth')>()),
+  confirmPasswordReset: vi.fn(),
+}));
+
+describe('ResetPassword Component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderResetPassword = (path = '/reset-password/MQ/abc-123') =>
+    render(
+      <MemoryRouter initialEntries={[path]}>
+        <Routes>
+          <Route path="/reset-password/:uid/:token" element={<ResetPassword />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+  const submitPasswords = async (password: string, confirm = password) => {
+    const user = userEvent.setup();
+    await user.type(screen.getByLabelText(/^nueva contraseña/i), password);
+    await user.type(screen.getByLabelText(/confirmar nueva contraseña/i), confirm);
+    await user.click(screen.getByRole('button', { name: /guardar contraseña/i }));
+  };
+
+  // TEST TYPE 1: VALID (Happy Path)
+  describe('Valid - Happy Path', () => {
+    it('should send the uid and token from the link with the new password', async () => {
+      vi.mocked(authApi.confirmPasswordReset).mockResolvedValue();
+      renderResetPassword();
+
+      await submitPasswords('NuevaClave1');
+
+      expect(authApi.confirmPasswordReset).toHaveBeenCalledWith({
+        uid: 'MQ',
+        token: 'abc-123',
+        new_password: 'NuevaClave1',
+        new_password_confirm: 'NuevaClave1',
+      });
+      expect(await screen.findByText(/tu contraseña se actualizó/i)).toBeInTheDocument();
+      expect(screen.getByRole('link', { name: /iniciar sesión/i })).toHaveAttribute('href', '/login');
+    });
+  });
+
+  // TEST TYPE 2: INVALID INPUT
+  describe('Invalid Input Validation', () => {
+    it('should apply the same password rules as registration', async () => {
+      renderResetPassword();
+
+      await submitPasswords('debil');
+
+      expect(await screen.findByText(/al menos 8 caracteres/i, { selector: 'p' })).toBeInTheDocument();
+      expect(authApi.confirmPasswordReset).not.toHaveBeenCalled();
+    });
+
+    it('should require both passwords to match', async () => {
+      renderResetPassword();
+
+      await submitPasswords('NuevaClave1', 'NuevaClave2');
+
+      expect(await screen.findByText(/las contraseñas no coinciden/i)).toBeInTheDocument();
+      expect(authApi.confirmPasswordReset).not.toHaveBeenCalled();
+    });
+  });
+
+  // TEST TYPE 3: ERROR HANDLING
+  describe('Error Handling', () => {
+    it('should offer a new link when the token is rejected', async () => {
+      vi.mocked(authApi.confirmPasswordReset).mockRejectedValue(
+        new ValidationError('Request failed', { status: 400, data: { token: ['Invalid value'] } })
+      );
+      renderResetPassword();
+
+      await submitPasswords('NuevaClave1');
+
+      expect(await screen.findByRole('alert')).toHaveTextContent(/no es válido o ya expiró/i);
+      expect(screen.getByRole('link', { name: /solicitar un nuevo enlace/i })).toHaveAttribute(
+        'href',
+        '/forgot-password'
+      );
+    });
+
+    it('should keep the form when the password itself is rejected', async () => {
+      vi.mocked(authApi.confirmPasswordReset).mockRejectedValue(
+        new ValidationError('Request failed', {
+          status: 400,
+          data: { new_password: ['Esta contraseña es demasiado común.'] },
+        })
+      );
+      renderResetPassword();
+
+      await submitPasswords('Password1');
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Esta contraseña es demasiado común.');
+      expect(screen.getByRole('button', { name: /guardar contraseña/i })).toBeInTheDocument();
+    });
+
+    it('should show server errors', async () => {
+      vi.mocked(authApi.confirmPasswordReset).mockRejectedValue(
+        new ServerError('Request failed', { status: 503, data: { detail: 'Intenta más tarde' } })
+      );
+      renderResetPassword();
+
+      await submitPasswords('NuevaClave1');
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Intenta más tarde');
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Reset Password Page
+ * Set a new password from the uid and token in the emailed reset link
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import * as authApi from '@/lib/api/auth';
+import { ValidationError } from '@/lib/api/errors';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardHeader } from '@/components/ui/Card';
+import { PasswordRequirements } from '@/components/Auth';
+import { newPasswordSchema } from '@/lib/passwordRules';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { Translate } from '@/lib/i18n';
+
+const createResetPasswordSchema = (t: Translate) =>
+  z
+    .object({
+      new_password: newPasswordSchema(t, 'validation.newPasswordRequired'),
+      new_password_confirm: z.string().min(1, t('validation.confirmNewPassword')),
+    })
+    .refine((data) => data.new_password === data.new_password_confirm, {
+      message: t('validation.passwordsMismatch'),
+      path: ['new_password_confirm'],
+    });
+
+type ResetPasswordFormData = z.infer<ReturnType<typeof createResetPasswordSchema>>;
+
+/**
+ * Whether the API rejected the link itself rather than the new password
+ */
+function isInvalidLinkError(error: unknown): boolean {
+  if (!(error instanceof ValidationError)) return false;
+  const data = error.data as Record<string, unknown> | undefined;
+  return !!data && ('uid' in data || 'token' in data);
+}
+
+export const ResetPassword: React.FC = () => {
+  const { uid = '', token = '' } = useParams<{ uid: string; token: string }>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [linkInvalid, setLinkInvalid] = useState(!uid || !token);
+  const [success, setSuccess] = useState(false);
+  const { t } = useTranslation();
+  const resetPasswordSchema = useMemo(() => createResetPasswordSchema(t), [t]);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      new_password: '',
+      new_password_confirm: '',
+    },
+  });
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await authApi.confirmPasswordReset({ uid, token, ...data });
+      setSuccess(true);
+    } catch (err) {
+      if (isInvalidLinkError(err)) {
+        setLinkInvalid(true);
+      } else {
+        setError(authApi.extractErrorMessage(err));
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (success) {
+      return (
+        <div className="space-y-6">
+          <CardHeader title={t('resetPassword.successTitle')} />
+          <div
+            className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md"
+            role="status"
+          >
+            <p className="text-sm">
+              {t('resetPassword.successBody')}
+            </p>
+          </div>
+          <Link
+            to="/login"
+            className="block text-center text-blue-600 hover:text-blue-500 font-medium text-sm"
+          >
+            {t('common.signIn')}
+          </Link>
+        </div>
+      );
+    }
+
+    if (linkInvalid) {
+      return (
+        <div className="space-y-6">
+          <CardHeader title={t('resetPassword.invalidTitle')} />
+          <div
+            className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md"
+            role="alert"
+          >
+            <p className="text-sm">{t('resetPassword.invalidLink')}</p>
+          </div>
+          <Link
+            to="/forgot-password"
+            className="block text-center text-blue-600 hover:text-blue-500 font-medium text-sm"
+          >
+            {t('common.requestNewLink')}
+          </Link>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6" noValidate>
+        <CardHeader
+          title={t('resetPassword.title')}
+          subtitle={t('resetPassword.subtitle')}
+        />
+
+        {error && (
+          <div
+            className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md"
+            role="alert"
+          >
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        <Input
+          {...register('new_password')}
+          type="password"
+          label={t('common.newPassword')}
+          placeholder="••••••••"
+          error={errors.new_password?.message}
+          autoComplete="new-password"
+          required
+          disabled={isLoading}
+        />
+
+        <Input
+          {...register('new_password_confirm')}
+          type="password"
+          label={t('common.confirmNewPassword')}
+          placeholder="••••••••"
+          error={errors.new_password_confirm?.message}
+          autoComplete="new-password"
+          required
+          disabled={isLoading}
+        />
+
+        <PasswordRequirements title={t('password.newRequirementsTitle')} />
+
+        <Button
+          type="submit"
+          variant="primary"
+          fullWidth
+          isLoading={isLoading}
+        >
+          {isLoading ? t('common.saving') : t('resetPassword.submit')}
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">AYNI</h1>
+          <p className="text-gray-600">
+            {t('common.tagline')}
+          </p>
+        </div>
+
+        <Card>{renderContent()}</Card>
+      </div>
+    </div>
+  );
+};
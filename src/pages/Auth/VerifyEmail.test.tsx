@@ -0,0 +1,103 @@
+/**
+ * VerifyEmail Component Tests
+ * Covers confirming the token from the link, with and without a session
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { StrictMode } from 'react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { VerifyEmail } from './VerifyEmail';
+import { useAuthStore } from '@/store/authStore';
+import * as authApi from '@/lib/api/auth';
+import { NetworkError, ValidationError } from '@/lib/api/errors';
+import type { User } from '@/types/auth';
+
+vi.mock('@/lib/api/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api/auth')>()),
+  verifyEmail: vi.fn(),
+  getProfile: vi.fn(),
+}));
+
+const user: User = {
+  id: 1,
+  email: 'ana@example.com',
+  username: 'ana',
+  is_active: true,
+  is_staff: false,
+  email_verified: false,
+  date_joined: '2024-01-01T00:00:00Z',
+  last_login: null,
+};
+
+describe('VerifyEmail Component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    useAuthStore.setState({ user: null, tokens: null, isAuthenticated: false, error: null });
+    localStorage.clear();
+  });
+
+  const renderVerifyEmail = (token = 'tok-123') =>
+    render(
+      <StrictMode>
+        <MemoryRouter initialEntries={[`/verify-email/${token}`]}>
+          <Routes>
+            <Route path="/verify-email/:token" element={<VerifyEmail />} />
+          </Routes>
+        </MemoryRouter>
+      </StrictMode>
+    );
+
+  // TEST TYPE 1: VALID (Happy Path)
+  describe('Valid - Happy Path', () => {
+    it('should verify the token once and invite an anonymous user to log in', async () => {
+      vi.mocked(authApi.verifyEmail).mockResolvedValue();
+      renderVerifyEmail();
+
+      expect(screen.getByText(/verificando tu correo/i)).toBeInTheDocument();
+      expect(await screen.findByText(/correo verificado/i)).toBeInTheDocument();
+      expect(authApi.verifyEmail).toHaveBeenCalledTimes(1);
+      expect(authApi.verifyEmail).toHaveBeenCalledWith('tok-123');
+      expect(screen.getByRole('link', { name: /iniciar sesión/i })).toHaveAttribute('href', '/login');
+      expect(authApi.getProfile).not.toHaveBeenCalled();
+    });
+
+    it('should unlock uploads for the signed-in user', async () => {
+      useAuthStore.setState({ user, tokens: { access: 'a', refresh: 'r' }, isAuthenticated: true });
+      vi.mocked(authApi.verifyEmail).mockResolvedValue();
+      vi.mocked(authApi.getProfile).mockResolvedValue({ ...user, email_verified: true });
+      renderVerifyEmail();
+
+      expect(await screen.findByRole('link', { name: /subir datos/i })).toHaveAttribute('href', '/upload');
+      await vi.waitFor(() => expect(useAuthStore.getState().user?.email_verified).toBe(true));
+    });
+  });
+
+  // TEST TYPE 2: ERROR HANDLING
+  describe('Error Handling', () => {
+    it('should explain an invalid or expired link', async () => {
+      vi.mocked(authApi.verifyEmail).mockRejectedValue(
+        new ValidationError('Request failed', { status: 400, data: { token: ['Invalid'] } })
+      );
+      useAuthStore.setState({ user, tokens: { access: 'a', refresh: 'r' }, isAuthenticated: true });
+      renderVerifyEmail();
+
+      expect(await screen.findByRole('alert')).toHaveTextContent(/no es válido o ya expiró/i);
+      expect(screen.getByRole('link', { name: /solicitar un nuevo enlace/i })).toHaveAttribute(
+        'href',
+        '/verify-email'
+      );
+    });
+
+    it('should show other failures as they are', async () => {
+      vi.mocked(authApi.verifyEmail).mockRejectedValue(new NetworkError('Network Error'));
+      renderVerifyEmail();
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Network Error');
+      expect(screen.getByRole('link', { name: /inicia sesión/i })).toHaveAttribute('href', '/login');
+    });
+  });
+});
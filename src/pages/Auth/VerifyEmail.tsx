@@ -0,0 +1,113 @@
+/**
+ * Verify Email Page
+ * Confirms the email address with the token from the verification link
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuthStore } from '@/store/authStore';
+import * as authApi from '@/lib/api/auth';
+import { ValidationError, hasStatus } from '@/lib/api/errors';
+import { Card, CardHeader } from '@/components/ui/Card';
+import { useTranslation } from '@/hooks/useTranslation';
+
+type VerificationStatus = 'verifying' | 'verified' | 'failed';
+
+export const VerifyEmail: React.FC = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const [status, setStatus] = useState<VerificationStatus>('verifying');
+  // The server's message, or null when the link itself was rejected
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
+  // Tokens are single use, so StrictMode's second effect run must not resend it
+  const requestedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (requestedToken.current === token) return;
+    requestedToken.current = token;
+
+    authApi
+      .verifyEmail(token)
+      .then(() => {
+        setStatus('verified');
+        if (useAuthStore.getState().isAuthenticated) {
+          useAuthStore.getState().refreshProfile().catch(() => {
+            // The check-your-email screen can refresh the profile again
+          });
+        }
+      })
+      .catch((err) => {
+        setError(
+          err instanceof ValidationError || hasStatus(err, 404)
+            ? null
+            : authApi.extractErrorMessage(err)
+        );
+        setStatus('failed');
+      });
+  }, [token]);
+
+  const renderContent = () => {
+    if (status === 'verifying') {
+      return (
+        <div className="space-y-4">
+          <CardHeader title={t('verifyEmail.verifyingTitle')} />
+          <p className="text-sm text-gray-600" role="status">{t('verifyEmail.verifyingBody')}</p>
+        </div>
+      );
+    }
+
+    if (status === 'verified') {
+      return (
+        <div className="space-y-6">
+          <CardHeader title={t('verifyEmail.verifiedTitle')} />
+          <div
+            className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md"
+            role="status"
+          >
+            <p className="text-sm">{t('verifyEmail.verifiedBody')}</p>
+          </div>
+          <Link
+            to={isAuthenticated ? '/upload' : '/login'}
+            className="block text-center text-blue-600 hover:text-blue-500 font-medium text-sm"
+          >
+            {isAuthenticated ? t('verifyEmail.upload') : t('common.signIn')}
+          </Link>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <CardHeader title={t('verifyEmail.failedTitle')} />
+        <div
+          className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md"
+          role="alert"
+        >
+          <p className="text-sm">{error ?? t('verifyEmail.invalidLink')}</p>
+        </div>
+        <Link
+          to={isAuthenticated ? '/verify-email' : '/login'}
+          className="block text-center text-blue-600 hover:text-blue-500 font-medium text-sm"
+        >
+          {isAuthenticated ? t('common.requestNewLink') : t('verifyEmail.signInForNewLink')}
+        </Link>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">AYNI</h1>
+          <p className="text-gray-600">
+            {t('common.tagline')}
+          </p>
+        </div>
+
+        <Card>{renderContent()}</Card>
+      </div>
+    </div>
+  );
+};
@@ -6,3 +6,7 @@
 export { Login } from './Login';
 export { Register } from './Register';
 export { ChangePassword } from './ChangePassword';
+export { ForgotPassword } from './ForgotPassword';
+export { ResetPassword } from './ResetPassword';
+export { CheckEmail } from './CheckEmail';
+export { VerifyEmail } from './VerifyEmail';
@@ -0,0 +1,279 @@
+/**
+ * Dashboard Page Tests
+ * Covers sales figures, period comparison, currency views and top sellers
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { Dashboard } from './Dashboard';
+import { getSalesSummary } from '@/lib/api/analytics';
+import { listDailyRates } from '@/lib/api/rates';
+import { NetworkError, ServerError } from '@/lib/api/errors';
+import { EMPTY_VALUE } from '@/lib/utils';
+import { useAuthStore } from '@/store/authStore';
+import { useCurrencyStore } from '@/store/currencyStore';
+import type { SalesSummary, SalesSummaryParams } from '@/types/analytics';
+
+vi.mock('@/lib/api/analytics', () => ({
+  ANALYTICS_QUERY_KEY: ['analytics'],
+  getSalesSummary: vi.fn(),
+}));
+
+vi.mock('@/lib/api/rates', () => ({
+  RATES_QUERY_KEY: ['rates'],
+  listDailyRates: vi.fn(),
+}));
+
+const current: SalesSummary = {
+  totals: { revenue: 300000, units: 30, transactions: 12 },
+  series: [
+    { date: '2024-03-09', revenue: 100000, units: 10, transactions: 4 },
+    { date: '2024-03-10', revenue: 200000, units: 20, transactions: 8 },
+  ],
+  top_products: [
+    { product_id: 'P1', description: 'Pan amasado', revenue: 150000, units: 15, unit_type: 'kilos' },
+    { product_id: 'P2', description: null, revenue: 90000, units: 9, unit_type: null },
+  ],
+  top_categories: [{ category: 'Panadería', revenue: 300000, units: 30 }],
+};
+
+const previous: SalesSummary = {
+  totals: { revenue: 240000, units: 30, transactions: 10 },
+  series: [],
+  top_products: [],
+  top_categories: [],
+};
+
+const empty: SalesSummary = {
+  totals: { revenue: 0, units: 0, transactions: 0 },
+  series: [],
+  top_products: [],
+  top_categories: [],
+};
+
+// Answer the dashboard range with `current` and the comparison with `previous`
+const answerByRange = (params: SalesSummaryParams) =>
+  Promise.resolve(params.to === '2024-03-10' ? current : previous);
+
+const kpi = (label: string) => screen.getByRole('group', { name: label });
+
+describe('Dashboard Page', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-10T15:00:00Z'));
+    useAuthStore.setState({
+      user: {
+        id: 1,
+        email: 'ana@empresa.cl',
+        username: 'ana',
+        is_active: true,
+        is_staff: false,
+        email_verified: true,
+        date_joined: '2024-01-01T00:00:00Z',
+        last_login: null,
+      },
+      isAuthenticated: true,
+    });
+    vi.mocked(getSalesSummary).mockImplementation(answerByRange);
+    vi.mocked(listDailyRates).mockResolvedValue([
+      { date: '2024-03-09', uf: 10000, usd: 950 },
+      { date: '2024-03-10', uf: 20000, usd: 950 },
+    ]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    useAuthStore.setState({ user: null, isAuthenticated: false });
+    useCurrencyStore.setState({ view: 'nominal' });
+    localStorage.clear();
+  });
+
+  const renderPage = () =>
+    render(
+      <QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+        <MemoryRouter>
+          <Dashboard />
+        </MemoryRouter>
+      </QueryClientProvider>
+    );
+
+  describe('Valid Input Tests', () => {
+    it('should request the last 30 days and the period before by default', async () => {
+      renderPage();
+
+      await screen.findByRole('group', { name: 'Ticket promedio' });
+      expect(getSalesSummary).toHaveBeenCalledWith(
+        { from: '2024-02-10', to: '2024-03-10', granularity: 'day', limit: 5 },
+        expect.any(AbortSignal)
+      );
+      expect(getSalesSummary).toHaveBeenCalledWith(
+        { from: '2024-01-11', to: '2024-02-09', granularity: 'day', limit: 5 },
+        expect.any(AbortSignal)
+      );
+      expect(screen.getByText('Comparado con 11-01-2024 – 09-02-2024')).toBeInTheDocument();
+    });
+
+    it('should show revenue, units, average ticket and transactions with their change', async () => {
+      renderPage();
+      await screen.findByRole('group', { name: 'Ticket promedio' });
+      await waitFor(() => expect(kpi('Ingresos')).toHaveTextContent('Antes: $240.000'));
+
+      expect(kpi('Ingresos')).toHaveTextContent('$300.000');
+      expect(kpi('Ingresos')).toHaveTextContent('+25%');
+      expect(kpi('Unidades vendidas')).toHaveTextContent('30');
+      expect(kpi('Unidades vendidas')).toHaveTextContent('0%Antes: 30');
+      expect(kpi('Ticket promedio')).toHaveTextContent('$25.000');
+      expect(kpi('Ticket promedio')).toHaveTextContent('+4,2%');
+      expect(kpi('Transacciones')).toHaveTextContent('12');
+      expect(kpi('Transacciones')).toHaveTextContent('+20%');
+    });
+
+    it('should list top products with their unit and top categories', async () => {
+      renderPage();
+
+      const products = await screen.findByRole('region', { name: 'Productos más vendidos' });
+      const rows = within(products).getAllByRole('row');
+      expect(rows[1]).toHaveTextContent('Pan amasado$150.00015 kg');
+      // Without a description the product id is shown
+      expect(rows[2]).toHaveTextContent('P2$90.0009');
+
+      const categories = screen.getByRole('region', { name: 'Categorías más vendidas' });
+      expect(within(categories).getByText('Panadería')).toBeInTheDocument();
+    });
+  });
+
+  describe('Functional Tests', () => {
+    it('should request a preset range', async () => {
+      const user = userEvent.setup();
+      renderPage();
+      await screen.findByRole('group', { name: 'Ticket promedio' });
+
+      await user.selectOptions(screen.getByLabelText('Período'), 'last7');
+
+      await waitFor(() => {
+        expect(getSalesSummary).toHaveBeenCalledWith(
+          { from: '2024-03-04', to: '2024-03-10', granularity: 'day', limit: 5 },
+          expect.any(AbortSignal)
+        );
+      });
+    });
+
+    it('should stop comparing when no comparison is chosen', async () => {
+      const user = userEvent.setup();
+      renderPage();
+      await screen.findByRole('group', { name: 'Ticket promedio' });
+
+      await user.selectOptions(screen.getByLabelText('Comparar con'), 'none');
+
+      expect(kpi('Ingresos')).not.toHaveTextContent('Antes');
+      expect(screen.queryByText(/Comparado con/)).not.toBeInTheDocument();
+    });
+
+    it('should compare with the same period a year earlier', async () => {
+      const user = userEvent.setup();
+      renderPage();
+      await screen.findByRole('group', { name: 'Ticket promedio' });
+
+      await user.selectOptions(screen.getByLabelText('Comparar con'), 'previousYear');
+
+      await waitFor(() => {
+        expect(getSalesSummary).toHaveBeenCalledWith(
+          { from: '2023-02-10', to: '2023-03-10', granularity: 'day', limit: 5 },
+          expect.any(AbortSignal)
+        );
+      });
+    });
+
+    it('should show amounts in UF at each day\'s rate', async () => {
+      const user = userEvent.setup();
+      renderPage();
+      await screen.findByRole('group', { name: 'Ticket promedio' });
+
+      await user.click(screen.getByRole('radio', { name: 'UF' }));
+
+      // 100.000 at 10.000 plus 200.000 at 20.000
+      await waitFor(() => expect(kpi('Ingresos')).toHaveTextContent('UF 20,00'));
+      expect(kpi('Ticket promedio')).toHaveTextContent('UF 1,67');
+      // Units are not amounts
+      expect(kpi('Unidades vendidas')).toHaveTextContent('30');
+    });
+  });
+
+  describe('Edge Case Tests', () => {
+    it('should not convert sales after the last rate is out of date', async () => {
+      const user = userEvent.setup();
+      vi.mocked(listDailyRates).mockResolvedValue([{ date: '2024-03-01', uf: 10000, usd: 950 }]);
+      renderPage();
+      await screen.findByRole('group', { name: 'Ticket promedio' });
+
+      await user.click(screen.getByRole('radio', { name: 'UF' }));
+
+      expect(
+        await screen.findByText('Los valores de la UF llegan hasta el 01-03-2024; las ventas posteriores no se convierten.')
+      ).toBeInTheDocument();
+      expect(kpi('Ingresos')).toHaveTextContent(EMPTY_VALUE);
+    });
+
+    it('should point to uploads when the period has no sales', async () => {
+      vi.mocked(getSalesSummary).mockResolvedValue(empty);
+      renderPage();
+
+      expect(await screen.findByText('No hay ventas registradas en este período.')).toBeInTheDocument();
+      expect(screen.getByRole('link', { name: 'Sube un archivo de ventas' })).toHaveAttribute('href', '/upload');
+      expect(screen.queryByRole('group', { name: 'Ingresos' })).not.toBeInTheDocument();
+    });
+
+    it('should keep the greeting and account links', async () => {
+      renderPage();
+
+      expect(screen.getByText('Hola, ana')).toBeInTheDocument();
+      expect(screen.getByRole('link', { name: 'Historial de cargas' })).toHaveAttribute('href', '/uploads');
+    });
+  });
+
+  describe('Invalid Input Tests', () => {
+    it('should not request a range that ends before it starts', async () => {
+      const user = userEvent.setup();
+      renderPage();
+      await screen.findByRole('group', { name: 'Ticket promedio' });
+      const calls = vi.mocked(getSalesSummary).mock.calls.length;
+
+      const from = screen.getByLabelText('Desde');
+      await user.clear(from);
+      await user.type(from, '2024-03-20');
+
+      expect(screen.getByText('La fecha de inicio debe ser anterior o igual a la de término')).toBeInTheDocument();
+      expect(from).toHaveAttribute('aria-invalid', 'true');
+      expect(vi.mocked(getSalesSummary).mock.calls.length).toBe(calls);
+    });
+  });
+
+  describe('Error Handling Tests', () => {
+    it('should show an error when the analytics cannot be loaded', async () => {
+      vi.mocked(getSalesSummary).mockRejectedValue(
+        new ServerError('Request failed', { status: 500, data: { detail: 'Error del servidor' } })
+      );
+      renderPage();
+
+      expect(await screen.findByRole('alert')).toBeInTheDocument();
+    });
+
+    it('should show nominal pesos when the rates cannot be loaded', async () => {
+      const user = userEvent.setup();
+      vi.mocked(listDailyRates).mockRejectedValue(new NetworkError('Network Error'));
+      renderPage();
+      await screen.findByRole('group', { name: 'Ticket promedio' });
+
+      await user.click(screen.getByRole('radio', { name: 'UF' }));
+
+      expect(
+        await screen.findByText('No se pudieron cargar los valores de la UF; se muestran pesos nominales.')
+      ).toBeInTheDocument();
+      expect(kpi('Ingresos')).not.toHaveTextContent('UF');
+    });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Dashboard Page
+ * Sales analytics for a date range: headline figures, trends and top sellers
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { selectIsEmailVerified, useAuthStore } from '@/store/authStore';
+import { extractErrorMessage } from '@/lib/api/auth';
+import { alignSeries, averageTicket, percentChange } from '@/lib/analytics';
+import { rangeForPreset, type Comparison } from '@/lib/dateRanges';
+import {
+  EMPTY_VALUE,
+  formatCompactCurrency,
+  formatCompactNumber,
+  formatCurrency,
+  formatDate,
+  formatQuantity,
+} from '@/lib/utils';
+import { useCurrencyConversion } from '@/hooks/useCurrencyConversion';
+import { useSalesAnalytics } from '@/hooks/useSalesAnalytics';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { DateRange, SalesTotals } from '@/types/analytics';
+import { Button } from '@/components/ui/Button';
+import { Card, CardHeader } from '@/components/ui/Card';
+import { CurrencyToggle } from '@/components/ui/CurrencyToggle';
+import { DateRangePicker } from '@/components/Dashboard/DateRangePicker';
+import { KpiCard } from '@/components/Dashboard/KpiCard';
+import { TopSellersTable, type TopSellerRow } from '@/components/Dashboard/TopSellersTable';
+import { TrendChart } from '@/components/Dashboard/TrendChart';
+
+const linkClassName = 'text-blue-600 hover:text-blue-500 font-medium text-sm';
+
+export const Dashboard: React.FC = () => {
+  const navigate = useNavigate();
+  const { t, formatLocale: locale } = useTranslation();
+  const { user, logout, isLoading: isLoggingOut } = useAuthStore();
+  const isEmailVerified = useAuthStore(selectIsEmailVerified);
+
+  const [range, setRange] = useState<DateRange>(() => rangeForPreset('last30'));
+  const [comparison, setComparison] = useState<Comparison>('previousPeriod');
+
+  const { currency } = useCurrencyConversion();
+  const { summary, previousSummary, previousRange, granularity, isLoading, isFetching, error } =
+    useSalesAnalytics(range, comparison);
+
+  const formatAmount = (amount: number | null) =>
+    amount === null ? EMPTY_VALUE : formatCurrency(amount, currency, { locale });
+  const formatAmountTick = (amount: number) => formatCompactCurrency(amount, currency, { locale });
+  const formatCount = (count: number) => formatQuantity(count, null, { locale });
+  const formatCountTick = (count: number) => formatCompactNumber(count, { locale });
+
+  const series = useMemo(
+    () => (summary ? alignSeries(summary.series, previousSummary?.series) : []),
+    [summary, previousSummary]
+  );
+
+  const handleLogout = async () => {
+    await logout();
+    navigate('/login');
+  };
+
+  const kpis = (totals: SalesTotals<number | null>, previous?: SalesTotals<number | null>) => {
+    const ticket = averageTicket(totals);
+    const previousTicket = previous && averageTicket(previous);
+    return [
+      {
+        label: t('dashboard.kpi.revenue'),
+        value: formatAmount(totals.revenue),
+        previousValue: previous && formatAmount(previous.revenue),
+        change: percentChange(totals.revenue, previous?.revenue),
+      },
+      {
+        label: t('dashboard.kpi.units'),
+        value: formatCount(totals.units),
+        previousValue: previous && formatCount(previous.units),
+        change: percentChange(totals.units, previous?.units),
+      },
+      {
+        label: t('dashboard.kpi.averageTicket'),
+        value: formatAmount(ticket),
+        previousValue: previous && formatAmount(previousTicket ?? null),
+        change: percentChange(ticket, previousTicket),
+      },
+      {
+        label: t('dashboard.kpi.transactions'),
+        value: formatCount(totals.transactions),
+        previousValue: previous && formatCount(previous.transactions),
+        change: percentChange(totals.transactions, previous?.transactions),
+      },
+    ];
+  };
+
+  const productRows: TopSellerRow[] = (summary?.top_products ?? []).map((product) => ({
+    key: product.product_id,
+    label: product.description || product.product_id,
+    revenue: formatAmount(product.revenue),
+    units: formatQuantity(product.units, product.unit_type, { locale }),
+  }));
+
+  const categoryRows: TopSellerRow[] = (summary?.top_categories ?? []).map((category) => ({
+    key: category.category,
+    label: category.category,
+    revenue: formatAmount(category.revenue),
+    units: formatCount(category.units),
+  }));
+
+  const hasSales = summary !== undefined && summary.totals.transactions > 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-12">
+      <div className="max-w-6xl mx-auto">
+        <Card>
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <CardHeader
+                title={t('dashboard.greeting', { name: user?.username ?? '' })}
+                subtitle={t('dashboard.subtitle')}
+              />
+              <Button variant="outline" onClick={handleLogout} isLoading={isLoggingOut}>
+                {t('dashboard.logout')}
+              </Button>
+            </div>
+
+            {!isEmailVerified && (
+              <div
+                className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md"
+                role="status"
+              >
+                <p className="text-sm">
+                  {t('dashboard.verifyEmail')}{' '}
+                  <Link to="/verify-email" className="font-medium underline">
+                    {t('dashboard.verifyEmailLink')}
+                  </Link>
+                </p>
+              </div>
+            )}
+
+            <nav className="flex flex-wrap gap-3">
+              <Link to="/upload" className={linkClassName}>
+                {t('dashboard.navUpload')}
+              </Link>
+              <Link to="/uploads" className={linkClassName}>
+                {t('dashboard.navUploads')}
+              </Link>
+              <Link to="/templates" className={linkClassName}>
+                {t('dashboard.navTemplates')}
+              </Link>
+              <Link to="/settings/profile" className={linkClassName}>
+                {t('dashboard.navProfile')}
+              </Link>
+              <Link to="/change-password" className={linkClassName}>
+                {t('dashboard.navChangePassword')}
+              </Link>
+            </nav>
+
+            <div className="flex flex-wrap items-end justify-between gap-4 border-t border-gray-200 pt-6">
+              <DateRangePicker
+                range={range}
+                onRangeChange={setRange}
+                comparison={comparison}
+                onComparisonChange={setComparison}
+              />
+              <CurrencyToggle />
+            </div>
+
+            {previousRange && (
+              <p className="text-xs text-gray-500">
+                {t('dashboard.comparedRange', {
+                  from: formatDate(previousRange.from, { locale }),
+                  to: formatDate(previousRange.to, { locale }),
+                })}
+              </p>
+            )}
+
+            {isLoading && <p className="text-sm text-gray-600">{t('dashboard.loading')}</p>}
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md" role="alert">
+                <p className="text-sm">{extractErrorMessage(error)}</p>
+              </div>
+            )}
+
+            {summary && !hasSales && (
+              <p className="text-sm text-gray-600">
+                {t('dashboard.empty')}{' '}
+                <Link to="/upload" className="font-medium text-blue-600 hover:text-blue-500">
+                  {t('dashboard.emptyUpload')}
+                </Link>
+              </p>
+            )}
+
+            {summary && hasSales && (
+              <div className={`space-y-6 ${isFetching ? 'opacity-60' : ''}`}>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                  {kpis(summary.totals, previousSummary?.totals).map((kpi) => (
+                    <KpiCard key={kpi.label} {...kpi} />
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <TrendChart
+                    title={t('dashboard.revenueOverTime')}
+                    data={series}
+                    metric="revenue"
+                    granularity={granularity}
+                    formatValue={formatAmount}
+                    formatTick={formatAmountTick}
+                  />
+                  <TrendChart
+                    title={t('dashboard.unitsOverTime')}
+                    data={series}
+                    metric="units"
+                    granularity={granularity}
+                    formatValue={formatCount}
+                    formatTick={formatCountTick}
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <TopSellersTable
+                    title={t('dashboard.topProducts')}
+                    itemLabel={t('dashboard.product')}
+                    rows={productRows}
+                  />
+                  <TopSellersTable
+                    title={t('dashboard.topCategories')}
+                    itemLabel={t('dashboard.category')}
+                    rows={categoryRows}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
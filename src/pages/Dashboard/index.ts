@@ -0,0 +1,6 @@
+/**
+ * Dashboard Pages Index
+ * Centralized exports for dashboard pages
+ */
+
+export { Dashboard } from './Dashboard';
@@ -0,0 +1,167 @@
+/**
+ * ProfileSettings Component Tests
+ * Covers editing the profile, email re-verification, rollback on errors
+ * and the language preference
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { ProfileSettings } from './ProfileSettings';
+import { useAuthStore } from '@/store/authStore';
+import { LOCALE_STORAGE_KEY, useLocaleStore } from '@/store/localeStore';
+import * as authApi from '@/lib/api/auth';
+import { ValidationError } from '@/lib/api/errors';
+import { FORMAT_LOCALES } from '@/lib/i18n';
+import { formatDate } from '@/lib/utils';
+import type { User } from '@/types/auth';
+
+vi.mock('@/lib/api/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api/auth')>()),
+  updateProfile: vi.fn(),
+}));
+
+const user: User = {
+  id: 1,
+  email: 'ana@example.com',
+  username: 'ana',
+  is_active: true,
+  is_staff: false,
+  email_verified: true,
+  date_joined: '2024-01-15T12:00:00Z',
+  last_login: '2024-06-01T12:00:00Z',
+};
+
+describe('ProfileSettings Component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    useAuthStore.setState({
+      user,
+      tokens: { access: 'access', refresh: 'refresh' },
+      isAuthenticated: true,
+      isLoading: false,
+      error: null,
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    useAuthStore.setState({ user: null, tokens: null, isAuthenticated: false });
+    useLocaleStore.setState({ locale: 'es', userId: null });
+    localStorage.clear();
+  });
+
+  const renderProfile = () =>
+    render(
+      <MemoryRouter>
+        <ProfileSettings />
+      </MemoryRouter>
+    );
+
+  const replaceField = async (label: RegExp, value: string) => {
+    const userEv = userEvent.setup();
+    const field = screen.getByLabelText(label);
+    await userEv.clear(field);
+    await userEv.type(field, value);
+    return userEv;
+  };
+
+  // TEST TYPE 1: VALID (Happy Path)
+  describe('Valid - Happy Path', () => {
+    it('should show the profile and account dates', () => {
+      renderProfile();
+
+      expect(screen.getByLabelText(/nombre de usuario/i)).toHaveValue('ana');
+      expect(screen.getByLabelText(/correo electrónico/i)).toHaveValue('ana@example.com');
+      expect(screen.getByText(formatDate(user.date_joined))).toBeInTheDocument();
+      expect(screen.getByText(formatDate(user.last_login as string))).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /guardar cambios/i })).toBeDisabled();
+    });
+
+    it('should send only the changed username', async () => {
+      vi.mocked(authApi.updateProfile).mockResolvedValue({ ...user, username: 'ana_tienda' });
+      renderProfile();
+
+      const userEv = await replaceField(/nombre de usuario/i, 'ana_tienda');
+      await userEv.click(screen.getByRole('button', { name: /guardar cambios/i }));
+
+      expect(authApi.updateProfile).toHaveBeenCalledWith({ username: 'ana_tienda' });
+      expect(await screen.findByText(/perfil actualizado/i)).toBeInTheDocument();
+      expect(useAuthStore.getState().user?.username).toBe('ana_tienda');
+    });
+
+    it('should ask to verify a changed email', async () => {
+      vi.mocked(authApi.updateProfile).mockResolvedValue({
+        ...user,
+        email: 'ana@tienda.cl',
+        email_verified: false,
+      });
+      renderProfile();
+
+      const userEv = await replaceField(/correo electrónico/i, 'ana@tienda.cl');
+      await userEv.click(screen.getByRole('button', { name: /guardar cambios/i }));
+
+      expect(authApi.updateProfile).toHaveBeenCalledWith({ email: 'ana@tienda.cl' });
+      expect(await screen.findByText(/enviamos un enlace de verificación/i)).toBeInTheDocument();
+      expect(screen.getByRole('link', { name: /revisar verificación/i })).toHaveAttribute('href', '/verify-email');
+      expect(screen.getByText(/pendiente de verificación/i)).toBeInTheDocument();
+    });
+
+    it('should switch to English and remember it for the user', async () => {
+      useLocaleStore.setState({ userId: user.id });
+      renderProfile();
+
+      await userEvent.setup().selectOptions(screen.getByLabelText(/idioma/i), 'en');
+
+      expect(screen.getByRole('button', { name: 'Save changes' })).toBeInTheDocument();
+      expect(screen.getByLabelText(/username/i)).toHaveValue('ana');
+      expect(screen.getByText(formatDate(user.date_joined, { locale: FORMAT_LOCALES.en }))).toBeInTheDocument();
+      expect(document.documentElement.lang).toBe('en');
+      expect(JSON.parse(localStorage.getItem(LOCALE_STORAGE_KEY) ?? '{}')).toEqual({
+        'user:1': 'en',
+        anonymous: 'en',
+      });
+    });
+  });
+
+  // TEST TYPE 2: INVALID INPUT
+  describe('Invalid Input Validation', () => {
+    it('should validate the username like registration does', async () => {
+      renderProfile();
+
+      const userEv = await replaceField(/nombre de usuario/i, 'ana tienda');
+      await userEv.click(screen.getByRole('button', { name: /guardar cambios/i }));
+
+      // The rule doubles as helper text, so wait for it to become the field error
+      await waitFor(() =>
+        expect(screen.getByLabelText(/nombre de usuario/i)).toHaveAttribute('aria-invalid', 'true')
+      );
+      expect(screen.getByText('Solo letras, números y guiones bajos')).toBeInTheDocument();
+      expect(authApi.updateProfile).not.toHaveBeenCalled();
+    });
+  });
+
+  // TEST TYPE 3: ERROR HANDLING
+  describe('Error Handling', () => {
+    it('should roll back and keep the rejected values when the server refuses', async () => {
+      vi.mocked(authApi.updateProfile).mockRejectedValue(
+        new ValidationError('Request failed', {
+          status: 400,
+          data: { username: ['Ya existe un usuario con este nombre.'] },
+        })
+      );
+      renderProfile();
+
+      const userEv = await replaceField(/nombre de usuario/i, 'tomado');
+      await userEv.click(screen.getByRole('button', { name: /guardar cambios/i }));
+
+      expect(await screen.findByText('Ya existe un usuario con este nombre.')).toBeInTheDocument();
+      expect(screen.getAllByRole('alert')).toHaveLength(1);
+      expect(useAuthStore.getState().user).toEqual(user);
+      expect(screen.getByLabelText(/nombre de usuario/i)).toHaveValue('tomado');
+      expect(screen.getByLabelText(/nombre de usuario/i)).toHaveAttribute('aria-invalid', 'true');
+    });
+  });
+});
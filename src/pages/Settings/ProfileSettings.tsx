@@ -0,0 +1,195 @@
+/**
+ * Profile Settings Page
+ * Edit username and email, and review account dates
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useAuthStore } from '@/store/authStore';
+import { formatDate } from '@/lib/utils';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardHeader } from '@/components/ui/Card';
+import { applyServerErrors, isShownOnField } from '@/lib/formErrors';
+import { LanguageSwitcher } from '@/components/ui/LanguageSwitcher';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { Translate } from '@/lib/i18n';
+
+const createProfileSchema = (t: Translate) =>
+  z.object({
+    username: z
+      .string()
+      .min(1, t('validation.usernameRequired'))
+      .min(3, t('validation.usernameTooShort', { minimum: 3 }))
+      .max(30, t('validation.usernameTooLong', { maximum: 30 }))
+      .regex(/^[a-zA-Z0-9_]+$/, t('common.usernameHelp')),
+    email: z
+      .string()
+      .min(1, t('validation.emailRequired'))
+      .email(),
+  });
+
+type ProfileFormData = z.infer<ReturnType<typeof createProfileSchema>>;
+
+const PROFILE_FIELDS = ['username', 'email'] as const;
+
+export const ProfileSettings: React.FC = () => {
+  const { user, updateProfile, isLoading, error, clearError } = useAuthStore();
+  const [saved, setSaved] = useState<'profile' | 'email' | null>(null);
+  const { t, formatLocale } = useTranslation();
+  const profileSchema = useMemo(() => createProfileSchema(t), [t]);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isDirty },
+    setError,
+    reset,
+  } = useForm<ProfileFormData>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: {
+      username: user?.username ?? '',
+      email: user?.email ?? '',
+    },
+  });
+
+  // Clear error on component unmount
+  useEffect(() => {
+    return () => clearError();
+  }, [clearError]);
+
+  if (!user) return null;
+
+  const onSubmit = async (data: ProfileFormData) => {
+    setSaved(null);
+    const emailChanged = data.email !== user.email;
+
+    try {
+      // The store shows the change at once and rolls it back if the server refuses
+      await updateProfile({
+        ...(data.username !== user.username && { username: data.username }),
+        ...(emailChanged && { email: data.email }),
+      });
+      reset(data);
+      // The server marks a new email unverified and mails the link
+      const needsVerification = !useAuthStore.getState().user?.email_verified;
+      setSaved(emailChanged && needsVerification ? 'email' : 'profile');
+    } catch (err) {
+      // The store keeps the banner message; field errors go on their inputs,
+      // which keep the rejected values
+      applyServerErrors(err, setError, PROFILE_FIELDS);
+      console.error('Profile update failed:', err);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-12">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <Link to="/dashboard" className="text-sm text-blue-600 hover:text-blue-500 font-medium">
+          {t('profile.back')}
+        </Link>
+
+        <Card>
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-6" noValidate>
+            <CardHeader title={t('profile.title')} subtitle={t('profile.subtitle')} />
+
+            {error && !isShownOnField(error, PROFILE_FIELDS) && (
+              <div
+                className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md"
+                role="alert"
+              >
+                <p className="text-sm">{error.message}</p>
+              </div>
+            )}
+
+            {saved === 'profile' && (
+              <div
+                className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md"
+                role="status"
+              >
+                <p className="text-sm">{t('profile.saved')}</p>
+              </div>
+            )}
+
+            {saved === 'email' && (
+              <div
+                className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md"
+                role="status"
+              >
+                <p className="text-sm">
+                  {t('profile.emailSentBefore')} <strong>{user.email}</strong>
+                  {t('profile.emailSentAfter')}{' '}
+                  <Link to="/verify-email" className="font-medium underline">
+                    {t('profile.reviewVerification')}
+                  </Link>
+                </p>
+              </div>
+            )}
+
+            <Input
+              {...register('username')}
+              type="text"
+              label={t('common.username')}
+              error={errors.username?.message}
+              helperText={t('common.usernameHelp')}
+              autoComplete="username"
+              required
+              disabled={isLoading}
+            />
+
+            <Input
+              {...register('email')}
+              type="email"
+              label={t('common.email')}
+              error={errors.email?.message}
+              helperText={t('profile.emailHelp')}
+              autoComplete="email"
+              required
+              disabled={isLoading}
+            />
+
+            <Button
+              type="submit"
+              variant="primary"
+              isLoading={isLoading}
+              disabled={!isDirty}
+            >
+              {isLoading ? t('common.saving') : t('profile.save')}
+            </Button>
+          </form>
+        </Card>
+
+        <Card>
+          <div className="space-y-4">
+            <CardHeader title={t('profile.accountTitle')} />
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div>
+                <dt className="text-gray-500">{t('profile.memberSince')}</dt>
+                <dd className="font-medium text-gray-900">{formatDate(user.date_joined, { locale: formatLocale })}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">{t('profile.lastLogin')}</dt>
+                <dd className="font-medium text-gray-900">
+                  {user.last_login ? formatDate(user.last_login, { locale: formatLocale }) : t('profile.never')}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">{t('profile.emailStatus')}</dt>
+                <dd className="font-medium text-gray-900">
+                  {user.email_verified ? t('profile.verified') : t('profile.pendingVerification')}
+                </dd>
+              </div>
+            </dl>
+            <div>
+              <LanguageSwitcher />
+              <p className="mt-1 text-xs text-gray-500">{t('profile.languageHelp')}</p>
+            </div>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
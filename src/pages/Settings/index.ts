@@ -0,0 +1,6 @@
+/**
+ * Settings Pages Index
+ * Centralized exports for account settings pages
+ */
+
+export { ProfileSettings } from './ProfileSettings';
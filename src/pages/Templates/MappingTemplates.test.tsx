@@ -0,0 +1,128 @@
+/**
+ * Mapping Templates Page Tests
+ * Covers listing, renaming/re-mapping and deleting saved templates
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MappingTemplates } from './MappingTemplates';
+import {
+  deleteMappingTemplate,
+  listMappingTemplates,
+  updateMappingTemplate,
+} from '@/lib/api/mappingTemplates';
+import type { MappingTemplate } from '@/types/mappingTemplate';
+
+vi.mock('@/lib/api/mappingTemplates', () => ({
+  MAPPING_TEMPLATES_QUERY_KEY: ['mapping-templates'],
+  listMappingTemplates: vi.fn(),
+  updateMappingTemplate: vi.fn(),
+  deleteMappingTemplate: vi.fn(),
+}));
+
+const template: MappingTemplate = {
+  id: 't1',
+  name: 'Bsale export',
+  fingerprint: 'abcd1234',
+  headers: ['fecha', 'id', 'producto', 'cantidad', 'total', 'notas'],
+  mappings: [
+    { csvColumn: 'fecha', systemColumn: 'in_dt' },
+    { csvColumn: 'id', systemColumn: 'in_trans_id' },
+    { csvColumn: 'producto', systemColumn: 'in_product_id' },
+    { csvColumn: 'cantidad', systemColumn: 'in_quantity' },
+    { csvColumn: 'total', systemColumn: 'in_price_total' },
+    { csvColumn: 'notas', systemColumn: null },
+  ],
+  created_at: '2024-01-01T12:00:00Z',
+  updated_at: '2024-03-15T12:00:00Z',
+};
+
+describe('MappingTemplates Page', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderPage = () =>
+    render(
+      <QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+        <MemoryRouter>
+          <MappingTemplates />
+        </MemoryRouter>
+      </QueryClientProvider>
+    );
+
+  it('should list saved templates', async () => {
+    vi.mocked(listMappingTemplates).mockResolvedValue([template]);
+    renderPage();
+
+    expect(await screen.findByText('Bsale export')).toBeInTheDocument();
+    expect(screen.getByText(/5 de 6 columnas mapeadas/)).toBeInTheDocument();
+  });
+
+  it('should show an empty state', async () => {
+    vi.mocked(listMappingTemplates).mockResolvedValue([]);
+    renderPage();
+
+    expect(await screen.findByText(/aún no tienes plantillas/i)).toBeInTheDocument();
+  });
+
+  it('should show an error when templates cannot be loaded', async () => {
+    vi.mocked(listMappingTemplates).mockRejectedValue(new Error('Servidor no disponible'));
+    renderPage();
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Servidor no disponible');
+  });
+
+  it('should rename a template and save its mapping', async () => {
+    const user = userEvent.setup();
+    vi.mocked(listMappingTemplates).mockResolvedValue([template]);
+    vi.mocked(updateMappingTemplate).mockResolvedValue({ ...template, name: 'Bsale 2024' });
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: 'Editar Bsale export' }));
+    const nameInput = screen.getByLabelText('Nombre de la plantilla');
+    await user.clear(nameInput);
+    await user.type(nameInput, 'Bsale 2024');
+    await user.selectOptions(screen.getByLabelText('Mapear columna CSV notas'), 'in_description');
+    await user.click(screen.getByRole('button', { name: 'Guardar cambios' }));
+
+    await waitFor(() => {
+      expect(updateMappingTemplate).toHaveBeenCalled();
+    });
+    const [id, data] = vi.mocked(updateMappingTemplate).mock.calls[0];
+    expect(id).toBe('t1');
+    expect(data.name).toBe('Bsale 2024');
+    expect(data.mappings).toContainEqual({ csvColumn: 'notas', systemColumn: 'in_description' });
+  });
+
+  it('should not save a template without a name', async () => {
+    const user = userEvent.setup();
+    vi.mocked(listMappingTemplates).mockResolvedValue([template]);
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: 'Editar Bsale export' }));
+    await user.clear(screen.getByLabelText('Nombre de la plantilla'));
+
+    expect(screen.getByText('Ingresa un nombre para la plantilla')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Guardar cambios' })).toBeDisabled();
+  });
+
+  it('should ask for confirmation before deleting', async () => {
+    const user = userEvent.setup();
+    vi.mocked(listMappingTemplates).mockResolvedValue([template]);
+    vi.mocked(deleteMappingTemplate).mockResolvedValue();
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: 'Eliminar Bsale export' }));
+    expect(deleteMappingTemplate).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: 'Confirmar eliminación' }));
+
+    await waitFor(() => {
+      expect(deleteMappingTemplate).toHaveBeenCalledWith('t1', expect.anything());
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Mapping Templates Page
+ * Lists saved column-mapping templates and lets the user rename, edit or delete them
+ */
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  MAPPING_TEMPLATES_QUERY_KEY,
+  deleteMappingTemplate,
+  listMappingTemplates,
+  updateMappingTemplate,
+} from '@/lib/api/mappingTemplates';
+import { extractErrorMessage } from '@/lib/api/auth';
+import { formatDate } from '@/lib/utils';
+import type { ColumnMapping as ColumnMappingType } from '@/types/columnSchema';
+import type { MappingTemplate } from '@/types/mappingTemplate';
+import { ColumnMapping } from '@/components/Upload/ColumnMapping';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardHeader } from '@/components/ui/Card';
+import { useTranslation } from '@/hooks/useTranslation';
+
+export const MappingTemplates: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { t, formatLocale } = useTranslation();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const { data: templates = [], isLoading, error } = useQuery({
+    queryKey: MAPPING_TEMPLATES_QUERY_KEY,
+    queryFn: listMappingTemplates,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteMappingTemplate,
+    onSuccess: () => {
+      setConfirmDeleteId(null);
+      queryClient.invalidateQueries({ queryKey: MAPPING_TEMPLATES_QUERY_KEY });
+    },
+  });
+
+  const editing = templates.find(template => template.id === editingId);
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-12">
+      <div className="max-w-5xl mx-auto">
+        <Card>
+          <div className="space-y-6">
+            <CardHeader
+              title={t('templates.title')}
+              subtitle={t('templates.subtitle')}
+            />
+
+            {isLoading && <p className="text-sm text-gray-600">{t('templates.loading')}</p>}
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md" role="alert">
+                <p className="text-sm">{extractErrorMessage(error)}</p>
+              </div>
+            )}
+
+            {deleteMutation.error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md" role="alert">
+                <p className="text-sm">{extractErrorMessage(deleteMutation.error)}</p>
+              </div>
+            )}
+
+            {!isLoading && !error && templates.length === 0 && (
+              <p className="text-sm text-gray-600">
+                {t('templates.empty')}{' '}
+                <Link to="/upload" className="text-blue-600 hover:text-blue-500 font-medium">
+                  {t('templates.emptyLink')}
+                </Link>
+                .
+              </p>
+            )}
+
+            {editing ? (
+              <TemplateEditor template={editing} onDone={() => setEditingId(null)} />
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {templates.map(template => (
+                  <li key={template.id} className="py-4 flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                      <p className="font-medium text-gray-900">{template.name}</p>
+                      <p className="text-sm text-gray-600">
+                        {t('templates.summary', {
+                          mapped: template.mappings.filter(m => m.systemColumn !== null).length,
+                          total: template.headers.length,
+                          date: formatDate(template.updated_at, { locale: formatLocale }),
+                        })}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setEditingId(template.id)}
+                        aria-label={t('templates.editLabel', { name: template.name })}
+                      >
+                        {t('templates.edit')}
+                      </Button>
+                      {confirmDeleteId === template.id ? (
+                        <>
+                          <Button
+                            variant="danger"
+                            size="sm"
+                            isLoading={deleteMutation.isPending}
+                            onClick={() => deleteMutation.mutate(template.id)}
+                          >
+                            {t('common.confirmDelete')}
+                          </Button>
+                          <Button variant="secondary" size="sm" onClick={() => setConfirmDeleteId(null)}>
+                            {t('common.cancel')}
+                          </Button>
+                        </>
+                      ) : (
+                        <Button
+                          variant="danger"
+                          size="sm"
+                          onClick={() => setConfirmDeleteId(template.id)}
+                          aria-label={t('templates.deleteLabel', { name: template.name })}
+                        >
+                          {t('templates.delete')}
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="pt-4 border-t border-gray-200">
+              <Link to="/upload" className="text-blue-600 hover:text-blue-500 font-medium text-sm">
+                {t('templates.back')}
+              </Link>
+            </div>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Rename a template and re-map its saved headers
+ */
+const TemplateEditor: React.FC<{ template: MappingTemplate; onDone: () => void }> = ({
+  template,
+  onDone,
+}) => {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+  const [name, setName] = useState(template.name);
+  const [mappings, setMappings] = useState<ColumnMappingType[]>(template.mappings);
+  const [isValid, setIsValid] = useState(false);
+
+  const updateMutation = useMutation({
+    mutationFn: () => updateMappingTemplate(template.id, { name: name.trim(), mappings }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: MAPPING_TEMPLATES_QUERY_KEY });
+      onDone();
+    },
+  });
+
+  const nameError = name.trim() ? undefined : t('templates.nameRequired');
+
+  return (
+    <div className="space-y-6">
+      <Input
+        id="template-edit-name"
+        label={t('templates.name')}
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        error={nameError}
+        maxLength={100}
+      />
+
+      <ColumnMapping
+        csvColumns={template.headers}
+        initialMappings={template.mappings}
+        onMappingChange={setMappings}
+        onValidationChange={setIsValid}
+      />
+
+      {updateMutation.error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md" role="alert">
+          <p className="text-sm">{extractErrorMessage(updateMutation.error)}</p>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <Button variant="outline" onClick={onDone} disabled={updateMutation.isPending}>
+          {t('common.cancel')}
+        </Button>
+        <Button
+          onClick={() => updateMutation.mutate()}
+          isLoading={updateMutation.isPending}
+          disabled={!!nameError || !isValid}
+        >
+          {t('templates.saveChanges')}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,6 @@
+/**
+ * Templates Pages Index
+ * Centralized exports for mapping template pages
+ */
+
+export { MappingTemplates } from './MappingTemplates';
@@ -0,0 +1,321 @@
+/**
+ * Upload Wizard Tests
+ * Covers step navigation, mapping gating, submission and refresh recovery
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { CanceledError } from 'axios';
+import { UploadWizard } from './UploadWizard';
+import { useUploadWizardStore } from '@/store/uploadWizardStore';
+import { useLocaleStore } from '@/store/localeStore';
+import { createUpload } from '@/lib/api/uploads';
+import { createMappingTemplate, listMappingTemplates } from '@/lib/api/mappingTemplates';
+import { getHeaderFingerprint } from '@/lib/mappingTemplates';
+import type { MappingTemplate } from '@/types/mappingTemplate';
+
+vi.mock('@/lib/api/uploads', () => ({
+  createUpload: vi.fn(),
+}));
+
+vi.mock('@/lib/processingStatus', () => ({
+  subscribeToProcessing: vi.fn(() => () => {}),
+}));
+
+vi.mock('@/lib/api/mappingTemplates', () => ({
+  listMappingTemplates: vi.fn(async () => []),
+  MAPPING_TEMPLATES_QUERY_KEY: ['mapping-templates'],
+  createMappingTemplate: vi.fn(),
+}));
+
+const COMPLETE_CSV = 'fecha,id_transaccion,producto,cantidad,total\n2024-01-15,T1,SKU-1,2,1990\n';
+const INCOMPLETE_CSV = 'fecha,producto,notas\n2024-01-15,SKU-1,hola\n';
+
+const makeFile = (content: string, name = 'ventas.csv') =>
+  new File([content], name, { type: 'text/csv' });
+
+describe('UploadWizard Page', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sessionStorage.clear();
+    useUploadWizardStore.getState().reset();
+    useLocaleStore.setState({ locale: 'es', userId: null });
+  });
+
+  let queryClient: QueryClient;
+
+  const renderWizard = () => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    return render(
+      <QueryClientProvider client={queryClient}>
+        <MemoryRouter>
+          <UploadWizard />
+        </MemoryRouter>
+      </QueryClientProvider>
+    );
+  };
+
+  const pickFile = async (user: ReturnType<typeof userEvent.setup>, content: string) => {
+    await user.upload(screen.getByLabelText('Seleccionar archivo'), makeFile(content));
+    await waitFor(() => {
+      expect(screen.getByRole('table')).toBeInTheDocument();
+    });
+  };
+
+  // TEST TYPE 1: VALID (Happy Path)
+  describe('Valid - Happy Path', () => {
+    it('should start on the file step with Continue disabled', () => {
+      renderWizard();
+
+      expect(screen.getByText('Subir datos de ventas')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Continuar' })).toBeDisabled();
+    });
+
+    it('should parse the picked file and show a preview', async () => {
+      const user = userEvent.setup();
+      renderWizard();
+
+      await pickFile(user, COMPLETE_CSV);
+
+      expect(screen.getByRole('columnheader', { name: 'cantidad' })).toBeInTheDocument();
+      expect(screen.getByText('SKU-1')).toBeInTheDocument();
+      expect(screen.getByText(/5 columnas detectadas/)).toBeInTheDocument();
+    });
+
+    it('should show the wizard in English', async () => {
+      const user = userEvent.setup();
+      useLocaleStore.setState({ locale: 'en' });
+      renderWizard();
+
+      expect(screen.getByText('Upload sales data')).toBeInTheDocument();
+      await user.upload(screen.getByLabelText('Choose file'), makeFile(COMPLETE_CSV));
+
+      expect(await screen.findByText(/5 columns detected/)).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Back' })).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Continue' })).toBeEnabled();
+    });
+
+    it('should walk through every step and submit the mappings', async () => {
+      const user = userEvent.setup();
+      vi.mocked(createUpload).mockResolvedValueOnce({
+        id: 7,
+        file_name: 'ventas.csv',
+        file_size: COMPLETE_CSV.length,
+        status: 'pending',
+        row_count: null,
+        rejected_rows: 0,
+        template_name: null,
+        created_at: '2024-01-15T00:00:00Z',
+      });
+      renderWizard();
+
+      await pickFile(user, COMPLETE_CSV);
+      await user.click(screen.getByRole('button', { name: 'Continuar' }));
+
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: 'Continuar' })).toBeEnabled();
+      });
+      await user.click(screen.getByRole('button', { name: 'Continuar' }));
+
+      expect(screen.getByText(/columnas que se inferirán/i)).toBeInTheDocument();
+      await user.click(screen.getByRole('button', { name: 'Continuar' }));
+
+      await user.click(screen.getByRole('button', { name: 'Enviar archivo' }));
+
+      await waitFor(() => {
+        expect(screen.getByText('¡Archivo enviado!')).toBeInTheDocument();
+      });
+      const [payload] = vi.mocked(createUpload).mock.calls[0];
+      expect(payload.file.name).toBe('ventas.csv');
+      expect(payload.mappings).toContainEqual({
+        csvColumn: 'cantidad',
+        systemColumn: 'in_quantity',
+        format: { number: 'es-CL' },
+      });
+      expect(payload.mappings).toContainEqual({
+        csvColumn: 'fecha',
+        systemColumn: 'in_dt',
+        format: { date: '%Y-%m-%d' },
+      });
+    });
+  });
+
+  // TEST TYPE 2: ERROR HANDLING
+  describe('Error Handling', () => {
+    it('should show an error for an empty file', async () => {
+      const user = userEvent.setup();
+      renderWizard();
+
+      await user.upload(screen.getByLabelText('Seleccionar archivo'), makeFile(''));
+
+      await waitFor(() => {
+        expect(screen.getByRole('alert')).toHaveTextContent(/no se pudo leer el archivo/i);
+      });
+      expect(screen.getByRole('button', { name: 'Continuar' })).toBeDisabled();
+    });
+
+    it('should show the server error when submission fails', async () => {
+      const user = userEvent.setup();
+      vi.mocked(createUpload).mockRejectedValueOnce(new Error('Servidor no disponible'));
+      renderWizard();
+
+      await pickFile(user, COMPLETE_CSV);
+      useUploadWizardStore.getState().goToStep('submit');
+
+      await user.click(await screen.findByRole('button', { name: 'Enviar archivo' }));
+
+      await waitFor(() => {
+        expect(screen.getByRole('alert')).toHaveTextContent('Servidor no disponible');
+      });
+    });
+  });
+
+  describe('Submission Progress', () => {
+    it('should show byte progress and let the user pause the upload', async () => {
+      const user = userEvent.setup();
+      vi.mocked(createUpload).mockImplementationOnce((_request, options) =>
+        new Promise((_resolve, reject) => {
+          options?.onProgress?.({ loaded: 1024, total: 2048 });
+          options?.signal?.addEventListener('abort', () => reject(new CanceledError()));
+        })
+      );
+      renderWizard();
+
+      await pickFile(user, COMPLETE_CSV);
+      useUploadWizardStore.getState().goToStep('submit');
+      await user.click(await screen.findByRole('button', { name: 'Enviar archivo' }));
+
+      expect(await screen.findByText('1.0 KB de 2.0 KB')).toBeInTheDocument();
+      expect(screen.getByRole('progressbar')).toHaveAttribute('aria-valuenow', '50');
+
+      await user.click(screen.getByRole('button', { name: 'Pausar' }));
+
+      await waitFor(() => {
+        expect(screen.getByRole('alert')).toHaveTextContent(/envío pausado/i);
+      });
+    });
+  });
+
+  // TEST TYPE 3: GATING
+  describe('Mapping Gating', () => {
+    it('should keep Continue disabled while required columns are missing', async () => {
+      const user = userEvent.setup();
+      renderWizard();
+
+      await pickFile(user, INCOMPLETE_CSV);
+      await user.click(screen.getByRole('button', { name: 'Continuar' }));
+
+      await waitFor(() => {
+        expect(screen.getByText('⚠ Faltan columnas obligatorias por mapear')).toBeInTheDocument();
+      });
+      expect(screen.getByRole('button', { name: 'Continuar' })).toBeDisabled();
+    });
+  });
+
+  // TEST TYPE 4: STATE PRESERVATION
+  describe('State Preservation', () => {
+    it('should keep manual mappings when going back and forth', async () => {
+      const user = userEvent.setup();
+      renderWizard();
+
+      await pickFile(user, INCOMPLETE_CSV);
+      await user.click(screen.getByRole('button', { name: 'Continuar' }));
+
+      await user.selectOptions(screen.getByLabelText('Mapear columna CSV notas'), 'in_description');
+      await user.click(screen.getByRole('button', { name: 'Atrás' }));
+      await user.click(screen.getByRole('button', { name: 'Continuar' }));
+
+      expect(screen.getByLabelText('Mapear columna CSV notas')).toHaveValue('in_description');
+    });
+
+    it('should restore progress after a page refresh', async () => {
+      const user = userEvent.setup();
+      const { unmount } = renderWizard();
+
+      await pickFile(user, INCOMPLETE_CSV);
+      await user.click(screen.getByRole('button', { name: 'Continuar' }));
+      await user.selectOptions(screen.getByLabelText('Mapear columna CSV notas'), 'in_description');
+      unmount();
+
+      // Simulate a reload: in-memory state is gone, sessionStorage survives
+      const persisted = sessionStorage.getItem('ayni-upload-wizard');
+      useUploadWizardStore.setState({ step: 'file', file: null, fileMeta: null, preview: null, mappings: [] });
+      sessionStorage.setItem('ayni-upload-wizard', persisted as string);
+      await useUploadWizardStore.persist.rehydrate();
+
+      renderWizard();
+
+      expect(screen.getByLabelText('Mapear columna CSV notas')).toHaveValue('in_description');
+      expect(useUploadWizardStore.getState().file).toBeNull();
+    });
+
+    it('should ask for the file again before submitting a restored session', async () => {
+      const user = userEvent.setup();
+      renderWizard();
+
+      await pickFile(user, COMPLETE_CSV);
+      useUploadWizardStore.setState({ step: 'submit', file: null });
+
+      expect(await screen.findByText(/selecciona el mismo archivo/i)).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Enviar archivo' })).toBeDisabled();
+
+      await user.upload(screen.getByLabelText('Seleccionar archivo'), makeFile('otro contenido', 'otro.csv'));
+      expect(screen.getByRole('alert')).toHaveTextContent(/no coincide/i);
+
+      await user.upload(screen.getByLabelText('Seleccionar archivo'), makeFile(COMPLETE_CSV));
+      expect(screen.getByRole('button', { name: 'Enviar archivo' })).toBeEnabled();
+    });
+  });
+
+  // TEST TYPE 5: MAPPING TEMPLATES
+  describe('Mapping Templates', () => {
+    const template: MappingTemplate = {
+      id: 't1',
+      name: 'Bsale export',
+      fingerprint: getHeaderFingerprint(['fecha', 'producto', 'notas']),
+      headers: ['fecha', 'producto', 'notas'],
+      mappings: [
+        { csvColumn: 'fecha', systemColumn: 'in_dt' },
+        { csvColumn: 'producto', systemColumn: 'in_product_id' },
+        { csvColumn: 'notas', systemColumn: 'in_description' },
+      ],
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+    };
+
+    it('should auto-apply a template whose fingerprint matches the headers', async () => {
+      const user = userEvent.setup();
+      vi.mocked(listMappingTemplates).mockResolvedValueOnce([template]);
+      renderWizard();
+
+      await pickFile(user, INCOMPLETE_CSV);
+      await user.click(screen.getByRole('button', { name: 'Continuar' }));
+
+      expect(screen.getByText(/Se aplicó la plantilla «Bsale export»/)).toBeInTheDocument();
+      expect(screen.getByLabelText('Mapear columna CSV notas')).toHaveValue('in_description');
+    });
+
+    it('should save the current mapping as a template', async () => {
+      const user = userEvent.setup();
+      vi.mocked(createMappingTemplate).mockResolvedValueOnce(template);
+      renderWizard();
+      const invalidate = vi.spyOn(queryClient, 'invalidateQueries');
+
+      await pickFile(user, INCOMPLETE_CSV);
+      await user.click(screen.getByRole('button', { name: 'Continuar' }));
+      await user.type(screen.getByLabelText('Guardar como plantilla'), 'Bsale export');
+      await user.click(screen.getByRole('button', { name: 'Guardar plantilla' }));
+
+      await waitFor(() => {
+        expect(screen.getByText('Plantilla «Bsale export» guardada')).toBeInTheDocument();
+      });
+      const [payload] = vi.mocked(createMappingTemplate).mock.calls[0];
+      expect(payload.name).toBe('Bsale export');
+      expect(payload.headers).toEqual(['fecha', 'producto', 'notas']);
+      expect(invalidate).toHaveBeenCalledWith({ queryKey: ['mapping-templates'] });
+    });
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Upload Wizard Page
+ * Guides the user through picking a CSV, previewing it, mapping columns and submitting
+ */
+
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import axios from 'axios';
+import {
+  UPLOAD_WIZARD_STEPS,
+  useUploadWizardStore,
+  type UploadWizardStep,
+} from '@/store/uploadWizardStore';
+import { parseCsvFile, CsvParseError } from '@/lib/csv';
+import { createUpload } from '@/lib/api/uploads';
+import { listMappingTemplates } from '@/lib/api/mappingTemplates';
+import { applyTemplate, findTemplateForHeaders } from '@/lib/mappingTemplates';
+import { planInference } from '@/lib/columnInference';
+import { formatFileSize } from '@/lib/utils';
+import { extractErrorMessage } from '@/lib/api/auth';
+import {
+  getInferableColumns,
+  getOptionalColumns,
+  validateMappings,
+  type ColumnMapping as ColumnMappingType,
+  type SystemColumn,
+} from '@/types/columnSchema';
+import type { Upload, UploadProgress } from '@/types/upload';
+import type { MappingTemplate } from '@/types/mappingTemplate';
+import { ColumnMapping } from '@/components/Upload/ColumnMapping';
+import { CsvPreviewTable } from '@/components/Upload/CsvPreviewTable';
+import { FileDropzone } from '@/components/Upload/FileDropzone';
+import { ProcessingProgress } from '@/components/Upload/ProcessingProgress';
+import { SaveTemplateForm } from '@/components/Upload/SaveTemplateForm';
+import { WizardSteps, type WizardStep } from '@/components/Upload/WizardSteps';
+import { Button } from '@/components/ui/Button';
+import { Card, CardHeader } from '@/components/ui/Card';
+import { useTranslation } from '@/hooks/useTranslation';
+
+const PREVIEW_SAMPLE_SIZE = 50;
+
+export const UploadWizard: React.FC = () => {
+  const {
+    step,
+    file,
+    fileMeta,
+    preview,
+    mappings,
+    isMappingValid,
+    setFile,
+    reattachFile,
+    setMappings,
+    setMappingValid,
+    nextStep,
+    previousStep,
+    reset,
+  } = useUploadWizardStore();
+  const { t } = useTranslation();
+
+  const steps = useMemo<WizardStep<UploadWizardStep>[]>(
+    () => UPLOAD_WIZARD_STEPS.map(id => ({ id, label: t(`wizard.step.${id}`) })),
+    [t]
+  );
+
+  const [isParsing, setIsParsing] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitProgress, setSubmitProgress] = useState<UploadProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [completedUpload, setCompletedUpload] = useState<Upload | null>(null);
+  const [appliedTemplate, setAppliedTemplate] = useState<MappingTemplate | null>(null);
+
+  // Pre-fill the mapping from a saved template for this header set, if any
+  const applyMatchingTemplate = useCallback(async (headers: string[]) => {
+    try {
+      const template = findTemplateForHeaders(await listMappingTemplates(), headers);
+      if (template) {
+        setMappings(applyTemplate(template, headers));
+        setAppliedTemplate(template);
+      }
+    } catch {
+      // Templates are a convenience; the user can still map by hand
+    }
+  }, [setMappings]);
+
+  const handleFileSelected = useCallback(async (selected: File) => {
+    setIsParsing(true);
+    setParseError(null);
+    setAppliedTemplate(null);
+    try {
+      const result = await parseCsvFile(selected, { sampleSize: PREVIEW_SAMPLE_SIZE });
+      setFile(selected, result);
+      if (useUploadWizardStore.getState().mappings.length === 0) {
+        await applyMatchingTemplate(result.headers);
+      }
+      nextStep();
+    } catch (error) {
+      setParseError(
+        error instanceof CsvParseError
+          ? t('wizard.readErrorDetail', { error: error.message })
+          : t('wizard.readError')
+      );
+    } finally {
+      setIsParsing(false);
+    }
+  }, [setFile, nextStep, applyMatchingTemplate, t]);
+
+  const handleReattach = useCallback((selected: File) => {
+    setSubmitError(
+      reattachFile(selected)
+        ? null
+        : t('wizard.fileMismatch')
+    );
+  }, [reattachFile, t]);
+
+  const handleReset = () => {
+    setAppliedTemplate(null);
+    reset();
+  };
+
+  const handleSubmit = async () => {
+    if (!file) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      const upload = await createUpload(
+        { file, mappings, templateId: appliedTemplate?.id },
+        { onProgress: setSubmitProgress, signal: controller.signal }
+      );
+      setCompletedUpload(upload);
+      reset();
+    } catch (error) {
+      setSubmitError(
+        axios.isCancel(error)
+          ? t('wizard.paused')
+          : t('wizard.submitFailed', { error: extractErrorMessage(error).replace(/\.$/, '') })
+      );
+    } finally {
+      abortControllerRef.current = null;
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancelSubmit = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const submitPercent = submitProgress && submitProgress.total > 0
+    ? Math.round((submitProgress.loaded / submitProgress.total) * 100)
+    : 0;
+
+  const validation = useMemo(() => validateMappings(mappings), [mappings]);
+  const canContinue =
+    step === 'file' ? preview !== null :
+    step === 'mapping' ? isMappingValid && validation.valid :
+    true;
+
+  if (completedUpload) {
+    return (
+      <div className="min-h-screen bg-gray-50 px-4 py-12">
+        <div className="max-w-2xl mx-auto">
+          <Card>
+            <div className="space-y-4 text-center">
+              <CardHeader
+                title={t('wizard.sent')}
+                subtitle={t('wizard.processingFile', { name: completedUpload.file_name })}
+              />
+              <ProcessingProgress uploadId={completedUpload.id} />
+              <div className="flex justify-center gap-3">
+                <Button variant="outline" onClick={() => setCompletedUpload(null)}>
+                  {t('wizard.uploadAnother')}
+                </Button>
+                <Link
+                  to={`/uploads/${completedUpload.id}`}
+                  className="inline-flex items-center px-4 py-2 text-blue-600 hover:text-blue-500 font-medium"
+                >
+                  {t('wizard.viewDetail')}
+                </Link>
+                <Link
+                  to="/dashboard"
+                  className="inline-flex items-center px-4 py-2 text-blue-600 hover:text-blue-500 font-medium"
+                >
+                  {t('wizard.goToDashboard')}
+                </Link>
+              </div>
+            </div>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const renderStep = () => {
+    switch (step) {
+      case 'file':
+        return (
+          <div className="space-y-4">
+            <FileDropzone onFileSelected={handleFileSelected} disabled={isParsing} />
+            {isParsing && <p className="text-sm text-gray-600">{t('wizard.reading')}</p>}
+            {fileMeta && !isParsing && (
+              <p className="text-sm text-gray-600">
+                {t('wizard.currentFile')} <span className="font-medium">{fileMeta.name}</span> ({formatFileSize(fileMeta.size)})
+              </p>
+            )}
+            {parseError && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md" role="alert">
+                <p className="text-sm">{parseError}</p>
+              </div>
+            )}
+          </div>
+        );
+
+      case 'preview':
+        return preview && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              {t('wizard.previewSummary', {
+                count: preview.headers.length,
+                delimiter: preview.delimiter === '\t' ? t('wizard.tab') : preview.delimiter,
+                encoding: preview.encoding.toUpperCase(),
+              })}
+            </p>
+            <CsvPreviewTable headers={preview.headers} rows={preview.rows} />
+          </div>
+        );
+
+      case 'mapping':
+        return preview && (
+          <div className="space-y-6">
+            {appliedTemplate && (
+              <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-md text-sm" role="status">
+                {t('wizard.templateApplied', { name: appliedTemplate.name })}{' '}
+                <Link to="/templates" className="font-medium underline">
+                  {t('wizard.manageTemplates')}
+                </Link>
+              </div>
+            )}
+            <ColumnMapping
+              csvColumns={preview.headers}
+              initialMappings={mappings.length > 0 ? mappings : undefined}
+              onMappingChange={setMappings}
+              onValidationChange={setMappingValid}
+              sampleRows={preview.rows}
+            />
+            <div className="pt-4 border-t border-gray-200">
+              <SaveTemplateForm headers={preview.headers} mappings={mappings} />
+            </div>
+          </div>
+        );
+
+      case 'review':
+        return <ReviewStep mappings={mappings} />;
+
+      case 'submit':
+        return (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              {t('wizard.willSend')} <span className="font-medium">{fileMeta?.name}</span>
+              {fileMeta && ` (${formatFileSize(fileMeta.size)})`}{' '}
+              {t('wizard.withMappedColumns', { count: mappings.filter(m => m.systemColumn !== null).length })}
+            </p>
+            {!file && (
+              <div className="space-y-2">
+                <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 px-4 py-3 rounded-md">
+                  {t('wizard.fileNotKept')}
+                </p>
+                <FileDropzone
+                  onFileSelected={handleReattach}
+                  label={t('dropzone.reselect')}
+                />
+              </div>
+            )}
+            {isSubmitting && (
+              <div className="space-y-2">
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full transition-all"
+                    style={{ width: `${submitPercent}%` }}
+                    role="progressbar"
+                    aria-valuenow={submitPercent}
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-label={t('wizard.sendProgress')}
+                  />
+                </div>
+                <div className="flex items-center justify-between text-sm text-gray-600">
+                  <span>
+                    {submitProgress
+                      ? t('wizard.sentOfTotal', {
+                          sent: formatFileSize(submitProgress.loaded),
+                          total: formatFileSize(submitProgress.total),
+                        })
+                      : t('wizard.preparing')}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={handleCancelSubmit}>
+                    {t('wizard.pause')}
+                  </Button>
+                </div>
+              </div>
+            )}
+            {submitError && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md" role="alert">
+                <p className="text-sm">{submitError}</p>
+              </div>
+            )}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-12">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <WizardSteps steps={steps} current={step} />
+
+        <Card>
+          <div className="space-y-6">
+            <CardHeader
+              title={t('wizard.title')}
+              subtitle={steps.find(s => s.id === step)?.label}
+            />
+
+            {renderStep()}
+
+            <div className="flex justify-between gap-3 pt-4 border-t border-gray-200">
+              <div className="flex gap-3">
+                {step !== 'file' && (
+                  <Button variant="outline" onClick={previousStep} disabled={isSubmitting}>
+                    {t('wizard.back')}
+                  </Button>
+                )}
+                {fileMeta && (
+                  <Button variant="secondary" onClick={handleReset} disabled={isSubmitting}>
+                    {t('wizard.startOver')}
+                  </Button>
+                )}
+              </div>
+              {step === 'submit' ? (
+                <Button onClick={handleSubmit} isLoading={isSubmitting} disabled={!file}>
+                  {isSubmitting ? t('wizard.submitting') : t('wizard.submit')}
+                </Button>
+              ) : (
+                <Button onClick={nextStep} disabled={!canContinue}>
+                  {t('wizard.continue')}
+                </Button>
+              )}
+            </div>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Summary of what will be uploaded: mapped columns, columns the backend
+ * will infer or cannot infer, and optional columns that will be left empty
+ */
+const ReviewStep: React.FC<{ mappings: ColumnMappingType[] }> = ({ mappings }) => {
+  const { t } = useTranslation();
+  const mapped = mappings.filter(m => m.systemColumn !== null);
+  const mappedSystem = new Set(mapped.map(m => m.systemColumn as SystemColumn));
+  const inferable = getInferableColumns();
+  const plan = planInference(mappings);
+  const toInfer = plan.filter(entry => entry.status === 'derived');
+  const notInferable = plan.filter(entry => entry.status === 'unavailable');
+  const missingOptional = getOptionalColumns().filter(
+    col => !inferable.includes(col) && !mappedSystem.has(col)
+  );
+
+  return (
+    <div className="space-y-6">
+      <section>
+        <h3 className="font-semibold text-gray-900 mb-2">{t('wizard.review.mapped', { count: mapped.length })}</h3>
+        <ul className="text-sm space-y-1">
+          {mapped.map(m => (
+            <li key={m.csvColumn}>
+              <span className="font-medium">{m.csvColumn}</span> → {m.systemColumn}
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      <section>
+        <h3 className="font-semibold text-gray-900 mb-2">{t('wizard.review.inferred', { count: toInfer.length })}</h3>
+        <ul className="text-sm space-y-1">
+          {toInfer.map(({ column, rule }) => (
+            <li key={column}>
+              <span className="font-medium">{column}</span>
+              <span className="text-gray-600"> = {rule?.formula}</span>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      {notInferable.length > 0 && (
+        <section>
+          <h3 className="font-semibold text-gray-900 mb-2">{t('wizard.review.notInferable')}</h3>
+          <ul className="text-sm space-y-1">
+            {notInferable.map(({ column }) => (
+              <li key={column}>
+                <span className="font-medium">{column}</span>
+                <span className="text-gray-600"> - {t(`column.${column}`)}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {missingOptional.length > 0 && (
+        <section>
+          <h3 className="font-semibold text-gray-900 mb-2">{t('wizard.review.missingOptional')}</h3>
+          <p className="text-sm text-gray-600">{missingOptional.join(', ')}</p>
+        </section>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,6 @@
+/**
+ * Upload Pages Index
+ * Centralized exports for upload pages
+ */
+
+export { UploadWizard } from './UploadWizard';
@@ -0,0 +1,209 @@
+/**
+ * Upload Detail Page Tests
+ * Covers rejection reasons, downloading rejected rows, reprocessing and deletion
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { UploadDetail } from './UploadDetail';
+import {
+  deleteUpload,
+  downloadRejectedRows,
+  getUpload,
+  listUploadRejections,
+  reprocessUpload,
+} from '@/lib/api/uploads';
+import { subscribeToProcessing } from '@/lib/processingStatus';
+import type { UploadDetail as UploadDetailType } from '@/types/upload';
+
+vi.mock('@/lib/api/uploads', () => ({
+  UPLOADS_QUERY_KEY: ['uploads'],
+  getUpload: vi.fn(),
+  listUploadRejections: vi.fn(),
+  downloadRejectedRows: vi.fn(),
+  reprocessUpload: vi.fn(),
+  deleteUpload: vi.fn(),
+}));
+
+vi.mock('@/lib/processingStatus', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/processingStatus')>()),
+  subscribeToProcessing: vi.fn(() => () => {}),
+}));
+
+const upload: UploadDetailType = {
+  id: 7,
+  file_name: 'ventas_enero.csv',
+  file_size: 2048,
+  status: 'completed',
+  row_count: 120,
+  rejected_rows: 2,
+  template_name: null,
+  created_at: '2024-01-15T12:00:00Z',
+  headers: ['fecha', 'id', 'producto', 'cantidad', 'total'],
+  mappings: [
+    { csvColumn: 'fecha', systemColumn: 'in_dt' },
+    { csvColumn: 'id', systemColumn: 'in_trans_id' },
+    { csvColumn: 'producto', systemColumn: 'in_product_id' },
+    { csvColumn: 'cantidad', systemColumn: 'in_quantity' },
+    { csvColumn: 'total', systemColumn: 'in_price_total' },
+  ],
+};
+
+const rejections = {
+  count: 2,
+  next: null,
+  previous: null,
+  results: [
+    { row_number: 14, column: 'in_dt', value: '31/02/2024', reason: 'Fecha inválida' },
+    { row_number: 58, column: null, value: null, reason: 'Fila duplicada' },
+  ],
+};
+
+describe('UploadDetail Page', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getUpload).mockResolvedValue(upload);
+    vi.mocked(listUploadRejections).mockResolvedValue(rejections);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const renderPage = (path = '/uploads/7') =>
+    render(
+      <QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+        <MemoryRouter initialEntries={[path]}>
+          <Routes>
+            <Route path="/uploads" element={<p>Historial</p>} />
+            <Route path="/uploads/:id" element={<UploadDetail />} />
+          </Routes>
+        </MemoryRouter>
+      </QueryClientProvider>
+    );
+
+  describe('Valid Input Tests', () => {
+    it('should show the upload summary and row-level rejection reasons', async () => {
+      renderPage();
+
+      expect(await screen.findByText('ventas_enero.csv')).toBeInTheDocument();
+      expect(getUpload).toHaveBeenCalledWith(7, expect.any(AbortSignal));
+      expect(await screen.findByText('Fecha inválida')).toBeInTheDocument();
+      expect(screen.getByText('31/02/2024')).toBeInTheDocument();
+      expect(screen.getByText('Fila duplicada')).toBeInTheDocument();
+      expect(listUploadRejections).toHaveBeenCalledWith(7, { page: 1, page_size: 50 }, expect.any(AbortSignal));
+    });
+
+    it('should download rejected rows as a CSV file', async () => {
+      const user = userEvent.setup();
+      const createObjectURL = vi.fn(() => 'blob:rejected');
+      const revokeObjectURL = vi.fn();
+      vi.stubGlobal('URL', Object.assign(URL, { createObjectURL, revokeObjectURL }));
+      let downloadedAs = '';
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+        downloadedAs = this.download;
+      });
+      const blob = new Blob(['fila,motivo\n14,Fecha inválida\n'], { type: 'text/csv' });
+      vi.mocked(downloadRejectedRows).mockResolvedValue(blob);
+      renderPage();
+
+      await user.click(await screen.findByRole('button', { name: 'Descargar filas rechazadas' }));
+
+      await waitFor(() => expect(click).toHaveBeenCalled());
+      expect(downloadRejectedRows).toHaveBeenCalledWith(7);
+      expect(createObjectURL).toHaveBeenCalledWith(blob);
+      expect(downloadedAs).toBe('ventas_enero-rechazadas.csv');
+      // Kept alive until the browser has started the download
+      expect(revokeObjectURL).not.toHaveBeenCalled();
+      await waitFor(() => expect(revokeObjectURL).toHaveBeenCalledWith('blob:rejected'), { timeout: 2000 });
+      click.mockRestore();
+    });
+
+    it('should reprocess with an edited mapping', async () => {
+      const user = userEvent.setup();
+      vi.mocked(reprocessUpload).mockResolvedValue({ ...upload, status: 'pending' });
+      renderPage();
+
+      await user.click(await screen.findByRole('button', { name: 'Reprocesar con otro mapeo' }));
+      const reprocess = screen.getByRole('button', { name: 'Reprocesar' });
+      await waitFor(() => expect(reprocess).toBeEnabled());
+      await user.click(reprocess);
+
+      await waitFor(() => expect(reprocessUpload).toHaveBeenCalled());
+      expect(vi.mocked(reprocessUpload).mock.calls[0][0]).toBe(7);
+      expect(vi.mocked(reprocessUpload).mock.calls[0][1]).toEqual(
+        expect.arrayContaining([{ csvColumn: 'fecha', systemColumn: 'in_dt' }])
+      );
+    });
+
+    it('should delete the upload after confirmation', async () => {
+      const user = userEvent.setup();
+      vi.mocked(deleteUpload).mockResolvedValue(undefined);
+      renderPage();
+
+      await user.click(await screen.findByRole('button', { name: 'Eliminar datos' }));
+      expect(deleteUpload).not.toHaveBeenCalled();
+      await user.click(screen.getByRole('button', { name: 'Confirmar eliminación' }));
+
+      expect(await screen.findByText('Historial')).toBeInTheDocument();
+      expect(deleteUpload).toHaveBeenCalledWith(7);
+    });
+  });
+
+  describe('Edge Case Tests', () => {
+    it('should not load rejections or allow download when none were rejected', async () => {
+      vi.mocked(getUpload).mockResolvedValue({ ...upload, rejected_rows: 0 });
+      renderPage();
+
+      expect(await screen.findByRole('button', { name: 'Descargar filas rechazadas' })).toBeDisabled();
+      expect(screen.queryByText('Filas rechazadas')).not.toBeInTheDocument();
+      expect(listUploadRejections).not.toHaveBeenCalled();
+    });
+
+    it('should reload the upload once processing finishes', async () => {
+      vi.mocked(getUpload)
+        .mockResolvedValueOnce({ ...upload, status: 'processing', rejected_rows: 0 })
+        .mockResolvedValue(upload);
+      renderPage();
+
+      await waitFor(() => expect(subscribeToProcessing).toHaveBeenCalled());
+      const [, { onStatus }] = vi.mocked(subscribeToProcessing).mock.calls[0];
+      act(() => {
+        onStatus({ upload_id: 7, stage: 'completed', rows_processed: 120, rows_total: 120, error_rows: 2 });
+      });
+
+      expect(await screen.findByText('Fecha inválida')).toBeInTheDocument();
+      expect(getUpload).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not request an invalid upload id', async () => {
+      renderPage('/uploads/abc');
+
+      expect(screen.getByText('La carga solicitada no existe.')).toBeInTheDocument();
+      expect(getUpload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Error Handling Tests', () => {
+    it('should show an error when the upload cannot be loaded', async () => {
+      vi.mocked(getUpload).mockRejectedValue(new Error('No encontrado'));
+      renderPage();
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('No encontrado');
+    });
+
+    it('should show an error when deletion fails', async () => {
+      const user = userEvent.setup();
+      vi.mocked(deleteUpload).mockRejectedValue(new Error('No se pudo eliminar'));
+      renderPage();
+
+      await user.click(await screen.findByRole('button', { name: 'Eliminar datos' }));
+      await user.click(screen.getByRole('button', { name: 'Confirmar eliminación' }));
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('No se pudo eliminar');
+    });
+  });
+});
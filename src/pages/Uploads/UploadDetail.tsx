@@ -0,0 +1,310 @@
+/**
+ * Upload Detail Page
+ * Status, row-level rejection reasons and actions for a single upload
+ */
+
+import React, { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  UPLOADS_QUERY_KEY,
+  deleteUpload,
+  downloadRejectedRows,
+  getUpload,
+  listUploadRejections,
+  reprocessUpload,
+} from '@/lib/api/uploads';
+import { extractErrorMessage } from '@/lib/api/auth';
+import { EMPTY_VALUE, formatDate, formatFileSize, formatQuantity } from '@/lib/utils';
+import type { ColumnMapping as ColumnMappingType } from '@/types/columnSchema';
+import type { UploadDetail as UploadDetailType } from '@/types/upload';
+import { ColumnMapping } from '@/components/Upload/ColumnMapping';
+import { ProcessingProgress } from '@/components/Upload/ProcessingProgress';
+import { UploadStatusBadge } from '@/components/Upload/UploadStatusBadge';
+import { Button } from '@/components/ui/Button';
+import { Card, CardHeader } from '@/components/ui/Card';
+import { useTranslation } from '@/hooks/useTranslation';
+
+const REJECTIONS_PAGE_SIZE = 50;
+
+// Revoking the URL in the same tick can cancel the download in some browsers
+const REVOKE_OBJECT_URL_DELAY_MS = 1000;
+
+/**
+ * Save a blob through a temporary download link
+ */
+function saveBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_OBJECT_URL_DELAY_MS);
+}
+
+export const UploadDetail: React.FC = () => {
+  const { t } = useTranslation();
+  const { id } = useParams<{ id: string }>();
+  const uploadId = Number(id);
+  const isValidId = Number.isInteger(uploadId) && uploadId > 0;
+
+  const { data: upload, isLoading, error } = useQuery({
+    queryKey: [...UPLOADS_QUERY_KEY, uploadId],
+    queryFn: ({ signal }) => getUpload(uploadId, signal),
+    enabled: isValidId,
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-12">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <Link to="/uploads" className="text-blue-600 hover:text-blue-500 font-medium text-sm">
+          {t('uploadDetail.back')}
+        </Link>
+
+        {!isValidId && (
+          <Card>
+            <p className="text-sm text-gray-700">{t('uploadDetail.notFound')}</p>
+          </Card>
+        )}
+
+        {isLoading && <p className="text-sm text-gray-600">{t('common.loading')}</p>}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md" role="alert">
+            <p className="text-sm">{extractErrorMessage(error)}</p>
+          </div>
+        )}
+
+        {upload && <UploadDetailContent upload={upload} />}
+      </div>
+    </div>
+  );
+};
+
+const UploadDetailContent: React.FC<{ upload: UploadDetailType }> = ({ upload }) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { t, formatLocale } = useTranslation();
+  const [rejectionsPage, setRejectionsPage] = useState(1);
+  const [isEditingMapping, setIsEditingMapping] = useState(false);
+  const [mappings, setMappings] = useState<ColumnMappingType[]>(upload.mappings);
+  const [isMappingValid, setIsMappingValid] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const { data: rejections } = useQuery({
+    queryKey: [...UPLOADS_QUERY_KEY, upload.id, 'rejections', rejectionsPage],
+    queryFn: ({ signal }) =>
+      listUploadRejections(upload.id, { page: rejectionsPage, page_size: REJECTIONS_PAGE_SIZE }, signal),
+    enabled: upload.rejected_rows > 0,
+    placeholderData: keepPreviousData,
+  });
+
+  const reprocessMutation = useMutation({
+    mutationFn: () => reprocessUpload(upload.id, mappings),
+    onSuccess: () => {
+      setIsEditingMapping(false);
+      setRejectionsPage(1);
+      queryClient.invalidateQueries({ queryKey: UPLOADS_QUERY_KEY });
+    },
+    onError: (err) => setActionError(extractErrorMessage(err)),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => deleteUpload(upload.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: UPLOADS_QUERY_KEY });
+      navigate('/uploads');
+    },
+    onError: (err) => setActionError(extractErrorMessage(err)),
+  });
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    setActionError(null);
+    try {
+      const name = upload.file_name.replace(/\.[^.]+$/, '');
+      saveBlob(await downloadRejectedRows(upload.id), t('uploadDetail.rejectedFileName', { name }));
+    } catch (err) {
+      setActionError(extractErrorMessage(err));
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const isProcessing = upload.status === 'pending' || upload.status === 'processing';
+  const rejectionPages = rejections ? Math.max(1, Math.ceil(rejections.count / REJECTIONS_PAGE_SIZE)) : 1;
+  const formatCount = (count: number) => formatQuantity(count, null, { locale: formatLocale });
+
+  return (
+    <>
+      <Card>
+        <div className="space-y-6">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <CardHeader
+              title={upload.file_name}
+              subtitle={t('uploadDetail.uploadedOn', { date: formatDate(upload.created_at, { locale: formatLocale }) })}
+            />
+            <UploadStatusBadge status={upload.status} />
+          </div>
+
+          <dl className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-600">{t('uploadDetail.size')}</dt>
+              <dd className="font-medium">{formatFileSize(upload.file_size)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-600">{t('uploads.rows')}</dt>
+              <dd className="font-medium">
+                {upload.row_count === null ? EMPTY_VALUE : formatCount(upload.row_count)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-600">{t('uploads.rejected')}</dt>
+              <dd className="font-medium">{formatCount(upload.rejected_rows)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-600">{t('uploads.template')}</dt>
+              <dd className="font-medium">{upload.template_name ?? EMPTY_VALUE}</dd>
+            </div>
+          </dl>
+
+          {isProcessing && (
+            <ProcessingProgress
+              uploadId={upload.id}
+              onFinished={() => queryClient.invalidateQueries({ queryKey: UPLOADS_QUERY_KEY })}
+            />
+          )}
+
+          {actionError && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md" role="alert">
+              <p className="text-sm">{actionError}</p>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-3 pt-4 border-t border-gray-200">
+            <Button
+              variant="outline"
+              onClick={handleDownload}
+              isLoading={isDownloading}
+              disabled={upload.rejected_rows === 0}
+            >
+              {t('uploadDetail.download')}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setIsEditingMapping(editing => !editing)}
+              disabled={isProcessing}
+            >
+              {t('uploadDetail.reprocessWithMapping')}
+            </Button>
+            {confirmDelete ? (
+              <>
+                <Button variant="danger" onClick={() => deleteMutation.mutate()} isLoading={deleteMutation.isPending}>
+                  {t('common.confirmDelete')}
+                </Button>
+                <Button variant="secondary" onClick={() => setConfirmDelete(false)}>
+                  {t('common.cancel')}
+                </Button>
+              </>
+            ) : (
+              <Button variant="danger" onClick={() => setConfirmDelete(true)}>
+                {t('uploadDetail.delete')}
+              </Button>
+            )}
+          </div>
+          {confirmDelete && (
+            <p className="text-sm text-red-700">{t('uploadDetail.deleteWarning')}</p>
+          )}
+        </div>
+      </Card>
+
+      {isEditingMapping && (
+        <Card>
+          <div className="space-y-6">
+            <CardHeader title={t('uploadDetail.editMapping')} subtitle={t('uploadDetail.editMappingSubtitle')} />
+            <ColumnMapping
+              csvColumns={upload.headers}
+              initialMappings={upload.mappings}
+              onMappingChange={setMappings}
+              onValidationChange={setIsMappingValid}
+            />
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setIsEditingMapping(false)}>
+                {t('common.cancel')}
+              </Button>
+              <Button
+                onClick={() => {
+                  setActionError(null);
+                  reprocessMutation.mutate();
+                }}
+                isLoading={reprocessMutation.isPending}
+                disabled={!isMappingValid}
+              >
+                {t('uploadDetail.reprocess')}
+              </Button>
+            </div>
+          </div>
+        </Card>
+      )}
+
+      {upload.rejected_rows > 0 && (
+        <Card>
+          <div className="space-y-4">
+            <CardHeader title={t('uploadDetail.rejectedTitle')} subtitle={t('uploadDetail.rejectedSubtitle')} />
+            {rejections && (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">{t('uploadDetail.row')}</th>
+                      <th className="py-2 pr-4 font-medium">{t('uploadDetail.column')}</th>
+                      <th className="py-2 pr-4 font-medium">{t('uploadDetail.value')}</th>
+                      <th className="py-2 font-medium">{t('uploadDetail.reason')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {rejections.results.map((rejection, index) => (
+                      <tr key={`${rejection.row_number}-${rejection.column ?? ''}-${index}`}>
+                        <td className="py-2 pr-4">{rejection.row_number}</td>
+                        <td className="py-2 pr-4">{rejection.column ?? EMPTY_VALUE}</td>
+                        <td className="py-2 pr-4 font-mono text-xs">{rejection.value ?? EMPTY_VALUE}</td>
+                        <td className="py-2">{rejection.reason}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {rejections && rejections.count > REJECTIONS_PAGE_SIZE && (
+              <nav className="flex items-center justify-between" aria-label={t('uploadDetail.rejectedPagination')}>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRejectionsPage(p => p - 1)}
+                  disabled={!rejections.previous}
+                >
+                  {t('common.previous')}
+                </Button>
+                <span className="text-sm text-gray-600">
+                  {t('common.pageOf', { page: rejectionsPage, total: rejectionPages })}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRejectionsPage(p => p + 1)}
+                  disabled={!rejections.next}
+                >
+                  {t('common.next')}
+                </Button>
+              </nav>
+            )}
+          </div>
+        </Card>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,155 @@
+/**
+ * Upload History Page Tests
+ * Covers listing, filtering and paginating past uploads
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { UploadHistory } from './UploadHistory';
+import { listUploads } from '@/lib/api/uploads';
+import { useLocaleStore } from '@/store/localeStore';
+import type { PaginatedResponse, Upload } from '@/types/upload';
+
+vi.mock('@/lib/api/uploads', () => ({
+  UPLOADS_QUERY_KEY: ['uploads'],
+  listUploads: vi.fn(),
+}));
+
+const makeUpload = (overrides: Partial<Upload> = {}): Upload => ({
+  id: 1,
+  file_name: 'ventas_enero.csv',
+  file_size: 2048,
+  status: 'completed',
+  row_count: 1200,
+  rejected_rows: 3,
+  template_name: 'Bsale export',
+  created_at: '2024-01-15T12:00:00Z',
+  ...overrides,
+});
+
+const page = (results: Upload[], overrides: Partial<PaginatedResponse<Upload>> = {}): PaginatedResponse<Upload> => ({
+  count: results.length,
+  next: null,
+  previous: null,
+  results,
+  ...overrides,
+});
+
+describe('UploadHistory Page', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useLocaleStore.setState({ locale: 'es', userId: null });
+  });
+
+  const renderPage = () =>
+    render(
+      <QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+        <MemoryRouter>
+          <UploadHistory />
+        </MemoryRouter>
+      </QueryClientProvider>
+    );
+
+  describe('Valid Input Tests', () => {
+    it('should list uploads with status, template and rejected rows', async () => {
+      vi.mocked(listUploads).mockResolvedValue(page([makeUpload()]));
+      renderPage();
+
+      const link = await screen.findByRole('link', { name: 'ventas_enero.csv' });
+      expect(link).toHaveAttribute('href', '/uploads/1');
+      expect(screen.getByText('Bsale export')).toBeInTheDocument();
+      expect(screen.getByText('Completada', { selector: 'span' })).toBeInTheDocument();
+      expect(screen.getByText('1.200')).toBeInTheDocument();
+      expect(screen.getByText('3')).toBeInTheDocument();
+    });
+
+    it('should filter by status and reset to the first page', async () => {
+      const user = userEvent.setup();
+      vi.mocked(listUploads).mockResolvedValue(page([makeUpload()]));
+      renderPage();
+      await screen.findByText('ventas_enero.csv');
+
+      await user.selectOptions(screen.getByLabelText('Estado'), 'failed');
+
+      await waitFor(() => {
+        expect(listUploads).toHaveBeenLastCalledWith({ page: 1, page_size: 20, status: 'failed' }, expect.any(AbortSignal));
+      });
+    });
+
+    it('should search by file name on submit', async () => {
+      const user = userEvent.setup();
+      vi.mocked(listUploads).mockResolvedValue(page([makeUpload()]));
+      renderPage();
+      await screen.findByText('ventas_enero.csv');
+
+      await user.type(screen.getByLabelText('Buscar por nombre de archivo'), '  enero ');
+      await user.click(screen.getByRole('button', { name: 'Buscar' }));
+
+      await waitFor(() => {
+        expect(listUploads).toHaveBeenLastCalledWith({ page: 1, page_size: 20, search: 'enero' }, expect.any(AbortSignal));
+      });
+    });
+
+    it('should show the history in English', async () => {
+      useLocaleStore.setState({ locale: 'en' });
+      vi.mocked(listUploads).mockResolvedValue(page([makeUpload()]));
+      renderPage();
+
+      await screen.findByText('ventas_enero.csv');
+      expect(screen.getByRole('heading', { name: 'Upload history' })).toBeInTheDocument();
+      expect(screen.getByText('Completed', { selector: 'span' })).toBeInTheDocument();
+      expect(screen.getByText('1,200')).toBeInTheDocument();
+      expect(screen.getByLabelText('Status')).toBeInTheDocument();
+    });
+  });
+
+  describe('Edge Case Tests', () => {
+    it('should show an empty state when nothing has been uploaded', async () => {
+      vi.mocked(listUploads).mockResolvedValue(page([]));
+      renderPage();
+
+      expect(await screen.findByText('Aún no has subido archivos.')).toBeInTheDocument();
+    });
+
+    it('should paginate through results', async () => {
+      const user = userEvent.setup();
+      vi.mocked(listUploads).mockImplementation(async (params = {}) =>
+        params.page === 2
+          ? page([makeUpload({ id: 21, file_name: 'ventas_febrero.csv' })], { count: 21, previous: '/uploads/?page=1' })
+          : page([makeUpload()], { count: 21, next: '/uploads/?page=2' })
+      );
+      renderPage();
+
+      expect(await screen.findByText('Página 1 de 2')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Anterior' })).toBeDisabled();
+
+      await user.click(screen.getByRole('button', { name: 'Siguiente' }));
+
+      expect(await screen.findByText('ventas_febrero.csv')).toBeInTheDocument();
+      expect(screen.getByText('Página 2 de 2')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Siguiente' })).toBeDisabled();
+    });
+
+    it('should show a dash for uploads not yet counted', async () => {
+      vi.mocked(listUploads).mockResolvedValue(
+        page([makeUpload({ status: 'processing', row_count: null, template_name: null, rejected_rows: 0 })])
+      );
+      renderPage();
+
+      expect(await screen.findByText('Procesando', { selector: 'span' })).toBeInTheDocument();
+      expect(screen.getAllByText('—')).toHaveLength(2);
+    });
+  });
+
+  describe('Error Handling Tests', () => {
+    it('should show an error when the history cannot be loaded', async () => {
+      vi.mocked(listUploads).mockRejectedValue(new Error('Servidor no disponible'));
+      renderPage();
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Servidor no disponible');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Upload History Page
+ * Lists past uploads with status and rejected-row counts, filterable and paginated
+ */
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { UPLOADS_QUERY_KEY, listUploads } from '@/lib/api/uploads';
+import { extractErrorMessage } from '@/lib/api/auth';
+import { EMPTY_VALUE, formatDate, formatQuantity } from '@/lib/utils';
+import { UPLOAD_STATUSES, type UploadListParams, type UploadStatus } from '@/types/upload';
+import { UploadStatusBadge } from '@/components/Upload/UploadStatusBadge';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Card, CardHeader } from '@/components/ui/Card';
+import { useTranslation } from '@/hooks/useTranslation';
+
+const PAGE_SIZE = 20;
+
+export const UploadHistory: React.FC = () => {
+  const { t, formatLocale } = useTranslation();
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState<UploadStatus | ''>('');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+
+  const params: UploadListParams = {
+    page,
+    page_size: PAGE_SIZE,
+    ...(status && { status }),
+    ...(search && { search }),
+  };
+
+  const { data, isLoading, isFetching, error } = useQuery({
+    queryKey: [...UPLOADS_QUERY_KEY, 'list', params],
+    queryFn: ({ signal }) => listUploads(params, signal),
+    placeholderData: keepPreviousData,
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.count / PAGE_SIZE)) : 1;
+  const formatCount = (count: number) => formatQuantity(count, null, { locale: formatLocale });
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    setSearch(searchInput.trim());
+    setPage(1);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-12">
+      <div className="max-w-6xl mx-auto">
+        <Card>
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <CardHeader title={t('uploads.title')} subtitle={t('uploads.subtitle')} />
+              <Link
+                to="/upload"
+                className="text-blue-600 hover:text-blue-500 font-medium text-sm"
+              >
+                {t('uploads.uploadLink')}
+              </Link>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+              <form onSubmit={handleSearch} className="flex flex-1 items-end gap-2" role="search">
+                <Input
+                  id="uploads-search"
+                  label={t('uploads.search')}
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                />
+                <Button type="submit" variant="outline">
+                  {t('uploads.searchSubmit')}
+                </Button>
+              </form>
+              <div>
+                <label htmlFor="uploads-status" className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('uploads.status')}
+                </label>
+                <select
+                  id="uploads-status"
+                  value={status}
+                  onChange={(e) => {
+                    setStatus(e.target.value as UploadStatus | '');
+                    setPage(1);
+                  }}
+                  className="px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm"
+                >
+                  <option value="">{t('uploads.allStatuses')}</option>
+                  {UPLOAD_STATUSES.map(option => (
+                    <option key={option} value={option}>{t(`uploads.status.${option}`)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {isLoading && <p className="text-sm text-gray-600">{t('uploads.loading')}</p>}
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md" role="alert">
+                <p className="text-sm">{extractErrorMessage(error)}</p>
+              </div>
+            )}
+
+            {data && data.results.length === 0 && (
+              <p className="text-sm text-gray-600">
+                {search || status ? t('uploads.noMatches') : t('uploads.empty')}
+              </p>
+            )}
+
+            {data && data.results.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className={`min-w-full text-sm ${isFetching ? 'opacity-60' : ''}`}>
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">{t('uploads.file')}</th>
+                      <th className="py-2 pr-4 font-medium">{t('uploads.date')}</th>
+                      <th className="py-2 pr-4 font-medium text-right">{t('uploads.rows')}</th>
+                      <th className="py-2 pr-4 font-medium">{t('uploads.template')}</th>
+                      <th className="py-2 pr-4 font-medium">{t('uploads.status')}</th>
+                      <th className="py-2 font-medium text-right">{t('uploads.rejected')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {data.results.map(upload => (
+                      <tr key={upload.id}>
+                        <td className="py-2 pr-4">
+                          <Link
+                            to={`/uploads/${upload.id}`}
+                            className="text-blue-600 hover:text-blue-500 font-medium"
+                          >
+                            {upload.file_name}
+                          </Link>
+                        </td>
+                        <td className="py-2 pr-4 whitespace-nowrap">{formatDate(upload.created_at, { locale: formatLocale })}</td>
+                        <td className="py-2 pr-4 text-right">
+                          {upload.row_count === null ? EMPTY_VALUE : formatCount(upload.row_count)}
+                        </td>
+                        <td className="py-2 pr-4">{upload.template_name ?? EMPTY_VALUE}</td>
+                        <td className="py-2 pr-4"><UploadStatusBadge status={upload.status} /></td>
+                        <td className={`py-2 text-right ${upload.rejected_rows > 0 ? 'text-red-700 font-medium' : ''}`}>
+                          {formatCount(upload.rejected_rows)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {data && data.count > PAGE_SIZE && (
+              <nav className="flex items-center justify-between" aria-label={t('common.pagination')}>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(p => p - 1)}
+                  disabled={!data.previous || isFetching}
+                >
+                  {t('common.previous')}
+                </Button>
+                <span className="text-sm text-gray-600">
+                  {t('common.pageOf', { page, total: totalPages })}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(p => p + 1)}
+                  disabled={!data.next || isFetching}
+                >
+                  {t('common.next')}
+                </Button>
+              </nav>
+            )}
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
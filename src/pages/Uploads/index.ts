@@ -0,0 +1,7 @@
+/**
+ * Uploads Pages Index
+ * Centralized exports for upload history pages
+ */
+
+export { UploadHistory } from './UploadHistory';
+export { UploadDetail } from './UploadDetail';
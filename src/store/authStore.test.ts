@@ -0,0 +1,365 @@
+/**
+ * Test Suite for the Auth Store
+ * Covers session persistence and every way a session can end
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import axios, { AxiosError, AxiosHeaders } from 'axios';
+import { selectIsEmailVerified, useAuthStore } from './authStore';
+import * as authApi from '@/lib/api/auth';
+import { refreshTokens } from '@/lib/api/tokenManager';
+import {
+  AUTH_STORAGE_KEY,
+  clearSession,
+  isSessionRemembered,
+  readSession,
+  setAuthStorageBackend,
+  writeSession,
+} from '@/lib/authStorage';
+import { AUTH_SYNC_CHANNEL } from '@/lib/authSync';
+import type { User } from '@/types/auth';
+
+vi.mock('@/lib/api/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api/auth')>()),
+  login: vi.fn(),
+  logout: vi.fn(),
+  updateProfile: vi.fn(),
+  getProfile: vi.fn(),
+}));
+
+const user: User = {
+  id: 1,
+  email: 'ana@example.com',
+  username: 'ana',
+  is_active: true,
+  is_staff: false,
+  email_verified: true,
+  date_joined: '2024-01-01T00:00:00Z',
+  last_login: null,
+};
+
+const tokens = { access: 'access-1', refresh: 'refresh-1' };
+
+const signedOut = { user: null, tokens: null, isAuthenticated: false };
+
+const signIn = () => {
+  writeSession({ user, tokens });
+  useAuthStore.getState().initializeAuth();
+};
+
+const refreshRejected = () =>
+  new AxiosError('Request failed with status code 401', 'ERR_BAD_REQUEST', undefined, null, {
+    status: 401,
+    statusText: 'Unauthorized',
+    data: { detail: 'Token is invalid or expired' },
+    headers: {},
+    config: { headers: new AxiosHeaders() },
+  });
+
+const openTabs: BroadcastChannel[] = [];
+
+/** A channel standing in for another open tab */
+const otherTab = () => {
+  const tab = new BroadcastChannel(AUTH_SYNC_CHANNEL);
+  openTabs.push(tab);
+  return tab;
+};
+
+const messagesIn = (tab: BroadcastChannel) => {
+  const messages: unknown[] = [];
+  tab.addEventListener('message', event => messages.push((event as MessageEvent).data));
+  return messages;
+};
+
+describe('Auth Store', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    sessionStorage.clear();
+    setAuthStorageBackend('local');
+    clearSession();
+    useAuthStore.setState({ ...signedOut, isLoading: false, error: null });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    openTabs.splice(0).forEach(tab => tab.close());
+  });
+
+  describe('Session Persistence', () => {
+    it('should persist the session on login', async () => {
+      vi.mocked(authApi.login).mockResolvedValue({ user, tokens });
+
+      await useAuthStore.getState().login({ email: user.email, password: 'Secreta123' });
+
+      expect(useAuthStore.getState()).toMatchObject({ user, tokens, isAuthenticated: true });
+      expect(readSession()).toEqual({ user, tokens });
+      expect(localStorage.getItem(AUTH_STORAGE_KEY)).not.toBeNull();
+      expect(isSessionRemembered()).toBe(true);
+    });
+
+    it('should keep the session only for the browser session when not remembered', async () => {
+      vi.mocked(authApi.login).mockResolvedValue({ user, tokens });
+
+      await useAuthStore.getState().login({ email: user.email, password: 'Secreta123', remember: false });
+
+      expect(authApi.login).toHaveBeenCalledWith({ email: user.email, password: 'Secreta123' });
+      expect(localStorage.getItem(AUTH_STORAGE_KEY)).toBeNull();
+      expect(sessionStorage.getItem(AUTH_STORAGE_KEY)).not.toBeNull();
+      expect(isSessionRemembered()).toBe(false);
+    });
+
+    it('should keep renewed tokens in the session backend of a session not remembered', async () => {
+      vi.mocked(authApi.login).mockResolvedValue({ user, tokens });
+      await useAuthStore.getState().login({ email: user.email, password: 'Secreta123', remember: false });
+      vi.spyOn(axios, 'post').mockResolvedValue({ data: { access: 'access-2', refresh: 'refresh-2' } });
+
+      await refreshTokens();
+
+      expect(localStorage.getItem(AUTH_STORAGE_KEY)).toBeNull();
+      expect(JSON.parse(sessionStorage.getItem(AUTH_STORAGE_KEY) as string).tokens.access).toBe('access-2');
+    });
+
+    it('should restore the stored session', () => {
+      signIn();
+
+      expect(useAuthStore.getState()).toMatchObject({ user, tokens, isAuthenticated: true });
+    });
+
+    it('should restore a session saved by an earlier version', () => {
+      localStorage.setItem('ayni_tokens', JSON.stringify(tokens));
+      localStorage.setItem('ayni_user', JSON.stringify(user));
+
+      useAuthStore.getState().initializeAuth();
+
+      expect(useAuthStore.getState()).toMatchObject({ user, tokens, isAuthenticated: true });
+    });
+
+    it('should fetch the verification status missing from an older stored session', async () => {
+      const olderUser: Partial<User> = { ...user };
+      delete olderUser.email_verified;
+      writeSession({ user: olderUser as User, tokens });
+      vi.mocked(authApi.getProfile).mockResolvedValue(user);
+
+      useAuthStore.getState().initializeAuth();
+
+      expect(authApi.getProfile).toHaveBeenCalledTimes(1);
+      await vi.waitFor(() => expect(selectIsEmailVerified(useAuthStore.getState())).toBe(true));
+      expect(readSession()?.user).toEqual(user);
+    });
+
+    it('should not fetch the profile when the stored session has the verification status', () => {
+      signIn();
+
+      expect(authApi.getProfile).not.toHaveBeenCalled();
+    });
+
+    it('should store the updated profile', async () => {
+      signIn();
+      const updated = { ...user, username: 'ana.tienda' };
+      vi.mocked(authApi.updateProfile).mockResolvedValue(updated);
+
+      await useAuthStore.getState().updateProfile({ username: 'ana.tienda' });
+
+      expect(readSession()).toEqual({ user: updated, tokens });
+    });
+
+    it('should show a profile change before the server confirms it', async () => {
+      signIn();
+      let confirm: (user: User) => void = () => {};
+      vi.mocked(authApi.updateProfile).mockReturnValue(new Promise(resolve => (confirm = resolve)));
+
+      const saving = useAuthStore.getState().updateProfile({ email: 'ana@tienda.cl' });
+
+      expect(useAuthStore.getState().user).toMatchObject({ email: 'ana@tienda.cl', email_verified: false });
+      expect(readSession()?.user).toEqual(user);
+      confirm({ ...user, email: 'ana@tienda.cl', email_verified: false });
+      await saving;
+      expect(readSession()?.user?.email).toBe('ana@tienda.cl');
+    });
+
+    it('should roll back a profile change the server rejects', async () => {
+      signIn();
+      vi.mocked(authApi.updateProfile).mockRejectedValue(new Error('Username taken'));
+
+      await expect(useAuthStore.getState().updateProfile({ username: 'tomado' })).rejects.toThrow();
+
+      expect(useAuthStore.getState().user).toEqual(user);
+      expect(useAuthStore.getState().error).toEqual({ message: 'Username taken' });
+    });
+
+    it('should not send read-only profile fields', async () => {
+      signIn();
+      vi.mocked(authApi.updateProfile).mockResolvedValue(user);
+
+      await useAuthStore.getState().updateProfile({ ...user, is_staff: true, username: 'ana' } as User);
+
+      expect(authApi.updateProfile).toHaveBeenCalledWith({ username: 'ana', email: user.email });
+      expect(useAuthStore.getState().user?.is_staff).toBe(false);
+    });
+
+    it('should store the profile fetched again after verifying the email', async () => {
+      signIn();
+      const verified = { ...user, email_verified: true };
+      vi.mocked(authApi.getProfile).mockResolvedValue(verified);
+
+      await useAuthStore.getState().refreshProfile();
+
+      expect(useAuthStore.getState().user).toEqual(verified);
+      expect(readSession()).toEqual({ user: verified, tokens });
+    });
+  });
+
+  describe('Logout Paths', () => {
+    it('should clear state and storage after logging out', async () => {
+      signIn();
+      vi.mocked(authApi.logout).mockResolvedValue();
+
+      await useAuthStore.getState().logout();
+
+      expect(authApi.logout).toHaveBeenCalledWith('refresh-1');
+      expect(useAuthStore.getState()).toMatchObject(signedOut);
+      expect(readSession()).toBeNull();
+    });
+
+    it('should clear state and storage even when the logout request fails', async () => {
+      signIn();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(authApi.logout).mockRejectedValue(new Error('Network Error'));
+
+      await useAuthStore.getState().logout();
+
+      expect(useAuthStore.getState()).toMatchObject(signedOut);
+      expect(readSession()).toBeNull();
+    });
+
+    it('should not call the API when there is no refresh token', async () => {
+      await useAuthStore.getState().logout();
+
+      expect(authApi.logout).not.toHaveBeenCalled();
+      expect(useAuthStore.getState()).toMatchObject(signedOut);
+    });
+  });
+
+  describe('Refresh Failure Paths', () => {
+    it('should sign out when the refresh token is rejected', async () => {
+      signIn();
+      vi.spyOn(axios, 'post').mockRejectedValue(refreshRejected());
+
+      await expect(refreshTokens()).rejects.toThrow();
+
+      expect(useAuthStore.getState()).toMatchObject(signedOut);
+      expect(readSession()).toBeNull();
+    });
+
+    it('should sign out when the refresh token has expired', async () => {
+      const expired = `x.${btoa(JSON.stringify({ exp: 1 }))}.y`;
+      writeSession({ user, tokens: { access: 'access-1', refresh: expired } });
+      useAuthStore.getState().initializeAuth();
+      const post = vi.spyOn(axios, 'post');
+
+      await expect(refreshTokens()).rejects.toThrow('Session expired');
+
+      expect(post).not.toHaveBeenCalled();
+      expect(useAuthStore.getState()).toMatchObject(signedOut);
+      expect(readSession()).toBeNull();
+    });
+
+    it('should stay signed in when the refresh cannot reach the server', async () => {
+      signIn();
+      vi.spyOn(axios, 'post').mockRejectedValue(new AxiosError('Network Error', 'ERR_NETWORK'));
+
+      await expect(refreshTokens()).rejects.toThrow('Network Error');
+
+      expect(useAuthStore.getState()).toMatchObject({ user, tokens, isAuthenticated: true });
+      expect(readSession()).toEqual({ user, tokens });
+    });
+
+    it('should keep storage and state in agreement after a successful refresh', async () => {
+      signIn();
+      const renewed = { access: 'access-2', refresh: 'refresh-2' };
+      vi.spyOn(axios, 'post').mockResolvedValue({ data: renewed });
+
+      await refreshTokens();
+
+      expect(useAuthStore.getState().tokens).toEqual(renewed);
+      expect(readSession()).toEqual({ user, tokens: renewed });
+    });
+  });
+
+  describe('Cross-tab Sync', () => {
+    it('should tell the other tabs about a login', async () => {
+      const messages = messagesIn(otherTab());
+      vi.mocked(authApi.login).mockResolvedValue({ user, tokens });
+
+      await useAuthStore.getState().login({ email: user.email, password: 'Secreta123', remember: false });
+
+      await vi.waitFor(() =>
+        expect(messages).toEqual([{ type: 'login', user, tokens, remember: false }])
+      );
+    });
+
+    it('should sign in when another tab logs in', async () => {
+      otherTab().postMessage({ type: 'login', user, tokens, remember: false });
+
+      await vi.waitFor(() =>
+        expect(useAuthStore.getState()).toMatchObject({ user, tokens, isAuthenticated: true })
+      );
+      expect(sessionStorage.getItem(AUTH_STORAGE_KEY)).not.toBeNull();
+      expect(isSessionRemembered()).toBe(false);
+    });
+
+    it('should sign out when another tab logs out', async () => {
+      signIn();
+
+      otherTab().postMessage({ type: 'logout' });
+
+      await vi.waitFor(() => expect(useAuthStore.getState()).toMatchObject(signedOut));
+      expect(readSession()).toBeNull();
+    });
+
+    it('should tell the other tabs when a refresh ends the session', async () => {
+      signIn();
+      const messages = messagesIn(otherTab());
+      vi.spyOn(axios, 'post').mockRejectedValue(refreshRejected());
+
+      await expect(refreshTokens()).rejects.toThrow();
+
+      await vi.waitFor(() => expect(messages).toEqual([{ type: 'logout' }]));
+    });
+
+    it('should adopt tokens renewed in another tab without sending them back', async () => {
+      signIn();
+      const renewed = { access: 'access-2', refresh: 'refresh-2' };
+      const messages = messagesIn(otherTab());
+
+      otherTab().postMessage({ type: 'tokens', tokens: renewed });
+
+      await vi.waitFor(() => expect(useAuthStore.getState().tokens).toEqual(renewed));
+      expect(readSession()).toEqual({ user, tokens: renewed });
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(messages).toEqual([{ type: 'tokens', tokens: renewed }]);
+    });
+
+    it('should ignore renewed tokens while signed out', async () => {
+      const tab = otherTab();
+      const messages = messagesIn(otherTab());
+
+      tab.postMessage({ type: 'tokens', tokens });
+
+      await vi.waitFor(() => expect(messages).toHaveLength(1));
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(useAuthStore.getState()).toMatchObject(signedOut);
+      expect(readSession()).toBeNull();
+    });
+
+    it('should apply a profile updated in another tab', async () => {
+      signIn();
+      const updated = { ...user, username: 'ana.tienda' };
+
+      otherTab().postMessage({ type: 'profile', user: updated });
+
+      await vi.waitFor(() => expect(useAuthStore.getState().user).toEqual(updated));
+      expect(readSession()).toEqual({ user: updated, tokens });
+    });
+  });
+});
@@ -4,189 +4,326 @@
  */
 
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
 import type {
   AuthState,
   LoginRequest,
   RegisterRequest,
   ChangePasswordRequest,
-  User,
-  AuthTokens,
+  ProfileUpdateRequest,
 } from '@/types/auth';
 import * as authApi from '@/lib/api/auth';
+import {
+  clearTokens,
+  scheduleTokenRefresh,
+  setTokens,
+  subscribeToTokens,
+} from '@/lib/api/tokenManager';
+import {
+  isSessionRemembered,
+  readSession,
+  setAuthStorageBackend,
+  updateSession,
+} from '@/lib/authStorage';
+import { broadcastAuthChange, subscribeToAuthChanges, type AuthSyncMessage } from '@/lib/authSync';
 
 interface AuthActions {
   login: (data: LoginRequest) => Promise<void>;
   register: (data: RegisterRequest) => Promise<void>;
   logout: () => Promise<void>;
   changePassword: (data: ChangePasswordRequest) => Promise<void>;
-  updateProfile: (data: Partial<User>) => Promise<void>;
+  updateProfile: (data: ProfileUpdateRequest) => Promise<void>;
+  refreshProfile: () => Promise<void>;
   clearError: () => void;
   initializeAuth: () => void;
 }
 
 type AuthStore = AuthState & AuthActions;
 
+/**
+ * Whether the signed-in user has confirmed their email; uploads stay
+ * locked until they have
+ */
+export const selectIsEmailVerified = (state: AuthState): boolean =>
+  state.user?.email_verified === true;
+
+/**
+ * Whether the user comes from a session stored before email verification
+ * existed, so their verification status is not known until the profile
+ * is fetched again
+ */
+export const selectIsEmailVerificationUnknown = (state: AuthState): boolean =>
+  state.user !== null && typeof state.user.email_verified !== 'boolean';
+
+/**
+ * Auth state for the session kept in auth storage, or signed out
+ */
+function sessionState(): Pick<AuthState, 'user' | 'tokens' | 'isAuthenticated'> {
+  const session = readSession();
+  if (session?.user && session.tokens) {
+    return { user: session.user, tokens: session.tokens, isAuthenticated: true };
+  }
+  return { user: null, tokens: null, isAuthenticated: false };
+}
+
 export const useAuthStore = create<AuthStore>()(
-  persist(
-    (set, get) => ({
-      // Initial state
-      user: null,
-      tokens: null,
-      isAuthenticated: false,
-      isLoading: false,
-      error: null,
-
-      // Actions
-      login: async (data: LoginRequest) => {
-        set({ isLoading: true, error: null });
-        try {
-          const response = await authApi.login(data);
-
-          // Store tokens and user
-          localStorage.setItem('ayni_tokens', JSON.stringify(response.tokens));
-          localStorage.setItem('ayni_user', JSON.stringify(response.user));
-
-          set({
-            user: response.user,
-            tokens: response.tokens,
-            isAuthenticated: true,
-            isLoading: false,
-            error: null,
-          });
-        } catch (error) {
-          const message = authApi.extractErrorMessage(error);
-          set({
-            isLoading: false,
-            error: { message },
-          });
-          throw error;
-        }
-      },
-
-      register: async (data: RegisterRequest) => {
-        set({ isLoading: true, error: null });
-        try {
-          const response = await authApi.register(data);
-
-          // Store tokens and user
-          localStorage.setItem('ayni_tokens', JSON.stringify(response.tokens));
-          localStorage.setItem('ayni_user', JSON.stringify(response.user));
-
-          set({
-            user: response.user,
-            tokens: response.tokens,
-            isAuthenticated: true,
-            isLoading: false,
-            error: null,
-          });
-        } catch (error) {
-          const message = authApi.extractErrorMessage(error);
-          set({
-            isLoading: false,
-            error: { message },
-          });
-          throw error;
-        }
-      },
-
-      logout: async () => {
-        const { tokens } = get();
-        set({ isLoading: true, error: null });
-
-        try {
-          if (tokens?.refresh) {
-            await authApi.logout(tokens.refresh);
-          }
-        } catch (error) {
-          // Continue with logout even if API call fails
-          console.error('Logout error:', error);
-        } finally {
-          // Clear local storage and state
-          localStorage.removeItem('ayni_tokens');
-          localStorage.removeItem('ayni_user');
-
-          set({
-            user: null,
-            tokens: null,
-            isAuthenticated: false,
-            isLoading: false,
-            error: null,
-          });
-        }
-      },
-
-      changePassword: async (data: ChangePasswordRequest) => {
-        set({ isLoading: true, error: null });
-        try {
-          await authApi.changePassword(data);
-          set({ isLoading: false, error: null });
-        } catch (error) {
-          const message = authApi.extractErrorMessage(error);
-          set({
-            isLoading: false,
-            error: { message },
-          });
-          throw error;
-        }
-      },
-
-      updateProfile: async (data: Partial<User>) => {
-        set({ isLoading: true, error: null });
-        try {
-          const updatedUser = await authApi.updateProfile(data);
-
-          // Update stored user
-          localStorage.setItem('ayni_user', JSON.stringify(updatedUser));
-
-          set({
-            user: updatedUser,
-            isLoading: false,
-            error: null,
-          });
-        } catch (error) {
-          const message = authApi.extractErrorMessage(error);
-          set({
-            isLoading: false,
-            error: { message },
-          });
-          throw error;
+  (set, get) => ({
+    // Initial state
+    ...sessionState(),
+    isLoading: false,
+    error: null,
+
+    // Actions
+    login: async ({ remember = true, ...credentials }: LoginRequest) => {
+      set({ isLoading: true, error: null });
+      try {
+        const response = await authApi.login(credentials);
+
+        // Remembered sessions survive a browser restart; others end with the tab
+        setAuthStorageBackend(remember ? 'local' : 'session');
+
+        // Store user and tokens; the token manager schedules renewal
+        updateSession({ user: response.user });
+        setTokens(response.tokens);
+
+        set({
+          user: response.user,
+          tokens: response.tokens,
+          isAuthenticated: true,
+          isLoading: false,
+          error: null,
+        });
+        broadcastAuthChange({
+          type: 'login',
+          user: response.user,
+          tokens: response.tokens,
+          remember: isSessionRemembered(),
+        });
+      } catch (error) {
+        set({
+          isLoading: false,
+          error: authApi.summarizeApiError(error),
+        });
+        throw error;
+      }
+    },
+
+    register: async (data: RegisterRequest) => {
+      set({ isLoading: true, error: null });
+      try {
+        const response = await authApi.register(data);
+
+        setAuthStorageBackend('local');
+
+        // Store user and tokens; the token manager schedules renewal
+        updateSession({ user: response.user });
+        setTokens(response.tokens);
+
+        set({
+          user: response.user,
+          tokens: response.tokens,
+          isAuthenticated: true,
+          isLoading: false,
+          error: null,
+        });
+        broadcastAuthChange({
+          type: 'login',
+          user: response.user,
+          tokens: response.tokens,
+          remember: isSessionRemembered(),
+        });
+      } catch (error) {
+        set({
+          isLoading: false,
+          error: authApi.summarizeApiError(error),
+        });
+        throw error;
+      }
+    },
+
+    logout: async () => {
+      const { tokens } = get();
+      set({ isLoading: true, error: null });
+
+      try {
+        if (tokens?.refresh) {
+          await authApi.logout(tokens.refresh);
         }
-      },
-
-      clearError: () => {
-        set({ error: null });
-      },
-
-      initializeAuth: () => {
-        try {
-          const tokensStr = localStorage.getItem('ayni_tokens');
-          const userStr = localStorage.getItem('ayni_user');
-
-          if (tokensStr && userStr) {
-            const tokens = JSON.parse(tokensStr) as AuthTokens;
-            const user = JSON.parse(userStr) as User;
-
-            set({
-              user,
-              tokens,
-              isAuthenticated: true,
-            });
-          }
-        } catch (error) {
-          console.error('Failed to initialize auth:', error);
-          localStorage.removeItem('ayni_tokens');
-          localStorage.removeItem('ayni_user');
+      } catch (error) {
+        // Continue with logout even if API call fails
+        console.error('Logout error:', error);
+      } finally {
+        // Clear stored session and state
+        clearTokens();
+
+        set({
+          user: null,
+          tokens: null,
+          isAuthenticated: false,
+          isLoading: false,
+          error: null,
+        });
+      }
+    },
+
+    changePassword: async (data: ChangePasswordRequest) => {
+      set({ isLoading: true, error: null });
+      try {
+        await authApi.changePassword(data);
+        set({ isLoading: false, error: null });
+      } catch (error) {
+        set({
+          isLoading: false,
+          error: authApi.summarizeApiError(error),
+        });
+        throw error;
+      }
+    },
+
+    updateProfile: async (data: ProfileUpdateRequest) => {
+      const previousUser = get().user;
+      const changes = authApi.pickProfileChanges(data);
+
+      // Show the change right away; a changed email needs verifying again
+      set({
+        user: previousUser && {
+          ...previousUser,
+          ...changes,
+          ...(changes.email && changes.email !== previousUser.email && { email_verified: false }),
+        },
+        isLoading: true,
+        error: null,
+      });
+      try {
+        const updatedUser = await authApi.updateProfile(changes);
+
+        // Update stored user
+        updateSession({ user: updatedUser });
+
+        set({
+          user: updatedUser,
+          isLoading: false,
+          error: null,
+        });
+        broadcastAuthChange({ type: 'profile', user: updatedUser });
+      } catch (error) {
+        // Roll back the optimistic change
+        set({
+          user: previousUser,
+          isLoading: false,
+          error: authApi.summarizeApiError(error),
+        });
+        throw error;
+      }
+    },
+
+    refreshProfile: async () => {
+      set({ isLoading: true, error: null });
+      try {
+        const user = await authApi.getProfile();
+
+        updateSession({ user });
+
+        set({
+          user,
+          isLoading: false,
+          error: null,
+        });
+        broadcastAuthChange({ type: 'profile', user });
+      } catch (error) {
+        set({
+          isLoading: false,
+          error: authApi.summarizeApiError(error),
+        });
+        throw error;
+      }
+    },
+
+    clearError: () => {
+      set({ error: null });
+    },
+
+    initializeAuth: () => {
+      const state = sessionState();
+      set(state);
+      if (state.isAuthenticated) {
+        scheduleTokenRefresh();
+        completeRestoredProfile();
+      }
+    },
+  })
+);
+
+/**
+ * Fetch the profile of a restored session that lacks the email verification
+ * status, so verified users are not sent to the check-your-email screen
+ */
+function completeRestoredProfile(): void {
+  if (!selectIsEmailVerificationUnknown(useAuthStore.getState())) return;
+  useAuthStore.getState().refreshProfile().catch(() => {
+    // Unverified is assumed; the check-your-email screen can refresh again
+  });
+}
+
+if (useAuthStore.getState().isAuthenticated) {
+  scheduleTokenRefresh();
+  completeRestoredProfile();
+}
+
+// True while applying a change received from another tab, so it is not sent back
+let applyingRemoteChange = false;
+
+// Tokens are renewed or cleared outside the store (by the API client's
+// refresh), so mirror every change to keep state and storage in agreement,
+// and pass renewals and sign-outs on to the other tabs
+subscribeToTokens((tokens) => {
+  const { tokens: previous } = useAuthStore.getState();
+  if (tokens) {
+    useAuthStore.setState({ tokens });
+  } else if (previous) {
+    useAuthStore.setState({ user: null, tokens: null, isAuthenticated: false });
+  }
+
+  // Tokens stored while signing in are announced by the login message instead
+  if (applyingRemoteChange || !previous) return;
+  broadcastAuthChange(tokens ? { type: 'tokens', tokens } : { type: 'logout' });
+});
+
+/**
+ * Apply an auth change made in another tab to this tab's storage and state
+ */
+function applyRemoteChange(message: AuthSyncMessage): void {
+  const { isAuthenticated } = useAuthStore.getState();
+  applyingRemoteChange = true;
+  try {
+    switch (message.type) {
+      case 'login':
+        // sessionStorage is per tab, so a session not remembered is copied here too
+        setAuthStorageBackend(message.remember ? 'local' : 'session');
+        updateSession({ user: message.user });
+        setTokens(message.tokens);
+        useAuthStore.setState({
+          user: message.user,
+          tokens: message.tokens,
+          isAuthenticated: true,
+          error: null,
+        });
+        break;
+      case 'logout':
+        clearTokens();
+        break;
+      case 'tokens':
+        if (isAuthenticated) setTokens(message.tokens);
+        break;
+      case 'profile':
+        if (isAuthenticated) {
+          updateSession({ user: message.user });
+          useAuthStore.setState({ user: message.user });
         }
-      },
-    }),
-    {
-      name: 'ayni-auth-storage',
-      partialize: (state) => ({
-        user: state.user,
-        tokens: state.tokens,
-        isAuthenticated: state.isAuthenticated,
-      }),
+        break;
     }
-  )
-);
+  } finally {
+    applyingRemoteChange = false;
+  }
+}
+
+subscribeToAuthChanges(applyRemoteChange);
@@ -0,0 +1,42 @@
+/**
+ * Test Suite for the Currency Store
+ * Covers the remembered currency view
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { useCurrencyStore } from './currencyStore';
+
+const STORAGE_KEY = 'ayni-currency-view';
+
+describe('Currency Store', () => {
+  afterEach(() => {
+    useCurrencyStore.setState({ view: 'nominal' });
+    localStorage.clear();
+  });
+
+  it('should default to nominal pesos', () => {
+    expect(useCurrencyStore.getState().view).toBe('nominal');
+  });
+
+  it('should remember the chosen view', () => {
+    useCurrencyStore.getState().setView('uf');
+
+    expect(useCurrencyStore.getState().view).toBe('uf');
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}').state).toEqual({ view: 'uf' });
+  });
+
+  it('should restore a saved view', async () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ state: { view: 'real' }, version: 0 }));
+
+    await useCurrencyStore.persist.rehydrate();
+
+    expect(useCurrencyStore.getState().view).toBe('real');
+  });
+
+  it('should ignore an unknown saved view', async () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ state: { view: 'usd' }, version: 0 }));
+
+    await useCurrencyStore.persist.rehydrate();
+
+    expect(useCurrencyStore.getState().view).toBe('nominal');
+  });
+});
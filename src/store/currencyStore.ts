@@ -0,0 +1,40 @@
+/**
+ * Currency Store
+ * How revenue is shown across charts and tables, remembered in this browser
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { CURRENCY_VIEWS, type CurrencyView } from '@/types/currency';
+
+interface CurrencyState {
+  view: CurrencyView;
+}
+
+interface CurrencyActions {
+  setView: (view: CurrencyView) => void;
+}
+
+type CurrencyStore = CurrencyState & CurrencyActions;
+
+export const useCurrencyStore = create<CurrencyStore>()(
+  persist(
+    (set) => ({
+      view: 'nominal',
+
+      setView: (view: CurrencyView) => {
+        set({ view });
+      },
+    }),
+    {
+      name: 'ayni-currency-view',
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ view: state.view }),
+      // A view dropped in a later version falls back to nominal pesos
+      merge: (persisted, current) => {
+        const view = (persisted as Partial<CurrencyState> | undefined)?.view;
+        return CURRENCY_VIEWS.includes(view as CurrencyView) ? { ...current, view: view as CurrencyView } : current;
+      },
+    }
+  )
+);
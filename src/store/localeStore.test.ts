@@ -0,0 +1,77 @@
+/**
+ * Test Suite for the Locale Store
+ * Covers the per-user language preference and what follows the locale
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { z } from 'zod';
+import { LOCALE_STORAGE_KEY, useLocaleStore } from './localeStore';
+
+const saved = () => JSON.parse(localStorage.getItem(LOCALE_STORAGE_KEY) ?? '{}');
+
+describe('Locale Store', () => {
+  afterEach(() => {
+    useLocaleStore.setState({ locale: 'es', userId: null });
+    localStorage.clear();
+  });
+
+  it('should default to Spanish', () => {
+    expect(useLocaleStore.getState().locale).toBe('es');
+    expect(document.documentElement.lang).toBe('es');
+  });
+
+  it('should save a signed-out choice for the sign-in pages', () => {
+    useLocaleStore.getState().setLocale('en');
+
+    expect(useLocaleStore.getState().locale).toBe('en');
+    expect(saved()).toEqual({ anonymous: 'en' });
+  });
+
+  it('should save a choice for the signed-in user', () => {
+    useLocaleStore.getState().setUser(7);
+    useLocaleStore.getState().setLocale('en');
+
+    expect(saved()).toEqual({ 'user:7': 'en', anonymous: 'en' });
+  });
+
+  it('should switch to the language a user saved when they sign in', () => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, JSON.stringify({ 'user:7': 'en', anonymous: 'es' }));
+
+    useLocaleStore.getState().setUser(7);
+    expect(useLocaleStore.getState().locale).toBe('en');
+
+    // Signing out keeps the current language
+    useLocaleStore.getState().setUser(null);
+    expect(useLocaleStore.getState().locale).toBe('en');
+  });
+
+  it('should keep the current language for a user who never chose one', () => {
+    useLocaleStore.getState().setLocale('en');
+    useLocaleStore.getState().setUser(8);
+
+    expect(useLocaleStore.getState().locale).toBe('en');
+  });
+
+  it('should ignore unreadable saved choices', () => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, JSON.stringify({ 'user:7': 'klingon' }));
+    useLocaleStore.getState().setUser(7);
+    expect(useLocaleStore.getState().locale).toBe('es');
+
+    localStorage.setItem(LOCALE_STORAGE_KEY, '{not json');
+    useLocaleStore.getState().setUser(9);
+    expect(useLocaleStore.getState().locale).toBe('es');
+  });
+
+  it('should word zod messages and set the page language in the current locale', () => {
+    useLocaleStore.getState().setLocale('en');
+
+    const result = z.string().email().safeParse('ana');
+    expect(result.success ? null : result.error.issues[0].message).toBe('Invalid email format');
+    expect(document.documentElement.lang).toBe('en');
+
+    useLocaleStore.getState().setLocale('es');
+    const spanish = z.string().email().safeParse('ana');
+    expect(spanish.success ? null : spanish.error.issues[0].message).toBe(
+      'Formato de correo electrónico inválido'
+    );
+  });
+});
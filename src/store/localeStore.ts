@@ -0,0 +1,89 @@
+/**
+ * Locale Store
+ * The interface language, remembered per user in this browser
+ */
+
+import { create } from 'zustand';
+import { z } from 'zod';
+import { DEFAULT_LOCALE, isLocale, type Locale } from '@/lib/i18n/translate';
+import { createZodErrorMap } from '@/lib/i18n/zodErrorMap';
+
+export const LOCALE_STORAGE_KEY = 'ayni_locale';
+
+/** Owner of the choice made while signed out, used on the sign-in pages */
+const ANONYMOUS_OWNER = 'anonymous';
+
+function ownerOf(userId: number | null): string {
+  return userId === null ? ANONYMOUS_OWNER : `user:${userId}`;
+}
+
+/**
+ * The saved choices by owner. Unreadable storage counts as nothing saved,
+ * and unknown locales are dropped.
+ */
+function readSavedLocales(): Record<string, Locale> {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(LOCALE_STORAGE_KEY) ?? '{}');
+    if (typeof parsed !== 'object' || parsed === null) return {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter((entry): entry is [string, Locale] => isLocale(entry[1]))
+    );
+  } catch {
+    return {};
+  }
+}
+
+function saveLocale(owner: string, locale: Locale): void {
+  try {
+    localStorage.setItem(
+      LOCALE_STORAGE_KEY,
+      JSON.stringify({ ...readSavedLocales(), [owner]: locale })
+    );
+  } catch {
+    // The choice still applies until the page is closed
+  }
+}
+
+interface LocaleState {
+  locale: Locale;
+  /** Whose choice `setLocale` saves: a user id, or null while signed out */
+  userId: number | null;
+}
+
+interface LocaleActions {
+  setLocale: (locale: Locale) => void;
+  setUser: (userId: number | null) => void;
+}
+
+type LocaleStore = LocaleState & LocaleActions;
+
+export const useLocaleStore = create<LocaleStore>()((set, get) => ({
+  locale: readSavedLocales()[ANONYMOUS_OWNER] ?? DEFAULT_LOCALE,
+  userId: null,
+
+  setLocale: (locale) => {
+    const owner = ownerOf(get().userId);
+    saveLocale(owner, locale);
+    // Signing out keeps the language the user was last seeing
+    if (owner !== ANONYMOUS_OWNER) saveLocale(ANONYMOUS_OWNER, locale);
+    set({ locale });
+  },
+
+  setUser: (userId) => {
+    // Users who never chose a language keep the one they signed in with
+    const saved = userId === null ? undefined : readSavedLocales()[ownerOf(userId)];
+    set(saved ? { userId, locale: saved } : { userId });
+  },
+}));
+
+// Zod's default messages and the page's lang attribute follow the store
+function applyLocale(locale: Locale): void {
+  z.setErrorMap(createZodErrorMap(locale));
+  document.documentElement.lang = locale;
+}
+
+applyLocale(useLocaleStore.getState().locale);
+
+useLocaleStore.subscribe((state, previous) => {
+  if (state.locale !== previous.locale) applyLocale(state.locale);
+});
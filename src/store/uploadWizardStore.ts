@@ -0,0 +1,125 @@
+/**
+ * Upload Wizard Store
+ * Step-by-step upload state, persisted per tab so a refresh keeps the mapping work
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { ColumnMapping } from '@/types/columnSchema';
+import type { CsvPreview } from '@/types/csv';
+
+export const UPLOAD_WIZARD_STEPS = ['file', 'preview', 'mapping', 'review', 'submit'] as const;
+
+export type UploadWizardStep = (typeof UPLOAD_WIZARD_STEPS)[number];
+
+export interface UploadFileMeta {
+  name: string;
+  size: number;
+  lastModified: number;
+}
+
+interface UploadWizardState {
+  step: UploadWizardStep;
+  /** The picked file; kept in memory only, since File objects cannot be persisted */
+  file: File | null;
+  fileMeta: UploadFileMeta | null;
+  preview: CsvPreview | null;
+  mappings: ColumnMapping[];
+  isMappingValid: boolean;
+}
+
+interface UploadWizardActions {
+  setFile: (file: File, preview: CsvPreview) => void;
+  reattachFile: (file: File) => boolean;
+  setMappings: (mappings: ColumnMapping[]) => void;
+  setMappingValid: (isValid: boolean) => void;
+  goToStep: (step: UploadWizardStep) => void;
+  nextStep: () => void;
+  previousStep: () => void;
+  reset: () => void;
+}
+
+type UploadWizardStore = UploadWizardState & UploadWizardActions;
+
+const initialState: UploadWizardState = {
+  step: 'file',
+  file: null,
+  fileMeta: null,
+  preview: null,
+  mappings: [],
+  isMappingValid: false,
+};
+
+function toFileMeta(file: File): UploadFileMeta {
+  return { name: file.name, size: file.size, lastModified: file.lastModified };
+}
+
+export const useUploadWizardStore = create<UploadWizardStore>()(
+  persist(
+    (set, get) => ({
+      ...initialState,
+
+      setFile: (file: File, preview: CsvPreview) => {
+        const { preview: current, mappings, isMappingValid } = get();
+        const sameHeaders =
+          current !== null && current.headers.join('\u0000') === preview.headers.join('\u0000');
+
+        set({
+          file,
+          fileMeta: toFileMeta(file),
+          preview,
+          // Keep the mapping work when the same export is picked again
+          mappings: sameHeaders ? mappings : [],
+          isMappingValid: sameHeaders ? isMappingValid : false,
+        });
+      },
+
+      reattachFile: (file: File) => {
+        const { fileMeta } = get();
+        if (!fileMeta || fileMeta.name !== file.name || fileMeta.size !== file.size) {
+          return false;
+        }
+        set({ file, fileMeta: toFileMeta(file) });
+        return true;
+      },
+
+      setMappings: (mappings: ColumnMapping[]) => {
+        set({ mappings });
+      },
+
+      setMappingValid: (isValid: boolean) => {
+        set({ isMappingValid: isValid });
+      },
+
+      goToStep: (step: UploadWizardStep) => {
+        set({ step });
+      },
+
+      nextStep: () => {
+        const index = UPLOAD_WIZARD_STEPS.indexOf(get().step);
+        const next = UPLOAD_WIZARD_STEPS[Math.min(index + 1, UPLOAD_WIZARD_STEPS.length - 1)];
+        set({ step: next });
+      },
+
+      previousStep: () => {
+        const index = UPLOAD_WIZARD_STEPS.indexOf(get().step);
+        set({ step: UPLOAD_WIZARD_STEPS[Math.max(index - 1, 0)] });
+      },
+
+      reset: () => {
+        set(initialState);
+      },
+    }),
+    {
+      name: 'ayni-upload-wizard',
+      storage: createJSONStorage(() => sessionStorage),
+      partialize: (state) => ({
+        step: state.step,
+        fileMeta: state.fileMeta,
+        preview: state.preview,
+        mappings: state.mappings,
+        isMappingValid: state.isMappingValid,
+      }),
+    }
+  )
+);
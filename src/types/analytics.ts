@@ -0,0 +1,70 @@
+/**
+ * Analytics Types
+ * Sales summaries over a date range, as returned by the analytics API
+ */
+
+/**
+ * Days from `from` to `to`, both included, as YYYY-MM-DD
+ */
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+/** Size of each point in a time series */
+export type Granularity = 'day' | 'week' | 'month';
+
+export interface SalesSummaryParams extends DateRange {
+  granularity: Granularity;
+  /** How many top products and categories to return */
+  limit?: number;
+}
+
+/*
+ * Revenue is in nominal pesos as returned by the API. Summaries converted to
+ * another currency view use `number | null` as `Amount`, null where no
+ * rate was available.
+ */
+
+export interface SalesTotals<Amount = number> {
+  /** Sum of `in_price_total` */
+  revenue: Amount;
+  /** Sum of `in_quantity` */
+  units: number;
+  /** Distinct `in_trans_id` values */
+  transactions: number;
+}
+
+/**
+ * Totals for one period of the series
+ */
+export interface SalesPoint<Amount = number> extends SalesTotals<Amount> {
+  /** First day of the period, YYYY-MM-DD */
+  date: string;
+}
+
+export interface TopProduct<Amount = number> {
+  product_id: string;
+  /** From `in_description`, when uploaded */
+  description: string | null;
+  revenue: Amount;
+  units: number;
+  /** From `in_unit_type`, when uploaded */
+  unit_type: string | null;
+}
+
+export interface TopCategory<Amount = number> {
+  category: string;
+  revenue: Amount;
+  units: number;
+}
+
+export interface SalesSummary<Amount = number> {
+  totals: SalesTotals<Amount>;
+  /** Every period in the range, oldest first, including ones without sales */
+  series: SalesPoint<Amount>[];
+  /** Highest revenue first */
+  top_products: TopProduct<Amount>[];
+  /** Highest revenue first */
+  top_categories: TopCategory<Amount>[];
+}
@@ -9,6 +9,8 @@ export interface User {
   username: string;
   is_active: boolean;
   is_staff: boolean;
+  /** False until the link sent after registration is opened */
+  email_verified: boolean;
   date_joined: string;
   last_login: string | null;
 }
@@ -26,6 +28,8 @@ export interface AuthResponse {
 export interface LoginRequest {
   email: string;
   password: string;
+  /** Keep the session after the browser closes; defaults to true */
+  remember?: boolean;
 }
 
 export interface RegisterRequest {
@@ -41,6 +45,22 @@ export interface ChangePasswordRequest {
   new_password_confirm: string;
 }
 
+/** The profile fields a user may change; the rest of `User` is read-only */
+export const EDITABLE_PROFILE_FIELDS = ['username', 'email'] as const;
+
+export type ProfileUpdateRequest = Partial<Pick<User, (typeof EDITABLE_PROFILE_FIELDS)[number]>>;
+
+export interface PasswordResetRequest {
+  email: string;
+}
+
+export interface PasswordResetConfirmRequest {
+  uid: string;
+  token: string;
+  new_password: string;
+  new_password_confirm: string;
+}
+
 export interface AuthError {
   message: string;
   field?: string;
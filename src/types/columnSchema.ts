@@ -3,9 +3,17 @@
  * Based on COLUMN_SCHEMA from ayni_core/src/core/constants.py
  */
 
+import {
+  checkColumnDtype,
+  describeDtypeProblem,
+  type ColumnSamples,
+} from '@/lib/columnValidation';
+import type { ColumnValueFormat } from './valueFormat';
+
 export interface ColumnSpec {
   optional: 0 | 1;  // 0 = REQUIRED, 1 = OPTIONAL
   inferable: 0 | 1;  // 0 = NOT inferable, 1 = INFERABLE
+  /** As defined by the backend; the UI shows the translated `column.<name>` message */
   description: string;
   dtype: 'datetime64[ns]' | 'object' | 'float64';
 }
@@ -35,6 +43,8 @@ export type SystemColumn =
 export interface ColumnMapping {
   csvColumn: string;
   systemColumn: SystemColumn | null;
+  /** How numbers/dates in this column are written; sent to the backend with the mapping */
+  format?: ColumnValueFormat;
 }
 
 export interface ColumnMappingState {
@@ -179,13 +189,59 @@ export function getInferableColumns(): SystemColumn[] {
     .map(([col, _]) => col as SystemColumn);
 }
 
-/**
- * Check if all required columns are mapped
- */
-export function validateMappings(mappings: ColumnMapping[]): {
+export interface MappingWarning {
+  csvColumn: string;
+  systemColumn: SystemColumn;
+  dtype: ColumnSpec['dtype'];
+  checked: number;
+  invalidCount: number;
+  invalidExamples: string[];
+  message: string;
+}
+
+export interface MappingValidation {
   valid: boolean;
   missingRequired: SystemColumn[];
-} {
+  warnings: MappingWarning[];
+}
+
+/**
+ * Check the sample values of each mapped column against its dtype
+ */
+export function getDtypeWarnings(
+  mappings: ColumnMapping[],
+  samples: ColumnSamples
+): MappingWarning[] {
+  const warnings: MappingWarning[] = [];
+
+  for (const { csvColumn, systemColumn, format } of mappings) {
+    if (systemColumn === null || !(csvColumn in samples)) continue;
+
+    const { dtype } = COLUMN_SCHEMA[systemColumn];
+    const result = checkColumnDtype(dtype, samples[csvColumn], format);
+    if (result.invalidCount > 0) {
+      warnings.push({
+        csvColumn,
+        systemColumn,
+        dtype,
+        ...result,
+        message: describeDtypeProblem(csvColumn, dtype, result)
+      });
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Check if all required columns are mapped, and - when sample values are
+ * given - whether mapped values parse as their column's dtype.
+ * Dtype problems are reported as warnings and do not affect `valid`.
+ */
+export function validateMappings(
+  mappings: ColumnMapping[],
+  samples?: ColumnSamples
+): MappingValidation {
   const requiredColumns = getRequiredColumns();
   const mappedSystemColumns = mappings
     .filter(m => m.systemColumn !== null)
@@ -197,6 +253,7 @@ export function validateMappings(mappings: ColumnMapping[]): {
 
   return {
     valid: missingRequired.length === 0,
-    missingRequired
+    missingRequired,
+    warnings: samples ? getDtypeWarnings(mappings, samples) : []
   };
 }
@@ -0,0 +1,42 @@
+/**
+ * CSV Types
+ * Type definitions for client-side CSV/TSV file parsing
+ */
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'windows-1252';
+
+export interface CsvParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rowsRead: number;
+}
+
+export interface CsvParseOptions {
+  /** Number of data rows (after the header) to keep as a sample */
+  sampleSize?: number;
+  /** Bytes read from the file per step */
+  chunkSize?: number;
+  /** Skip delimiter sniffing and use this delimiter */
+  delimiter?: CsvDelimiter;
+  /** Skip encoding detection and decode with this encoding */
+  encoding?: CsvEncoding;
+  /** Keep reading past the sample to count every data row */
+  countRows?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (progress: CsvParseProgress) => void;
+}
+
+export interface CsvPreview {
+  headers: string[];
+  rows: string[][];
+  delimiter: CsvDelimiter;
+  encoding: CsvEncoding;
+  bytesRead: number;
+  totalBytes: number;
+  /** True when the file was not read to the end */
+  truncated: boolean;
+  /** Total data rows, only known when the whole file was read */
+  totalRows: number | null;
+}
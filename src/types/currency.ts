@@ -0,0 +1,29 @@
+/**
+ * Currency Types
+ * Daily exchange rates and the ways revenue can be shown
+ */
+
+/**
+ * Value of one UF and one US dollar in pesos on a given day
+ */
+export interface DailyRate {
+  /** Calendar day, YYYY-MM-DD */
+  date: string;
+  uf: number;
+  usd: number;
+}
+
+export interface DailyRatesParams {
+  /** First day, YYYY-MM-DD */
+  from?: string;
+  /** Last day, YYYY-MM-DD */
+  to?: string;
+}
+
+/**
+ * How revenue is shown: pesos as recorded, pesos adjusted for inflation to
+ * the latest rate, or UF at the transaction date
+ */
+export const CURRENCY_VIEWS = ['nominal', 'real', 'uf'] as const;
+
+export type CurrencyView = (typeof CURRENCY_VIEWS)[number];
@@ -0,0 +1,59 @@
+/**
+ * Inference Rule Types
+ * How the backend derives inferable COLUMN_SCHEMA columns from mapped ones
+ */
+
+import type { SystemColumn } from './columnSchema';
+
+export interface InferenceRule {
+  target: SystemColumn;
+  inputs: SystemColumn[];
+  /** Human-readable formula, e.g. "in_price_total / in_quantity" */
+  formula: string;
+  /** Input values in `inputs` order; null when the result is undefined (e.g. division by zero) */
+  compute: (...values: number[]) => number | null;
+  /** Inputs must come from the CSV; a derived input would make the result meaningless */
+  mappedInputsOnly?: boolean;
+}
+
+const divide = (a: number, b: number): number | null => (b === 0 ? null : a / b);
+
+/**
+ * Inference rules, tried in order. A column may have several rules; the
+ * first one whose inputs are available wins. Inputs may themselves be
+ * inferred by an earlier rule (e.g. in_margin from an inferred in_cost_total).
+ * in_commission_total has no rule: it is only loaded when mapped.
+ */
+export const INFERENCE_RULES: InferenceRule[] = [
+  {
+    target: 'in_price_unit',
+    inputs: ['in_price_total', 'in_quantity'],
+    formula: 'in_price_total / in_quantity',
+    compute: divide,
+  },
+  {
+    target: 'in_cost_unit',
+    inputs: ['in_cost_total', 'in_quantity'],
+    formula: 'in_cost_total / in_quantity',
+    compute: divide,
+  },
+  {
+    target: 'in_cost_total',
+    inputs: ['in_cost_unit', 'in_quantity'],
+    formula: 'in_cost_unit * in_quantity',
+    compute: (costUnit, quantity) => costUnit * quantity,
+  },
+  {
+    target: 'in_discount_total',
+    inputs: ['in_price_unit', 'in_quantity', 'in_price_total'],
+    formula: 'in_price_unit * in_quantity - in_price_total',
+    compute: (priceUnit, quantity, priceTotal) => priceUnit * quantity - priceTotal,
+    mappedInputsOnly: true,
+  },
+  {
+    target: 'in_margin',
+    inputs: ['in_price_total', 'in_cost_total'],
+    formula: 'in_price_total - in_cost_total',
+    compute: (priceTotal, costTotal) => priceTotal - costTotal,
+  },
+];
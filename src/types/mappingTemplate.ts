@@ -0,0 +1,28 @@
+/**
+ * Mapping Template Types
+ * Named, reusable column mappings for recurring exports (e.g. "Bsale export")
+ */
+
+import type { ColumnMapping } from './columnSchema';
+
+export interface MappingTemplate {
+  id: string;
+  name: string;
+  /** Order-independent hash of the normalized CSV header set */
+  fingerprint: string;
+  headers: string[];
+  mappings: ColumnMapping[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateMappingTemplateRequest {
+  name: string;
+  headers: string[];
+  mappings: ColumnMapping[];
+}
+
+export interface UpdateMappingTemplateRequest {
+  name?: string;
+  mappings?: ColumnMapping[];
+}
@@ -0,0 +1,96 @@
+/**
+ * Upload Types
+ * Type definitions for CSV uploads and their processing state
+ */
+
+import type { ColumnMapping } from './columnSchema';
+
+export const UPLOAD_STATUSES = ['pending', 'processing', 'completed', 'failed'] as const;
+
+export type UploadStatus = (typeof UPLOAD_STATUSES)[number];
+
+export interface Upload {
+  id: number;
+  file_name: string;
+  file_size: number;
+  status: UploadStatus;
+  row_count: number | null;
+  /** Rows rejected during processing */
+  rejected_rows: number;
+  /** Name of the mapping template applied, if any */
+  template_name: string | null;
+  created_at: string;
+}
+
+export interface UploadDetail extends Upload {
+  headers: string[];
+  mappings: ColumnMapping[];
+}
+
+export interface CreateUploadRequest {
+  file: File;
+  mappings: ColumnMapping[];
+  /** Mapping template the mappings came from */
+  templateId?: string;
+}
+
+/** DRF page-number pagination query */
+export interface PageParams {
+  page?: number;
+  page_size?: number;
+}
+
+export interface UploadListParams extends PageParams {
+  status?: UploadStatus;
+  /** Matches the file name */
+  search?: string;
+}
+
+/** DRF page-number pagination envelope */
+export interface PaginatedResponse<T> {
+  count: number;
+  next: string | null;
+  previous: string | null;
+  results: T[];
+}
+
+/** Why a CSV row was rejected during processing */
+export interface RowRejection {
+  row_number: number;
+  column: string | null;
+  value: string | null;
+  reason: string;
+}
+
+/** Server-side state of a chunked upload; `offset` is the number of bytes received */
+export interface UploadSession {
+  id: string;
+  file_name: string;
+  file_size: number;
+  chunk_size: number;
+  offset: number;
+}
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+export type ProcessingStage =
+  | 'queued'
+  | 'validating'
+  | 'inferring'
+  | 'aggregating'
+  | 'completed'
+  | 'failed';
+
+/** Backend processing progress of a submitted upload */
+export interface UploadProcessingStatus {
+  upload_id: number;
+  stage: ProcessingStage;
+  rows_processed: number;
+  rows_total: number | null;
+  /** Rows rejected so far (bad dates, non-numeric amounts, ...) */
+  error_rows: number;
+  message?: string;
+}
@@ -0,0 +1,29 @@
+/**
+ * Value Format Types
+ * Number and date formats attached to column mappings so the backend
+ * parses values the same way the browser previewed them
+ */
+
+/**
+ * Number formats by locale:
+ * - 'es-CL': 1.234.567,89 (dot thousands, comma decimal)
+ * - 'en-US': 1,234,567.89 (comma thousands, dot decimal)
+ */
+export type NumberFormatId = 'es-CL' | 'en-US';
+
+/**
+ * Date formats as strptime patterns, understood directly by pandas
+ */
+export type DateFormatId =
+  | '%Y-%m-%d'
+  | '%d-%m-%Y'
+  | '%d/%m/%Y'
+  | '%d.%m.%Y'
+  | '%d-%m-%y'
+  | '%d/%m/%y'
+  | '%m/%d/%Y';
+
+export interface ColumnValueFormat {
+  number?: NumberFormatId;
+  date?: DateFormatId;
+}